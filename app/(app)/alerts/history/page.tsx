@@ -0,0 +1,305 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { SectionErrorBoundary } from "@/components/ErrorBoundary";
+import { API_ENDPOINTS } from "@/lib/constants";
+import type { AlertHistoryEntry, AlertSeverity, AlertTransition } from "@/lib/types";
+import {
+  ArrowLeft,
+  Bell,
+  CheckCircle,
+  Clock,
+  RefreshCw,
+  ShieldCheck,
+  Timer,
+} from "lucide-react";
+
+type ResponseStats = {
+  fired: number;
+  acknowledged: number;
+  resolved: number;
+  mttaSeconds: number | null;
+  mttrSeconds: number | null;
+};
+
+type HistoryPage = {
+  entries: AlertHistoryEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+  stats: ResponseStats & { byNode: Record<string, ResponseStats> };
+};
+
+const inputClass =
+  "rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100";
+
+const TRANSITION_STYLES: Record<AlertTransition, { label: string; dot: string }> = {
+  fired: { label: "Fired", dot: "bg-red-500" },
+  acknowledged: { label: "Acknowledged", dot: "bg-yellow-500" },
+  resolved: { label: "Resolved", dot: "bg-green-500" },
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const AlertHistoryPage: React.FC = () => {
+  const router = useRouter();
+  const [history, setHistory] = useState<HistoryPage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<{
+    node: string;
+    severity: AlertSeverity | "";
+    transition: AlertTransition | "";
+    from: string;
+    to: string;
+  }>({ node: "", severity: "", transition: "", from: "", to: "" });
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ page: String(page), pageSize: "50" });
+      if (filters.node) params.set("node", filters.node);
+      if (filters.severity) params.set("severity", filters.severity);
+      if (filters.transition) params.set("transition", filters.transition);
+      if (filters.from) params.set("from", new Date(filters.from).toISOString());
+      if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const response = await fetch(`${API_ENDPOINTS.ALERT_HISTORY}?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || "Failed to load alert history");
+      }
+      setHistory(data.data);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to load alert history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, filters]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const updateFilter = <K extends keyof typeof filters>(key: K, value: (typeof filters)[K]) => {
+    setFilters((previous) => ({ ...previous, [key]: value }));
+    setPage(1);
+  };
+
+  // Entries of the current page grouped into one timeline per node
+  const timelines = useMemo(() => {
+    const byNode = new Map<string, AlertHistoryEntry[]>();
+    for (const entry of history?.entries ?? []) {
+      const node = entry.node ?? "cluster";
+      byNode.set(node, [...(byNode.get(node) ?? []), entry]);
+    }
+    return [...byNode.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [history]);
+
+  const pageCount = history ? Math.max(1, Math.ceil(history.total / history.pageSize)) : 1;
+  const stats = history?.stats;
+
+  return (
+    <div className="min-h-screen w-full p-6">
+      <div className="mx-auto max-w-7xl space-y-6">
+        {/* Header */}
+        <header className="flex flex-col items-start justify-between gap-3 sm:flex-row sm:items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Alert History
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Fired, acknowledged and resolved alerts with response times
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" size="sm" onClick={() => router.push("/alerts")}>
+              <Icon icon={ArrowLeft} size="sm" className="mr-2" />
+              Alerts
+            </Button>
+            <Button variant="secondary" size="sm" onClick={fetchHistory} loading={isLoading}>
+              <Icon icon={RefreshCw} size="sm" className="mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </header>
+
+        {/* Statistics */}
+        <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          {[
+            { title: "Fired", value: stats?.fired ?? 0, icon: Bell, color: "text-red-600 dark:text-red-400" },
+            { title: "Acknowledged", value: stats?.acknowledged ?? 0, icon: CheckCircle, color: "text-yellow-600 dark:text-yellow-400" },
+            { title: "Resolved", value: stats?.resolved ?? 0, icon: ShieldCheck, color: "text-green-600 dark:text-green-400" },
+            { title: "MTTA", value: formatDuration(stats?.mttaSeconds ?? null), icon: Timer, color: "text-blue-600 dark:text-blue-400" },
+            { title: "MTTR", value: formatDuration(stats?.mttrSeconds ?? null), icon: Clock, color: "text-purple-600 dark:text-purple-400" },
+          ].map((card) => (
+            <Card key={card.title}>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Icon icon={card.icon} size="sm" className={card.color} />
+                  <CardTitle>{card.title}</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+                  {card.value}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </section>
+
+        {/* Filters */}
+        <section className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            aria-label="Node"
+            placeholder="Node"
+            value={filters.node}
+            onChange={(e) => updateFilter("node", e.target.value.trim())}
+            className={inputClass}
+          />
+          <select
+            aria-label="Severity"
+            value={filters.severity}
+            onChange={(e) => updateFilter("severity", e.target.value as AlertSeverity | "")}
+            className={inputClass}
+          >
+            <option value="">All Severities</option>
+            <option value="critical">Critical</option>
+            <option value="error">Error</option>
+            <option value="warning">Warning</option>
+            <option value="info">Info</option>
+          </select>
+          <select
+            aria-label="Transition"
+            value={filters.transition}
+            onChange={(e) => updateFilter("transition", e.target.value as AlertTransition | "")}
+            className={inputClass}
+          >
+            <option value="">All Transitions</option>
+            <option value="fired">Fired</option>
+            <option value="acknowledged">Acknowledged</option>
+            <option value="resolved">Resolved</option>
+          </select>
+          <input
+            type="date"
+            aria-label="From"
+            value={filters.from}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            aria-label="To"
+            value={filters.to}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className={inputClass}
+          />
+        </section>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Per-node response times */}
+          <SectionErrorBoundary>
+            <Card>
+              <CardHeader>
+                <CardTitle>Response Times by Node</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!stats || Object.keys(stats.byNode).length === 0 ? (
+                  <div className="py-4 text-center text-gray-500 dark:text-gray-400">No alerts recorded.</div>
+                ) : (
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-1 pr-3">Node</th>
+                        <th className="py-1 pr-3">Fired</th>
+                        <th className="py-1 pr-3">MTTA</th>
+                        <th className="py-1">MTTR</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-700 dark:text-gray-300">
+                      {Object.entries(stats.byNode).sort(([a], [b]) => a.localeCompare(b)).map(([node, nodeStats]) => (
+                        <tr key={node} className="border-t border-gray-100 dark:border-gray-800">
+                          <td className="py-1 pr-3 font-medium">{node}</td>
+                          <td className="py-1 pr-3">{nodeStats.fired}</td>
+                          <td className="py-1 pr-3">{formatDuration(nodeStats.mttaSeconds)}</td>
+                          <td className="py-1">{formatDuration(nodeStats.mttrSeconds)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </SectionErrorBoundary>
+
+          {/* Timeline */}
+          <SectionErrorBoundary>
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Timeline ({history?.total ?? 0})</CardTitle>
+                  <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                    <Button variant="secondary" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                      Previous
+                    </Button>
+                    Page {page} of {pageCount}
+                    <Button variant="secondary" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {isLoading && !history ? (
+                  <div className="py-4 text-center text-gray-500 dark:text-gray-400">Loading history...</div>
+                ) : timelines.length === 0 ? (
+                  <div className="py-4 text-center text-gray-500 dark:text-gray-400">No history entries found.</div>
+                ) : (
+                  timelines.map(([node, entries]) => (
+                    <div key={node}>
+                      <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">{node}</h4>
+                      <ol className="relative space-y-3 border-l border-gray-200 pl-4 dark:border-gray-700">
+                        {entries.map((entry) => (
+                          <li key={entry.id} className="relative">
+                            <span className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${TRANSITION_STYLES[entry.transition].dot}`} />
+                            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                              <span className="font-medium text-gray-700 dark:text-gray-300">
+                                {TRANSITION_STYLES[entry.transition].label}
+                              </span>
+                              <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                              <span>by {entry.actor}</span>
+                              {entry.vmid && <span>VM {entry.vmid}</span>}
+                              <span className="uppercase">{entry.severity}</span>
+                            </div>
+                            <p className="text-sm text-gray-900 dark:text-gray-100">{entry.message}</p>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </SectionErrorBoundary>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertHistoryPage;
@@ -1,13 +1,16 @@
 "use client";
 
 import React, { useState, useMemo, useCallback, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import Button from "@/components/ui/Button";
 import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import Icon from "@/components/ui/Icon";
 import { showToast } from "@/components/ui/Toast";
 import { SectionErrorBoundary } from "@/components/ErrorBoundary";
+import AlertSilences, { formatTimeLeft } from "@/components/AlertSilences";
 import { usePerformanceMonitor } from "@/lib/utils/performance";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useConnectionContext } from "@/lib/contexts/ConnectionContext";
+import { useLiveChannel } from "@/hooks/useLiveChannel";
 import type { Alert, AlertThreshold, AlertSeverity, AlertConfig } from "@/lib/types";
 import {
   Bell,
@@ -23,6 +26,7 @@ import {
   Search,
   Clock,
   User,
+  History,
 } from "lucide-react";
 
 // Alert Badge Component
@@ -80,6 +84,8 @@ const AlertThresholdForm: React.FC<AlertThresholdFormProps> = ({ threshold, onSa
     enabled: threshold?.enabled ?? true,
     node: threshold?.node || '',
     vmid: threshold?.vmid || undefined,
+    forSeconds: threshold?.forSeconds ?? 0,
+    hysteresis: threshold?.hysteresis ?? 0,
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -101,6 +107,8 @@ const AlertThresholdForm: React.FC<AlertThresholdFormProps> = ({ threshold, onSa
       enabled: formData.enabled!,
       node: formData.node || undefined,
       vmid: formData.vmid || undefined,
+      forSeconds: formData.forSeconds || undefined,
+      hysteresis: formData.hysteresis || undefined,
     };
 
     onSave(newThreshold);
@@ -193,6 +201,36 @@ const AlertThresholdForm: React.FC<AlertThresholdFormProps> = ({ threshold, onSa
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                For (seconds)
+              </label>
+              <input
+                type="number"
+                min={0}
+                aria-label="For duration"
+                value={formData.forSeconds}
+                onChange={(e) => setFormData({ ...formData, forSeconds: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+                placeholder="0"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Hysteresis
+              </label>
+              <input
+                type="number"
+                min={0}
+                aria-label="Hysteresis"
+                value={formData.hysteresis}
+                onChange={(e) => setFormData({ ...formData, hysteresis: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+                placeholder="0"
+              />
+            </div>
+
             <div className="sm:col-span-2">
               <label className="flex items-center gap-2">
                 <input
@@ -224,19 +262,20 @@ const AlertThresholdForm: React.FC<AlertThresholdFormProps> = ({ threshold, onSa
 
 const AlertsPage: React.FC = () => {
   const performanceMetrics = usePerformanceMonitor('AlertsPage');
+  const router = useRouter();
+  const { state: connectionState } = useConnectionContext();
   
   // State management
   const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [alertConfig, setAlertConfig] = useLocalStorage('alertConfig', {
-    defaultValue: {
-      thresholds: [],
-      globalEnabled: true,
-      notificationChannels: {
-        toast: true,
-        email: false,
-        webhook: false,
-      },
-    } as AlertConfig,
+  // Thresholds live on the server so the alert engine evaluates them without a browser open
+  const [alertConfig, setAlertConfigState] = useState<AlertConfig>({
+    thresholds: [],
+    globalEnabled: true,
+    notificationChannels: {
+      toast: true,
+      email: false,
+      webhook: false,
+    },
   });
   
   const [isLoading, setIsLoading] = useState(true);
@@ -246,6 +285,7 @@ const AlertsPage: React.FC = () => {
   const [showAcknowledged, setShowAcknowledged] = useState(false);
   const [showThresholdForm, setShowThresholdForm] = useState(false);
   const [editingThreshold, setEditingThreshold] = useState<AlertThreshold | undefined>();
+  const [silencesVersion, setSilencesVersion] = useState(0);
 
   // Fetch alerts
   const fetchAlerts = useCallback(async (showLoading = true) => {
@@ -266,23 +306,70 @@ const AlertsPage: React.FC = () => {
     }
   }, []);
 
-  // Initial load and periodic refresh
+  const saveAlertConfig = useCallback(async (config: AlertConfig) => {
+    const response = await fetch('/api/proxmox/alerts/config', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(config),
+    });
+    const data = await response.json();
+    if (!response.ok || !data.ok) {
+      throw new Error(data.error || 'Failed to save alert configuration');
+    }
+    setAlertConfigState(data.data);
+  }, []);
+
+  // Load the alert configuration, moving thresholds kept in localStorage by older versions to the server
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const response = await fetch('/api/proxmox/alerts/config');
+        const data = await response.json();
+        if (!response.ok || !data.ok) {
+          throw new Error(data.error || 'Failed to load alert configuration');
+        }
+        const legacy = localStorage.getItem('alertConfig');
+        const legacyConfig: AlertConfig | null = legacy ? JSON.parse(legacy) : null;
+        if (legacyConfig?.thresholds?.length && data.data.thresholds.length === 0) {
+          await saveAlertConfig({ ...data.data, thresholds: legacyConfig.thresholds });
+        } else {
+          setAlertConfigState(data.data);
+        }
+        localStorage.removeItem('alertConfig');
+      } catch (err) {
+        showToast.error(err instanceof Error ? err.message : 'Failed to load alert configuration');
+      }
+    };
+    loadConfig();
+  }, [saveAlertConfig]);
+
+  // Initial load
   useEffect(() => {
     fetchAlerts(true); // Show loading on initial fetch
+  }, [fetchAlerts]);
+
+  // Alerts fired or resolved by the alert engine are applied as they happen
+  const live = useLiveChannel({ topics: ['alerts'] });
+  const { subscribe, acknowledgeAlert } = live;
+  useEffect(() => subscribe('alert', ({ change, alert }) => {
+    setAlerts((previous) => {
+      const others = previous.filter((existing) => existing.id !== alert.id);
+      return change === 'fired' ? [alert, ...others] : others;
+    });
+  }), [subscribe]);
+
+  // Fall back to periodic refresh while the event stream is down
+  useEffect(() => {
+    if (live.connected) return;
     const interval = setInterval(() => fetchAlerts(false), 30000); // No loading for background refresh
     return () => clearInterval(interval);
-  }, [fetchAlerts]);
+  }, [live.connected, fetchAlerts]);
 
   // Acknowledge alert
   const handleAcknowledgeAlert = useCallback(async (alertId: string) => {
     try {
-      const response = await fetch(`/api/proxmox/alerts/${alertId}/acknowledge`, {
-        method: 'POST',
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to acknowledge alert');
-      }
+      // Over the live channel when it is open, through the REST API otherwise
+      await acknowledgeAlert(alertId, connectionState.config?.username);
       
       showToast.success('Alert acknowledged');
       await fetchAlerts();
@@ -290,33 +377,66 @@ const AlertsPage: React.FC = () => {
       const errorMessage = err instanceof Error ? err.message : 'Failed to acknowledge alert';
       showToast.error(errorMessage);
     }
+  }, [fetchAlerts, acknowledgeAlert, connectionState.config?.username]);
+
+  // Snooze: silence this alert's threshold on its node/guest for an hour
+  const handleSnoozeAlert = useCallback(async (alert: Alert) => {
+    try {
+      const response = await fetch('/api/proxmox/alerts/silences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          matcher: { thresholdId: alert.thresholdId, node: alert.node, vmid: alert.vmid },
+          endsAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          comment: `Snoozed: ${alert.message}`,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to snooze alert');
+      }
+
+      showToast.success('Alert snoozed for 1 hour');
+      setSilencesVersion((version) => version + 1);
+      await fetchAlerts(false);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : 'Failed to snooze alert');
+    }
   }, [fetchAlerts]);
 
   // Save threshold
-  const handleSaveThreshold = useCallback((threshold: AlertThreshold) => {
+  const handleSaveThreshold = useCallback(async (threshold: AlertThreshold) => {
     const updatedThresholds = editingThreshold
       ? alertConfig.thresholds.map(t => t.id === threshold.id ? threshold : t)
       : [...alertConfig.thresholds, threshold];
     
-    setAlertConfig({
-      ...alertConfig,
-      thresholds: updatedThresholds,
-    });
+    try {
+      await saveAlertConfig({
+        ...alertConfig,
+        thresholds: updatedThresholds,
+      });
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : 'Failed to save threshold');
+      return;
+    }
     
     setShowThresholdForm(false);
     setEditingThreshold(undefined);
     showToast.success(`Threshold ${editingThreshold ? 'updated' : 'created'} successfully`);
-  }, [alertConfig, setAlertConfig, editingThreshold]);
+  }, [alertConfig, saveAlertConfig, editingThreshold]);
 
   // Delete threshold
-  const handleDeleteThreshold = useCallback((thresholdId: string) => {
+  const handleDeleteThreshold = useCallback(async (thresholdId: string) => {
     const updatedThresholds = alertConfig.thresholds.filter(t => t.id !== thresholdId);
-    setAlertConfig({
-      ...alertConfig,
-      thresholds: updatedThresholds,
-    });
-    showToast.success('Threshold deleted successfully');
-  }, [alertConfig, setAlertConfig]);
+    try {
+      await saveAlertConfig({
+        ...alertConfig,
+        thresholds: updatedThresholds,
+      });
+      showToast.success('Threshold deleted successfully');
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : 'Failed to delete threshold');
+    }
+  }, [alertConfig, saveAlertConfig]);
 
   // Filter alerts
   const filteredAlerts = useMemo(() => {
@@ -374,6 +494,10 @@ const AlertsPage: React.FC = () => {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant="secondary" size="sm" onClick={() => router.push('/alerts/history')}>
+              <Icon icon={History} size="sm" className="mr-2" />
+              History
+            </Button>
             <Button variant="secondary" size="sm" onClick={() => fetchAlerts(true)} loading={isLoading}>
               <Icon icon={RefreshCw} size="sm" className="mr-2" />
               Refresh
@@ -589,8 +713,14 @@ const AlertsPage: React.FC = () => {
                             <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
                               <div className="flex items-center gap-1">
                                 <Icon icon={Clock} size="xs" />
-                                {formatTimeAgo(alert.timestamp)}
+                                {formatTimeAgo(new Date(alert.timestamp))}
                               </div>
+                              {alert.silencedUntil && (
+                                <div className="flex items-center gap-1">
+                                  <Icon icon={BellOff} size="xs" />
+                                  Silenced · {formatTimeLeft(new Date(alert.silencedUntil))}
+                                </div>
+                              )}
                               {alert.acknowledged && alert.acknowledgedBy && (
                                 <div className="flex items-center gap-1">
                                   <Icon icon={User} size="xs" />
@@ -599,16 +729,28 @@ const AlertsPage: React.FC = () => {
                               )}
                             </div>
                           </div>
-                          {!alert.acknowledged && (
-                            <Button
-                              variant="secondary"
-                              size="sm"
-                              onClick={() => handleAcknowledgeAlert(alert.id)}
-                            >
-                              <Icon icon={CheckCircle} size="sm" className="mr-1" />
-                              Ack
-                            </Button>
-                          )}
+                          <div className="flex items-center gap-1">
+                            {!alert.silencedUntil && (
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => handleSnoozeAlert(alert)}
+                              >
+                                <Icon icon={BellOff} size="sm" className="mr-1" />
+                                Snooze
+                              </Button>
+                            )}
+                            {!alert.acknowledged && (
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => handleAcknowledgeAlert(alert.id)}
+                              >
+                                <Icon icon={CheckCircle} size="sm" className="mr-1" />
+                                Ack
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))
@@ -659,6 +801,7 @@ const AlertsPage: React.FC = () => {
                               {threshold.type} {threshold.metric} {threshold.operator} {threshold.value}
                               {threshold.node && ` on ${threshold.node}`}
                               {threshold.vmid && ` (VM ${threshold.vmid})`}
+                              {threshold.forSeconds ? ` for ${threshold.forSeconds}s` : ''}
                             </p>
                           </div>
                           <div className="flex items-center gap-1">
@@ -689,6 +832,11 @@ const AlertsPage: React.FC = () => {
             </Card>
           </SectionErrorBoundary>
         </div>
+
+        {/* Silences and Maintenance Windows */}
+        <SectionErrorBoundary>
+          <AlertSilences refreshToken={silencesVersion} onChange={() => fetchAlerts(false)} />
+        </SectionErrorBoundary>
       </div>
     </div>
   );
@@ -0,0 +1,49 @@
+import ConsoleView from "@/components/ConsoleView";
+import { ConsoleTargetSchema } from "@/lib/types";
+import type { ConsoleTarget } from "@/lib/types";
+
+type ConsolePageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const first = (value?: string | string[]) => (Array.isArray(value) ? value[0] : value);
+
+const describeTarget = (target: ConsoleTarget) => {
+  switch (target.type) {
+    case "qemu": return `VM ${target.vmid} on ${target.node}`;
+    case "lxc": return `Container ${target.vmid} on ${target.node}`;
+    case "node": return `Shell of ${target.node}`;
+  }
+};
+
+/**
+ * Console of a guest or node shell: /console?type=qemu|lxc|node&node=&vmid=&serverId=
+ */
+export default async function ConsolePage({ searchParams }: ConsolePageProps) {
+  const params = await searchParams;
+  const target = ConsoleTargetSchema.safeParse({
+    type: first(params.type),
+    node: first(params.node),
+    vmid: first(params.vmid),
+  });
+
+  return (
+    <div className="min-h-screen w-full p-6">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <header>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {target.success ? describeTarget(target.data) : "Console"}
+          </p>
+        </header>
+
+        {target.success ? (
+          <ConsoleView target={target.data} serverId={first(params.serverId)} />
+        ) : (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            Invalid console target: {target.error.issues[0]?.message ?? "expected type, node and vmid"}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
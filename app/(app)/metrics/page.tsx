@@ -8,12 +8,16 @@ import Icon from "@/components/ui/Icon";
 import { showToast } from "@/components/ui/Toast";
 import { SectionErrorBoundary } from "@/components/ErrorBoundary";
 import { usePerformanceMonitor } from "@/lib/utils/performance";
-import type { TimeRange, HistoricalMetrics } from "@/lib/types";
+import { API_ENDPOINTS } from "@/lib/constants";
+import type { TimeRange, HistoricalMetrics, VmResource } from "@/lib/types";
 import {
+  ArrowDownUp,
   BarChart3,
   Cpu,
+  Database,
   MemoryStick,
   HardDrive,
+  Hourglass,
   Network,
   RefreshCw,
   Download,
@@ -32,6 +36,17 @@ const timeRanges: { value: TimeRange; label: string; description: string }[] = [
   { value: '30d', label: '30 Days', description: 'Last 30 days with 6-hour intervals' },
 ];
 
+const timeRangeMs: Record<TimeRange, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+// Series kept by the metrics collector, and so available to the export
+const exportableMetrics = ['cpu', 'memory', 'storage'];
+
 // Mock nodes for selection
 const mockNodes = ['pve-1', 'pve-2', 'pve-3'];
 
@@ -41,8 +56,14 @@ const metricTypes = [
   { key: 'memory', label: 'Memory Usage', icon: MemoryStick, color: '#8b5cf6', unit: '%' },
   { key: 'storage', label: 'Storage Usage', icon: HardDrive, color: '#10b981', unit: '%' },
   { key: 'network', label: 'Network I/O', icon: Network, color: '#f59e0b', unit: 'MB/s' },
+  { key: 'diskio', label: 'Disk I/O', icon: Database, color: '#ef4444', unit: 'MB/s' },
+  { key: 'iowait', label: 'IO Wait', icon: Hourglass, color: '#ec4899', unit: '%' },
+  { key: 'swap', label: 'Swap Usage', icon: ArrowDownUp, color: '#14b8a6', unit: '%' },
 ];
 
+// Bytes per second to megabytes per second, to one decimal
+const toMBps = (bytes: number) => Math.round((bytes / (1024 * 1024)) * 10) / 10;
+
 // Chart data point type
 interface ChartPoint {
   time: string;
@@ -58,6 +79,9 @@ const MetricsPage: React.FC = () => {
   const [selectedTimeRange, setSelectedTimeRange] = useState<TimeRange>('24h');
   const [selectedNodes, setSelectedNodes] = useState<string[]>(['pve-1']);
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>(['cpu', 'memory']);
+  // Guest whose metrics are charted next to the selected nodes
+  const [guests, setGuests] = useState<VmResource[]>([]);
+  const [selectedGuest, setSelectedGuest] = useState<number | null>(null);
   const [metricsData, setMetricsData] = useState<Record<string, HistoricalMetrics>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -79,6 +103,15 @@ const MetricsPage: React.FC = () => {
         const data = await response.json();
         newMetricsData[node] = data;
       }
+
+      const guest = guests.find((vm) => vm.vmid === selectedGuest);
+      if (guest) {
+        const response = await fetch(`/api/proxmox/metrics/historical?node=${guest.node}&vmid=${guest.vmid}&timeRange=${selectedTimeRange}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch metrics for VM/CT ${guest.vmid}`);
+        }
+        newMetricsData[guest.name ? `${guest.name} (${guest.vmid})` : `VM/CT ${guest.vmid}`] = await response.json();
+      }
       
       setMetricsData(newMetricsData);
     } catch (err) {
@@ -87,7 +120,22 @@ const MetricsPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedNodes, selectedTimeRange]);
+  }, [selectedNodes, selectedTimeRange, guests, selectedGuest]);
+
+  // Guests available for the guest selector
+  useEffect(() => {
+    const loadGuests = async () => {
+      try {
+        const response = await fetch('/api/proxmox/vms');
+        if (!response.ok) return;
+        const data = await response.json();
+        setGuests((data.vms || []).filter((vm: VmResource) => !vm.template));
+      } catch {
+        // Node metrics stay available without the guest list
+      }
+    };
+    loadGuests();
+  }, []);
 
   // Initial load and refresh when dependencies change
   useEffect(() => {
@@ -112,46 +160,30 @@ const MetricsPage: React.FC = () => {
     );
   }, []);
 
-  // Export data as CSV
+  // Download the selected nodes and guest over the time range from the server-side export
   const handleExportCSV = useCallback(() => {
-    if (Object.keys(metricsData).length === 0) {
-      showToast.error('No data to export');
+    const to = new Date();
+    const from = new Date(to.getTime() - timeRangeMs[selectedTimeRange]);
+    const series = selectedMetrics.filter((metric) => exportableMetrics.includes(metric));
+    const params = new URLSearchParams({
+      format: "csv",
+      from: from.toISOString(),
+      to: to.toISOString(),
+      series: (series.length > 0 ? series : exportableMetrics).join(","),
+    });
+    if (selectedNodes.length > 0) params.set("nodes", selectedNodes.join(","));
+    if (selectedGuest !== null) params.set("vmids", String(selectedGuest));
+    if (!params.has("nodes") && !params.has("vmids")) {
+      showToast.error("Select a node or guest to export");
       return;
     }
 
-    const csvData: string[] = [];
-    const headers = ['timestamp', 'node', 'cpu', 'memory_used', 'memory_total', 'storage_used', 'storage_total', 'network_rx', 'network_tx'];
-    csvData.push(headers.join(','));
-
-    Object.entries(metricsData).forEach(([node, data]) => {
-      data.data.forEach(point => {
-        const row = [
-          new Date(point.timestamp).toISOString(),
-          node,
-          point.cpu || 0,
-          point.memory?.used || 0,
-          point.memory?.total || 0,
-          point.storage?.used || 0,
-          point.storage?.total || 0,
-          point.network?.rx || 0,
-          point.network?.tx || 0,
-        ];
-        csvData.push(row.join(','));
-      });
-    });
-
-    const blob = new Blob([csvData.join('\n')], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `proxmox-metrics-${selectedTimeRange}-${new Date().toISOString().split('T')[0]}.csv`;
+    const link = document.createElement("a");
+    link.href = `${API_ENDPOINTS.METRICS_EXPORT}?${params}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    
-    showToast.success('Metrics data exported successfully');
-  }, [metricsData, selectedTimeRange]);
+  }, [selectedMetrics, selectedNodes, selectedGuest, selectedTimeRange]);
 
   // Prepare chart data
   const chartData = useMemo(() => {
@@ -180,7 +212,21 @@ const MetricsPage: React.FC = () => {
               value = point.storage ? Math.round((point.storage.used / point.storage.total) * 100) : 0;
               break;
             case 'network':
-              value = point.network ? Math.round((point.network.rx + point.network.tx) / (1024 * 1024)) : 0;
+              value = point.network ? toMBps(point.network.rx + point.network.tx) : 0;
+              break;
+            case 'diskio':
+              // Only guests report disk I/O
+              if (!point.diskIo) return;
+              value = toMBps(point.diskIo.read + point.diskIo.write);
+              break;
+            case 'iowait':
+              // Only nodes report iowait and swap
+              if (point.iowait === undefined) return;
+              value = Math.round(point.iowait * 1000) / 10;
+              break;
+            case 'swap':
+              if (!point.swap) return;
+              value = Math.round((point.swap.used / point.swap.total) * 100);
               break;
           }
           
@@ -318,6 +364,19 @@ const MetricsPage: React.FC = () => {
                   </label>
                 ))}
               </div>
+              <select
+                aria-label="Guest"
+                value={selectedGuest ?? ''}
+                onChange={(e) => setSelectedGuest(e.target.value ? Number(e.target.value) : null)}
+                className="mt-4 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+              >
+                <option value="">No guest</option>
+                {guests.map((vm) => (
+                  <option key={vm.vmid} value={vm.vmid}>
+                    {vm.vmid} · {vm.name || vm.type} ({vm.node})
+                  </option>
+                ))}
+              </select>
             </CardContent>
           </Card>
 
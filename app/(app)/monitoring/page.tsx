@@ -7,6 +7,8 @@ import Icon from "@/components/ui/Icon";
 import { showToast } from "@/components/ui/Toast";
 import { SectionErrorBoundary } from "@/components/ErrorBoundary";
 import { usePerformanceMonitor } from "@/lib/utils/performance";
+import { useLiveChannel } from "@/hooks/useLiveChannel";
+import { applyBackupEvent } from "@/lib/events/resourceEvents";
 import type { LogEntry, BackupJob, ServiceStatus } from "@/lib/types";
 import {
   Monitor,
@@ -109,6 +111,15 @@ const MonitoringPage: React.FC = () => {
     fetchAll();
   }, [fetchAll]);
 
+  // Backups started or finished on the selected node show up without a refresh
+  const { subscribe } = useLiveChannel({ topics: [`node:${selectedNode}`] });
+  useEffect(() => subscribe("backup", (event) => {
+    // Events of the previously selected node may still be in flight
+    if (event.task.node === selectedNode) {
+      setBackups((previous) => applyBackupEvent(previous, event));
+    }
+  }), [subscribe, selectedNode]);
+
   // Filter logs
   const filteredLogs = useMemo(() => {
     return logs.filter(log => {
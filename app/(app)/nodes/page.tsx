@@ -0,0 +1,446 @@
+"use client";
+
+import React, { useState, useMemo, useCallback, useEffect } from "react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import Chart from "@/components/ui/Chart";
+import type { ChartData } from "@/components/ui/Chart";
+import NodeDrainPanel from "@/components/NodeDrainPanel";
+import { SectionErrorBoundary } from "@/components/ErrorBoundary";
+import { usePerformanceMonitor } from "@/lib/utils/performance";
+import { API_ENDPOINTS, FORECAST, INTERVALS, NODE_DRAIN } from "@/lib/constants";
+import { consolePageHref } from "@/lib/console/protocol";
+import type { CapacityForecast, ClusterSummary, NodeMaintenance, UsageForecast } from "@/lib/types";
+import { Server, Database, RefreshCw, TrendingUp, TerminalSquare, LogOut } from "lucide-react";
+
+// Series shown in the forecast chart
+type SelectedSeries =
+  | { kind: 'node'; node: string; field: 'memory' | 'storage' }
+  | { kind: 'pool'; node: string; storage: string };
+
+const formatPercent = (ratio?: number) => (ratio === undefined ? '-' : `${(ratio * 100).toFixed(1)}%`);
+
+// Format uptime utility
+const formatUptime = (seconds?: number) => {
+  if (!seconds) return '-';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h`;
+};
+
+// Days until a forecast reaches the given threshold, or null if not within the search horizon
+const daysUntil = (forecast: UsageForecast | null | undefined, threshold = 1) =>
+  forecast?.thresholds.find((entry) => entry.threshold === threshold)?.daysUntil ?? null;
+
+const formatDays = (days: number | null) => {
+  if (days === null) return '-';
+  if (days === 0) return 'Full';
+  return days < 1 ? '< 1 day' : `${Math.round(days)} days`;
+};
+
+const daysColor = (days: number | null) => {
+  if (days === null) return 'text-gray-500 dark:text-gray-400';
+  if (days <= 7) return 'text-red-600 dark:text-red-400';
+  if (days <= 30) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-gray-900 dark:text-gray-100';
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+// History and forecast on one time axis; the last observed point starts the forecast line
+function toChartData(forecast: UsageForecast): ChartData[] {
+  const history: ChartData[] = forecast.history.map((point) => ({
+    time: formatTime(point.timestamp),
+    usage: +(point.value * 100).toFixed(2),
+  }));
+  if (history.length > 0) {
+    history[history.length - 1].forecast = history[history.length - 1].usage;
+  }
+  const projected: ChartData[] = forecast.forecast.slice(1).map((point) => ({
+    time: formatTime(point.timestamp),
+    forecast: +(point.value * 100).toFixed(2),
+    lower: +(point.lower * 100).toFixed(2),
+    upper: +(point.upper * 100).toFixed(2),
+  }));
+  return [...history, ...projected];
+}
+
+export default function NodesPage() {
+  usePerformanceMonitor('NodesPage');
+
+  const [summary, setSummary] = useState<ClusterSummary | null>(null);
+  const [capacity, setCapacity] = useState<CapacityForecast | null>(null);
+  const [selected, setSelected] = useState<SelectedSeries | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forecastError, setForecastError] = useState<string | null>(null);
+  const [maintenance, setMaintenance] = useState<NodeMaintenance[]>([]);
+  const [drainNode, setDrainNode] = useState<string | null>(null);
+
+  const fetchNodes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(API_ENDPOINTS.SUMMARY);
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || 'Failed to fetch nodes');
+      }
+      setSummary(json.data as ClusterSummary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch nodes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchForecast = useCallback(async () => {
+    try {
+      setForecastError(null);
+      const response = await fetch(`${API_ENDPOINTS.FORECAST}?timeRange=${FORECAST.DEFAULT_TIME_RANGE}`);
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || 'Failed to fetch capacity forecast');
+      }
+      setCapacity(json.data as CapacityForecast);
+    } catch (err) {
+      setForecastError(err instanceof Error ? err.message : 'Failed to fetch capacity forecast');
+    }
+  }, []);
+
+  const fetchMaintenance = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.NODE_MAINTENANCE, { cache: 'no-store' });
+      const json = await response.json();
+      if (response.ok && json.ok) setMaintenance(json.data as NodeMaintenance[]);
+    } catch {
+      // Keep the last known state; the next refresh retries
+    }
+  }, []);
+
+  const refresh = useCallback(() => {
+    fetchNodes();
+    fetchForecast();
+    fetchMaintenance();
+  }, [fetchNodes, fetchForecast, fetchMaintenance]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Follow drains and undrains while their migrations run
+  const migrating = maintenance.some((entry) => entry.state !== 'maintenance');
+  useEffect(() => {
+    if (!migrating) return;
+    const interval = setInterval(fetchMaintenance, INTERVALS.METRICS_POLL);
+    return () => {
+      clearInterval(interval);
+      // Guests moved, so node usage changed
+      fetchNodes();
+    };
+  }, [migrating, fetchMaintenance, fetchNodes]);
+
+  const maintenanceByNode = useMemo(
+    () => new Map(maintenance.map((entry) => [entry.node, entry])),
+    [maintenance]
+  );
+
+  const nodeForecasts = useMemo(
+    () => new Map((capacity?.nodes ?? []).map((entry) => [entry.node, entry])),
+    [capacity]
+  );
+
+  const selectedForecast = useMemo(() => {
+    if (!selected || !capacity) return null;
+    if (selected.kind === 'node') {
+      return nodeForecasts.get(selected.node)?.[selected.field] ?? null;
+    }
+    return capacity.pools.find((pool) => pool.storage === selected.storage && pool.node === selected.node)?.forecast ?? null;
+  }, [selected, capacity, nodeForecasts]);
+
+  const chartData = useMemo(() => (selectedForecast ? toChartData(selectedForecast) : []), [selectedForecast]);
+  const band = useMemo(() => ({ lowerKey: 'lower', upperKey: 'upper' }), []);
+
+  const selectedLabel = !selected
+    ? null
+    : selected.kind === 'node'
+      ? `${selected.node} ${selected.field}`
+      : `${selected.storage} on ${selected.node}`;
+
+  return (
+    <div className="min-h-screen w-full p-6">
+      <div className="mx-auto max-w-7xl space-y-6">
+        {/* Header */}
+        <header className="flex flex-col items-start justify-between gap-3 sm:flex-row sm:items-center">
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Node usage and projected capacity
+            </p>
+          </div>
+          <Button variant="secondary" size="sm" onClick={refresh} loading={isLoading}>
+            <Icon icon={RefreshCw} size="sm" className="mr-2" />
+            Refresh
+          </Button>
+        </header>
+
+        {/* Error Display */}
+        {error && (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* Nodes Table */}
+        <SectionErrorBoundary>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Icon icon={Server} size="sm" className="text-blue-600 dark:text-blue-400" />
+                <CardTitle>Nodes ({summary?.nodes.length ?? 0})</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-3 pr-4">Node</th>
+                      <th className="py-3 pr-4">Status</th>
+                      <th className="py-3 pr-4">CPU</th>
+                      <th className="py-3 pr-4">Memory</th>
+                      <th className="py-3 pr-4">Storage</th>
+                      <th className="py-3 pr-4">Uptime</th>
+                      <th className="py-3 pr-4" title="Projected days until memory or root storage is full">
+                        Days until full
+                      </th>
+                      <th className="py-3 pr-4">Maintenance</th>
+                      <th className="py-3 pr-4">Shell</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {isLoading && !summary ? (
+                      <tr>
+                        <td className="py-4 text-gray-500 dark:text-gray-400" colSpan={9}>
+                          Loading nodes...
+                        </td>
+                      </tr>
+                    ) : !summary || summary.nodes.length === 0 ? (
+                      <tr>
+                        <td className="py-4 text-gray-500 dark:text-gray-400" colSpan={9}>
+                          No nodes found.
+                        </td>
+                      </tr>
+                    ) : (
+                      summary.nodes.map((node) => {
+                        const forecast = nodeForecasts.get(node.node);
+                        const memoryDays = daysUntil(forecast?.memory);
+                        const storageDays = daysUntil(forecast?.storage);
+                        // The resource expected to fill first
+                        const field = storageDays !== null && (memoryDays === null || storageDays <= memoryDays)
+                          ? 'storage'
+                          : 'memory';
+                        const days = field === 'storage' ? storageDays : memoryDays;
+                        const nodeMaintenance = maintenanceByNode.get(node.node);
+                        return (
+                          <tr key={node.node} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                            <td className="py-3 pr-4 font-medium text-gray-900 dark:text-gray-100">{node.node}</td>
+                            <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{node.status}</td>
+                            <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{formatPercent(node.cpu)}</td>
+                            <td className="py-3 pr-4">
+                              <button
+                                type="button"
+                                onClick={() => setSelected({ kind: 'node', node: node.node, field: 'memory' })}
+                                className="text-gray-700 hover:underline dark:text-gray-300"
+                              >
+                                {node.memory ? formatPercent(node.memory.used / node.memory.total) : '-'}
+                              </button>
+                            </td>
+                            <td className="py-3 pr-4">
+                              <button
+                                type="button"
+                                onClick={() => setSelected({ kind: 'node', node: node.node, field: 'storage' })}
+                                className="text-gray-700 hover:underline dark:text-gray-300"
+                              >
+                                {node.storage ? formatPercent(node.storage.used / node.storage.total) : '-'}
+                              </button>
+                            </td>
+                            <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{formatUptime(node.uptime)}</td>
+                            <td className="py-3 pr-4">
+                              {forecast ? (
+                                <button
+                                  type="button"
+                                  onClick={() => setSelected({ kind: 'node', node: node.node, field })}
+                                  className={`font-medium hover:underline ${daysColor(days)}`}
+                                  title={days === null ? 'Not projected to fill' : `${field} fills first`}
+                                >
+                                  {formatDays(days)}
+                                </button>
+                              ) : (
+                                <span className="text-gray-500 dark:text-gray-400">-</span>
+                              )}
+                            </td>
+                            <td className="py-3 pr-4">
+                              {/* Only pve-* nodes are drained */}
+                              {!nodeMaintenance && !NODE_DRAIN.NODE_PATTERN.test(node.node) ? (
+                                <span className="text-gray-500 dark:text-gray-400">-</span>
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => setDrainNode(node.node)}
+                                  className={`inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs ${nodeMaintenance
+                                    ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200 dark:bg-yellow-900 dark:text-yellow-200'
+                                    : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800'}`}
+                                  title={nodeMaintenance ? `Maintenance of ${node.node}` : `Drain ${node.node}`}
+                                >
+                                  <Icon icon={LogOut} size="xs" />
+                                  {nodeMaintenance ? nodeMaintenance.state : 'Drain'}
+                                </button>
+                              )}
+                            </td>
+                            <td className="py-3 pr-4">
+                              {node.status === 'online' && (
+                                <a
+                                  href={consolePageHref({ type: 'node', node: node.node })}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="inline-flex p-1 rounded text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                                  title={`Shell of ${node.node}`}
+                                >
+                                  <Icon icon={TerminalSquare} size="sm" />
+                                </a>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </SectionErrorBoundary>
+
+        {drainNode && (
+          <SectionErrorBoundary>
+            <NodeDrainPanel
+              node={drainNode}
+              maintenance={maintenanceByNode.get(drainNode)}
+              onClose={() => setDrainNode(null)}
+              onChanged={fetchMaintenance}
+            />
+          </SectionErrorBoundary>
+        )}
+
+        {forecastError && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-950 dark:text-yellow-300">
+            {forecastError}
+          </div>
+        )}
+
+        {/* Storage Pools Table */}
+        <SectionErrorBoundary>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Icon icon={Database} size="sm" className="text-purple-600 dark:text-purple-400" />
+                <CardTitle>Storage pools ({capacity?.pools.length ?? 0})</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-3 pr-4">Pool</th>
+                      <th className="py-3 pr-4">Node</th>
+                      <th className="py-3 pr-4">Type</th>
+                      <th className="py-3 pr-4">Used</th>
+                      <th className="py-3 pr-4">Trend / day</th>
+                      {FORECAST.THRESHOLDS.map((threshold) => (
+                        <th key={threshold} className="py-3 pr-4">
+                          {threshold === 1 ? 'Days until full' : `Days to ${threshold * 100}%`}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {!capacity || capacity.pools.length === 0 ? (
+                      <tr>
+                        <td className="py-4 text-gray-500 dark:text-gray-400" colSpan={5 + FORECAST.THRESHOLDS.length}>
+                          {capacity ? 'No storage pools found.' : 'Loading forecast...'}
+                        </td>
+                      </tr>
+                    ) : (
+                      capacity.pools.map((pool) => (
+                        <tr
+                          key={`${pool.node}/${pool.storage}`}
+                          onClick={() => setSelected({ kind: 'pool', node: pool.node, storage: pool.storage })}
+                          className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                        >
+                          <td className="py-3 pr-4 font-medium text-gray-900 dark:text-gray-100">{pool.storage}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{pool.shared ? 'shared' : pool.node}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{pool.type ?? '-'}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{formatPercent(pool.forecast?.current)}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">
+                            {pool.forecast ? `${pool.forecast.slopePerDay >= 0 ? '+' : ''}${(pool.forecast.slopePerDay * 100).toFixed(2)}%` : '-'}
+                          </td>
+                          {FORECAST.THRESHOLDS.map((threshold) => {
+                            const days = daysUntil(pool.forecast, threshold);
+                            return (
+                              <td key={threshold} className={`py-3 pr-4 ${daysColor(days)}`}>
+                                {formatDays(days)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </SectionErrorBoundary>
+
+        {/* Forecast Chart */}
+        {selected && (
+          <SectionErrorBoundary>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Icon icon={TrendingUp} size="sm" className="text-green-600 dark:text-green-400" />
+                  <CardTitle>Forecast: {selectedLabel}</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {selectedForecast ? (
+                  <>
+                    <Chart
+                      data={chartData}
+                      dataKey="usage"
+                      forecastKey="forecast"
+                      band={band}
+                      xAxisKey="time"
+                      height={280}
+                    />
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Usage in percent over the last {capacity?.timeRange}, projected {capacity?.horizonDays} days ahead
+                      {selectedForecast.seasonal ? ' with a daily pattern' : ''}. The shaded band is the 95% prediction interval.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Not enough history to forecast this series.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </SectionErrorBoundary>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import Icon from "@/components/ui/Icon";
 import { showToast } from "@/components/ui/Toast";
 import { SectionErrorBoundary } from "@/components/ErrorBoundary";
+import NotificationChannels from "@/components/NotificationChannels";
 import { usePerformanceMonitor } from "@/lib/utils/performance";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
 import type { AppSettings, TimeRange } from "@/lib/types";
@@ -22,8 +23,6 @@ import {
   Download,
   Upload,
   Server,
-  Mail,
-  Webhook,
 } from "lucide-react";
 
 const SettingsPage: React.FC = () => {
@@ -380,31 +379,7 @@ const SettingsPage: React.FC = () => {
                   </span>
                 </label>
 
-                <label className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    checked={tempSettings.alerts.notificationChannels.email}
-                    onChange={(e) => handleNestedChange(['alerts', 'notificationChannels', 'email'], e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <Icon icon={Mail} size="sm" className="text-gray-400" />
-                  <span className="text-sm text-gray-700 dark:text-gray-300">
-                    Email notifications
-                  </span>
-                </label>
-
-                <label className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    checked={tempSettings.alerts.notificationChannels.webhook}
-                    onChange={(e) => handleNestedChange(['alerts', 'notificationChannels', 'webhook'], e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <Icon icon={Webhook} size="sm" className="text-gray-400" />
-                  <span className="text-sm text-gray-700 dark:text-gray-300">
-                    Webhook notifications
-                  </span>
-                </label>
+                <NotificationChannels />
               </div>
             </CardContent>
           </Card>
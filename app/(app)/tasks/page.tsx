@@ -0,0 +1,358 @@
+"use client";
+
+import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { SectionErrorBoundary } from "@/components/ErrorBoundary";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { isTaskSuccessful } from "@/lib/proxmox/tasks";
+import type { TaskLogLine, TaskStatus } from "@/lib/types";
+import {
+  ListChecks,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  RefreshCw,
+  Search,
+  X,
+} from "lucide-react";
+
+type TaskStatusFilter = 'all' | 'running' | 'ok' | 'error';
+
+// Task Status Badge component
+const TaskStatusBadge: React.FC<{ task: TaskStatus }> = ({ task }) => {
+  if (task.status === 'running') {
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-2.5 py-0.5 text-xs font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+        <Icon icon={Loader2} size="xs" className="animate-spin" />
+        running
+      </span>
+    );
+  }
+
+  const ok = isTaskSuccessful(task);
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium ${
+        ok
+          ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+          : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+      }`}
+      title={task.exitstatus}
+    >
+      <Icon icon={ok ? CheckCircle2 : XCircle} size="xs" />
+      {ok ? task.exitstatus : 'error'}
+    </span>
+  );
+};
+
+// Format task duration utility
+const formatDuration = (task: TaskStatus) => {
+  const end = task.endTime ?? Date.now();
+  const seconds = Math.max(0, Math.round((end - task.startTime) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Live log panel for a single task, fed by the task log SSE stream
+interface TaskLogPanelProps {
+  task: TaskStatus;
+  onClose: () => void;
+  onTaskUpdate: (task: TaskStatus) => void;
+}
+
+const TaskLogPanel: React.FC<TaskLogPanelProps> = ({ task, onClose, onTaskUpdate }) => {
+  const [lines, setLines] = useState<TaskLogLine[]>([]);
+  const [streaming, setStreaming] = useState(true);
+  const logRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    setLines([]);
+    setStreaming(true);
+
+    const source = new EventSource(`${API_ENDPOINTS.TASKS}/${encodeURIComponent(task.upid)}/log`);
+
+    source.addEventListener('log', (event) => {
+      const batch = JSON.parse((event as MessageEvent).data) as TaskLogLine[];
+      setLines((prev) => [...prev, ...batch]);
+    });
+    source.addEventListener('task', (event) => {
+      onTaskUpdate(JSON.parse((event as MessageEvent).data) as TaskStatus);
+    });
+    source.addEventListener('end', (event) => {
+      onTaskUpdate(JSON.parse((event as MessageEvent).data) as TaskStatus);
+      setStreaming(false);
+      source.close();
+    });
+    source.addEventListener('error', () => {
+      // Server-side errors arrive as an "error" event before the stream closes
+      setStreaming(false);
+      source.close();
+    });
+
+    return () => source.close();
+  }, [task.upid, onTaskUpdate]);
+
+  // Keep the newest lines in view while streaming
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [lines]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex min-w-0 items-center gap-2">
+            <CardTitle>Task Log</CardTitle>
+            <span className="truncate font-mono text-xs text-gray-500 dark:text-gray-400" title={task.upid}>
+              {task.type}{task.id ? ` ${task.id}` : ''} on {task.node}
+            </span>
+            {streaming && <Icon icon={Loader2} size="xs" className="animate-spin text-blue-500" />}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Close log"
+          >
+            <Icon icon={X} size="sm" />
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <pre
+          ref={logRef}
+          className="max-h-96 overflow-auto rounded-md bg-gray-950 p-3 font-mono text-xs leading-5 text-gray-100"
+        >
+          {lines.length === 0
+            ? (streaming ? 'Waiting for output...' : 'No log output.')
+            : lines.map((line) => `${line.t}\n`).join('')}
+        </pre>
+      </CardContent>
+    </Card>
+  );
+};
+
+const TasksPage: React.FC = () => {
+  // State for filters and search
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<TaskStatusFilter>('all');
+  const [nodeFilter, setNodeFilter] = useState<string>('all');
+
+  // State for task data
+  const [tasks, setTasks] = useState<TaskStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedUpid, setSelectedUpid] = useState<string | null>(null);
+
+  // Fetch task history
+  const fetchTasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(`${API_ENDPOINTS.TASKS}?limit=200`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to fetch tasks');
+      }
+      setTasks(data.tasks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tasks');
+      showToast.error('Failed to load tasks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load and periodic refresh
+  useEffect(() => {
+    fetchTasks();
+    const interval = setInterval(fetchTasks, 15000); // Refresh every 15 seconds
+    return () => clearInterval(interval);
+  }, [fetchTasks]);
+
+  // Status updates from the log stream are merged into the table
+  const handleTaskUpdate = useCallback((updated: TaskStatus) => {
+    setTasks((prev) => prev.map((task) => (task.upid === updated.upid ? updated : task)));
+  }, []);
+
+  const handleCloseLog = useCallback(() => setSelectedUpid(null), []);
+
+  // Filter and search tasks
+  const filteredTasks = useMemo(() => {
+    return tasks.filter((task) => {
+      const term = searchTerm.toLowerCase();
+      const matchesSearch = !searchTerm ||
+        task.type.toLowerCase().includes(term) ||
+        task.id?.toLowerCase().includes(term) ||
+        task.user?.toLowerCase().includes(term);
+
+      const matchesStatus =
+        statusFilter === 'all' ||
+        (statusFilter === 'running' && task.status === 'running') ||
+        (statusFilter === 'ok' && task.status === 'stopped' && isTaskSuccessful(task)) ||
+        (statusFilter === 'error' && task.status === 'stopped' && !isTaskSuccessful(task));
+      const matchesNode = nodeFilter === 'all' || task.node === nodeFilter;
+
+      return matchesSearch && matchesStatus && matchesNode;
+    });
+  }, [tasks, searchTerm, statusFilter, nodeFilter]);
+
+  // Get unique nodes for filter
+  const availableNodes = useMemo(() => {
+    return [...new Set(tasks.map((task) => task.node))].sort();
+  }, [tasks]);
+
+  const selectedTask = useMemo(
+    () => tasks.find((task) => task.upid === selectedUpid) ?? null,
+    [tasks, selectedUpid]
+  );
+
+  return (
+    <div className="min-h-screen w-full p-6">
+      <div className="mx-auto max-w-7xl space-y-6">
+        {/* Header */}
+        <header className="flex flex-col items-start justify-between gap-3 sm:flex-row sm:items-center">
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Recent Proxmox tasks across the cluster
+            </p>
+          </div>
+          <Button variant="secondary" size="sm" onClick={fetchTasks} loading={isLoading}>
+            <Icon icon={RefreshCw} size="sm" className="mr-2" />
+            Refresh
+          </Button>
+        </header>
+
+        {/* Filters and Search */}
+        <section className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-1 items-center gap-4">
+            <div className="relative flex-1 max-w-md">
+              <Icon icon={Search} size="sm" className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by type, ID or user..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 bg-white pl-10 pr-4 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as TaskStatusFilter)}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+            >
+              <option value="all">All Status</option>
+              <option value="running">Running</option>
+              <option value="ok">OK</option>
+              <option value="error">Failed</option>
+            </select>
+
+            <select
+              aria-label="Node"
+              value={nodeFilter}
+              onChange={(e) => setNodeFilter(e.target.value)}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100"
+            >
+              <option value="all">All Nodes</option>
+              {availableNodes.map((node: string) => (
+                <option key={node} value={node}>{node}</option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        {/* Error Display */}
+        {error && (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* Live log of the selected task */}
+        {selectedTask && (
+          <SectionErrorBoundary>
+            <TaskLogPanel task={selectedTask} onClose={handleCloseLog} onTaskUpdate={handleTaskUpdate} />
+          </SectionErrorBoundary>
+        )}
+
+        {/* Tasks Table */}
+        <SectionErrorBoundary>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Icon icon={ListChecks} size="sm" className="text-blue-600 dark:text-blue-400" />
+                <CardTitle>Tasks ({filteredTasks.length})</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-3 pr-4">Started</th>
+                      <th className="py-3 pr-4">Node</th>
+                      <th className="py-3 pr-4">Type</th>
+                      <th className="py-3 pr-4">ID</th>
+                      <th className="py-3 pr-4">User</th>
+                      <th className="py-3 pr-4">Duration</th>
+                      <th className="py-3 pr-4">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {isLoading && tasks.length === 0 ? (
+                      <tr>
+                        <td className="py-4 text-gray-500 dark:text-gray-400" colSpan={7}>
+                          Loading tasks...
+                        </td>
+                      </tr>
+                    ) : filteredTasks.length === 0 ? (
+                      <tr>
+                        <td className="py-4 text-gray-500 dark:text-gray-400" colSpan={7}>
+                          No tasks found.
+                        </td>
+                      </tr>
+                    ) : (
+                      filteredTasks.map((task) => (
+                        <tr
+                          key={task.upid}
+                          onClick={() => setSelectedUpid(task.upid)}
+                          className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50 ${
+                            task.upid === selectedUpid ? 'bg-blue-50 dark:bg-blue-950/30' : ''
+                          }`}
+                        >
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">
+                            {new Date(task.startTime).toLocaleString()}
+                          </td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{task.node}</td>
+                          <td className="py-3 pr-4 font-mono text-xs text-gray-900 dark:text-gray-100">{task.type}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{task.id || '-'}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{task.user || '-'}</td>
+                          <td className="py-3 pr-4 text-gray-700 dark:text-gray-300">{formatDuration(task)}</td>
+                          <td className="py-3 pr-4">
+                            <TaskStatusBadge task={task} />
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </SectionErrorBoundary>
+      </div>
+    </div>
+  );
+};
+
+export default TasksPage;
@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useSearchParams } from "next/navigation";
+import { ArrowLeft, ArrowRightLeft, Clock, Cpu, HardDrive, MemoryStick, TerminalSquare } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import MigrationPanel from "@/components/MigrationPanel";
+import SnapshotTree from "@/components/SnapshotTree";
+import VmConfigPanel from "@/components/VmConfigPanel";
+import { SectionErrorBoundary } from "@/components/ErrorBoundary";
+import { consolePageHref } from "@/lib/console/protocol";
+import { withServerId } from "@/lib/proxmox/tasks";
+import { INTERVALS } from "@/lib/constants";
+import type { VmList, VmResource } from "@/lib/types";
+
+const statusColor: Record<string, string> = {
+  running: "bg-green-500",
+  stopped: "bg-gray-500",
+  paused: "bg-yellow-500",
+};
+
+const formatBytes = (bytes?: number) => {
+  if (!bytes) return "-";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  return `${(bytes / Math.pow(1024, i)).toFixed(i ? 1 : 0)} ${units[i]}`;
+};
+
+const formatUptime = (seconds?: number) => {
+  if (!seconds) return "-";
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+const Stat: React.FC<{ icon: typeof Cpu; label: string; value: string; ratio?: number }> = ({ icon, label, value, ratio }) => (
+  <Card>
+    <CardContent className="space-y-2">
+      <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <Icon icon={icon} size="sm" />
+        {label}
+      </div>
+      <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{value}</p>
+      {ratio !== undefined && (
+        <div className="h-1.5 w-full rounded-full bg-gray-200 dark:bg-gray-700">
+          <div
+            className={`h-1.5 rounded-full ${ratio > 0.9 ? "bg-red-500" : ratio > 0.7 ? "bg-yellow-500" : "bg-green-500"}`}
+            style={{ width: `${Math.min(100, ratio * 100)}%` }}
+          />
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Detail page of a single guest: /vms/[vmid]?serverId=
+ * Shows live usage, the configuration with editing, and snapshots. Without
+ * `serverId` the guest is looked up on the default server.
+ */
+export default function VmDetailPage() {
+  const params = useParams<{ vmid: string }>();
+  const vmid = parseInt(params.vmid, 10);
+  const serverId = useSearchParams().get("serverId") ?? undefined;
+  const [vm, setVm] = useState<VmResource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  const fetchVm = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(withServerId("/api/proxmox/vms", serverId), { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch VMs");
+      }
+      const data = (await response.json()) as VmList;
+      const guest = data.vms.find((v) => v.vmid === vmid);
+      if (!guest) {
+        throw new Error(`VM/CT ${params.vmid} not found`);
+      }
+      setVm(guest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch VM");
+    }
+  }, [vmid, params.vmid, serverId]);
+
+  useEffect(() => {
+    fetchVm();
+  }, [fetchVm]);
+
+  // Live usage of the guest once its node is known
+  const node = vm?.node;
+  const refreshStatus = useCallback(async () => {
+    if (!node) return;
+    try {
+      const response = await fetch(withServerId(`/api/proxmox/vms/${vmid}?node=${encodeURIComponent(node)}`, serverId), { cache: "no-store" });
+      const json = await response.json();
+      if (response.ok && json.ok) setVm(json.data as VmResource);
+    } catch {
+      // Keep the last known status; the next poll retries
+    }
+  }, [vmid, node, serverId]);
+
+  useEffect(() => {
+    if (!node) return;
+    refreshStatus();
+    const interval = setInterval(refreshStatus, INTERVALS.METRICS_POLL * 2);
+    return () => clearInterval(interval);
+  }, [node, refreshStatus]);
+
+  return (
+    <div className="min-h-screen w-full p-6">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <header className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <Link href={withServerId("/vms", serverId)} className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+              <Icon icon={ArrowLeft} size="xs" />
+              Virtual Machines
+            </Link>
+            <h1 className="mt-1 text-2xl font-bold text-gray-900 dark:text-gray-100">
+              {vm ? vm.name || `${vm.type}-${vm.vmid}` : `Guest ${params.vmid}`}
+            </h1>
+            {vm && (
+              <p className="mt-1 inline-flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                <span className={`h-2 w-2 rounded-full ${statusColor[vm.status] ?? "bg-gray-500"}`} />
+                {vm.status} · {vm.type === "qemu" ? "VM" : "CT"} {vm.vmid} on {vm.node}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {vm && !vm.template && (
+              <Button variant="secondary" size="sm" onClick={() => setMigrating(true)} disabled={migrating}>
+                <Icon icon={ArrowRightLeft} size="sm" />
+                Migrate
+              </Button>
+            )}
+            {vm?.status === "running" && (
+              <a
+                href={consolePageHref({ type: vm.type, node: vm.node, vmid: vm.vmid })}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 rounded-md bg-gray-200 px-3 py-1.5 text-sm font-medium text-gray-900 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+              >
+                <Icon icon={TerminalSquare} size="sm" />
+                Console
+              </a>
+            )}
+          </div>
+        </header>
+
+        {error && (
+          <Card>
+            <CardContent>
+              <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+                {error}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {vm && (
+          <>
+            {migrating && (
+              <SectionErrorBoundary>
+                <MigrationPanel
+                  vm={vm}
+                  serverId={serverId}
+                  onClose={() => setMigrating(false)}
+                  onMigrated={() => {
+                    // The guest is looked up again to pick up its new node
+                    setMigrating(false);
+                    fetchVm();
+                  }}
+                />
+              </SectionErrorBoundary>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <Stat
+                icon={Cpu}
+                label={`CPU (${vm.maxcpu ?? "?"} cores)`}
+                value={vm.cpu !== undefined ? `${(vm.cpu * 100).toFixed(1)}%` : "-"}
+                ratio={vm.cpu}
+              />
+              <Stat
+                icon={MemoryStick}
+                label="Memory"
+                value={`${formatBytes(vm.memory?.used)} / ${formatBytes(vm.memory?.max)}`}
+                ratio={vm.memory?.used !== undefined && vm.memory?.max ? vm.memory.used / vm.memory.max : undefined}
+              />
+              <Stat
+                icon={HardDrive}
+                label="Disk"
+                value={`${formatBytes(vm.disk?.used)} / ${formatBytes(vm.disk?.max)}`}
+                ratio={vm.disk?.used !== undefined && vm.disk?.max ? vm.disk.used / vm.disk.max : undefined}
+              />
+              <Stat icon={Clock} label="Uptime" value={formatUptime(vm.uptime)} />
+            </div>
+
+            <SectionErrorBoundary>
+              <VmConfigPanel vmid={vm.vmid} node={vm.node} type={vm.type} serverId={serverId} onUpdated={refreshStatus} />
+            </SectionErrorBoundary>
+
+            <SectionErrorBoundary>
+              <SnapshotTree vmid={vm.vmid} node={vm.node} type={vm.type} serverId={serverId} />
+            </SectionErrorBoundary>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
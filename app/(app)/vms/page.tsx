@@ -1,13 +1,17 @@
 "use client";
 
-import React, { useState, useMemo, useCallback, useEffect } from "react";
+import React, { use, useState, useMemo, useCallback, useEffect } from "react";
+import Link from "next/link";
 import Button from "@/components/ui/Button";
 import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import Icon from "@/components/ui/Icon";
 import { showToast } from "@/components/ui/Toast";
 import { SectionErrorBoundary } from "@/components/ErrorBoundary";
 import { usePerformanceMonitor } from "@/lib/utils/performance";
-import { API_ENDPOINTS } from "@/lib/constants";
+import { isTaskSuccessful, waitForTask, withServerId } from "@/lib/proxmox/tasks";
+import { useLiveChannel } from "@/hooks/useLiveChannel";
+import { applyVmStatusEvent } from "@/lib/events/resourceEvents";
+import { consolePageHref } from "@/lib/console/protocol";
 import type { VmResource, VmStatus, VmType } from "@/lib/types";
 import {
   HardDrive,
@@ -23,6 +27,7 @@ import {
   MemoryStick,
   Clock,
   Tag,
+  TerminalSquare,
 } from "lucide-react";
 
 // VM Action component
@@ -142,8 +147,18 @@ const formatUptime = (seconds?: number) => {
   return `${minutes}m`;
 };
 
-const VmsPage: React.FC = () => {
+type VmsPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+/**
+ * Guests of a cluster: /vms?serverId=
+ * Without `serverId` the guests of the default server are listed.
+ */
+const VmsPage: React.FC<VmsPageProps> = ({ searchParams }) => {
   const performanceMetrics = usePerformanceMonitor('VmsPage');
+  const { serverId: serverParam } = use(searchParams);
+  const serverId = typeof serverParam === 'string' ? serverParam : undefined;
   
   // State for filters and search
   const [searchTerm, setSearchTerm] = useState('');
@@ -162,7 +177,7 @@ const VmsPage: React.FC = () => {
     try {
       setIsLoading(true);
       setError(null);
-      const response = await fetch('/api/proxmox/vms');
+      const response = await fetch(withServerId('/api/proxmox/vms', serverId));
       if (!response.ok) {
         throw new Error('Failed to fetch VMs');
       }
@@ -174,14 +189,26 @@ const VmsPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [serverId]);
 
-  // Initial load and periodic refresh
+  // Initial load
   useEffect(() => {
     fetchVms();
+  }, [fetchVms]);
+
+  // Guests started, stopped or migrated elsewhere are applied as they happen
+  const live = useLiveChannel({ topics: ['vms'] });
+  const { subscribe } = live;
+  useEffect(() => subscribe('vm-status', (event) => {
+    setVmData((previous) => previous && { ...previous, vms: applyVmStatusEvent(previous.vms, event) });
+  }), [subscribe]);
+
+  // Fall back to periodic refresh while the event stream is down
+  useEffect(() => {
+    if (live.connected) return;
     const interval = setInterval(fetchVms, 30000); // Refresh every 30 seconds
     return () => clearInterval(interval);
-  }, [fetchVms]);
+  }, [live.connected, fetchVms]);
 
   const handleVmAction = useCallback(async (vmid: number, action: string) => {
     const vm = vmData?.vms?.find((v: VmResource) => v.vmid === vmid);
@@ -189,15 +216,28 @@ const VmsPage: React.FC = () => {
     
     try {
       setActionLoading(vmid);
-      const response = await fetch(`/api/proxmox/vms/${vmid}/action`, {
+      const response = await fetch(withServerId(`/api/proxmox/vms/${vmid}/action`, serverId), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ node: vm.node, action }),
       });
       
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Action failed');
+      const result = await response.json();
+      if (!response.ok || !result.ok) {
+        throw new Error(result.error || 'Action failed');
+      }
+
+      // 202: the Proxmox task is still running, follow it until it completes
+      if (response.status === 202 && result.data?.upid) {
+        showToast.info(`${action} of VM/CT ${vmid} in progress...`);
+        const task = await waitForTask(result.data.upid, { serverId });
+        if (!task) {
+          showToast.warning(`${action} of VM/CT ${vmid} is still running`);
+          return;
+        }
+        if (!isTaskSuccessful(task)) {
+          throw new Error(task.exitstatus || 'Task failed');
+        }
       }
       
       showToast.success(`Successfully ${action}ed VM/CT ${vmid}`);
@@ -209,7 +249,7 @@ const VmsPage: React.FC = () => {
     } finally {
       setActionLoading(null);
     }
-  }, [vmData?.vms, fetchVms]);
+  }, [vmData?.vms, fetchVms, serverId]);
 
   // Filter and search VMs
   const filteredVms = useMemo(() => {
@@ -445,9 +485,12 @@ const VmsPage: React.FC = () => {
                           </td>
                           <td className="py-3 pr-4">
                             <div className="flex flex-col">
-                              <span className="font-medium text-gray-900 dark:text-gray-100">
+                              <Link
+                                href={withServerId(`/vms/${vm.vmid}`, serverId)}
+                                className="font-medium text-gray-900 hover:text-blue-600 dark:text-gray-100 dark:hover:text-blue-400"
+                              >
                                 {vm.name || `${vm.type}-${vm.vmid}`}
-                              </span>
+                              </Link>
                               {vm.tags && (
                                 <div className="flex items-center gap-1 mt-1">
                                   <Icon icon={Tag} size="xs" className="text-gray-400" />
@@ -544,6 +587,17 @@ const VmsPage: React.FC = () => {
                                 onAction={handleVmAction}
                                 loading={actionLoading === vm.vmid}
                               />
+                              {vm.status === 'running' && (
+                                <a
+                                  href={consolePageHref({ type: vm.type, node: vm.node, vmid: vm.vmid })}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="p-1 rounded text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                                  title={`Console of ${vm.type.toUpperCase()} ${vm.vmid}`}
+                                >
+                                  <Icon icon={TerminalSquare} size="sm" />
+                                </a>
+                              )}
                             </div>
                           </td>
                         </tr>
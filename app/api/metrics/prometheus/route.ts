@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertStore } from '@/lib/alerts/store';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { collectPrometheusSnapshot, OPENMETRICS_CONTENT_TYPE, renderOpenMetrics } from '@/lib/metrics/prometheus';
+import { PROMETHEUS_EXPORTER } from '@/lib/constants';
+import { MemoryCache } from '@/lib/utils/cache';
+
+export const runtime = 'nodejs';
+
+const cache = new MemoryCache<string>({
+  ttl: PROMETHEUS_EXPORTER.CACHE_TTL,
+  maxEntries: PROMETHEUS_EXPORTER.MAX_CACHED_SERVERS,
+});
+
+/**
+ * GET /api/metrics/prometheus?serverId=
+ * Node, guest, backup, service and alert gauges in the OpenMetrics text
+ * format. Alert counts come from the alert engine, so they are only
+ * exported for the default server.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const serverId = getRequestServerId(request);
+    const client = await getClientForRequest(request);
+    const body = await cache.getOrSet(`prometheus-${serverId ?? 'default'}`, async () => {
+      const loadAlerts = serverId ? undefined : () => getAlertStore().listAlerts('firing');
+      return renderOpenMetrics(await collectPrometheusSnapshot(client, loadAlerts, request.signal));
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': OPENMETRICS_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to render Prometheus metrics:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to render Prometheus metrics',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
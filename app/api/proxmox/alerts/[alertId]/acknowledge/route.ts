@@ -1,12 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { acknowledgeAlert } from '@/lib/proxmox/client';
+import { getAlertStore } from '@/lib/alerts/store';
+import { getRequestServerId } from '@/lib/proxmox/registry';
 
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/proxmox/alerts/[alertId]/acknowledge - Acknowledge an alert
+ * Like the alert list, only the default server's alerts exist: a request
+ * aimed at a stored server is rejected with 400.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: { alertId: string } }
 ) {
   try {
     const alertId = params.alertId;
+    const serverId = getRequestServerId(request);
+    if (serverId) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Alerts are only evaluated for the default server, not ${serverId}`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
     
     if (!alertId) {
       return NextResponse.json(
@@ -19,17 +38,23 @@ export async function POST(
       );
     }
 
+    // Optional body: { acknowledgedBy } names the user in the alert history
+    const body = await request.json().catch(() => ({}));
+    const acknowledgedBy = typeof body?.acknowledgedBy === 'string' && body.acknowledgedBy.trim()
+      ? body.acknowledgedBy.trim()
+      : undefined;
+
     // Acknowledge the alert
-    const result = await acknowledgeAlert(alertId, request.signal);
+    const alert = await getAlertStore().acknowledge(alertId, acknowledgedBy);
 
-    if (!result.success) {
+    if (!alert) {
       return NextResponse.json(
         {
           ok: false,
-          error: 'Failed to acknowledge alert',
+          error: `Alert not found: ${alertId}`,
           timestamp: new Date().toISOString(),
         },
-        { status: 500 }
+        { status: 404 }
       );
     }
 
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAlertStore } from '@/lib/alerts/store';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/alerts/config - Thresholds evaluated by the alert engine
+ */
+export async function GET() {
+  try {
+    const config = await getAlertStore().getConfig();
+    return NextResponse.json({
+      ok: true,
+      data: config,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load alert configuration',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/proxmox/alerts/config - Replace the alert configuration
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const config = await getAlertStore().saveConfig(await request.json());
+    return NextResponse.json({
+      ok: true,
+      data: config,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid alert configuration',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to save alert configuration',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
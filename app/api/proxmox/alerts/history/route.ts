@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAlertStore } from '@/lib/alerts/store';
+import { queryHistory } from '@/lib/alerts/history';
+import { validateAlertHistoryQuery } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/alerts/history?page=&pageSize=&node=&vmid=&severity=&transition=&alertId=&from=&to=
+ * Alert state transitions, newest first, with MTTA/MTTR statistics overall and per node.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = validateAlertHistoryQuery(Object.fromEntries(request.nextUrl.searchParams));
+    const history = queryHistory(await getAlertStore().listHistory(), query);
+
+    return NextResponse.json({
+      ok: true,
+      data: history,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid history query',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load alert history',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
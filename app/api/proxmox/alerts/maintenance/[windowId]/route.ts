@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAlertStore } from '@/lib/alerts/store';
+
+export const runtime = 'nodejs';
+
+const notFound = (windowId: string) =>
+  NextResponse.json(
+    {
+      ok: false,
+      error: `Maintenance window not found: ${windowId}`,
+      timestamp: new Date().toISOString(),
+    },
+    { status: 404 }
+  );
+
+/**
+ * PUT /api/proxmox/alerts/maintenance/[windowId] - Replace a maintenance window
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { windowId: string } }
+) {
+  try {
+    const window = await getAlertStore().saveMaintenanceWindow(await request.json(), params.windowId);
+    if (!window) return notFound(params.windowId);
+
+    return NextResponse.json({
+      ok: true,
+      data: window,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid maintenance window',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to update maintenance window',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/proxmox/alerts/maintenance/[windowId] - Delete a maintenance window
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { windowId: string } }
+) {
+  try {
+    const deleted = await getAlertStore().deleteMaintenanceWindow(params.windowId);
+    if (!deleted) return notFound(params.windowId);
+
+    return NextResponse.json({
+      ok: true,
+      data: { windowId: params.windowId },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to delete maintenance window',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
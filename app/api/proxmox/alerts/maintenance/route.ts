@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAlertStore } from '@/lib/alerts/store';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/alerts/maintenance - Recurring maintenance windows
+ */
+export async function GET() {
+  try {
+    const windows = await getAlertStore().listMaintenanceWindows();
+    return NextResponse.json({
+      ok: true,
+      data: windows,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load maintenance windows',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proxmox/alerts/maintenance - Create a maintenance window
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const window = await getAlertStore().saveMaintenanceWindow(await request.json());
+    return NextResponse.json(
+      {
+        ok: true,
+        data: window,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid maintenance window',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to create maintenance window',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
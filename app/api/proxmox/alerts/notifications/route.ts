@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getAlertStore } from '@/lib/alerts/store';
+import { getNotificationDispatcher } from '@/lib/alerts/notifications';
+import { NotificationChannelIdSchema } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/alerts/notifications - Notification channel status and recent deliveries
+ */
+export async function GET() {
+  try {
+    const store = getAlertStore();
+    const [config, deliveries] = await Promise.all([store.getConfig(), store.listDeliveries()]);
+    const configured = getNotificationDispatcher().configuredChannels();
+
+    return NextResponse.json({
+      ok: true,
+      data: {
+        channels: NotificationChannelIdSchema.options.map((id) => ({
+          id,
+          configured: configured.includes(id),
+          enabled: config.notificationChannels[id],
+        })),
+        deliveries,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load notification channels',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotificationDispatcher } from '@/lib/alerts/notifications';
+import { NotificationChannelIdSchema } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/proxmox/alerts/notifications/test - Send a test notification through one channel
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const channel = NotificationChannelIdSchema.safeParse(body?.channel);
+    if (!channel.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Unknown notification channel. Expected one of: ${NotificationChannelIdSchema.options.join(', ')}`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await getNotificationDispatcher().test(channel.data);
+    if (!delivery) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `The ${channel.data} channel is not configured on the server`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: delivery.status === 'sent',
+        data: delivery,
+        error: delivery.error,
+        timestamp: new Date().toISOString(),
+      },
+      { status: delivery.status === 'sent' ? 200 : 502 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to send test notification',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
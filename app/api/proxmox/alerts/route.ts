@@ -1,12 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getActiveAlerts } from '@/lib/proxmox/client';
+import { getAlertStore } from '@/lib/alerts/store';
+import { alertTarget, suppressedUntil } from '@/lib/alerts/silences';
+import { getRequestServerId } from '@/lib/proxmox/registry';
+import { AlertStatusSchema } from '@/lib/types';
 
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/alerts?status=firing|resolved|all
+ * Alerts recorded by the server-side alert engine; firing ones by default.
+ * Firing alerts under a silence or maintenance window carry `silencedUntil`.
+ * The engine only evaluates the default server: a request aimed at a stored
+ * server (`?serverId=` or `X-Proxmox-Server-Id`) is rejected with 400 rather
+ * than answered with the default server's alerts.
+ */
 export async function GET(request: NextRequest) {
   try {
-    const signal = request.signal;
+    const serverId = getRequestServerId(request);
+    if (serverId) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Alerts are only evaluated for the default server, not ${serverId}`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const status = request.nextUrl.searchParams.get('status') ?? 'firing';
+    if (status !== 'all' && !AlertStatusSchema.safeParse(status).success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Invalid status: ${status}`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
 
-    // Get active alerts from Proxmox
-    const alerts = await getActiveAlerts(signal);
+    const store = getAlertStore();
+    const now = new Date();
+    const [stored, config, silences, maintenanceWindows] = await Promise.all([
+      store.listAlerts(status === 'all' ? undefined : AlertStatusSchema.parse(status)),
+      store.getConfig(),
+      store.listSilences(now),
+      store.listMaintenanceWindows(),
+    ]);
+    const alerts = stored.map((alert) => {
+      if ((alert.status ?? 'firing') !== 'firing') return alert;
+      const until = suppressedUntil(alertTarget(alert, config.thresholds), { silences, maintenanceWindows }, now);
+      return until ? { ...alert, silencedUntil: until } : alert;
+    });
 
     return NextResponse.json({
       ok: true,
@@ -27,4 +73,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertStore } from '@/lib/alerts/store';
+
+export const runtime = 'nodejs';
+
+/**
+ * DELETE /api/proxmox/alerts/silences/[silenceId] - Expire a silence
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { silenceId: string } }
+) {
+  try {
+    const deleted = await getAlertStore().deleteSilence(params.silenceId);
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Silence not found: ${params.silenceId}`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: { silenceId: params.silenceId },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to delete silence',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAlertStore } from '@/lib/alerts/store';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/alerts/silences - Silences that have not ended yet
+ */
+export async function GET() {
+  try {
+    const silences = await getAlertStore().listSilences();
+    return NextResponse.json({
+      ok: true,
+      data: silences,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load silences',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proxmox/alerts/silences - Silence matching alerts until `endsAt`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const silence = await getAlertStore().createSilence(await request.json());
+    return NextResponse.json(
+      {
+        ok: true,
+        data: silence,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid silence',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to create silence',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
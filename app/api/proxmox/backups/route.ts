@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBackupJobs } from '@/lib/proxmox/client';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
 
 export async function GET(request: NextRequest) {
   try {
@@ -8,7 +8,8 @@ export async function GET(request: NextRequest) {
     const signal = request.signal;
 
     // Get backup jobs from Proxmox
-    const backups = await getBackupJobs(node || undefined, signal);
+    const client = await getClientForRequest(request);
+    const backups = await client.getBackupJobs(node || undefined, signal);
 
     return NextResponse.json({
       ok: true,
@@ -26,7 +27,7 @@ export async function GET(request: NextRequest) {
         error: errorMessage,
         timestamp: new Date().toISOString(),
       },
-      { status: 500 }
+      { status: error instanceof UnknownServerError ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
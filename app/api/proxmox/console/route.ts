@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { env } from '@/env/index';
+import { getConsoleSessions } from '@/lib/console/sessions';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { CONSOLE_PROXY } from '@/lib/constants';
+import { validateConsoleTarget } from '@/lib/types';
+import type { ConsoleSession } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/proxmox/console - Open a console of a guest or a node shell
+ * Body: `{ type: 'qemu' | 'lxc' | 'node', node, vmid? }`. Answers with a
+ * one-time token for the console proxy, which must be used within seconds,
+ * and the credentials noVNC or xterm.js send in their handshake.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const config = env.get();
+    if (!config.CONSOLE_WS_ENABLED) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'The console proxy is disabled',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 503 }
+      );
+    }
+
+    const target = validateConsoleTarget(await request.json());
+    const client = await getClientForRequest(request);
+    const ticket = await client.createConsoleTicket(target, request.signal);
+    const { token, expiresAt } = getConsoleSessions().issue({
+      serverId: getRequestServerId(request),
+      target,
+      ticket,
+    });
+
+    const session: ConsoleSession = {
+      token,
+      protocol: ticket.protocol,
+      url: config.CONSOLE_WS_PUBLIC_URL ?? null,
+      port: config.CONSOLE_WS_PORT,
+      path: CONSOLE_PROXY.PATH,
+      user: ticket.user,
+      ticket: ticket.ticket,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+    return NextResponse.json(
+      {
+        ok: true,
+        data: session,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid console target',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to open console:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to open console',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
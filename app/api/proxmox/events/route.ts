@@ -1,61 +1,79 @@
-import { eventsStream } from "@/lib/proxmox/client";
+import { NextResponse } from "next/server";
+import { getClientForRequest, getRequestServerId, UnknownServerError } from "@/lib/proxmox/registry";
+import { getEventBroadcaster } from "@/lib/events/broadcaster";
+import type { BroadcastEvent } from "@/lib/events/broadcaster";
+import { TIMEOUTS } from "@/lib/constants";
 
 export const runtime = "nodejs";
 
-export async function GET(_req: Request) {
-  const iterator = eventsStream();
-  let running = true;
+/**
+ * Id to resume from: the Last-Event-ID header sent by EventSource on automatic
+ * reconnects, or `?lastEventId=` for clients that open a new EventSource.
+ */
+function getLastEventId(req: Request): number | undefined {
+  const raw = req.headers.get("last-event-id") ?? new URL(req.url).searchParams.get("lastEventId");
+  const id = raw ? Number(raw) : NaN;
+  return Number.isInteger(id) && id >= 0 ? id : undefined;
+}
+
+export async function GET(req: Request) {
+  try {
+    // Resolve the client up front so unknown servers fail with a JSON error instead of an empty stream
+    await getClientForRequest(req);
+  } catch (err) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Unknown error" },
+      { status: err instanceof UnknownServerError ? 404 : 500 },
+    );
+  }
+
+  const broadcaster = getEventBroadcaster(getRequestServerId(req));
+  let unsubscribe: (() => void) | null = null;
 
   const stream = new ReadableStream({
-    async start(controller) {
+    start(controller) {
       const encoder = new TextEncoder();
+      let open = true;
+
+      const close = () => {
+        open = false;
+        unsubscribe?.();
+        unsubscribe = null;
+      };
 
       const safeEnqueue = (chunk: string) => {
-        if (!running) return;
+        if (!open) return;
         try {
           controller.enqueue(encoder.encode(chunk));
         } catch {
           // Controller might already be closed; stop streaming.
-          running = false;
+          close();
         }
       };
 
-      const send = (event: string, data: unknown) => {
-        if (!running) return;
-        const payload = typeof data === "string" ? data : JSON.stringify(data);
-        safeEnqueue(`event: ${event}\n`);
-        safeEnqueue(`data: ${payload}\n\n`);
+      // Named after the message type so clients can listen to the types they need
+      const send = ({ id, message }: BroadcastEvent) => {
+        safeEnqueue(`id: ${id}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
       };
 
-      // Initial comment to establish stream
-      safeEnqueue(`: connected ${new Date().toISOString()}\n\n`);
+      // Initial comment to establish stream, and the client reconnect delay
+      safeEnqueue(`retry: ${TIMEOUTS.SSE_RECONNECT}\n: connected ${new Date().toISOString()}\n\n`);
 
-      (async () => {
-        try {
-          for await (const msg of iterator) {
-            if (!running) break;
-            if (msg.type === "heartbeat") {
-              // Heartbeats as comments
-              safeEnqueue(`: heartbeat ${msg.ts}\n\n`);
-            } else if (msg.type === "status") {
-              send("status", msg);
-            } else if (msg.type === "error") {
-              send("error", msg);
-            } else {
-              send("message", msg);
-            }
-          }
-        } catch (err: any) {
-          if (running) {
-            send("error", { type: "error", message: err?.message ?? "stream error" });
-          }
-        }
-        // Do not call controller.close() here; cancel() will handle it.
-      })();
+      const subscription = broadcaster.subscribe(
+        {
+          send,
+          // No id: heartbeats are not buffered and must not move the client's Last-Event-ID
+          heartbeat: (ts) => safeEnqueue(`event: heartbeat\ndata: ${JSON.stringify({ type: "heartbeat", ts })}\n\n`),
+        },
+        getLastEventId(req),
+      );
+      unsubscribe = subscription.unsubscribe;
+      subscription.replay.forEach(send);
     },
     cancel() {
-      // Client disconnected; stop background loop and close controller on our side
-      running = false;
+      // Client disconnected; the broadcaster stops polling after its last subscriber
+      unsubscribe?.();
+      unsubscribe = null;
     },
   });
 
@@ -68,4 +86,4 @@ export async function GET(_req: Request) {
     },
     status: 200,
   });
-}
\ No newline at end of file
+}
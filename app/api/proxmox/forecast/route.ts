@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { buildCapacityForecast } from '@/lib/forecast/capacity';
+import { FORECAST } from '@/lib/constants';
+import { validateForecastQuery } from '@/lib/types';
+import type { CapacityForecast } from '@/lib/types';
+import { MemoryCache } from '@/lib/utils/cache';
+
+export const runtime = 'nodejs';
+
+const cache = new MemoryCache<CapacityForecast>({ ttl: FORECAST.CACHE_TTL });
+
+/**
+ * GET /api/proxmox/forecast?timeRange=&horizonDays=&node=
+ * Linear and daily trends of node memory, node storage and storage pool
+ * usage, with the projected dates of reaching 80, 90 and 100%.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = validateForecastQuery(Object.fromEntries(request.nextUrl.searchParams));
+    const client = await getClientForRequest(request);
+    const key = `forecast-${getRequestServerId(request) ?? 'default'}-${query.timeRange}-${query.horizonDays}-${query.node ?? 'all'}`;
+    const data = await cache.getOrSet(key, () => buildCapacityForecast(client, query, Date.now(), request.signal));
+
+    return NextResponse.json({
+      ok: true,
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid forecast query',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to build capacity forecast:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to build capacity forecast',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
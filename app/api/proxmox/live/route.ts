@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { env } from '@/env/index';
+import { LIVE_CHANNEL } from '@/lib/constants';
+import { getLiveTokens } from '@/lib/live/tokens';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/live - Where browsers reach the WebSocket live channel.
+ * `url` is set when it sits behind a proxy; otherwise clients connect to
+ * `port` and `path` on the host serving the dashboard. `token` must be passed
+ * as the `token` query parameter; it opens one connection.
+ */
+export async function GET() {
+  try {
+    const config = env.get();
+
+    return NextResponse.json({
+      ok: true,
+      data: {
+        enabled: config.LIVE_WS_ENABLED,
+        url: config.LIVE_WS_PUBLIC_URL ?? null,
+        port: config.LIVE_WS_PORT,
+        path: LIVE_CHANNEL.PATH,
+        token: config.LIVE_WS_ENABLED ? getLiveTokens().issue().token : null,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load live channel settings',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSystemLogs } from '@/lib/proxmox/client';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,7 +35,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Get system logs from Proxmox
-    const logs = await getSystemLogs(node, limit, since, signal);
+    const client = await getClientForRequest(request);
+    const logs = await client.getSystemLogs(node, limit, since, signal);
 
     return NextResponse.json({
       ok: true,
@@ -53,7 +54,7 @@ export async function GET(request: NextRequest) {
         error: errorMessage,
         timestamp: new Date().toISOString(),
       },
-      { status: 500 }
+      { status: error instanceof UnknownServerError ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { env } from '@/env/index';
+import { getRequestServerId } from '@/lib/proxmox/registry';
+import { getMetricsStore } from '@/lib/metrics/store';
+import { chooseResolution } from '@/lib/metrics/rollup';
+import { createMetricsExportStream } from '@/lib/metrics/export';
+import { validateMetricsExportQuery } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+} as const;
+
+/**
+ * GET /api/proxmox/metrics/export?format=csv|ndjson&nodes=&vmids=&series=&from=&to=&resolution=
+ * Retained metrics of the given nodes and guests (comma-separated) streamed
+ * as a download, e.g. `curl -o march.csv '...?nodes=pve-1&vmids=100,101&from=2025-03-01&to=2025-04-01'`.
+ * Like the collector, only the default server is covered.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (getRequestServerId(request)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Retained metrics are only collected for the default server',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const query = validateMetricsExportQuery(Object.fromEntries(request.nextUrl.searchParams));
+    const resolution = query.resolution ?? chooseResolution(query.from, query.to);
+    const server = new URL(env.get().PROXMOX_BASE_URL).hostname;
+
+    const stream = createMetricsExportStream({
+      store: getMetricsStore(),
+      format: query.format,
+      server,
+      subjects: [...query.nodes.map((node) => ({ node })), ...query.vmids.map((vmid) => ({ vmid }))],
+      series: query.series,
+      resolution,
+      from: query.from,
+      to: query.to,
+      signal: request.signal,
+    });
+
+    const filename = `metrics-${server}-${query.from.toISOString().slice(0, 10)}-${query.to.toISOString().slice(0, 10)}.${query.format}`;
+    return new Response(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[query.format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        'X-Metrics-Server': server,
+        'X-Metrics-Resolution': resolution,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid export query',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to export metrics:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to export metrics',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
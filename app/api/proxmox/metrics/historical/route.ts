@@ -1,10 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getHistoricalMetrics } from '@/lib/proxmox/client';
+import { ZodError } from 'zod';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { getMetricsStore } from '@/lib/metrics/store';
+import { chooseResolution } from '@/lib/metrics/rollup';
+import { validateMetricsRangeQuery } from '@/lib/types';
 import type { TimeRange } from '@/lib/types';
 
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/metrics/historical?node=&from=&to=&vmid=&resolution=
+ * Retained buckets (min, max and avg per metric) between `from` and `to`,
+ * served from the metrics store; the resolution defaults to the finest one
+ * still retained for the range. Only the default server is collected.
+ */
+async function getRetainedMetrics(request: NextRequest) {
+  if (getRequestServerId(request)) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: 'Retained metrics are only collected for the default server',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const query = validateMetricsRangeQuery(Object.fromEntries(request.nextUrl.searchParams));
+  const resolution = query.resolution ?? chooseResolution(query.from, query.to);
+  const data = await getMetricsStore().query({
+    node: query.node,
+    vmid: query.vmid,
+    resolution,
+    from: query.from,
+    to: query.to,
+  });
+
+  return NextResponse.json({
+    ok: true,
+    node: query.node,
+    vmid: query.vmid,
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    resolution,
+    data,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * GET /api/proxmox/metrics/historical?node=&timeRange=&vmid=
+ * Proxmox RRD data for one of the fixed time ranges; with `from` the
+ * retained metrics above are returned instead.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
+    if (searchParams.has('from')) {
+      return await getRetainedMetrics(request);
+    }
+
     const node = searchParams.get('node');
     const timeRange = searchParams.get('timeRange') as TimeRange;
     const vmidParam = searchParams.get('vmid');
@@ -47,7 +102,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Get historical metrics from Proxmox
-    const metrics = await getHistoricalMetrics(node, timeRange, vmid, signal);
+    const client = await getClientForRequest(request);
+    const metrics = await client.getHistoricalMetrics(node, timeRange, vmid, signal);
 
     return NextResponse.json({
       ok: true,
@@ -55,6 +111,17 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid metrics range query',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
     console.error('Failed to fetch historical metrics:', error);
     
     const errorMessage = error instanceof Error ? error.message : 'Failed to fetch historical metrics';
@@ -65,7 +132,7 @@ export async function GET(request: NextRequest) {
         error: errorMessage,
         timestamp: new Date().toISOString(),
       },
-      { status: 500 }
+      { status: error instanceof UnknownServerError ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
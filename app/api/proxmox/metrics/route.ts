@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { getNodeMetrics } from "@/lib/proxmox/client";
+import { getClientForRequest, UnknownServerError } from "@/lib/proxmox/registry";
 
 export const runtime = "nodejs";
 
@@ -23,12 +23,13 @@ export async function GET(request: Request) {
     }
 
     const abort = new AbortController();
-    const data = await getNodeMetrics(node, range, abort.signal);
+    const client = await getClientForRequest(request);
+    const data = await client.getNodeMetrics(node, range, abort.signal);
     return NextResponse.json({ ok: true, data });
   } catch (err: any) {
     return NextResponse.json(
       { ok: false, error: err?.message ?? "Unknown error" },
-      { status: 500 },
+      { status: err instanceof UnknownServerError ? 404 : 500 },
     );
   }
 }
\ No newline at end of file
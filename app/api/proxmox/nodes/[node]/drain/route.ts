@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getNodeDrainer, MaintenanceConflictError } from '@/lib/maintenance/drain';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateDrainNode, validateNodeDrainRequest } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/nodes/[node]/drain - Placement plan of a drain, for approval
+ * Only pve-* nodes can be drained; other names answer 400.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { node: string } }
+) {
+  try {
+    const node = validateDrainNode(params.node);
+    const client = await getClientForRequest(request);
+    const plan = await getNodeDrainer().plan(client, getRequestServerId(request), node, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: plan,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid node',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to plan node drain:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to plan node drain',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : error instanceof MaintenanceConflictError ? 409 : 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proxmox/nodes/[node]/drain - Migrate the guests of a node and put it in maintenance
+ * Body: `{ placements, concurrency? }` with the placements of the approved plan.
+ * Answers 202 with the maintenance record while the migrations run; poll
+ * /api/proxmox/nodes/maintenance for their progress.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { node: string } }
+) {
+  try {
+    const node = validateDrainNode(params.node);
+    const drainRequest = validateNodeDrainRequest(await request.json());
+    const client = await getClientForRequest(request);
+    const maintenance = await getNodeDrainer().drain(client, getRequestServerId(request), node, drainRequest);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: maintenance,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid drain request',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to drain node:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to drain node',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : error instanceof MaintenanceConflictError ? 409 : 500 }
+    );
+  }
+}
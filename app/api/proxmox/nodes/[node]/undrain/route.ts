@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getNodeDrainer, MaintenanceConflictError } from '@/lib/maintenance/drain';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateDrainNode, validateNodeUndrainRequest } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/proxmox/nodes/[node]/undrain - Move drained guests back and end the maintenance
+ * Body: `{ concurrency? }`. Answers 202 with the maintenance record while the
+ * migrations run, or 200 with null data when no guest had to move.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { node: string } }
+) {
+  try {
+    const node = validateDrainNode(params.node);
+    const undrainRequest = validateNodeUndrainRequest(await request.json().catch(() => ({})));
+    const client = await getClientForRequest(request);
+    const maintenance = await getNodeDrainer().undrain(client, getRequestServerId(request), node, undrainRequest);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: maintenance,
+        timestamp: new Date().toISOString(),
+      },
+      { status: maintenance ? 202 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid undrain request',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to undrain node:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to undrain node',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : error instanceof MaintenanceConflictError ? 409 : 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMaintenanceStore } from '@/lib/maintenance/store';
+import { getRequestServerId } from '@/lib/proxmox/registry';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/nodes/maintenance - Nodes being drained, undrained or in maintenance
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const maintenance = await getMaintenanceStore().list(getRequestServerId(request));
+    return NextResponse.json({
+      ok: true,
+      data: maintenance,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to load node maintenance',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
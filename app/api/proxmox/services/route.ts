@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceStatus } from '@/lib/proxmox/client';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,7 +19,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Get service status from Proxmox
-    const services = await getServiceStatus(node, signal);
+    const client = await getClientForRequest(request);
+    const services = await client.getServiceStatus(node, signal);
 
     return NextResponse.json({
       ok: true,
@@ -37,7 +38,7 @@ export async function GET(request: NextRequest) {
         error: errorMessage,
         timestamp: new Date().toISOString(),
       },
-      { status: 500 }
+      { status: error instanceof UnknownServerError ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { getClusterSummary } from "@/lib/proxmox/client";
+import { getClientForRequest, UnknownServerError } from "@/lib/proxmox/registry";
 
 export const runtime = "nodejs";
 
@@ -9,12 +9,13 @@ export async function GET(request: Request) {
     const abort = new AbortController();
     const signal = abort.signal;
 
-    const data = await getClusterSummary(signal);
+    const client = await getClientForRequest(request);
+    const data = await client.getClusterSummary(signal);
     return NextResponse.json({ ok: true, data });
   } catch (err: any) {
     return NextResponse.json(
       { ok: false, error: err?.message ?? "Unknown error" },
-      { status: 500 },
+      { status: err instanceof UnknownServerError ? 404 : 500 },
     );
   }
 }
\ No newline at end of file
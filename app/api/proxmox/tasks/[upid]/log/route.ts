@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProxmoxClient } from "@/lib/proxmox/client";
+import { getClientForRequest, UnknownServerError } from "@/lib/proxmox/registry";
+import { parseUpid, tailTaskLog } from "@/lib/proxmox/tasks";
+
+export const runtime = "nodejs";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of a task's log.
+ * Emits `log` events with new lines, `task` events on status changes and a
+ * final `end` event once the task has stopped.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { upid: string } }
+) {
+  const upid = decodeURIComponent(params.upid);
+  const parsed = parseUpid(upid);
+
+  if (!parsed) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Invalid task ID",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  let client: ProxmoxClient;
+  try {
+    client = await getClientForRequest(request);
+  } catch (err) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: err instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+
+  const startParam = request.nextUrl.searchParams.get("start");
+  const start = startParam ? Math.max(0, parseInt(startParam, 10) || 0) : 0;
+
+  const abort = new AbortController();
+  let running = true;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    running = false;
+    if (heartbeat) clearInterval(heartbeat);
+    abort.abort();
+  };
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+
+      const safeEnqueue = (chunk: string) => {
+        if (!running) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Controller might already be closed; stop streaming.
+          stop();
+        }
+      };
+
+      const send = (event: string, data: unknown) => {
+        if (!running) return;
+        safeEnqueue(`event: ${event}\n`);
+        safeEnqueue(`data: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Initial comment to establish stream
+      safeEnqueue(`: connected ${new Date().toISOString()}\n\n`);
+
+      // Long-running tasks can go quiet for a while; keep proxies from closing the connection
+      heartbeat = setInterval(() => {
+        safeEnqueue(`: heartbeat ${Date.now()}\n\n`);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      (async () => {
+        try {
+          for await (const event of tailTaskLog(client, parsed.node, upid, { start, signal: abort.signal })) {
+            if (!running) break;
+            if (event.type === "log") {
+              send("log", event.lines);
+            } else {
+              send(event.type, event.task);
+            }
+          }
+        } catch (err) {
+          if (running) {
+            send("error", { message: err instanceof Error ? err.message : "stream error" });
+          }
+        }
+
+        // The task has ended (or failed); close our side of the stream
+        if (running) {
+          stop();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        }
+      })();
+    },
+    cancel() {
+      // Client disconnected; stop polling Proxmox
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+    status: 200,
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { getTaskTracker, parseUpid } from '@/lib/proxmox/tasks';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { upid: string } }
+) {
+  try {
+    const upid = decodeURIComponent(params.upid);
+    const parsed = parseUpid(upid);
+
+    if (!parsed) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid task ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Tasks started through the dashboard are already being polled; others are fetched on demand
+    const client = await getClientForRequest(request);
+    const task = getTaskTracker().get(upid, getRequestServerId(request)) ?? await client.getTaskStatus(parsed.node, upid, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: task,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Failed to fetch task status ${params.upid}:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch task status';
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
+
+export const runtime = 'nodejs';
+
+const TASK_STATUS_FILTERS = ['all', 'running', 'ok', 'error'] as const;
+type TaskStatusFilter = (typeof TASK_STATUS_FILTERS)[number];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const node = searchParams.get('node');
+    const statusParam = searchParams.get('status') ?? 'all';
+    const limitParam = searchParams.get('limit');
+    const signal = request.signal;
+
+    const limit = limitParam ? parseInt(limitParam, 10) : 100;
+
+    if (limitParam && (isNaN(limit) || limit < 1)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid limit parameter',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!TASK_STATUS_FILTERS.includes(statusParam as TaskStatusFilter)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Invalid status parameter. Must be one of: ${TASK_STATUS_FILTERS.join(', ')}`,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const status = statusParam as TaskStatusFilter;
+
+    // Get cluster task history from Proxmox (newest first)
+    const client = await getClientForRequest(request);
+    const tasks = (await client.getTasks(signal)).filter((task) => {
+      if (node && task.node !== node) return false;
+      switch (status) {
+        case 'running':
+          return task.status === 'running';
+        case 'ok':
+          return task.status === 'stopped' && task.exitstatus === 'OK';
+        case 'error':
+          return task.status === 'stopped' && task.exitstatus !== 'OK';
+        default:
+          return true;
+      }
+    });
+
+    return NextResponse.json({
+      ok: true,
+      tasks: tasks.slice(0, limit),
+      total: tasks.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to fetch tasks:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch tasks';
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
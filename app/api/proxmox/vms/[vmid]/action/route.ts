@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { performVmAction } from '@/lib/proxmox/client';
 import type { VmAction } from '@/lib/proxmox/client';
+import { getTaskTracker, isTaskFinished, isTaskSuccessful } from '@/lib/proxmox/tasks';
+import { TIMEOUTS } from '@/lib/constants';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
 
 interface ActionRequestBody {
   node: string;
@@ -53,7 +55,8 @@ export async function POST(
     }
 
     // Perform the VM action
-    const result = await performVmAction(node, vmid, action, request.signal);
+    const client = await getClientForRequest(request);
+    const result = await client.performVmAction(node, vmid, action, request.signal);
 
     if (!result.success) {
       return NextResponse.json(
@@ -66,12 +69,68 @@ export async function POST(
       );
     }
 
+    if (!result.upid) {
+      return NextResponse.json({
+        ok: true,
+        data: {
+          vmid,
+          node,
+          action,
+          message: result.message,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Wait a bounded time for the Proxmox task; hand back the UPID if it is still running
+    const task = await getTaskTracker().wait(client, result.upid, TIMEOUTS.TASK_WAIT, getRequestServerId(request));
+
+    if (!isTaskFinished(task)) {
+      return NextResponse.json(
+        {
+          ok: true,
+          data: {
+            vmid,
+            node,
+            action,
+            upid: task.upid,
+            status: task.status,
+            message: result.message,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 202 }
+      );
+    }
+
+    if (!isTaskSuccessful(task)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Task failed: ${task.exitstatus ?? 'unknown error'}`,
+          data: {
+            vmid,
+            node,
+            action,
+            upid: task.upid,
+            status: task.status,
+            exitstatus: task.exitstatus,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+
     return NextResponse.json({
       ok: true,
       data: {
         vmid,
         node,
         action,
+        upid: task.upid,
+        status: task.status,
+        exitstatus: task.exitstatus,
         message: result.message,
       },
       timestamp: new Date().toISOString(),
@@ -88,7 +147,7 @@ export async function POST(
         error: errorMessage,
         timestamp: new Date().toISOString(),
       },
-      { status: 500 }
+      { status: error instanceof UnknownServerError ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateGuestNode, validateVmConfigUpdateRequest } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// Proxmox rejects an update whose digest no longer matches the stored config
+const isDigestMismatch = (error: unknown) =>
+  error instanceof Error && error.message.includes('detected modified configuration');
+
+/**
+ * GET /api/proxmox/vms/[vmid]/config?node= - Full configuration of a guest
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node } = validateGuestNode({ node: request.nextUrl.searchParams.get('node') });
+    const client = await getClientForRequest(request);
+    const config = await client.getVmConfig(node, vmid, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: config,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Missing required query parameter: node',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to fetch VM config:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch VM config',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/proxmox/vms/[vmid]/config - Change settings of a guest
+ * Body: `{ node, digest?, cores?, memory?, balloon?, description?, tags?, onboot? }`
+ * with memory in MiB. Answers with the updated configuration, or 409 when it
+ * was modified since `digest` was read.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node, ...update } = validateVmConfigUpdateRequest(await request.json());
+    const client = await getClientForRequest(request);
+    const config = await client.updateVmConfig(node, vmid, update, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: config,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid configuration change',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    if (isDigestMismatch(error)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'The configuration was changed by someone else; reload it and try again',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+    console.error('Failed to update VM config:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to update VM config',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
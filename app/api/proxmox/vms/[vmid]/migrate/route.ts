@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getTaskTracker, isTaskFinished, isTaskSuccessful } from '@/lib/proxmox/tasks';
+import { TIMEOUTS } from '@/lib/constants';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateMigrationRequest } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/vms/[vmid]/migrate?node=&target=&withLocalDisks=&targetStorage= - Preflight checks of a migration
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const withLocalDisks = searchParams.get('withLocalDisks');
+    const { node, ...options } = validateMigrationRequest({
+      node: searchParams.get('node'),
+      target: searchParams.get('target'),
+      withLocalDisks: withLocalDisks === '1' || withLocalDisks === 'true',
+      targetStorage: searchParams.get('targetStorage') || undefined,
+    });
+    const client = await getClientForRequest(request);
+    const preflight = await client.getMigrationPreflight(node, vmid, options, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: preflight,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid migration',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to check migration:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to check migration',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proxmox/vms/[vmid]/migrate - Migrate a guest to another node
+ * Body: `{ node, target, withLocalDisks?, targetStorage?, restartTimeout? }`.
+ * The preflight checks run first and a failed one answers 409 with the
+ * checks. Otherwise answers 202 with the UPID while the migration runs.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node, ...options } = validateMigrationRequest(await request.json());
+    const client = await getClientForRequest(request);
+
+    const preflight = await client.getMigrationPreflight(node, vmid, options, request.signal);
+    if (!preflight.ok) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: preflight.checks.find((check) => check.status === 'fail')?.message ?? 'Preflight checks failed',
+          data: preflight,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await client.migrateVm(node, vmid, options, request.signal);
+    const task = await getTaskTracker().wait(client, result.upid, TIMEOUTS.TASK_WAIT, getRequestServerId(request));
+    const data = { vmid, node, target: options.target, mode: preflight.mode, upid: task.upid, status: task.status, exitstatus: task.exitstatus, message: result.message };
+
+    if (isTaskFinished(task) && !isTaskSuccessful(task)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Task failed: ${task.exitstatus ?? 'unknown error'}`,
+          data,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data,
+        timestamp: new Date().toISOString(),
+      },
+      { status: isTaskFinished(task) ? 200 : 202 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid migration',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to migrate guest:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to migrate guest',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateGuestNode } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/vms/[vmid]?node= - Current status and usage of a guest
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node } = validateGuestNode({ node: request.nextUrl.searchParams.get('node') });
+    const client = await getClientForRequest(request);
+    const vm = await client.getVmDetails(node, vmid, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: vm,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Missing required query parameter: node',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to fetch VM details:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch VM details',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getTaskTracker, isTaskFinished, isTaskSuccessful } from '@/lib/proxmox/tasks';
+import { TIMEOUTS } from '@/lib/constants';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateGuestNode } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/proxmox/vms/[vmid]/snapshots/[name]/rollback - Roll a guest back to a snapshot
+ * Body: `{ node }`. Answers 202 with the UPID while the rollback task is still running.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { vmid: string; name: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node } = validateGuestNode(await request.json());
+    const client = await getClientForRequest(request);
+    const result = await client.rollbackSnapshot(node, vmid, params.name, request.signal);
+    const task = await getTaskTracker().wait(client, result.upid, TIMEOUTS.TASK_WAIT, getRequestServerId(request));
+    const data = { vmid, node, snapshot: params.name, upid: task.upid, status: task.status, exitstatus: task.exitstatus, message: result.message };
+
+    if (isTaskFinished(task) && !isTaskSuccessful(task)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Task failed: ${task.exitstatus ?? 'unknown error'}`,
+          data,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data,
+        timestamp: new Date().toISOString(),
+      },
+      { status: isTaskFinished(task) ? 200 : 202 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Missing required field: node',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to roll back snapshot:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to roll back snapshot',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
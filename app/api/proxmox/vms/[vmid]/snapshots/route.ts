@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getTaskTracker, isTaskFinished, isTaskSuccessful } from '@/lib/proxmox/tasks';
+import { TIMEOUTS } from '@/lib/constants';
+import { getClientForRequest, getRequestServerId, UnknownServerError } from '@/lib/proxmox/registry';
+import { validateGuestNode, validateSnapshotCreateRequest } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/proxmox/vms/[vmid]/snapshots?node= - List the snapshots of a guest
+ * The last entry is `current`, whose parent is the snapshot the guest runs from.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node } = validateGuestNode({ node: request.nextUrl.searchParams.get('node') });
+    const client = await getClientForRequest(request);
+    const snapshots = await client.getSnapshots(node, vmid, request.signal);
+
+    return NextResponse.json({
+      ok: true,
+      data: snapshots,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Missing required query parameter: node',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to fetch snapshots:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch snapshots',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proxmox/vms/[vmid]/snapshots - Take a snapshot of a guest
+ * Body: `{ node, name, description?, vmstate? }`. Answers 202 with the UPID
+ * while the snapshot task is still running.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { vmid: string } }
+) {
+  try {
+    const vmid = parseInt(params.vmid, 10);
+    if (isNaN(vmid)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid VM ID',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { node, ...snapshot } = validateSnapshotCreateRequest(await request.json());
+    const client = await getClientForRequest(request);
+    const result = await client.createSnapshot(node, vmid, snapshot, request.signal);
+    const task = await getTaskTracker().wait(client, result.upid, TIMEOUTS.TASK_WAIT, getRequestServerId(request));
+    const data = { vmid, node, snapshot: snapshot.name, upid: task.upid, status: task.status, exitstatus: task.exitstatus, message: result.message };
+
+    if (isTaskFinished(task) && !isTaskSuccessful(task)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Task failed: ${task.exitstatus ?? 'unknown error'}`,
+          data,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data,
+        timestamp: new Date().toISOString(),
+      },
+      { status: isTaskFinished(task) ? 201 : 202 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid snapshot',
+          details: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Failed to create snapshot:', error);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to create snapshot',
+        timestamp: new Date().toISOString(),
+      },
+      { status: error instanceof UnknownServerError ? 404 : 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getVmList } from '@/lib/proxmox/client';
+import { getClientForRequest, UnknownServerError } from '@/lib/proxmox/registry';
 import { validateVmList } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
@@ -7,7 +7,8 @@ export async function GET(request: NextRequest) {
     const signal = request.signal;
 
     // Get VM list from Proxmox
-    const vmList = await getVmList(signal);
+    const client = await getClientForRequest(request);
+    const vmList = await client.getVmList(signal);
 
     // Validate the response
     const validatedData = validateVmList(vmList);
@@ -24,7 +25,7 @@ export async function GET(request: NextRequest) {
         error: errorMessage,
         timestamp: new Date().toISOString(),
       },
-      { status: 500 }
+      { status: error instanceof UnknownServerError ? 404 : 500 }
     );
   }
 }
\ No newline at end of file
@@ -1,70 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { mongoServerService } from '@/lib/services/mongoServerService';
+import { ZodError } from 'zod';
+import { getServerRepository } from '@/lib/services/serverRepository';
+import { redactServerSecrets, stripRedactedSecrets } from '@/lib/services/serverSecrets';
+import { getProxmoxClient, invalidateProxmoxClient } from '@/lib/proxmox/registry';
+
+// Délai au-delà duquel un serveur testé est considéré comme déconnecté
+const PROBE_TIMEOUT_MS = 5000;
 
 /**
- * DELETE /api/servers/[id] - Supprime un serveur par ID
+ * GET /api/servers/[id] - Serveur (secrets masqués) et état de sa connexion.
+ * Le test passe par le client côté serveur, seul à déchiffrer le jeton.
  */
-export async function DELETE(
+export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  console.log('[DEBUG ROUTE] DELETE /api/servers/[id] appelée avec params:', params);
-
   try {
-    const id = params.id;
-    console.log('[DEBUG ROUTE] ID extrait des paramètres:', { id, type: typeof id, length: id?.length });
-
-    if (!id) {
-      console.log('[DEBUG ROUTE] ID manquant, retour 400');
-      return NextResponse.json(
-        { error: "ID du serveur manquant dans l'URL" },
-        { status: 400 }
-      );
-    }
-
-    console.log('[DEBUG ROUTE] Appel de deleteServer avec:', { id });
-    const deleted = await mongoServerService.deleteServer(id);
-
-    console.log('[DEBUG ROUTE] Résultat de deleteServer:', { deleted });
-
-    if (deleted) {
-      console.log('[DEBUG ROUTE] Serveur supprimé avec succès, retour 200');
-      return NextResponse.json({ success: true }, { status: 200 });
-    } else {
-      console.log('[DEBUG ROUTE] Aucun serveur trouvé avec cet ID, retour 404');
+    const server = await getServerRepository().get(params.id);
+    if (!server) {
       return NextResponse.json(
         { error: "Aucun serveur trouvé avec cet ID" },
         { status: 404 }
       );
     }
+
+    let status: 'online' | 'offline' = 'online';
+    try {
+      const client = await getProxmoxClient(server.id);
+      await client.getClusterSummary(AbortSignal.timeout(PROBE_TIMEOUT_MS));
+    } catch {
+      status = 'offline';
+    }
+    return NextResponse.json({ server: redactServerSecrets(server), status }, { status: 200 });
   } catch (error) {
     return NextResponse.json(
-      { error: "Échec de la suppression du serveur", details: (error as Error).message },
+      { error: "Échec de la lecture du serveur", details: (error as Error).message },
       { status: 500 }
     );
   }
 }
 
 /**
- * PUT /api/servers/[id] - Modifie un serveur par ID
+ * DELETE /api/servers/[id] - Supprime un serveur par ID
  */
-export async function PUT(
+export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  console.log('[DEBUG ROUTE] PUT /api/servers/[id] appelée avec params:', params);
+  console.log('[DEBUG ROUTE] DELETE /api/servers/[id] appelée avec params:', params);
 
   try {
     const id = params.id;
-    const updateData = await req.json();
-
-    console.log('[DEBUG ROUTE] ID et données de mise à jour:', {
-      id,
-      type: typeof id,
-      length: id?.length,
-      updateData,
-      updateDataKeys: Object.keys(updateData || {})
-    });
+    console.log('[DEBUG ROUTE] ID extrait des paramètres:', { id, type: typeof id, length: id?.length });
 
     if (!id) {
       console.log('[DEBUG ROUTE] ID manquant, retour 400');
@@ -73,47 +60,14 @@ export async function PUT(
         { status: 400 }
       );
     }
-    if (Object.keys(updateData).length === 0) {
-      console.log('[DEBUG ROUTE] Aucune donnée de mise à jour fournie, retour 400');
-      return NextResponse.json(
-        { error: "Aucune donnée de mise à jour fournie" },
-        { status: 400 }
-      );
-    }
-
-    console.log('[DEBUG ROUTE] Appel de updateServer avec:', { id, updateData });
-    const updatedServer = await mongoServerService.updateServer(id, updateData);
-
-    console.log('[DEBUG ROUTE] Résultat de updateServer:', {
-      updatedServer: !!updatedServer,
-      serverId: updatedServer?._id,
-      serverHost: updatedServer?.host
-    });
-
-    if (updatedServer) {
-      console.log('[DEBUG ROUTE] Serveur mis à jour avec succès, retour 200');
-      return NextResponse.json({ server: updatedServer }, { status: 200 });
-    } else {
-      console.log('[DEBUG ROUTE] Aucun serveur trouvé avec cet ID, retour 404');
-      return NextResponse.json(
-        { error: "Aucun serveur trouvé avec cet ID" },
-        { status: 404 }
-      );
-    }
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Échec de la modification du serveur", details: (error as Error).message },
-      { status: 500 }
-    );
-  }
-}
 
     console.log('[DEBUG ROUTE] Appel de deleteServer avec:', { id });
-    const deleted = await mongoServerService.deleteServer(id);
+    const deleted = await getServerRepository().delete(id);
 
     console.log('[DEBUG ROUTE] Résultat de deleteServer:', { deleted });
 
     if (deleted) {
+      invalidateProxmoxClient(id);
       console.log('[DEBUG ROUTE] Serveur supprimé avec succès, retour 200');
       return NextResponse.json({ success: true }, { status: 200 });
     } else {
@@ -142,13 +96,14 @@ export async function PUT(
 
   try {
     const id = params.id;
-    const updateData = await req.json();
+    // Redacted placeholders echoed back by the client leave the stored secrets as they are
+    const updateData = stripRedactedSecrets(await req.json());
 
     console.log('[DEBUG ROUTE] ID et données de mise à jour:', {
       id,
       type: typeof id,
       length: id?.length,
-      updateData,
+      updateData: redactServerSecrets(updateData),
       updateDataKeys: Object.keys(updateData || {})
     });
 
@@ -167,18 +122,19 @@ export async function PUT(
       );
     }
 
-    console.log('[DEBUG ROUTE] Appel de updateServer avec:', { id, updateData });
-    const updatedServer = await mongoServerService.updateServer(id, updateData);
+    console.log('[DEBUG ROUTE] Appel de updateServer avec:', { id, updateData: redactServerSecrets(updateData) });
+    const updatedServer = await getServerRepository().update(id, updateData);
 
     console.log('[DEBUG ROUTE] Résultat de updateServer:', {
       updatedServer: !!updatedServer,
-      serverId: updatedServer?._id,
+      serverId: updatedServer?.id,
       serverHost: updatedServer?.host
     });
 
     if (updatedServer) {
+      invalidateProxmoxClient(id);
       console.log('[DEBUG ROUTE] Serveur mis à jour avec succès, retour 200');
-      return NextResponse.json({ server: updatedServer }, { status: 200 });
+      return NextResponse.json({ server: redactServerSecrets(updatedServer) }, { status: 200 });
     } else {
       console.log('[DEBUG ROUTE] Aucun serveur trouvé avec cet ID, retour 404');
       return NextResponse.json(
@@ -187,9 +143,15 @@ export async function PUT(
       );
     }
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Données de serveur invalides", details: error.issues },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: "Échec de la modification du serveur", details: (error as Error).message },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { mongoServerService } from '@/lib/services/mongoServerService';
+import { ZodError } from 'zod';
+import { getServerRepository } from '@/lib/services/serverRepository';
+import { redactServerSecrets } from '@/lib/services/serverSecrets';
 
-// GET /api/servers - List all servers
+// GET /api/servers - List all servers (secrets redacted)
 export async function GET(req: NextRequest) {
   try {
-    const servers = await mongoServerService.getServers();
+    const servers = (await getServerRepository().list()).map(redactServerSecrets);
     return NextResponse.json({ servers }, { status: 200 });
   } catch (error) {
     return NextResponse.json(
@@ -18,9 +20,15 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   try {
     const data = await req.json();
-    const newServer = await mongoServerService.addServer(data);
-    return NextResponse.json({ server: newServer }, { status: 201 });
+    const newServer = await getServerRepository().create(data);
+    return NextResponse.json({ server: redactServerSecrets(newServer) }, { status: 201 });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid server', details: error.issues },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to add server', details: (error as Error).message },
       { status: 500 }
@@ -13,7 +13,32 @@ import { useRouter } from "next/navigation";
 import { useConnectionContext } from "@/lib/contexts/ConnectionContext";
 import { Loader2 } from "lucide-react";
 import { ConnectionService } from "@/lib/services/testConnectionService";
-import { saveProfile } from '@/lib/persistence/authStorage';
+import { loadProfile, saveProfile } from '@/lib/persistence/authStorage';
+
+type RecentServer = { host: string; port: string; username: string; insecureTLS?: boolean };
+type StoredServer = { id: string; host: string; port: number; username: string };
+
+const serverKey = (s: { host: string; port: string | number; username: string }) => `${s.host}:${s.port}:${s.username}`;
+
+// Serveurs enregistrés via /api/servers, où le jeton est chiffré
+async function listStoredServers(): Promise<StoredServer[]> {
+  const response = await fetch("/api/servers", { cache: "no-store" });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return (await response.json()).servers;
+}
+
+// Enregistre (ou met à jour) le serveur côté serveur, pour que son état puisse être testé sans garder le jeton dans le navigateur
+async function storeServer(config: { host: string; port: string; username: string; token: string; insecureTLS: boolean }) {
+  const existing = (await listStoredServers()).find((s) => serverKey(s) === serverKey(config));
+  const response = await fetch(existing ? `/api/servers/${encodeURIComponent(existing.id)}` : "/api/servers", {
+    method: existing ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(existing
+      ? { token: config.token, insecureTLS: config.insecureTLS }
+      : { ...config, port: Number(config.port) }),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+}
 
 export default function ConnectionPage() {
   const [host, setHost] = useState("");
@@ -23,7 +48,9 @@ export default function ConnectionPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [insecureTLS, setInsecureTLS] = useState(false);
-  const [recentServers, setRecentServers] = useState<Array<{host: string, port: string, username: string, token?: string, insecureTLS?: boolean}>>([]);
+  // Les serveurs récents ne conservent pas le jeton API : le localStorage n'est pas chiffré.
+  // Leur état est testé côté serveur, à partir du serveur enregistré correspondant.
+  const [recentServers, setRecentServers] = useState<RecentServer[]>([]);
   
   // Validation avancée côté client
   const validateFields = () => {
@@ -48,53 +75,73 @@ export default function ConnectionPage() {
   
     return null;
   };
-  // État pour le statut de chaque serveur : "pending" | "online" | "offline"
-  const [serverStatus, setServerStatus] = useState<Record<string, "pending" | "online" | "offline">>({});
+  // État de chaque serveur : "pending" | "online" | "offline" | "unknown" (non enregistré, donc non testable)
+  const [serverStatus, setServerStatus] = useState<Record<string, "pending" | "online" | "offline" | "unknown">>({});
 
   // Charger les serveurs récents depuis le localStorage
   useEffect(() => {
     const data = localStorage.getItem("proxmox-recent-servers");
     if (data) {
-      setRecentServers(JSON.parse(data));
+      const parsed: Array<RecentServer & { token?: string }> = JSON.parse(data);
+      // Purge des jetons enregistrés en clair par les versions précédentes
+      const sanitized = parsed.map((entry): RecentServer => ({
+        host: entry.host,
+        port: entry.port,
+        username: entry.username,
+        insecureTLS: entry.insecureTLS,
+      }));
+      if (parsed.some((entry) => "token" in entry)) {
+        localStorage.setItem("proxmox-recent-servers", JSON.stringify(sanitized));
+      }
+      setRecentServers(sanitized);
     }
+
+    // Même purge pour le profil, où les versions précédentes gardaient le jeton en clair
+    loadProfile().then(({ profile }) => {
+      if (profile && "token" in profile) {
+        const { host, port, username, insecureTLS } = profile;
+        return saveProfile({ host, port, username, insecureTLS });
+      }
+    }).catch(() => undefined);
   }, []);
 
-  // Ping chaque serveur dès que recentServers change
+  // Teste chaque serveur récent dès que recentServers change, via le serveur enregistré correspondant
   useEffect(() => {
     if (recentServers.length === 0) return;
-    const status: Record<string, "pending" | "online" | "offline"> = {};
-    recentServers.forEach((s, i) => {
-      const key = `${s.host}:${s.port}:${s.username}`;
-      status[key] = "pending";
-    });
-    setServerStatus(status);
+    let cancelled = false;
+    const update = (key: string, status: "pending" | "online" | "offline" | "unknown") => {
+      if (!cancelled) setServerStatus(prev => ({ ...prev, [key]: status }));
+    };
+    recentServers.forEach((s) => update(serverKey(s), "pending"));
 
-    recentServers.forEach(async (s) => {
-      const key = `${s.host}:${s.port}:${s.username}`;
-      try {
-        const result = await ConnectionService.testConnection({
-          host: s.host,
-          port: Number(s.port),
-          username: s.username,
-          token: s.token || "",
-          insecureTLS: !!s.insecureTLS,
+    listStoredServers()
+      .then((stored) => {
+        recentServers.forEach(async (s) => {
+          const key = serverKey(s);
+          const match = stored.find((candidate) => serverKey(candidate) === key);
+          if (!match) {
+            update(key, "unknown");
+            return;
+          }
+          try {
+            const response = await fetch(`/api/servers/${encodeURIComponent(match.id)}`, { cache: "no-store" });
+            const json = await response.json();
+            update(key, response.ok && json.status === "online" ? "online" : "offline");
+          } catch {
+            update(key, "offline");
+          }
         });
-        setServerStatus(prev => ({
-          ...prev,
-          [key]: result.success ? "online" : "offline"
-        }));
-      } catch {
-        setServerStatus(prev => ({
-          ...prev,
-          [key]: "offline"
-        }));
-      }
-    });
+      })
+      .catch(() => recentServers.forEach((s) => update(serverKey(s), "unknown")));
+
+    return () => {
+      cancelled = true;
+    };
   }, [recentServers]);
 
   // Sauvegarder un serveur dans le localStorage
-  const saveRecentServer = (host: string, port: string, username: string, token: string, insecureTLS: boolean) => {
-    const newEntry = { host, port, username, token, insecureTLS };
+  const saveRecentServer = (host: string, port: string, username: string, insecureTLS = false) => {
+    const newEntry = { host, port, username, insecureTLS };
     let updated = [newEntry, ...recentServers.filter(s => !(s.host === host && s.port === port && s.username === username))];
     if (updated.length > 5) updated = updated.slice(0, 5);
     setRecentServers(updated);
@@ -105,7 +152,16 @@ export default function ConnectionPage() {
   const { connect, addConnection, setActiveServer } = useConnectionContext();
 
   // Génère un id unique pour la connexion (clé simple)
-  const getServerId = () => `${host}:${port}:${username}`;
+  const getServerId = () => serverKey({ host, port, username });
+
+  // L'enregistrement côté serveur ne sert qu'au test d'état : un échec n'empêche pas la connexion
+  const rememberServer = async () => {
+    try {
+      await storeServer({ host, port, username, token, insecureTLS });
+    } catch (e) {
+      console.warn("Enregistrement du serveur impossible :", e instanceof Error ? e.message : e);
+    }
+  };
 
   const handleTestConnection = async () => {
     setError(null);
@@ -131,7 +187,8 @@ export default function ConnectionPage() {
       setServerStatus(prev => ({ ...prev, [id]: result.success ? "online" : "offline" }));
       if (result.success) {
         setError(null);
-        saveRecentServer(host, port, username);
+        await rememberServer();
+        saveRecentServer(host, port, username, insecureTLS);
       } else {
         setError("Échec de la connexion au serveur.");
       }
@@ -180,13 +237,13 @@ export default function ConnectionPage() {
         insecureTLS,
       });
       if (success) {
-        saveRecentServer(host, port, username, token, insecureTLS);
-        // Persistance du token et des infos de connexion dans le storage sécurisé
+        await rememberServer();
+        saveRecentServer(host, port, username, insecureTLS);
+        // Persistance des infos de connexion ; le jeton reste côté serveur, chiffré
         await saveProfile({
           host,
           port: Number(port),
           username,
-          token,
           insecureTLS,
         });
         router.push("/"); // Redirection vers le dashboard uniquement si la connexion est validée
@@ -240,7 +297,7 @@ export default function ConnectionPage() {
                           setHost(s.host);
                           setPort(s.port);
                           setUsername(s.username);
-                          setToken(s.token || "");
+                          setToken("");
                           setInsecureTLS(s.insecureTLS || false);
                         }
                       }}
@@ -248,11 +305,11 @@ export default function ConnectionPage() {
                     >
                       <option value="" disabled>Sélectionner un serveur...</option>
                       {recentServers.map((s, i) => {
-                        const key = `${s.host}:${s.port}:${s.username}`;
-                        const status = serverStatus[key] || "pending";
+                        const status = serverStatus[serverKey(s)] || "pending";
                         let indicator = "⏳";
                         if (status === "online") indicator = "🟢";
                         else if (status === "offline") indicator = "🔴";
+                        else if (status === "unknown") indicator = "⚪";
                         return (
                           <option key={i} value={i}>
                             {indicator} {s.host}:{s.port} — {s.username}
@@ -268,6 +325,7 @@ export default function ConnectionPage() {
                     <span><span className="mr-1">🟢</span>Connecté</span>
                     <span><span className="mr-1">🔴</span>Déconnecté</span>
                     <span><span className="mr-1">⏳</span>Test en cours</span>
+                    <span><span className="mr-1">⚪</span>Non testé</span>
                   </div>
                 )}
                 <label
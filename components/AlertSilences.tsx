@@ -0,0 +1,402 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { BellOff, CalendarClock, Plus, X } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { API_ENDPOINTS } from "@/lib/constants";
+import type { AlertMatcher, AlertSeverity, AlertType, MaintenanceWindow, Silence } from "@/lib/types";
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Windows are entered in the browser's zone unless another one is picked
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const SILENCE_DURATIONS = [
+  { label: "30 minutes", minutes: 30 },
+  { label: "1 hour", minutes: 60 },
+  { label: "4 hours", minutes: 240 },
+  { label: "1 day", minutes: 1440 },
+  { label: "1 week", minutes: 10080 },
+];
+
+/**
+ * Remaining time until `until`, e.g. "2h 5m left".
+ */
+export function formatTimeLeft(until: Date, now = new Date()): string {
+  const minutes = Math.max(0, Math.ceil((until.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m left`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h left`;
+}
+
+export function describeMatcher(matcher: AlertMatcher): string {
+  const parts = [
+    matcher.node && `node ${matcher.node}`,
+    matcher.vmid && `VM ${matcher.vmid}`,
+    matcher.type,
+    matcher.severity,
+    matcher.thresholdId && `threshold ${matcher.thresholdId}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "All alerts";
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok || !data.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+  return data.data;
+}
+
+// Node, guest, type and severity fields shared by both forms
+const MatcherFields: React.FC<{ matcher: AlertMatcher; onChange: (matcher: AlertMatcher) => void }> = ({ matcher, onChange }) => (
+  <>
+    <input
+      type="text"
+      aria-label="Node"
+      placeholder="Any node"
+      value={matcher.node ?? ""}
+      onChange={(e) => onChange({ ...matcher, node: e.target.value || undefined })}
+      className={inputClass}
+    />
+    <input
+      type="number"
+      min={1}
+      aria-label="VM ID"
+      placeholder="Any guest"
+      value={matcher.vmid ?? ""}
+      onChange={(e) => onChange({ ...matcher, vmid: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+      className={inputClass}
+    />
+    <select
+      aria-label="Alert type"
+      value={matcher.type ?? ""}
+      onChange={(e) => onChange({ ...matcher, type: (e.target.value || undefined) as AlertType | undefined })}
+      className={inputClass}
+    >
+      <option value="">Any type</option>
+      <option value="cpu">CPU</option>
+      <option value="memory">Memory</option>
+      <option value="storage">Storage</option>
+      <option value="network">Network</option>
+      <option value="custom">Custom</option>
+    </select>
+    <select
+      aria-label="Severity"
+      value={matcher.severity ?? ""}
+      onChange={(e) => onChange({ ...matcher, severity: (e.target.value || undefined) as AlertSeverity | undefined })}
+      className={inputClass}
+    >
+      <option value="">Any severity</option>
+      <option value="info">Info</option>
+      <option value="warning">Warning</option>
+      <option value="error">Error</option>
+      <option value="critical">Critical</option>
+    </select>
+  </>
+);
+
+interface AlertSilencesProps {
+  /** Reload when this changes, e.g. after an alert was snoozed from the list */
+  refreshToken?: number;
+  /** Called after a silence or window is created or removed */
+  onChange?: () => void;
+}
+
+/**
+ * Silences and recurring maintenance windows of the alert engine.
+ */
+export default function AlertSilences({ refreshToken, onChange }: AlertSilencesProps) {
+  const [silences, setSilences] = useState<Silence[]>([]);
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [silenceForm, setSilenceForm] = useState<{ matcher: AlertMatcher; minutes: number; comment: string } | null>(null);
+  const [windowForm, setWindowForm] = useState<Omit<MaintenanceWindow, "id"> | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [silenceList, windowList] = await Promise.all([
+        request<Silence[]>(API_ENDPOINTS.ALERT_SILENCES),
+        request<MaintenanceWindow[]>(API_ENDPOINTS.ALERT_MAINTENANCE),
+      ]);
+      setSilences(silenceList);
+      setWindows(windowList);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to load silences");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshToken]);
+
+  const changed = async (message: string) => {
+    showToast.success(message);
+    await load();
+    onChange?.();
+  };
+
+  const createSilence = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!silenceForm) return;
+    try {
+      await request(API_ENDPOINTS.ALERT_SILENCES, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          matcher: silenceForm.matcher,
+          endsAt: new Date(Date.now() + silenceForm.minutes * 60000).toISOString(),
+          comment: silenceForm.comment || undefined,
+        }),
+      });
+      setSilenceForm(null);
+      await changed("Silence created");
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to create silence");
+    }
+  };
+
+  const deleteSilence = async (silenceId: string) => {
+    try {
+      await request(`${API_ENDPOINTS.ALERT_SILENCES}/${silenceId}`, { method: "DELETE" });
+      await changed("Silence removed");
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to remove silence");
+    }
+  };
+
+  const createWindow = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!windowForm) return;
+    if (!windowForm.name || windowForm.days.length === 0) {
+      showToast.error("A maintenance window needs a name and at least one day");
+      return;
+    }
+    try {
+      await request(API_ENDPOINTS.ALERT_MAINTENANCE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(windowForm),
+      });
+      setWindowForm(null);
+      await changed("Maintenance window created");
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to create maintenance window");
+    }
+  };
+
+  const toggleWindow = async (maintenance: MaintenanceWindow) => {
+    const { id, ...rest } = maintenance;
+    try {
+      await request(`${API_ENDPOINTS.ALERT_MAINTENANCE}/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...rest, enabled: !maintenance.enabled }),
+      });
+      await changed(`Maintenance window ${maintenance.enabled ? "disabled" : "enabled"}`);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to update maintenance window");
+    }
+  };
+
+  const deleteWindow = async (windowId: string) => {
+    try {
+      await request(`${API_ENDPOINTS.ALERT_MAINTENANCE}/${windowId}`, { method: "DELETE" });
+      await changed("Maintenance window deleted");
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to delete maintenance window");
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      {/* Silences */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Icon icon={BellOff} size="sm" className="text-gray-600 dark:text-gray-400" />
+              <CardTitle>Silences ({silences.length})</CardTitle>
+            </div>
+            <Button variant="secondary" size="sm" onClick={() => setSilenceForm({ matcher: {}, minutes: 60, comment: "" })}>
+              <Icon icon={Plus} size="sm" className="mr-1" />
+              Silence
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {silenceForm && (
+            <form onSubmit={createSilence} className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+              <div className="grid grid-cols-2 gap-2">
+                <MatcherFields matcher={silenceForm.matcher} onChange={(matcher) => setSilenceForm({ ...silenceForm, matcher })} />
+                <select
+                  aria-label="Duration"
+                  value={silenceForm.minutes}
+                  onChange={(e) => setSilenceForm({ ...silenceForm, minutes: parseInt(e.target.value, 10) })}
+                  className={inputClass}
+                >
+                  {SILENCE_DURATIONS.map((duration) => (
+                    <option key={duration.minutes} value={duration.minutes}>{duration.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  aria-label="Comment"
+                  placeholder="Comment"
+                  value={silenceForm.comment}
+                  onChange={(e) => setSilenceForm({ ...silenceForm, comment: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={() => setSilenceForm(null)}>Cancel</Button>
+                <Button type="submit" size="sm">Create Silence</Button>
+              </div>
+            </form>
+          )}
+          {silences.length === 0 ? (
+            <div className="py-4 text-center text-gray-500 dark:text-gray-400">No active silences.</div>
+          ) : (
+            silences.map((silence) => (
+              <div key={silence.id} role="listitem" className="flex items-start justify-between rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{describeMatcher(silence.matcher)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(silence.startsAt) > new Date()
+                      ? `Starts ${new Date(silence.startsAt).toLocaleString()}`
+                      : formatTimeLeft(new Date(silence.endsAt))}
+                    {silence.comment && ` · ${silence.comment}`}
+                  </p>
+                </div>
+                <Button variant="secondary" size="sm" aria-label="Remove silence" onClick={() => deleteSilence(silence.id)}>
+                  <Icon icon={X} size="sm" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Maintenance windows */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Icon icon={CalendarClock} size="sm" className="text-gray-600 dark:text-gray-400" />
+              <CardTitle>Maintenance Windows ({windows.length})</CardTitle>
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setWindowForm({ name: "", matcher: {}, days: [0], startTime: "02:00", timeZone: browserTimeZone(), durationMinutes: 120, enabled: true })}
+            >
+              <Icon icon={Plus} size="sm" className="mr-1" />
+              Window
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {windowForm && (
+            <form onSubmit={createWindow} className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+              <input
+                type="text"
+                aria-label="Window name"
+                placeholder="Weekly patching"
+                value={windowForm.name}
+                onChange={(e) => setWindowForm({ ...windowForm, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <MatcherFields matcher={windowForm.matcher} onChange={(matcher) => setWindowForm({ ...windowForm, matcher })} />
+                <input
+                  type="time"
+                  aria-label="Start time"
+                  value={windowForm.startTime}
+                  onChange={(e) => setWindowForm({ ...windowForm, startTime: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="text"
+                  aria-label="Time zone"
+                  placeholder="Europe/Paris"
+                  list="maintenance-time-zones"
+                  value={windowForm.timeZone}
+                  onChange={(e) => setWindowForm({ ...windowForm, timeZone: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <datalist id="maintenance-time-zones">
+                  {Intl.supportedValuesOf("timeZone").map((zone) => (
+                    <option key={zone} value={zone} />
+                  ))}
+                </datalist>
+                <input
+                  type="number"
+                  min={1}
+                  aria-label="Duration (minutes)"
+                  value={windowForm.durationMinutes}
+                  onChange={(e) => setWindowForm({ ...windowForm, durationMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {DAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={windowForm.days.includes(day)}
+                      onChange={(e) => setWindowForm({
+                        ...windowForm,
+                        days: e.target.checked ? [...windowForm.days, day].sort() : windowForm.days.filter((d) => d !== day),
+                      })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={() => setWindowForm(null)}>Cancel</Button>
+                <Button type="submit" size="sm">Create Window</Button>
+              </div>
+            </form>
+          )}
+          {windows.length === 0 ? (
+            <div className="py-4 text-center text-gray-500 dark:text-gray-400">No maintenance windows.</div>
+          ) : (
+            windows.map((maintenance) => (
+              <div key={maintenance.id} role="listitem" className="flex items-start justify-between rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {maintenance.name}
+                    {!maintenance.enabled && <span className="ml-2 text-xs text-gray-500">(disabled)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {maintenance.days.map((day) => DAY_LABELS[day]).join(", ")} at {maintenance.startTime} ({maintenance.timeZone}) for {maintenance.durationMinutes} min · {describeMatcher(maintenance.matcher)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="secondary" size="sm" onClick={() => toggleWindow(maintenance)}>
+                    {maintenance.enabled ? "Disable" : "Enable"}
+                  </Button>
+                  <Button variant="secondary" size="sm" aria-label="Delete maintenance window" onClick={() => deleteWindow(maintenance.id)}>
+                    <Icon icon={X} size="sm" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Keyboard, Maximize2, RefreshCw } from "lucide-react";
+import "@xterm/xterm/css/xterm.css";
+import Button from "@/components/ui/Button";
+import Icon from "@/components/ui/Icon";
+import { API_ENDPOINTS, CONSOLE_PROXY } from "@/lib/constants";
+import {
+  consoleSocketUrl,
+  TERMINAL_PING,
+  TERMINAL_READY,
+  terminalInput,
+  terminalLogin,
+  terminalResize,
+} from "@/lib/console/protocol";
+import type { ConsoleSession, ConsoleTarget } from "@/lib/types";
+
+type ConsoleState = "connecting" | "connected" | "closed" | "error";
+
+type ConsoleCallbacks = {
+  onConnect: () => void;
+  /** `error` is null when the session ended normally */
+  onClose: (error: string | null) => void;
+};
+
+type ConsoleHandle = {
+  disconnect: () => void;
+  sendCtrlAltDel?: () => void;
+};
+
+// Close codes of the console proxy
+const CLOSE_MESSAGES: Record<number, string> = {
+  4401: "The console session expired before it connected",
+  4502: "The console could not be reached",
+};
+
+async function openSession(target: ConsoleTarget, serverId?: string): Promise<ConsoleSession> {
+  const query = serverId ? `?serverId=${encodeURIComponent(serverId)}` : "";
+  const response = await fetch(`${API_ENDPOINTS.CONSOLE}${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(target),
+  });
+  const json = await response.json();
+  if (!response.ok || !json.ok) {
+    throw new Error(json.error || "Failed to open console");
+  }
+  return json.data as ConsoleSession;
+}
+
+async function connectVnc(container: HTMLElement, session: ConsoleSession, url: string, callbacks: ConsoleCallbacks): Promise<ConsoleHandle> {
+  const { default: RFB } = await import("@novnc/novnc");
+  // The ticket doubles as the VNC password of the vncproxy session
+  const rfb = new RFB(container, url, {
+    credentials: { username: session.user, password: session.ticket, target: "" },
+    wsProtocols: ["binary"],
+  });
+  rfb.scaleViewport = true;
+  rfb.background = "#000";
+  rfb.addEventListener("connect", () => {
+    rfb.focus();
+    callbacks.onConnect();
+  });
+  rfb.addEventListener("disconnect", (event) => callbacks.onClose(event.detail.clean ? null : "The console connection was lost"));
+  rfb.addEventListener("securityfailure", (event) => callbacks.onClose(event.detail.reason || "VNC authentication failed"));
+
+  return {
+    disconnect: () => rfb.disconnect(),
+    sendCtrlAltDel: () => rfb.sendCtrlAltDel(),
+  };
+}
+
+async function connectTerminal(container: HTMLElement, session: ConsoleSession, url: string, callbacks: ConsoleCallbacks): Promise<ConsoleHandle> {
+  const [{ Terminal }, { FitAddon }] = await Promise.all([import("@xterm/xterm"), import("@xterm/addon-fit")]);
+  const terminal = new Terminal({ cursorBlink: true, fontSize: 14, scrollback: 5000 });
+  const fit = new FitAddon();
+  terminal.loadAddon(fit);
+  terminal.open(container);
+  fit.fit();
+
+  const socket = new WebSocket(url, "binary");
+  socket.binaryType = "arraybuffer";
+  const send = (message: string) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(message);
+  };
+  let ready = false;
+  let ping: ReturnType<typeof setInterval> | undefined;
+
+  socket.onopen = () => socket.send(terminalLogin(session));
+  socket.onmessage = (event) => {
+    const data = new Uint8Array(event.data as ArrayBuffer);
+    if (ready) {
+      terminal.write(data);
+      return;
+    }
+    // termproxy acknowledges the login with OK, possibly followed by output
+    if (new TextDecoder().decode(data.subarray(0, TERMINAL_READY.length)) !== TERMINAL_READY) {
+      socket.onclose = null;
+      socket.close();
+      callbacks.onClose("Terminal login failed");
+      return;
+    }
+    ready = true;
+    terminal.write(data.subarray(TERMINAL_READY.length));
+    send(terminalResize(terminal.cols, terminal.rows));
+    ping = setInterval(() => send(TERMINAL_PING), CONSOLE_PROXY.TERMINAL_PING_INTERVAL);
+    terminal.focus();
+    callbacks.onConnect();
+  };
+  socket.onclose = (event) => {
+    clearInterval(ping);
+    if (ready || CLOSE_MESSAGES[event.code]) {
+      callbacks.onClose(CLOSE_MESSAGES[event.code] ?? (event.wasClean ? null : "The console connection was lost"));
+    } else {
+      callbacks.onClose(event.reason || "The console connection failed");
+    }
+  };
+
+  const input = terminal.onData((data) => ready && send(terminalInput(data)));
+  const resize = terminal.onResize(({ cols, rows }) => ready && send(terminalResize(cols, rows)));
+  const observer = new ResizeObserver(() => fit.fit());
+  observer.observe(container);
+
+  return {
+    disconnect: () => {
+      clearInterval(ping);
+      observer.disconnect();
+      input.dispose();
+      resize.dispose();
+      socket.onclose = null;
+      socket.close();
+      terminal.dispose();
+    },
+  };
+}
+
+export interface ConsoleViewProps {
+  target: ConsoleTarget;
+  serverId?: string;
+}
+
+/**
+ * Console of a guest or node, relayed by the console proxy: noVNC for qemu
+ * guests, xterm.js for containers and node shells.
+ */
+export default function ConsoleView({ target, serverId }: ConsoleViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const handleRef = useRef<ConsoleHandle | null>(null);
+  const [state, setState] = useState<ConsoleState>("connecting");
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const { type, node, vmid } = target;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+    setState("connecting");
+    setError(null);
+
+    const callbacks: ConsoleCallbacks = {
+      onConnect: () => !cancelled && setState("connected"),
+      onClose: (message) => {
+        if (cancelled) return;
+        setState(message ? "error" : "closed");
+        setError(message);
+      },
+    };
+
+    (async () => {
+      const session = await openSession({ type, node, vmid }, serverId);
+      if (cancelled) return;
+      const url = consoleSocketUrl(session, new URL(window.location.href));
+      const handle = session.protocol === "vnc"
+        ? await connectVnc(container, session, url, callbacks)
+        : await connectTerminal(container, session, url, callbacks);
+      if (cancelled) {
+        handle.disconnect();
+        return;
+      }
+      handleRef.current = handle;
+    })().catch((err) => callbacks.onClose(err instanceof Error ? err.message : "Failed to open console"));
+
+    return () => {
+      cancelled = true;
+      handleRef.current?.disconnect();
+      handleRef.current = null;
+      container.replaceChildren();
+    };
+  }, [type, node, vmid, serverId, attempt]);
+
+  const reconnect = useCallback(() => setAttempt((n) => n + 1), []);
+  const fullscreen = useCallback(() => {
+    void containerRef.current?.requestFullscreen?.();
+  }, []);
+
+  const statusLabel = {
+    connecting: "Connecting...",
+    connected: "Connected",
+    closed: "Disconnected",
+    error: "Connection failed",
+  }[state];
+  const statusDot = {
+    connecting: "bg-yellow-500",
+    connected: "bg-green-500",
+    closed: "bg-gray-500",
+    error: "bg-red-500",
+  }[state];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <span className={`h-2 w-2 rounded-full ${statusDot}`} />
+          {statusLabel}
+        </span>
+        <div className="flex items-center gap-2">
+          {type === "qemu" && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleRef.current?.sendCtrlAltDel?.()}
+              disabled={state !== "connected"}
+            >
+              <Icon icon={Keyboard} size="sm" className="mr-2" />
+              Ctrl+Alt+Del
+            </Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={fullscreen} disabled={state !== "connected"}>
+            <Icon icon={Maximize2} size="sm" className="mr-2" />
+            Fullscreen
+          </Button>
+          <Button variant="secondary" size="sm" onClick={reconnect} disabled={state === "connecting"}>
+            <Icon icon={RefreshCw} size="sm" className="mr-2" />
+            Reconnect
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div ref={containerRef} className="h-[70vh] w-full overflow-hidden rounded-lg bg-black p-1" />
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { AlertTriangle, ArrowRightLeft, CheckCircle2, Loader2, X, XCircle } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { isTaskSuccessful, withServerId } from "@/lib/proxmox/tasks";
+import type { ClusterSummary, MigrationCheck, MigrationPreflight, TaskLogLine, TaskStatus, VmResource } from "@/lib/types";
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100";
+
+const CHECK_ICONS: Record<MigrationCheck["status"], { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: "text-green-600" },
+  warn: { icon: AlertTriangle, className: "text-yellow-600" },
+  fail: { icon: XCircle, className: "text-red-600" },
+};
+
+const MODE_LABELS: Record<MigrationPreflight["mode"], string> = {
+  online: "Online",
+  offline: "Offline",
+  restart: "Restart",
+};
+
+type MigrationForm = { target: string; withLocalDisks: boolean; targetStorage: string; restartTimeout: number };
+
+export interface MigrationPanelProps {
+  vm: VmResource;
+  onClose: () => void;
+  /** Called once the migration task completed successfully */
+  onMigrated: (target: string) => void;
+  /** Stored server of the guest, the default server when omitted */
+  serverId?: string;
+}
+
+/**
+ * Migration of a guest to another node. The preflight checks run whenever
+ * the options change; the migration task log is followed until it ends.
+ */
+export default function MigrationPanel({ vm, onClose, onMigrated, serverId }: MigrationPanelProps) {
+  const [nodes, setNodes] = useState<ClusterSummary["nodes"]>([]);
+  const [form, setForm] = useState<MigrationForm>({ target: "", withLocalDisks: false, targetStorage: "", restartTimeout: 180 });
+  const [preflight, setPreflight] = useState<MigrationPreflight | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [task, setTask] = useState<{ upid: string; target: string; lines: TaskLogLine[]; done: boolean } | null>(null);
+  const logRef = useRef<HTMLPreElement>(null);
+  const endpoint = `/api/proxmox/vms/${vm.vmid}/migrate`;
+
+  useEffect(() => {
+    (async () => {
+      const response = await fetch(withServerId(API_ENDPOINTS.SUMMARY, serverId));
+      const json = await response.json();
+      if (!response.ok || !json.ok) return;
+      const others = (json.data as ClusterSummary).nodes.filter((n) => n.node !== vm.node);
+      setNodes(others);
+      const firstOnline = others.find((n) => n.status === "online");
+      if (firstOnline) setForm((f) => (f.target ? f : { ...f, target: firstOnline.node }));
+    })().catch(() => setError("Failed to load cluster nodes"));
+  }, [vm.node, serverId]);
+
+  // Preflight on every change of the options
+  useEffect(() => {
+    if (!form.target) return;
+    const controller = new AbortController();
+    const params = new URLSearchParams({ node: vm.node, target: form.target });
+    if (form.withLocalDisks) params.set("withLocalDisks", "1");
+    if (form.targetStorage.trim()) params.set("targetStorage", form.targetStorage.trim());
+
+    setChecking(true);
+    setError(null);
+    fetch(withServerId(`${endpoint}?${params}`, serverId), { cache: "no-store", signal: controller.signal })
+      .then(async (response) => {
+        const json = await response.json();
+        if (!response.ok || !json.ok) throw new Error(json.error || "Preflight checks failed");
+        setPreflight(json.data as MigrationPreflight);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setPreflight(null);
+        setError(err instanceof Error ? err.message : "Preflight checks failed");
+      })
+      .finally(() => !controller.signal.aborted && setChecking(false));
+    return () => controller.abort();
+  }, [endpoint, serverId, vm.node, form.target, form.withLocalDisks, form.targetStorage]);
+
+  // Follow the migration task log until it ends
+  const upid = task?.upid;
+  const target = task?.target;
+  const onMigratedRef = useRef(onMigrated);
+  onMigratedRef.current = onMigrated;
+  useEffect(() => {
+    if (!upid || !target) return;
+    const source = new EventSource(withServerId(`${API_ENDPOINTS.TASKS}/${encodeURIComponent(upid)}/log`, serverId));
+    source.addEventListener("log", (event) => {
+      const batch = JSON.parse((event as MessageEvent).data) as TaskLogLine[];
+      setTask((t) => t && { ...t, lines: [...t.lines, ...batch] });
+    });
+    source.addEventListener("end", (event) => {
+      source.close();
+      const status = JSON.parse((event as MessageEvent).data) as TaskStatus;
+      setTask((t) => t && { ...t, done: true });
+      if (isTaskSuccessful(status)) {
+        showToast.success(`${vm.type === "qemu" ? "VM" : "CT"} ${vm.vmid} migrated to ${target}`);
+        onMigratedRef.current(target);
+      } else {
+        showToast.error(`Migration failed: ${status.exitstatus || "unknown error"}`);
+      }
+    });
+    source.addEventListener("error", () => {
+      source.close();
+      setTask((t) => t && { ...t, done: true });
+    });
+    return () => source.close();
+  }, [upid, target, serverId, vm.type, vm.vmid]);
+
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [task?.lines]);
+
+  const migrate = async () => {
+    try {
+      setError(null);
+      const response = await fetch(withServerId(endpoint, serverId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          node: vm.node,
+          target: form.target,
+          withLocalDisks: form.withLocalDisks,
+          targetStorage: form.targetStorage.trim() || undefined,
+          restartTimeout: form.restartTimeout,
+        }),
+      });
+      const json = await response.json();
+      if (response.status === 409 && json.data) setPreflight(json.data as MigrationPreflight);
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || "Migration failed");
+      }
+      if (response.status === 202) {
+        setTask({ upid: json.data.upid, target: form.target, lines: [], done: false });
+      } else {
+        showToast.success(json.data.message);
+        onMigrated(form.target);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Migration failed");
+    }
+  };
+
+  const running = task !== null && !task.done;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Icon icon={ArrowRightLeft} size="sm" className="text-gray-600 dark:text-gray-400" />
+            <CardTitle>Migrate from {vm.node}</CardTitle>
+            {preflight && (
+              <span className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                {MODE_LABELS[preflight.mode]}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            disabled={running}
+            className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-50 dark:hover:bg-gray-800"
+            title="Close"
+          >
+            <Icon icon={X} size="sm" />
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <label className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            <span>Target node</span>
+            <select
+              value={form.target}
+              onChange={(e) => setForm({ ...form, target: e.target.value })}
+              disabled={running}
+              className={inputClass}
+            >
+              {nodes.map((n) => (
+                <option key={n.node} value={n.node} disabled={n.status !== "online"}>
+                  {n.node}{n.status !== "online" ? ` (${n.status})` : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            <span>Target storage (optional)</span>
+            <input
+              type="text"
+              placeholder="Same as current"
+              value={form.targetStorage}
+              onChange={(e) => setForm({ ...form, targetStorage: e.target.value })}
+              disabled={running}
+              className={inputClass}
+            />
+          </label>
+          {vm.type === "lxc" && (
+            <label className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              <span>Shutdown timeout (s)</span>
+              <input
+                type="number"
+                min={1}
+                max={3600}
+                value={form.restartTimeout}
+                onChange={(e) => setForm({ ...form, restartTimeout: parseInt(e.target.value, 10) || 180 })}
+                disabled={running}
+                className={inputClass}
+              />
+            </label>
+          )}
+        </div>
+        {vm.type === "qemu" && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.withLocalDisks}
+              onChange={(e) => setForm({ ...form, withLocalDisks: e.target.checked })}
+              disabled={running}
+            />
+            Copy local disks
+          </label>
+        )}
+
+        {error && (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {preflight && (
+          <ul className="space-y-1" aria-label="Preflight checks">
+            {preflight.checks.map((check) => (
+              <li key={check.id} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Icon icon={CHECK_ICONS[check.status].icon} size="sm" className={`mt-0.5 shrink-0 ${CHECK_ICONS[check.status].className}`} />
+                {check.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {task && (
+          <pre
+            ref={logRef}
+            className="max-h-48 overflow-auto rounded-md bg-gray-900 p-3 font-mono text-xs text-gray-100"
+          >
+            {task.lines.length ? task.lines.map((line) => line.t).join("\n") : "Waiting for the task log..."}
+          </pre>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          {checking && <Icon icon={Loader2} size="sm" className="animate-spin text-blue-500" />}
+          <Button
+            onClick={migrate}
+            loading={running}
+            disabled={!preflight?.ok || checking || running || task?.done === true}
+          >
+            Migrate to {form.target || "..."}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
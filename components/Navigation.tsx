@@ -14,6 +14,7 @@ import {
   Bell,
   Shield,
   Network,
+  ListChecks,
 } from "lucide-react";
 import ConnectionStatusIndicator from "@/components/ConnectionStatusIndicator";
 
@@ -80,6 +81,13 @@ const Navigation: React.FC = () => {
       href: "/monitoring",
       active: pathname === "/monitoring"
     },
+    {
+      id: "tasks",
+      label: "Tasks",
+      icon: ListChecks,
+      href: "/tasks",
+      active: pathname === "/tasks"
+    },
     {
       id: "alerts",
       label: "Alerts",
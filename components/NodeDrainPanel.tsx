@@ -0,0 +1,223 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, ArrowRight, CheckCircle2, Clock, Loader2, LogOut, Undo2, X, XCircle } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { API_ENDPOINTS, NODE_DRAIN } from "@/lib/constants";
+import type { DrainGuestStatus, DrainPlan, NodeMaintenance } from "@/lib/types";
+
+const inputClass =
+  "rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100";
+
+const GUEST_STATUS: Record<DrainGuestStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pending: { icon: Clock, className: "text-gray-500" },
+  migrating: { icon: Loader2, className: "animate-spin text-blue-500" },
+  migrated: { icon: CheckCircle2, className: "text-green-600" },
+  failed: { icon: XCircle, className: "text-red-600" },
+};
+
+const formatGiB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+
+export interface NodeDrainPanelProps {
+  node: string;
+  /** Current maintenance of the node, kept up to date by the page */
+  maintenance?: NodeMaintenance;
+  onClose: () => void;
+  /** Called after a drain or undrain started, so the page reloads the maintenance state */
+  onChanged: () => void;
+}
+
+/**
+ * Drain workflow of a node: the placement plan is shown for approval before
+ * any guest moves, then the progress of each migration. A node in
+ * maintenance can be undrained, moving its guests back.
+ */
+export default function NodeDrainPanel({ node, maintenance, onClose, onChanged }: NodeDrainPanelProps) {
+  const [plan, setPlan] = useState<DrainPlan | null>(null);
+  const [concurrency, setConcurrency] = useState<number>(NODE_DRAIN.DEFAULT_CONCURRENCY);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const base = `${API_ENDPOINTS.NODES}/${encodeURIComponent(node)}`;
+  const inMaintenance = maintenance !== undefined;
+  const running = maintenance?.state === "draining" || maintenance?.state === "undraining";
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(`${base}/drain`, { cache: "no-store" });
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || "Failed to plan the drain");
+      }
+      setPlan(json.data as DrainPlan);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to plan the drain");
+    }
+  }, [base]);
+
+  // The plan is only needed before the node is drained
+  useEffect(() => {
+    if (!inMaintenance) fetchPlan();
+  }, [inMaintenance, fetchPlan]);
+
+  const submit = async (action: "drain" | "undrain") => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetch(`${base}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "drain" ? { placements: plan?.placements ?? [], concurrency } : { concurrency }),
+      });
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || `Failed to ${action} ${node}`);
+      }
+      showToast.info(json.data ? `${action === "drain" ? "Draining" : "Undraining"} ${node}...` : `${node} left maintenance`);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} ${node}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Icon icon={LogOut} size="sm" className="text-gray-600 dark:text-gray-400" />
+            <CardTitle>{inMaintenance ? `Maintenance of ${node}` : `Drain ${node}`}</CardTitle>
+            {maintenance && (
+              <span className="rounded bg-yellow-100 px-2 py-0.5 text-xs text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                {maintenance.state}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Close"
+          >
+            <Icon icon={X} size="sm" />
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {maintenance ? (
+          <ul className="space-y-1" aria-label="Guest migrations">
+            {maintenance.guests.length === 0 && (
+              <li className="text-sm text-gray-500 dark:text-gray-400">No running guests had to move.</li>
+            )}
+            {maintenance.guests.map((guest) => (
+              <li key={guest.vmid} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Icon icon={GUEST_STATUS[guest.status].icon} size="sm" className={`mt-0.5 shrink-0 ${GUEST_STATUS[guest.status].className}`} />
+                <span>
+                  {guest.name || `${guest.type}-${guest.vmid}`} ({guest.vmid}) → {guest.target}
+                  {guest.error && <span className="block text-xs text-red-600 dark:text-red-400">{guest.error}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : !plan ? (
+          !error && <p className="text-sm text-gray-500 dark:text-gray-400">Planning placement...</p>
+        ) : (
+          <>
+            {plan.placements.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No running guests on {node}; it goes straight into maintenance.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-2 pr-4">Guest</th>
+                      <th className="py-2 pr-4">Memory</th>
+                      <th className="py-2 pr-4">CPU</th>
+                      <th className="py-2 pr-4">Target</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {plan.placements.map((placement) => (
+                      <tr key={placement.vmid}>
+                        <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                          {placement.name || `${placement.type}-${placement.vmid}`} ({placement.vmid})
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{formatGiB(placement.memory)}</td>
+                        <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{placement.cpu.toFixed(2)} cores</td>
+                        <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">
+                          <span className="inline-flex items-center gap-1">
+                            <Icon icon={ArrowRight} size="xs" />
+                            {placement.target}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {plan.unplaced.map((guest) => (
+              <p key={guest.vmid} className="flex items-start gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+                <Icon icon={AlertTriangle} size="sm" className="mt-0.5 shrink-0" />
+                {guest.name || `${guest.type}-${guest.vmid}`} ({guest.vmid}) stays on {node}: {guest.reason}
+              </p>
+            ))}
+
+            {plan.targets.length > 0 && (
+              <ul className="grid grid-cols-1 gap-2 text-xs text-gray-600 sm:grid-cols-3 dark:text-gray-400" aria-label="Target nodes">
+                {plan.targets.map((target) => (
+                  <li key={target.node} className="rounded-md border border-gray-200 p-2 dark:border-gray-700">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{target.node}</span>: +{target.guests} guests,
+                    {" "}{formatGiB(target.memoryFree)} → {formatGiB(target.memoryFreeAfter)} free,
+                    {" "}{target.cpuFree.toFixed(1)} → {target.cpuFreeAfter.toFixed(1)} cores idle
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        {/* The maintenance is the dashboard's; HA node maintenance has no API */}
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Other drains place no guests on {node} while it is drained or in maintenance. To keep Proxmox HA from
+          placing guests on it as well, run <code>ha-manager crm-command node-maintenance enable {node}</code> on the cluster.
+        </p>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {!running && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              Parallel migrations
+              <select value={concurrency} onChange={(e) => setConcurrency(parseInt(e.target.value, 10))} className={inputClass}>
+                {Array.from({ length: NODE_DRAIN.MAX_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {!inMaintenance && (
+            <Button onClick={() => submit("drain")} loading={busy} disabled={!plan || busy}>
+              Approve and drain
+            </Button>
+          )}
+          {maintenance?.state === "maintenance" && (
+            <Button variant="secondary" onClick={() => submit("undrain")} loading={busy} disabled={busy}>
+              <Icon icon={Undo2} size="sm" />
+              Undrain
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
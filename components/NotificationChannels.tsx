@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Mail, Webhook, Send } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { API_ENDPOINTS } from "@/lib/constants";
+import type { AlertConfig, NotificationChannelId, NotificationDelivery } from "@/lib/types";
+
+type ChannelStatus = {
+  id: NotificationChannelId;
+  configured: boolean;
+  enabled: boolean;
+};
+
+const CHANNELS: Record<NotificationChannelId, { label: string; icon: typeof Mail; hint: string }> = {
+  email: { label: "Email notifications", icon: Mail, hint: "Set SMTP_HOST, ALERT_EMAIL_FROM and ALERT_EMAIL_TO on the server" },
+  webhook: { label: "Webhook notifications", icon: Webhook, hint: "Set ALERT_WEBHOOK_URL on the server" },
+};
+
+const EVENT_LABELS: Record<NotificationDelivery["event"], string> = {
+  "alert.fired": "Fired",
+  "alert.resolved": "Resolved",
+  test: "Test",
+};
+
+/**
+ * Server-side notification channels: enable toggles (stored in the alert
+ * configuration), per-channel test sends and the recent delivery log.
+ */
+export default function NotificationChannels() {
+  const [channels, setChannels] = useState<ChannelStatus[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [testing, setTesting] = useState<NotificationChannelId | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.ALERT_NOTIFICATIONS);
+      const data = await response.json();
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || "Failed to load notification channels");
+      }
+      setChannels(data.data.channels);
+      setDeliveries(data.data.deliveries);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to load notification channels");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleChannel = async (id: NotificationChannelId, enabled: boolean) => {
+    try {
+      const current = await fetch(API_ENDPOINTS.ALERT_CONFIG).then((response) => response.json());
+      if (!current.ok) {
+        throw new Error(current.error || "Failed to load alert configuration");
+      }
+      const config: AlertConfig = current.data;
+      const response = await fetch(API_ENDPOINTS.ALERT_CONFIG, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...config, notificationChannels: { ...config.notificationChannels, [id]: enabled } }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || "Failed to save alert configuration");
+      }
+      setChannels((previous) => previous.map((channel) => (channel.id === id ? { ...channel, enabled } : channel)));
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to save alert configuration");
+    }
+  };
+
+  const sendTest = async (id: NotificationChannelId) => {
+    setTesting(id);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.ALERT_NOTIFICATIONS}/test`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel: id }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || "Test notification failed");
+      }
+      showToast.success(`Test ${id} notification sent`);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Test notification failed");
+    } finally {
+      setTesting(null);
+      load();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {channels.map((channel) => {
+        const { label, icon, hint } = CHANNELS[channel.id];
+        return (
+          <div key={channel.id} className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={channel.enabled}
+                disabled={!channel.configured}
+                onChange={(e) => toggleChannel(channel.id, e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <Icon icon={icon} size="sm" className="text-gray-400" />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                {label}
+              </span>
+              {!channel.configured && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">{hint}</span>
+              )}
+            </label>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={!channel.configured}
+              loading={testing === channel.id}
+              leftIcon={<Icon icon={Send} size="sm" />}
+              onClick={() => sendTest(channel.id)}
+            >
+              Send test
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Recent deliveries
+        </h4>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No notifications sent yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3">Time</th>
+                  <th className="py-1 pr-3">Channel</th>
+                  <th className="py-1 pr-3">Event</th>
+                  <th className="py-1 pr-3">Status</th>
+                  <th className="py-1">Attempts</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 dark:text-gray-300">
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="py-1 pr-3">{new Date(delivery.timestamp).toLocaleString()}</td>
+                    <td className="py-1 pr-3">{delivery.channel}</td>
+                    <td className="py-1 pr-3">{EVENT_LABELS[delivery.event]}</td>
+                    <td className="py-1 pr-3" title={delivery.error}>
+                      <span className={delivery.status === "sent" ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                        {delivery.status === "sent" ? "Sent" : `Failed${delivery.error ? `: ${delivery.error}` : ""}`}
+                      </span>
+                    </td>
+                    <td className="py-1">{delivery.attempts}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Camera, History, MapPin, Plus, RefreshCw, Trash2 } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { buildSnapshotTree } from "@/lib/proxmox/snapshots";
+import type { SnapshotTreeNode } from "@/lib/proxmox/snapshots";
+import { isTaskSuccessful, waitForTask, withServerId } from "@/lib/proxmox/tasks";
+import type { Snapshot, VmType } from "@/lib/types";
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100";
+
+type SnapshotForm = { name: string; description: string; vmstate: boolean };
+
+const EMPTY_FORM: SnapshotForm = { name: "", description: "", vmstate: false };
+
+export interface SnapshotTreeProps {
+  vmid: number;
+  node: string;
+  type: VmType;
+  /** Stored server of the guest, the default server when omitted */
+  serverId?: string;
+}
+
+/**
+ * Snapshot tree of a guest with create, rollback and delete. Mutations are
+ * Proxmox tasks, followed until they complete before the tree is reloaded.
+ */
+export default function SnapshotTree({ vmid, node, type, serverId }: SnapshotTreeProps) {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [form, setForm] = useState<SnapshotForm | null>(null);
+  const base = `/api/proxmox/vms/${vmid}/snapshots`;
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(withServerId(`${base}?node=${encodeURIComponent(node)}`, serverId), { cache: "no-store" });
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || "Failed to fetch snapshots");
+      }
+      setSnapshots(json.data as Snapshot[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch snapshots");
+    }
+  }, [base, node, serverId]);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const tree = useMemo(() => buildSnapshotTree(snapshots ?? []), [snapshots]);
+
+  // Submit a snapshot mutation and follow its task (202) until it completes
+  const runTask = useCallback(async (key: string, label: string, request: () => Promise<Response>) => {
+    try {
+      setBusy(key);
+      const response = await request();
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || `${label} failed`);
+      }
+      if (response.status === 202 && json.data?.upid) {
+        showToast.info(`${label} in progress...`);
+        const task = await waitForTask(json.data.upid, { serverId });
+        if (!task) {
+          showToast.warning(`${label} is still running`);
+          return;
+        }
+        if (!isTaskSuccessful(task)) {
+          throw new Error(task.exitstatus || "Task failed");
+        }
+      }
+      showToast.success(`${label} completed`);
+    } catch (err) {
+      showToast.error(`${label} failed: ${err instanceof Error ? err.message : "unknown error"}`);
+    } finally {
+      setBusy(null);
+      await fetchSnapshots();
+    }
+  }, [fetchSnapshots, serverId]);
+
+  const createSnapshot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    const snapshot = { node, name: form.name.trim(), description: form.description.trim() || undefined, vmstate: form.vmstate };
+    setForm(null);
+    await runTask("create", `Snapshot ${snapshot.name}`, () =>
+      fetch(withServerId(base, serverId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(snapshot),
+      })
+    );
+  };
+
+  const rollback = (name: string) => {
+    if (!window.confirm(`Roll back ${type === "qemu" ? "VM" : "CT"} ${vmid} to ${name}? Changes since then are lost.`)) return;
+    void runTask(`rollback:${name}`, `Rollback to ${name}`, () =>
+      fetch(withServerId(`${base}/${encodeURIComponent(name)}/rollback`, serverId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ node }),
+      })
+    );
+  };
+
+  const remove = (name: string) => {
+    if (!window.confirm(`Delete snapshot ${name}?`)) return;
+    void runTask(`delete:${name}`, `Deletion of ${name}`, () =>
+      fetch(withServerId(`${base}/${encodeURIComponent(name)}?node=${encodeURIComponent(node)}`, serverId), { method: "DELETE" })
+    );
+  };
+
+  const renderNode = (snapshot: SnapshotTreeNode, depth: number): React.ReactNode => (
+    <React.Fragment key={snapshot.name}>
+      <li
+        className="flex items-center justify-between gap-3 rounded-lg px-2 py-2 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+        style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+      >
+        <div className="flex min-w-0 items-center gap-2">
+          <Icon
+            icon={snapshot.current ? MapPin : Camera}
+            size="sm"
+            className={snapshot.current ? "text-blue-600 dark:text-blue-400" : "text-gray-400"}
+          />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {snapshot.current ? "NOW" : snapshot.name}
+              {snapshot.vmstate && (
+                <span className="ml-2 rounded bg-purple-100 px-1.5 py-0.5 text-xs text-purple-700 dark:bg-purple-900/40 dark:text-purple-300">RAM</span>
+              )}
+            </p>
+            <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+              {snapshot.current
+                ? "You are here"
+                : [snapshot.snaptime && new Date(snapshot.snaptime * 1000).toLocaleString(), snapshot.description].filter(Boolean).join(" - ")}
+            </p>
+          </div>
+        </div>
+        {!snapshot.current && (
+          <div className="flex shrink-0 items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => rollback(snapshot.name)}
+              loading={busy === `rollback:${snapshot.name}`}
+              disabled={busy !== null}
+              title={`Roll back to ${snapshot.name}`}
+            >
+              <Icon icon={History} size="sm" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => remove(snapshot.name)}
+              loading={busy === `delete:${snapshot.name}`}
+              disabled={busy !== null}
+              title={`Delete ${snapshot.name}`}
+            >
+              <Icon icon={Trash2} size="sm" className="text-red-600" />
+            </Button>
+          </div>
+        )}
+      </li>
+      {snapshot.children.map((child) => renderNode(child, depth + 1))}
+    </React.Fragment>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Icon icon={Camera} size="sm" className="text-gray-600 dark:text-gray-400" />
+            <CardTitle>Snapshots</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" size="sm" onClick={fetchSnapshots} disabled={busy !== null}>
+              <Icon icon={RefreshCw} size="sm" />
+            </Button>
+            <Button size="sm" onClick={() => setForm(EMPTY_FORM)} disabled={busy !== null || form !== null}>
+              <Icon icon={Plus} size="sm" className="mr-1" />
+              Take Snapshot
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {form && (
+          <form onSubmit={createSnapshot} className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+            <input
+              type="text"
+              aria-label="Snapshot name"
+              placeholder="before-upgrade"
+              required
+              pattern="[A-Za-z][A-Za-z0-9_\-]{1,39}"
+              title="2 to 40 letters, digits, - or _, starting with a letter"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+            <textarea
+              aria-label="Description"
+              placeholder="Description"
+              rows={2}
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={inputClass}
+            />
+            {type === "qemu" && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={form.vmstate}
+                  onChange={(e) => setForm({ ...form, vmstate: e.target.checked })}
+                />
+                Include RAM
+              </label>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setForm(null)}>Cancel</Button>
+              <Button type="submit" size="sm">Take Snapshot</Button>
+            </div>
+          </form>
+        )}
+
+        {error ? (
+          <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        ) : snapshots === null ? (
+          <div className="py-4 text-center text-gray-500 dark:text-gray-400">Loading snapshots...</div>
+        ) : (
+          <ul role="tree" className="space-y-0.5">
+            {tree.map((snapshot) => renderNode(snapshot, 0))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
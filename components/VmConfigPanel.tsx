@@ -0,0 +1,378 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Cpu, HardDrive, Network, Pencil, RefreshCw, Settings } from "lucide-react";
+import Button from "@/components/ui/Button";
+import Card, { CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import Icon from "@/components/ui/Icon";
+import { showToast } from "@/components/ui/Toast";
+import { withServerId } from "@/lib/proxmox/tasks";
+import { diffVmConfig, toConfigDraft, toConfigUpdate } from "@/lib/proxmox/vmConfig";
+import type { VmConfigDraft } from "@/lib/proxmox/vmConfig";
+import type { VmConfig, VmType } from "@/lib/types";
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100";
+
+const formatBytes = (bytes?: number) => {
+  if (!bytes) return "-";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  return `${(bytes / Math.pow(1024, i)).toFixed(i ? 1 : 0)} ${units[i]}`;
+};
+
+const parseNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+// Label/value rows of a configuration section
+const Fields: React.FC<{ rows: [string, React.ReactNode][] }> = ({ rows }) => (
+  <dl className="grid grid-cols-1 gap-x-6 gap-y-2 text-sm sm:grid-cols-[max-content_1fr]">
+    {rows.map(([label, value]) => (
+      <React.Fragment key={label}>
+        <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+        <dd className="break-all text-gray-900 dark:text-gray-100">{value ?? "-"}</dd>
+      </React.Fragment>
+    ))}
+  </dl>
+);
+
+const SectionTitle: React.FC<{ icon: typeof Cpu; children: React.ReactNode }> = ({ icon, children }) => (
+  <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+    <Icon icon={icon} size="sm" className="text-gray-400" />
+    {children}
+  </h3>
+);
+
+export interface VmConfigPanelProps {
+  vmid: number;
+  node: string;
+  type: VmType;
+  /** Called after settings were applied, e.g. to refresh the guest status */
+  onUpdated?: (config: VmConfig) => void;
+  /** Stored server of the guest, the default server when omitted */
+  serverId?: string;
+}
+
+/**
+ * Configuration of a guest, with editing of its main settings. Edits are
+ * shown as a diff against the stored configuration before they are applied.
+ */
+export default function VmConfigPanel({ vmid, node, type, onUpdated, serverId }: VmConfigPanelProps) {
+  const [config, setConfig] = useState<VmConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VmConfigDraft | null>(null);
+  const [tagsInput, setTagsInput] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const endpoint = `/api/proxmox/vms/${vmid}/config`;
+
+  const fetchConfig = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(withServerId(`${endpoint}?node=${encodeURIComponent(node)}`, serverId), { cache: "no-store" });
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        throw new Error(json.error || "Failed to fetch configuration");
+      }
+      setConfig(json.data as VmConfig);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch configuration");
+    }
+  }, [endpoint, node, serverId]);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  const changes = useMemo(() => (config && draft ? diffVmConfig(config, draft) : []), [config, draft]);
+
+  const startEditing = () => {
+    if (!config) return;
+    setDraft(toConfigDraft(config));
+    setTagsInput(config.tags.join(", "));
+    setReviewing(false);
+  };
+
+  const cancelEditing = () => {
+    setDraft(null);
+    setReviewing(false);
+  };
+
+  const apply = async () => {
+    if (!config || !draft) return;
+    try {
+      setSaving(true);
+      const response = await fetch(withServerId(endpoint, serverId), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ node, ...toConfigUpdate(config, draft) }),
+      });
+      const json = await response.json();
+      if (!response.ok || !json.ok) {
+        const detail = json.details?.[0]?.message;
+        throw new Error(detail ? `${json.error}: ${detail}` : json.error || "Failed to apply changes");
+      }
+      const updated = json.data as VmConfig;
+      setConfig(updated);
+      cancelEditing();
+      showToast.success(`Configuration of ${type === "qemu" ? "VM" : "CT"} ${vmid} updated`);
+      onUpdated?.(updated);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to apply changes");
+      // A 409 means the stored config moved on; show the current one
+      await fetchConfig();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error || !config) {
+    return (
+      <Card>
+        <CardContent>
+          {error ? (
+            <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+              {error}
+            </div>
+          ) : (
+            <div className="py-4 text-center text-gray-500 dark:text-gray-400">Loading configuration...</div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const pending = Object.entries(config.pending);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Icon icon={Settings} size="sm" className="text-gray-600 dark:text-gray-400" />
+            <CardTitle>Configuration</CardTitle>
+          </div>
+          {!draft && (
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" size="sm" onClick={fetchConfig}>
+                <Icon icon={RefreshCw} size="sm" />
+              </Button>
+              <Button size="sm" onClick={startEditing}>
+                <Icon icon={Pencil} size="sm" className="mr-1" />
+                Edit
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {pending.length > 0 && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-950 dark:text-yellow-300">
+            <p className="font-medium">Applied on the next restart:</p>
+            <ul className="mt-1 list-inside list-disc">
+              {pending.map(([key, value]) => (
+                <li key={key}><span className="font-mono">{key}</span>: {value || "(removed)"}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {draft && !reviewing && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setReviewing(true);
+            }}
+            className="space-y-3 rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+          >
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+              <label className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                <span>CPU cores</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={512}
+                  placeholder={type === "lxc" ? "Unlimited" : undefined}
+                  value={draft.cores ?? ""}
+                  onChange={(e) => setDraft({ ...draft, cores: parseNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                <span>Memory (MiB)</span>
+                <input
+                  type="number"
+                  min={16}
+                  required
+                  value={draft.memory ?? ""}
+                  onChange={(e) => setDraft({ ...draft, memory: parseNumber(e.target.value) as number })}
+                  className={inputClass}
+                />
+              </label>
+              {type === "qemu" && (
+                <label className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                  <span>Minimum memory (MiB, 0 disables ballooning)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={draft.memory}
+                    placeholder={String(draft.memory ?? "")}
+                    value={draft.balloon ?? ""}
+                    onChange={(e) => setDraft({ ...draft, balloon: parseNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+              )}
+            </div>
+            <label className="block space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              <span>Tags (comma separated)</span>
+              <input
+                type="text"
+                value={tagsInput}
+                onChange={(e) => {
+                  setTagsInput(e.target.value);
+                  setDraft({ ...draft, tags: e.target.value.split(/[,;\s]+/).filter(Boolean) });
+                }}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              <span>Description</span>
+              <textarea
+                rows={3}
+                value={draft.description ?? ""}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.onboot}
+                onChange={(e) => setDraft({ ...draft, onboot: e.target.checked })}
+              />
+              Start at boot
+            </label>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={cancelEditing}>Cancel</Button>
+              <Button type="submit" size="sm" disabled={changes.length === 0}>Review Changes</Button>
+            </div>
+          </form>
+        )}
+
+        {draft && reviewing && (
+          <div className="space-y-3 rounded-lg border border-blue-200 p-3 dark:border-blue-900">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">Pending changes</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="pb-1 pr-4 font-medium">Setting</th>
+                  <th className="pb-1 pr-4 font-medium">Current</th>
+                  <th className="pb-1 font-medium">New</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={change.field} className="align-top">
+                    <td className="py-1 pr-4 text-gray-700 dark:text-gray-300">{change.label}</td>
+                    <td className="py-1 pr-4 whitespace-pre-wrap text-red-700 line-through dark:text-red-400">{change.from}</td>
+                    <td className="py-1 whitespace-pre-wrap text-green-700 dark:text-green-400">{change.to}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={() => setReviewing(false)} disabled={saving}>Back</Button>
+              <Button size="sm" onClick={apply} loading={saving}>Apply</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <section>
+            <SectionTitle icon={Cpu}>Processor and memory</SectionTitle>
+            <Fields
+              rows={[
+                ["Cores", config.cores ?? "Unlimited"],
+                ...(type === "qemu" ? [["Sockets", config.sockets] as [string, React.ReactNode]] : []),
+                ...(config.cpuType ? [["CPU type", config.cpuType] as [string, React.ReactNode]] : []),
+                ["Memory", `${config.memory} MiB`],
+                ...(type === "qemu"
+                  ? [["Balloon minimum", config.balloon === undefined ? "Same as memory" : config.balloon === 0 ? "Disabled" : `${config.balloon} MiB`] as [string, React.ReactNode]]
+                  : [["Swap", `${config.swap ?? 0} MiB`] as [string, React.ReactNode]]),
+              ]}
+            />
+          </section>
+
+          <section>
+            <SectionTitle icon={Settings}>Options</SectionTitle>
+            <Fields
+              rows={[
+                ["Start at boot", config.onboot ? "Yes" : "No"],
+                ["Tags", config.tags.length ? config.tags.join(", ") : "-"],
+                ...(type === "qemu" ? [["Boot order", config.bootOrder.length ? config.bootOrder.join(" → ") : "-"] as [string, React.ReactNode]] : []),
+                ...Object.entries(config.options).map(([key, value]) => [key, value] as [string, React.ReactNode]),
+              ]}
+            />
+          </section>
+
+          <section>
+            <SectionTitle icon={HardDrive}>Disks</SectionTitle>
+            <table className="w-full text-sm">
+              <tbody>
+                {config.disks.map((disk) => (
+                  <tr key={disk.id} className="align-top">
+                    <td className="py-1 pr-4 font-mono text-gray-500 dark:text-gray-400">{disk.id}</td>
+                    <td className="py-1 pr-4 break-all text-gray-900 dark:text-gray-100">
+                      {disk.volume}
+                      {disk.media && <span className="ml-2 text-xs text-gray-500">({disk.media})</span>}
+                    </td>
+                    <td className="py-1 text-right text-gray-700 dark:text-gray-300">{formatBytes(disk.size)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section>
+            <SectionTitle icon={Network}>Network</SectionTitle>
+            <table className="w-full text-sm">
+              <tbody>
+                {config.nics.map((nic) => (
+                  <tr key={nic.id} className="align-top">
+                    <td className="py-1 pr-4 font-mono text-gray-500 dark:text-gray-400">{nic.id}</td>
+                    <td className="py-1 pr-4 text-gray-900 dark:text-gray-100">
+                      {[nic.model, nic.bridge, nic.vlan !== undefined && `VLAN ${nic.vlan}`, nic.firewall && "firewall"].filter(Boolean).join(" · ")}
+                    </td>
+                    <td className="py-1 text-right font-mono text-xs text-gray-700 dark:text-gray-300">{nic.mac ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {config.cloudInit && (
+            <section>
+              <SectionTitle icon={Settings}>Cloud-Init</SectionTitle>
+              <Fields
+                rows={[
+                  ["User", config.cloudInit.user],
+                  ["DNS server", config.cloudInit.nameserver],
+                  ["DNS domain", config.cloudInit.searchdomain],
+                  ["SSH keys", config.cloudInit.sshKeys],
+                  ...Object.entries(config.cloudInit.ipconfig).map(([key, value]) => [key, value] as [string, React.ReactNode]),
+                ]}
+              />
+            </section>
+          )}
+
+          {config.description && (
+            <section>
+              <SectionTitle icon={Settings}>Notes</SectionTitle>
+              <p className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">{config.description}</p>
+            </section>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import { CHART_CONFIG } from "@/lib/constants";
 const LazyLineChart = lazy(() => import("recharts").then(module => ({ default: module.LineChart })));
 const LazyAreaChart = lazy(() => import("recharts").then(module => ({ default: module.AreaChart })));
 const LazyBarChart = lazy(() => import("recharts").then(module => ({ default: module.BarChart })));
+const LazyComposedChart = lazy(() => import("recharts").then(module => ({ default: module.ComposedChart })));
 const LazyLine = lazy(() => import("recharts").then(module => ({ default: module.Line })));
 const LazyArea = lazy(() => import("recharts").then(module => ({ default: module.Area })));
 const LazyBar = lazy(() => import("recharts").then(module => ({ default: module.Bar })));
@@ -36,6 +37,10 @@ export type ChartProps = {
   showYAxis?: boolean;
   lazy?: boolean; // Enable lazy loading
   animationDuration?: number;
+  /** Dashed series continuing `dataKey`, e.g. a forecast */
+  forecastKey?: string;
+  /** Shaded range between two keys, e.g. a forecast's prediction interval */
+  band?: { lowerKey: string; upperKey: string; color?: string };
 };
 
 const defaultColors = {
@@ -109,6 +114,8 @@ export const Chart = memo<ChartProps>(({
   showYAxis = true,
   lazy = true,
   animationDuration = CHART_CONFIG.ANIMATION_DURATION,
+  forecastKey,
+  band,
 }) => {
   const [ref, isIntersecting] = useIntersectionObserver({
     threshold: 0.1,
@@ -160,6 +167,55 @@ export const Chart = memo<ChartProps>(({
       contentStyle: tooltipStyle,
     } : null;
 
+    // Observed series, dashed forecast and shaded band share one chart
+    if (forecastKey || band) {
+      const bandColor = band?.color ?? chartColor;
+      return (
+        <Suspense fallback={<ChartSkeleton height={height} className={className} />}>
+          <LazyResponsiveContainer width="100%" height={height}>
+            <LazyComposedChart {...commonProps}>
+              {showGrid && <LazyCartesianGrid {...gridProps} />}
+              {showXAxis && <LazyXAxis {...xAxisProps} />}
+              {showYAxis && <LazyYAxis {...yAxisProps} />}
+              {showTooltip && <LazyTooltip {...tooltipProps} />}
+              {band && (
+                <LazyArea
+                  type="monotone"
+                  dataKey={(point: ChartData) =>
+                    point[band.lowerKey] === undefined ? undefined : [point[band.lowerKey], point[band.upperKey]]
+                  }
+                  name="Forecast range"
+                  stroke="none"
+                  fill={bandColor}
+                  fillOpacity={0.15}
+                  animationDuration={animationDuration}
+                />
+              )}
+              <LazyLine
+                type="monotone"
+                dataKey={dataKey}
+                stroke={chartColor}
+                strokeWidth={2}
+                dot={false}
+                animationDuration={animationDuration}
+              />
+              {forecastKey && (
+                <LazyLine
+                  type="monotone"
+                  dataKey={forecastKey}
+                  stroke={chartColor}
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                  animationDuration={animationDuration}
+                />
+              )}
+            </LazyComposedChart>
+          </LazyResponsiveContainer>
+        </Suspense>
+      );
+    }
+
     switch (type) {
       case "area":
         return (
@@ -242,6 +298,8 @@ export const Chart = memo<ChartProps>(({
     animationDuration,
     height,
     className,
+    forecastKey,
+    band,
   ]);
 
   return (
@@ -33,6 +33,11 @@ const EnvSchema = z.object({
   PROXMOX_API_TOKEN_ID: z.string().optional(),
   PROXMOX_API_TOKEN_SECRET: z.string().optional(),
 
+  // Ticket auth (used when no API token is set)
+  PROXMOX_USERNAME: z.string().optional(),
+  PROXMOX_PASSWORD: z.string().optional(),
+  PROXMOX_TOTP_SECRET: z.string().optional(),
+
   // TLS
   PROXMOX_INSECURE_TLS: BoolFromEnv(false),
 
@@ -43,6 +48,54 @@ const EnvSchema = z.object({
   PROXMOX_SSH_PRIVATE_KEY_PATH: z.string().optional(),
   PROXMOX_SSH_PASSWORD: z.string().optional(),
 
+  // Server store ("file" for single-node installs, "mongo" for shared deployments)
+  SERVER_STORE: z.enum(["file", "mongo"]).default("file"),
+  SERVER_STORE_PATH: z.string().min(1).default("data/servers.json"),
+  MONGODB_URI: z.string().optional(),
+  MONGODB_DB: z.string().min(1).default("dashboard"),
+
+  // Encryption of stored server secrets (32-byte keys, base64 or hex)
+  SECRETS_MASTER_KEY: z.string().optional(),
+  SECRETS_PREVIOUS_KEYS: z.string().optional(),
+
+  // Server-side alert engine
+  ALERT_ENGINE_ENABLED: BoolFromEnv(true),
+  ALERT_EVAL_INTERVAL_MS: IntFromEnv(30000, 1000),
+  ALERT_STORE_PATH: z.string().min(1).default("data/alerts.json"),
+
+  // Long-term metrics retention ("file" keeps day files under the path, "mongo" uses MONGODB_URI)
+  METRICS_COLLECTOR_ENABLED: BoolFromEnv(true),
+  METRICS_STORE: z.enum(["file", "mongo"]).default("file"),
+  METRICS_STORE_PATH: z.string().min(1).default("data/metrics"),
+
+  // Node drain / maintenance state
+  MAINTENANCE_STORE_PATH: z.string().min(1).default("data/maintenance.json"),
+
+  // Alert notification channels
+  ALERT_WEBHOOK_URL: z.string().url().optional(),
+  ALERT_WEBHOOK_SECRET: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: IntFromEnv(587, 1),
+  SMTP_SECURE: BoolFromEnv(false),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  ALERT_EMAIL_FROM: z.string().optional(),
+  ALERT_EMAIL_TO: z.string().optional(),
+  ALERT_EMAIL_SUBJECT_TEMPLATE: z.string().optional(),
+  ALERT_EMAIL_BODY_TEMPLATE: z.string().optional(),
+
+  // WebSocket live channel, served next to the Next.js server
+  LIVE_WS_ENABLED: BoolFromEnv(true),
+  LIVE_WS_PORT: IntFromEnv(15001, 1),
+  /** Public ws(s):// URL when the channel is reached through a reverse proxy */
+  LIVE_WS_PUBLIC_URL: z.string().url().optional(),
+
+  // Console proxy relaying browser consoles to Proxmox vncwebsocket
+  CONSOLE_WS_ENABLED: BoolFromEnv(true),
+  CONSOLE_WS_PORT: IntFromEnv(15002, 1),
+  /** Public ws(s):// URL when the console proxy is reached through a reverse proxy */
+  CONSOLE_WS_PUBLIC_URL: z.string().url().optional(),
+
   // Runtime behavior
   ENABLE_MOCK: BoolFromEnv(false),
   POLL_INTERVAL_MS: IntFromEnv(5000, 500),
@@ -66,6 +119,9 @@ export function loadEnv(): Env {
     PROXMOX_BASE_URL: process.env.PROXMOX_BASE_URL,
     PROXMOX_API_TOKEN_ID: process.env.PROXMOX_API_TOKEN_ID,
     PROXMOX_API_TOKEN_SECRET: process.env.PROXMOX_API_TOKEN_SECRET,
+    PROXMOX_USERNAME: process.env.PROXMOX_USERNAME,
+    PROXMOX_PASSWORD: process.env.PROXMOX_PASSWORD,
+    PROXMOX_TOTP_SECRET: process.env.PROXMOX_TOTP_SECRET,
     PROXMOX_INSECURE_TLS: process.env.PROXMOX_INSECURE_TLS,
 
     PROXMOX_SSH_HOST: process.env.PROXMOX_SSH_HOST,
@@ -74,6 +130,40 @@ export function loadEnv(): Env {
     PROXMOX_SSH_PRIVATE_KEY_PATH: process.env.PROXMOX_SSH_PRIVATE_KEY_PATH,
     PROXMOX_SSH_PASSWORD: process.env.PROXMOX_SSH_PASSWORD,
 
+    SERVER_STORE: process.env.SERVER_STORE,
+    SERVER_STORE_PATH: process.env.SERVER_STORE_PATH,
+    MONGODB_URI: process.env.MONGODB_URI,
+    MONGODB_DB: process.env.MONGODB_DB,
+    SECRETS_MASTER_KEY: process.env.SECRETS_MASTER_KEY,
+    SECRETS_PREVIOUS_KEYS: process.env.SECRETS_PREVIOUS_KEYS,
+
+    ALERT_ENGINE_ENABLED: process.env.ALERT_ENGINE_ENABLED,
+    ALERT_EVAL_INTERVAL_MS: process.env.ALERT_EVAL_INTERVAL_MS,
+    ALERT_STORE_PATH: process.env.ALERT_STORE_PATH,
+    METRICS_COLLECTOR_ENABLED: process.env.METRICS_COLLECTOR_ENABLED,
+    METRICS_STORE: process.env.METRICS_STORE,
+    METRICS_STORE_PATH: process.env.METRICS_STORE_PATH,
+    MAINTENANCE_STORE_PATH: process.env.MAINTENANCE_STORE_PATH,
+    ALERT_WEBHOOK_URL: process.env.ALERT_WEBHOOK_URL,
+    ALERT_WEBHOOK_SECRET: process.env.ALERT_WEBHOOK_SECRET,
+    SMTP_HOST: process.env.SMTP_HOST,
+    SMTP_PORT: process.env.SMTP_PORT,
+    SMTP_SECURE: process.env.SMTP_SECURE,
+    SMTP_USER: process.env.SMTP_USER,
+    SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+    ALERT_EMAIL_FROM: process.env.ALERT_EMAIL_FROM,
+    ALERT_EMAIL_TO: process.env.ALERT_EMAIL_TO,
+    ALERT_EMAIL_SUBJECT_TEMPLATE: process.env.ALERT_EMAIL_SUBJECT_TEMPLATE,
+    ALERT_EMAIL_BODY_TEMPLATE: process.env.ALERT_EMAIL_BODY_TEMPLATE,
+
+    LIVE_WS_ENABLED: process.env.LIVE_WS_ENABLED,
+    LIVE_WS_PORT: process.env.LIVE_WS_PORT,
+    LIVE_WS_PUBLIC_URL: process.env.LIVE_WS_PUBLIC_URL,
+
+    CONSOLE_WS_ENABLED: process.env.CONSOLE_WS_ENABLED,
+    CONSOLE_WS_PORT: process.env.CONSOLE_WS_PORT,
+    CONSOLE_WS_PUBLIC_URL: process.env.CONSOLE_WS_PUBLIC_URL,
+
     ENABLE_MOCK: process.env.ENABLE_MOCK,
     POLL_INTERVAL_MS: process.env.POLL_INTERVAL_MS,
     SERVER_CACHE_TTL_MS: process.env.SERVER_CACHE_TTL_MS,
@@ -108,6 +198,27 @@ export function loadEnv(): Env {
   if (usingSSH && !value.PROXMOX_SSH_HOST) {
     throw new Error("SSH configuration incomplete: PROXMOX_SSH_HOST is required when using SSH options.");
   }
+  if (!!value.PROXMOX_USERNAME !== !!value.PROXMOX_PASSWORD) {
+    throw new Error("Ticket auth configuration incomplete: set both PROXMOX_USERNAME and PROXMOX_PASSWORD.");
+  }
+  if (value.SERVER_STORE === "mongo" && !value.MONGODB_URI) {
+    throw new Error("Server store configuration incomplete: MONGODB_URI is required when SERVER_STORE=mongo.");
+  }
+  if (value.METRICS_STORE === "mongo" && !value.MONGODB_URI) {
+    throw new Error("Metrics store configuration incomplete: MONGODB_URI is required when METRICS_STORE=mongo.");
+  }
+  if (value.SMTP_HOST && (!value.ALERT_EMAIL_FROM || !value.ALERT_EMAIL_TO)) {
+    throw new Error("Email notifications incomplete: ALERT_EMAIL_FROM and ALERT_EMAIL_TO are required with SMTP_HOST.");
+  }
+  if (value.LIVE_WS_ENABLED && value.LIVE_WS_PORT === value.PORT) {
+    throw new Error("LIVE_WS_PORT must differ from PORT: the live channel listens on its own port.");
+  }
+  if (
+    value.CONSOLE_WS_ENABLED &&
+    (value.CONSOLE_WS_PORT === value.PORT || (value.LIVE_WS_ENABLED && value.CONSOLE_WS_PORT === value.LIVE_WS_PORT))
+  ) {
+    throw new Error("CONSOLE_WS_PORT must differ from PORT and LIVE_WS_PORT: the console proxy listens on its own port.");
+  }
 
   cached = value;
   return cached;
@@ -13,6 +13,20 @@ export interface UseEventSourceOptions {
   onMessage?: (message: EventMessage) => void;
 }
 
+export type EventMessageType = EventMessage["type"];
+export type EventMessageOf<T extends EventMessageType> = Extract<EventMessage, { type: T }>;
+
+// Named SSE events sent by /api/proxmox/events, one per message type
+const EVENT_TYPES: readonly EventMessageType[] = [
+  "heartbeat",
+  "status",
+  "error",
+  "vm-status",
+  "task",
+  "backup",
+  "alert",
+];
+
 export interface EventSourceState {
   connected: boolean;
   connecting: boolean;
@@ -46,6 +60,11 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
   const retryManagerRef = useRef<RetryManager | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const heartbeatTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Id of the last event received, sent on reconnect so the server replays what was missed
+  const lastEventIdRef = useRef<string | null>(null);
+  const connectRef = useRef<() => void>(() => {});
+  // Handlers registered through subscribe(), by message type
+  const handlersRef = useRef(new Map<EventMessageType, Set<(message: EventMessage) => void>>());
 
   const updateState = useCallback((updates: Partial<EventSourceState>) => {
     setState(prev => ({ ...prev, ...updates }));
@@ -61,11 +80,16 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
       if (esRef.current) {
         console.warn('EventSource heartbeat timeout, reconnecting...');
         esRef.current.close();
+        esRef.current = null;
+        connectRef.current();
       }
     }, INTERVALS.HEARTBEAT * 2);
   }, []);
 
   const handleMessage = useCallback((type: string) => (ev: MessageEvent) => {
+    if (ev.lastEventId) {
+      lastEventIdRef.current = ev.lastEventId;
+    }
     try {
       const data = ev.data ? JSON.parse(ev.data) : {};
       const message = { type, ...data };
@@ -90,6 +114,7 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
       }
 
       onMessage?.(validatedMessage);
+      handlersRef.current.get(validatedMessage.type)?.forEach((handler) => handler(validatedMessage));
     } catch (error) {
       console.warn('Failed to parse event message:', error);
       const fallbackMessage: EventMessage = {
@@ -106,7 +131,12 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
     updateState({ connecting: true, error: null });
 
     try {
-      const es = new EventSource(url);
+      // A new EventSource does not send Last-Event-ID by itself, so pass it in the query
+      let target = url;
+      if (lastEventIdRef.current) {
+        target += `${url.includes('?') ? '&' : '?'}lastEventId=${encodeURIComponent(lastEventIdRef.current)}`;
+      }
+      const es = new EventSource(target);
       esRef.current = es;
 
       es.onopen = () => {
@@ -164,8 +194,7 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
       };
 
       // Set up event listeners
-      es.addEventListener("status", handleMessage("status"));
-      es.addEventListener("error", handleMessage("error"));
+      EVENT_TYPES.forEach((type) => es.addEventListener(type, handleMessage(type)));
       es.onmessage = handleMessage("message");
 
     } catch (error) {
@@ -179,6 +208,10 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
     }
   }, [url, enabled, state.connected, state.retryCount, maxRetries, retryMs, updateState, handleMessage, onConnect, onDisconnect, onError, resetHeartbeatTimeout]);
 
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
+
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
@@ -209,6 +242,28 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
     connect();
   }, [disconnect, connect, updateState]);
 
+  /**
+   * Call `handler` for every message of the given type; returns the unsubscribe
+   * function, so it can be returned from an effect.
+   */
+  const subscribe = useCallback(<T extends EventMessageType>(
+    type: T,
+    handler: (message: EventMessageOf<T>) => void,
+  ) => {
+    const handlers = handlersRef.current;
+    const listener = handler as (message: EventMessage) => void;
+    if (!handlers.has(type)) handlers.set(type, new Set());
+    handlers.get(type)!.add(listener);
+    return () => {
+      handlers.get(type)?.delete(listener);
+    };
+  }, []);
+
+  // Event ids are only meaningful for the stream they came from
+  useEffect(() => {
+    lastEventIdRef.current = null;
+  }, [url]);
+
   // Effect to handle connection lifecycle
   useEffect(() => {
     if (enabled) {
@@ -231,5 +286,6 @@ export function useEventSource(url: string, options: UseEventSourceOptions = {})
     ...state,
     reconnect,
     disconnect,
+    subscribe,
   };
 }
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { API_ENDPOINTS, INTERVALS, LIVE_CHANNEL, TIMEOUTS } from "@/lib/constants";
+import { EventMessage, LiveCommand, LiveTopic, safeValidateEventMessage } from "@/lib/types";
+import { matchesTopics } from "@/lib/live/protocol";
+import type { LiveServerMessage } from "@/lib/live/protocol";
+import { useEventSource } from "./useEventSource";
+import type { EventMessageOf, EventMessageType } from "./useEventSource";
+
+export type LiveTransport = "websocket" | "sse";
+
+export interface UseLiveChannelOptions {
+  topics: LiveTopic[];
+  enabled?: boolean;
+}
+
+type PendingCommand = {
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type LiveChannelSettings = {
+  enabled: boolean;
+  url: string | null;
+  port: number;
+  path: string;
+  token: string | null;
+};
+
+/**
+ * WebSocket URL of the live channel, with a token valid for one connection,
+ * or null when it is disabled.
+ */
+async function resolveLiveUrl(): Promise<URL | null> {
+  const response = await fetch(API_ENDPOINTS.LIVE, { cache: "no-store" });
+  const json = await response.json();
+  if (!response.ok || !json.ok) {
+    throw new Error(json.error || "Failed to load live channel settings");
+  }
+  const settings = json.data as LiveChannelSettings;
+  if (!settings.enabled || !settings.token) return null;
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const url = new URL(settings.url ?? `${protocol}//${window.location.hostname}:${settings.port}${settings.path}`);
+  url.searchParams.set("token", settings.token);
+  return url;
+}
+
+/**
+ * Live updates for the given topics over the WebSocket live channel, falling
+ * back to the SSE event stream (filtered to the same topics) when WebSockets
+ * are unavailable, disabled or keep failing. Commands go over the socket when
+ * it is open and through the REST API otherwise.
+ */
+export function useLiveChannel({ topics, enabled = true }: UseLiveChannelOptions) {
+  const [transport, setTransport] = useState<LiveTransport | null>(null);
+  const [socketConnected, setSocketConnected] = useState(false);
+
+  const handlersRef = useRef(new Map<EventMessageType, Set<(message: EventMessage) => void>>());
+  const socketRef = useRef<WebSocket | null>(null);
+  const pendingRef = useRef(new Map<string, PendingCommand>());
+  const requestSeqRef = useRef(0);
+  const lastEventIdRef = useRef<number | null>(null);
+  // Topics wanted by the caller, and the ones the open socket is subscribed to
+  const topicsKey = useMemo(() => [...new Set(topics)].sort().join(","), [topics]);
+  const wantedRef = useRef(new Set<string>());
+  const subscribedRef = useRef(new Set<string>());
+
+  const dispatch = useCallback((message: EventMessage) => {
+    handlersRef.current.get(message.type)?.forEach((handler) => handler(message));
+  }, []);
+
+  // SSE fallback: the stream carries every event, so filter on the wanted topics
+  const handleSseMessage = useCallback((message: EventMessage) => {
+    if (matchesTopics(message, wantedRef.current)) dispatch(message);
+  }, [dispatch]);
+  const sse = useEventSource(API_ENDPOINTS.EVENTS, {
+    enabled: enabled && transport === "sse",
+    onMessage: handleSseMessage,
+  });
+
+  const sendToSocket = useCallback((message: unknown) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  // Keep the socket's subscriptions in line with the requested topics
+  useEffect(() => {
+    const wanted = new Set(topicsKey ? topicsKey.split(",") : []);
+    wantedRef.current = wanted;
+    if (!socketRef.current || socketRef.current.readyState !== WebSocket.OPEN) return;
+
+    const added = [...wanted].filter((topic) => !subscribedRef.current.has(topic));
+    const removed = [...subscribedRef.current].filter((topic) => !wanted.has(topic));
+    if (added.length > 0) sendToSocket({ type: "subscribe", topics: added });
+    if (removed.length > 0) sendToSocket({ type: "unsubscribe", topics: removed });
+    subscribedRef.current = wanted;
+  }, [topicsKey, sendToSocket]);
+
+  // WebSocket lifecycle
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let failures = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+    const pending = pendingRef.current;
+
+    const rejectPending = (reason: string) => {
+      pending.forEach(({ reject, timer }) => {
+        clearTimeout(timer);
+        reject(new Error(reason));
+      });
+      pending.clear();
+    };
+
+    // A silent socket is treated as dead after two missed heartbeats
+    const resetHeartbeat = (socket: WebSocket) => {
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      heartbeatTimer = setTimeout(() => socket.close(), INTERVALS.HEARTBEAT * 2);
+    };
+
+    const handleServerMessage = (socket: WebSocket, message: LiveServerMessage) => {
+      switch (message.type) {
+        case "event": {
+          lastEventIdRef.current = message.id;
+          const validation = safeValidateEventMessage(message.message);
+          if (validation.success) {
+            dispatch(validation.data);
+          } else {
+            console.warn("Invalid live event received:", validation.error);
+          }
+          resetHeartbeat(socket);
+          return;
+        }
+        case "heartbeat":
+          resetHeartbeat(socket);
+          return;
+        case "result": {
+          const entry = pending.get(message.requestId);
+          if (!entry) return;
+          pending.delete(message.requestId);
+          clearTimeout(entry.timer);
+          if (message.ok) {
+            entry.resolve(message.data);
+          } else {
+            entry.reject(new Error(message.error));
+          }
+          return;
+        }
+        case "error":
+          console.warn("Live channel error:", message.error);
+          return;
+        case "subscribed":
+          return;
+      }
+    };
+
+    const open = (url: URL) => {
+      if (wantedRef.current.size > 0) url.searchParams.set("topics", [...wantedRef.current].join(","));
+      if (lastEventIdRef.current !== null) url.searchParams.set("lastEventId", String(lastEventIdRef.current));
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        failures = 0;
+        subscribedRef.current = new Set(wantedRef.current);
+        setTransport("websocket");
+        setSocketConnected(true);
+        resetHeartbeat(socket);
+      };
+      socket.onmessage = (ev) => {
+        try {
+          handleServerMessage(socket, JSON.parse(String(ev.data)) as LiveServerMessage);
+        } catch (error) {
+          console.warn("Failed to parse live channel message:", error);
+        }
+      };
+      socket.onclose = () => {
+        if (heartbeatTimer) clearTimeout(heartbeatTimer);
+        if (socketRef.current === socket) socketRef.current = null;
+        setSocketConnected(false);
+        rejectPending("Live channel closed");
+        if (cancelled) return;
+
+        if (++failures > LIVE_CHANNEL.MAX_RECONNECTS) {
+          setTransport("sse");
+          return;
+        }
+        // Tokens open a single connection, so each attempt asks for a new one
+        retryTimer = setTimeout(connect, TIMEOUTS.SSE_RECONNECT);
+      };
+    };
+
+    const connect = async () => {
+      try {
+        const url = typeof WebSocket === "undefined" ? null : await resolveLiveUrl();
+        if (cancelled) return;
+        if (url) {
+          open(url);
+        } else {
+          setTransport("sse");
+        }
+      } catch (error) {
+        console.warn("Live channel unavailable, using SSE:", error instanceof Error ? error.message : error);
+        if (!cancelled) setTransport("sse");
+      }
+    };
+    connect();
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      rejectPending("Live channel closed");
+    };
+  }, [enabled, dispatch]);
+
+  /**
+   * Call `handler` for every message of the given type on the subscribed
+   * topics; returns the unsubscribe function.
+   */
+  const subscribe = useCallback(<T extends EventMessageType>(
+    type: T,
+    handler: (message: EventMessageOf<T>) => void,
+  ) => {
+    const handlers = handlersRef.current;
+    const listener = handler as (message: EventMessage) => void;
+    if (!handlers.has(type)) handlers.set(type, new Set());
+    handlers.get(type)!.add(listener);
+    return () => {
+      handlers.get(type)?.delete(listener);
+    };
+  }, []);
+
+  /**
+   * Run a command over the socket and resolve with its result.
+   */
+  const sendCommand = useCallback((command: LiveCommand) => new Promise<unknown>((resolve, reject) => {
+    const requestId = `${Date.now()}-${++requestSeqRef.current}`;
+    const timer = setTimeout(() => {
+      pendingRef.current.delete(requestId);
+      reject(new Error("Live channel command timed out"));
+    }, LIVE_CHANNEL.COMMAND_TIMEOUT);
+    pendingRef.current.set(requestId, { resolve, reject, timer });
+
+    if (!sendToSocket({ type: "command", requestId, command })) {
+      clearTimeout(timer);
+      pendingRef.current.delete(requestId);
+      reject(new Error("Live channel is not connected"));
+    }
+  }), [sendToSocket]);
+
+  const acknowledgeAlert = useCallback(async (alertId: string, acknowledgedBy?: string) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      await sendCommand({ command: "acknowledge-alert", alertId, acknowledgedBy: acknowledgedBy?.trim() || undefined });
+      return;
+    }
+    const response = await fetch(`${API_ENDPOINTS.ALERTS}/${encodeURIComponent(alertId)}/acknowledge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ acknowledgedBy }),
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok || !json.ok) {
+      throw new Error(json.error || "Failed to acknowledge alert");
+    }
+  }, [sendCommand]);
+
+  return {
+    transport,
+    connected: transport === "sse" ? sse.connected : socketConnected,
+    subscribe,
+    sendCommand,
+    acknowledgeAlert,
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Next.js server startup hook: starts background jobs that must run even
+ * when no browser is connected.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startAlertEngine } = await import('./lib/alerts/engine');
+  startAlertEngine();
+
+  const { startMetricsCollector } = await import('./lib/metrics/collector');
+  startMetricsCollector();
+
+  const { startLiveServer } = await import('./lib/live/server');
+  startLiveServer();
+
+  const { startConsoleProxy } = await import('./lib/console/proxy');
+  startConsoleProxy();
+}
@@ -0,0 +1,77 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type { NotificationChannel, NotificationEvent } from '../notifications';
+
+export const DEFAULT_SUBJECT_TEMPLATE = '[{{severity}}] {{status}}: {{message}}';
+
+export const DEFAULT_BODY_TEMPLATE = [
+  'Alert {{status}}: {{message}}',
+  '',
+  'Severity: {{severity}}',
+  'Node: {{node}}',
+  'Guest: {{vmid}}',
+  'Value: {{value}}',
+  'Since: {{timestamp}}',
+  'Resolved: {{resolvedAt}}',
+  'Alert ID: {{alertId}}',
+].join('\n');
+
+/**
+ * Replace `{{name}}` placeholders with the event's alert fields. Unknown
+ * placeholders and missing fields render as an empty string.
+ */
+export function renderTemplate(template: string, event: NotificationEvent): string {
+  const { alert } = event;
+  const values: Record<string, string | number | undefined> = {
+    event: event.type,
+    status: event.type === 'test' ? 'test' : alert.status ?? 'firing',
+    severity: alert.severity,
+    message: alert.message,
+    node: alert.node,
+    vmid: alert.vmid,
+    value: alert.value !== undefined ? Number(alert.value.toFixed(2)) : undefined,
+    timestamp: alert.timestamp.toISOString(),
+    resolvedAt: alert.resolvedAt?.toISOString(),
+    alertId: alert.id,
+    thresholdId: alert.thresholdId,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => String(values[name] ?? ''));
+}
+
+export type EmailChannelOptions = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  subjectTemplate?: string;
+  bodyTemplate?: string;
+  /** Injected in tests */
+  transport?: Transporter;
+};
+
+/**
+ * SMTP email channel; subject and body are rendered from `{{placeholder}}` templates.
+ */
+export function createEmailChannel(options: EmailChannelOptions): NotificationChannel {
+  const transport = options.transport ?? nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    id: 'email',
+    async send(event: NotificationEvent) {
+      await transport.sendMail({
+        from: options.from,
+        to: options.to,
+        subject: renderTemplate(options.subjectTemplate ?? DEFAULT_SUBJECT_TEMPLATE, event),
+        text: renderTemplate(options.bodyTemplate ?? DEFAULT_BODY_TEMPLATE, event),
+      });
+    },
+  };
+}
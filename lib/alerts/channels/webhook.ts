@@ -0,0 +1,66 @@
+import { createHmac } from 'crypto';
+import { TIMEOUTS } from '@/lib/constants';
+import type { NotificationChannel, NotificationEvent } from '../notifications';
+
+export type WebhookChannelOptions = {
+  url: string;
+  /** Shared secret for the X-Signature header; bodies are sent unsigned without it */
+  secret?: string;
+  timeoutMs?: number;
+};
+
+/**
+ * HMAC-SHA256 signature of a webhook delivery, sent as `X-Signature: sha256=<hex>`.
+ * Receivers recompute it over `<X-Signature-Timestamp>.<raw body>` and should
+ * reject stale timestamps to prevent replays.
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function serializeEvent(event: NotificationEvent): string {
+  const { alert } = event;
+  return JSON.stringify({
+    event: event.type,
+    sentAt: event.sentAt.toISOString(),
+    alert: {
+      ...alert,
+      timestamp: alert.timestamp.toISOString(),
+      acknowledgedAt: alert.acknowledgedAt?.toISOString(),
+      resolvedAt: alert.resolvedAt?.toISOString(),
+    },
+  });
+}
+
+/**
+ * Generic JSON webhook (Slack/Teams relays, PagerDuty/Opsgenie integrations, custom receivers).
+ */
+export function createWebhookChannel(options: WebhookChannelOptions): NotificationChannel {
+  return {
+    id: 'webhook',
+    async send(event) {
+      const body = serializeEvent(event);
+      const timestamp = String(Math.floor(event.sentAt.getTime() / 1000));
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'proxmox-ve-dashboard',
+        'X-Event': event.type,
+        'X-Signature-Timestamp': timestamp,
+      };
+      if (options.secret) {
+        headers['X-Signature'] = signWebhookBody(options.secret, timestamp, body);
+      }
+
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs ?? TIMEOUTS.API_REQUEST),
+      });
+      if (!response.ok) {
+        // "HTTP <status>" lets withRetry skip retries on client errors
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    },
+  };
+}
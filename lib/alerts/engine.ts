@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { env } from '../../env/index';
+import { getProxmoxClient } from '@/lib/proxmox/registry';
+import { getEventBroadcaster } from '@/lib/events/broadcaster';
+import type { ProxmoxClient } from '@/lib/proxmox/client';
+import type { Alert, AlertConfig, AlertThreshold, VmResource } from '@/lib/types';
+import { formatAlertMessage, isConditionMet, resolveSubjects, subjectKey } from './evaluate';
+import type { AlertSubject } from './evaluate';
+import { alertTarget, isInMaintenance, suppressedUntil } from './silences';
+import type { Suppressions } from './silences';
+import { getNotificationDispatcher } from './notifications';
+import { getAlertStore } from './store';
+import type { AlertStore } from './store';
+
+/**
+ * Server-side alert evaluation.
+ *
+ * Every interval the engine reads the cluster summary (and the guest list when
+ * a threshold targets a guest), evaluates the enabled thresholds and persists
+ * the alerts that start firing or resolve. A condition must hold for the
+ * threshold's `forSeconds` before the alert fires; it resolves once the value
+ * crosses back past the threshold by its `hysteresis` margin.
+ *
+ * Alerts also resolve when their subject stops reporting a value (a stopped
+ * guest, an offline node) or is gone (a deleted or migrated guest, a removed
+ * node). Subjects inside a maintenance window are not evaluated, so they
+ * neither fire nor resolve; silenced alerts still fire but are not notified.
+ */
+
+export type AlertEvaluationResult = {
+  fired: Alert[];
+  resolved: Alert[];
+  /** Firing alerts whose value changed */
+  updated: Alert[];
+};
+
+export type AlertEngineOptions = {
+  store: AlertStore;
+  getClient: () => Promise<ProxmoxClient>;
+  intervalMs: number;
+  /** Called with the alerts that fired or resolved outside silences and maintenance windows, after they are persisted; not awaited */
+  notify?: (result: AlertEvaluationResult, config: AlertConfig) => Promise<unknown>;
+  /** Called with every alert that fired or resolved, silenced or not, so live views can update */
+  publish?: (result: AlertEvaluationResult) => void;
+};
+
+const alertKey = (alert: Alert) => subjectKey(alert.thresholdId, alert.vmid === undefined ? alert.node : undefined, alert.vmid);
+
+export class AlertEngine {
+  /** When each subject first met its condition, for subjects not firing yet */
+  private readonly pending = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<AlertEvaluationResult> | null = null;
+
+  constructor(private readonly options: AlertEngineOptions) {}
+
+  start(): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.evaluate().catch((error) => {
+        console.error('alertEngine: evaluation failed:', error instanceof Error ? error.message : error);
+      });
+    };
+    this.timer = setInterval(tick, this.options.intervalMs);
+    // Do not keep the process alive just for alert evaluation
+    this.timer.unref?.();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one evaluation. Concurrent calls share the evaluation in progress.
+   */
+  evaluate(now = new Date()): Promise<AlertEvaluationResult> {
+    if (!this.running) {
+      this.running = this.evaluateOnce(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async evaluateOnce(now: Date): Promise<AlertEvaluationResult> {
+    const { store } = this.options;
+    const config = await store.getConfig();
+    const thresholds = config.globalEnabled ? config.thresholds.filter((threshold) => threshold.enabled) : [];
+
+    const firing = new Map<string, Alert>();
+    for (const alert of await store.listAlerts('firing')) {
+      firing.set(alertKey(alert), alert);
+    }
+
+    const suppressions: Suppressions = {
+      silences: await store.listSilences(now),
+      maintenanceWindows: await store.listMaintenanceWindows(),
+    };
+
+    const result: AlertEvaluationResult = { fired: [], resolved: [], updated: [] };
+    const seen = new Set<string>();
+
+    if (thresholds.length > 0) {
+      const client = await this.options.getClient();
+      const summary = await client.getClusterSummary();
+      const vms: VmResource[] = thresholds.some((threshold) => threshold.vmid !== undefined)
+        ? (await client.getVmList()).vms
+        : [];
+
+      for (const threshold of thresholds) {
+        for (const subject of resolveSubjects(threshold, summary, vms)) {
+          seen.add(subject.key);
+          const active = firing.get(subject.key);
+          // Subjects under maintenance keep their current state
+          const target = { thresholdId: threshold.id, type: threshold.type, severity: threshold.severity, node: subject.node, vmid: subject.vmid };
+          if (isInMaintenance(target, suppressions.maintenanceWindows, now)) {
+            this.pending.delete(subject.key);
+            continue;
+          }
+          // Stopped guests and offline nodes no longer report the condition
+          if (subject.value === undefined) {
+            this.pending.delete(subject.key);
+            if (active) {
+              result.resolved.push(this.resolve(active, now));
+            }
+            continue;
+          }
+
+          if (!isConditionMet(threshold, subject.value, !!active)) {
+            this.pending.delete(subject.key);
+            if (active) {
+              result.resolved.push(this.resolve(active, now, subject.value));
+            }
+            continue;
+          }
+
+          if (active) {
+            if (active.value !== subject.value) {
+              result.updated.push({ ...active, value: subject.value });
+            }
+            continue;
+          }
+
+          const since = this.pending.get(subject.key) ?? now.getTime();
+          if (now.getTime() - since >= (threshold.forSeconds ?? 0) * 1000) {
+            this.pending.delete(subject.key);
+            result.fired.push(this.fire(threshold, subject, now));
+          } else {
+            this.pending.set(subject.key, since);
+          }
+        }
+      }
+    }
+
+    // Alerts of thresholds that were disabled or deleted resolve right away, as
+    // do those of guests and nodes that are gone or no longer match the
+    // threshold, unless under maintenance
+    const activeThresholds = new Set(thresholds.map((threshold) => threshold.id));
+    for (const [key, alert] of firing) {
+      const gone = !seen.has(key) && !isInMaintenance(alertTarget(alert, config.thresholds), suppressions.maintenanceWindows, now);
+      if (!activeThresholds.has(alert.thresholdId) || gone) {
+        result.resolved.push(this.resolve(alert, now));
+      }
+    }
+    for (const key of this.pending.keys()) {
+      if (!seen.has(key)) this.pending.delete(key);
+    }
+
+    await store.saveAlerts([...result.fired, ...result.resolved, ...result.updated]);
+    // Live views show silenced alerts too, with the end of their silence
+    const withSilence = (alert: Alert): Alert => {
+      const until = suppressedUntil(alertTarget(alert, config.thresholds), suppressions, now);
+      return until ? { ...alert, silencedUntil: until } : alert;
+    };
+    this.options.publish?.({ ...result, fired: result.fired.map(withSilence) });
+
+    const notifiable = (alert: Alert) => !suppressedUntil(alertTarget(alert, config.thresholds), suppressions, now);
+    const notification = { ...result, fired: result.fired.filter(notifiable), resolved: result.resolved.filter(notifiable) };
+    // Not awaited: a slow or unreachable receiver, retried with backoff, must
+    // not hold up the next evaluation
+    if (this.options.notify && (notification.fired.length > 0 || notification.resolved.length > 0)) {
+      this.options.notify(notification, config).catch((error) => {
+        console.error('alertEngine: notification failed:', error instanceof Error ? error.message : error);
+      });
+    }
+    return result;
+  }
+
+  private fire(threshold: AlertThreshold, subject: AlertSubject, now: Date): Alert {
+    return {
+      id: `alert-${randomUUID()}`,
+      thresholdId: threshold.id,
+      message: formatAlertMessage(threshold, subject, subject.value!),
+      severity: threshold.severity,
+      timestamp: now,
+      node: subject.node,
+      vmid: subject.vmid,
+      acknowledged: false,
+      status: 'firing',
+      value: subject.value,
+    };
+  }
+
+  private resolve(alert: Alert, now: Date, value?: number): Alert {
+    return { ...alert, status: 'resolved', resolvedAt: now, value: value ?? alert.value };
+  }
+}
+
+let engine: AlertEngine | null = null;
+
+export function getAlertEngine(): AlertEngine {
+  if (!engine) {
+    engine = new AlertEngine({
+      store: getAlertStore(),
+      getClient: () => getProxmoxClient(),
+      intervalMs: env.get().ALERT_EVAL_INTERVAL_MS,
+      notify: (result, config) => getNotificationDispatcher().notify(result, config),
+      publish: ({ fired, resolved }) => {
+        // Alerts are evaluated against the default server, so they go to its event stream
+        const broadcaster = getEventBroadcaster();
+        fired.forEach((alert) => broadcaster.publish({ type: 'alert', change: 'fired', alert }));
+        resolved.forEach((alert) => broadcaster.publish({ type: 'alert', change: 'resolved', alert }));
+      },
+    });
+  }
+  return engine;
+}
+
+/**
+ * Start periodic evaluation unless ALERT_ENGINE_ENABLED=false. Called once at server startup.
+ */
+export function startAlertEngine(): void {
+  if (!env.get().ALERT_ENGINE_ENABLED) return;
+  getAlertEngine().start();
+}
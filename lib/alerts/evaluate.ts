@@ -0,0 +1,133 @@
+import type { AlertThreshold, ClusterSummary, NodeSummary, VmResource } from '@/lib/types';
+
+/**
+ * Pure helpers of the alert engine: which nodes or guests a threshold
+ * watches, the metric value it compares, and the fire/clear conditions.
+ */
+
+/** One node or guest watched by a threshold */
+export type AlertSubject = {
+  /** Stable key of the threshold/subject pair, used to track pending and firing state */
+  key: string;
+  label: string;
+  node?: string;
+  vmid?: number;
+  /** Metric value; undefined when the subject does not report it */
+  value?: number;
+};
+
+const percent = (used?: number, total?: number) =>
+  used !== undefined && total ? (used / total) * 100 : undefined;
+
+const LOAD_METRICS: Record<string, 0 | 1 | 2> = { load1: 0, load5: 1, load15: 2 };
+
+/**
+ * Value of a threshold's metric on a node. Usage metrics are percentages (0-100).
+ */
+export function nodeMetricValue(node: NodeSummary, threshold: AlertThreshold): number | undefined {
+  switch (threshold.type) {
+    case 'cpu':
+      return node.cpu !== undefined ? node.cpu * 100 : undefined;
+    case 'memory':
+      return percent(node.memory?.used, node.memory?.total);
+    case 'storage':
+      return percent(node.storage?.used, node.storage?.total);
+    case 'custom': {
+      const index = LOAD_METRICS[threshold.metric];
+      if (index !== undefined) return node.loadavg?.[index];
+      return threshold.metric === 'uptime' ? node.uptime : undefined;
+    }
+    default:
+      // Network counters are not part of the cluster summary
+      return undefined;
+  }
+}
+
+/**
+ * Value of a threshold's metric on a guest. Usage metrics are percentages (0-100).
+ */
+export function vmMetricValue(vm: VmResource, threshold: AlertThreshold): number | undefined {
+  switch (threshold.type) {
+    case 'cpu':
+      return vm.cpu !== undefined ? vm.cpu * 100 : undefined;
+    case 'memory':
+      return percent(vm.memory?.used, vm.memory?.max);
+    case 'storage':
+      return percent(vm.disk?.used, vm.disk?.max);
+    case 'custom':
+      return threshold.metric === 'uptime' ? vm.uptime : undefined;
+    default:
+      return undefined;
+  }
+}
+
+export const subjectKey = (thresholdId: string, node?: string, vmid?: number) =>
+  `${thresholdId}|${node ?? ''}|${vmid ?? ''}`;
+
+/**
+ * Subjects watched by a threshold: the guest when `vmid` is set, otherwise the
+ * given node or every node of the cluster.
+ */
+export function resolveSubjects(
+  threshold: AlertThreshold,
+  summary: ClusterSummary,
+  vms: VmResource[],
+): AlertSubject[] {
+  if (threshold.vmid !== undefined) {
+    const vm = vms.find((candidate) =>
+      candidate.vmid === threshold.vmid && (!threshold.node || candidate.node === threshold.node));
+    if (!vm) return [];
+    return [{
+      key: subjectKey(threshold.id, undefined, vm.vmid),
+      label: `${vm.type === 'lxc' ? 'CT' : 'VM'} ${vm.vmid}${vm.name ? ` (${vm.name})` : ''}`,
+      node: vm.node,
+      vmid: vm.vmid,
+      // Stopped guests report no meaningful usage
+      value: vm.status === 'running' ? vmMetricValue(vm, threshold) : undefined,
+    }];
+  }
+
+  return summary.nodes
+    .filter((node) => !threshold.node || node.node === threshold.node)
+    .map((node) => ({
+      key: subjectKey(threshold.id, node.node),
+      label: `Node ${node.node}`,
+      node: node.node,
+      value: node.status === 'offline' ? undefined : nodeMetricValue(node, threshold),
+    }));
+}
+
+export function compare(value: number, operator: AlertThreshold['operator'], target: number): boolean {
+  switch (operator) {
+    case '>': return value > target;
+    case '<': return value < target;
+    case '>=': return value >= target;
+    case '<=': return value <= target;
+    case '==': return value === target;
+    case '!=': return value !== target;
+  }
+}
+
+/**
+ * Whether the threshold condition holds. A firing alert only clears once the
+ * value moves past the threshold by the hysteresis margin, which keeps values
+ * hovering around the threshold from flapping.
+ */
+export function isConditionMet(threshold: AlertThreshold, value: number, firing: boolean): boolean {
+  const margin = firing ? threshold.hysteresis ?? 0 : 0;
+  switch (threshold.operator) {
+    case '>':
+    case '>=':
+      return compare(value, threshold.operator, threshold.value - margin);
+    case '<':
+    case '<=':
+      return compare(value, threshold.operator, threshold.value + margin);
+    default:
+      return compare(value, threshold.operator, threshold.value);
+  }
+}
+
+export function formatAlertMessage(threshold: AlertThreshold, subject: AlertSubject, value: number): string {
+  const unit = threshold.type === 'custom' ? '' : '%';
+  return `${threshold.name}: ${subject.label} ${threshold.type} is ${value.toFixed(1)}${unit} (${threshold.operator} ${threshold.value}${unit})`;
+}
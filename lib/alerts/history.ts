@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+import type { Alert, AlertHistoryEntry, AlertHistoryQuery, AlertTransition } from '@/lib/types';
+
+/**
+ * Alert history: every fired, acknowledged and resolved transition, with
+ * filtering, pagination and response-time statistics.
+ */
+
+/** Actor recorded for transitions made by the alert engine */
+export const ALERT_ENGINE_ACTOR = 'alert-engine';
+
+/** Key used for alerts without a node in per-node statistics */
+export const CLUSTER_KEY = 'cluster';
+
+export type ResponseStats = {
+  fired: number;
+  acknowledged: number;
+  resolved: number;
+  /** Mean time to acknowledge, in seconds; null when no alert was acknowledged */
+  mttaSeconds: number | null;
+  /** Mean time to resolve, in seconds; null when no alert resolved */
+  mttrSeconds: number | null;
+};
+
+export type AlertHistoryPage = {
+  entries: AlertHistoryEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+  stats: ResponseStats & { byNode: Record<string, ResponseStats> };
+};
+
+export function historyEntry(alert: Alert, transition: AlertTransition, actor: string, timestamp: Date): AlertHistoryEntry {
+  return {
+    id: randomUUID(),
+    alertId: alert.id,
+    thresholdId: alert.thresholdId,
+    transition,
+    severity: alert.severity,
+    message: alert.message,
+    node: alert.node,
+    vmid: alert.vmid,
+    value: alert.value,
+    actor,
+    timestamp,
+  };
+}
+
+/**
+ * Entries matching the query filters, pagination aside.
+ */
+export function filterHistory(entries: AlertHistoryEntry[], query: Partial<AlertHistoryQuery>): AlertHistoryEntry[] {
+  return entries.filter((entry) =>
+    (query.node === undefined || entry.node === query.node) &&
+    (query.vmid === undefined || entry.vmid === query.vmid) &&
+    (query.severity === undefined || entry.severity === query.severity) &&
+    (query.transition === undefined || entry.transition === query.transition) &&
+    (query.alertId === undefined || entry.alertId === query.alertId) &&
+    (query.from === undefined || entry.timestamp.getTime() >= query.from.getTime()) &&
+    (query.to === undefined || entry.timestamp.getTime() <= query.to.getTime()));
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Counts and mean response times. An alert contributes to MTTA/MTTR when both
+ * its fired transition and its first acknowledgement/resolution are in `entries`.
+ */
+export function computeResponseStats(entries: AlertHistoryEntry[]): ResponseStats {
+  const byAlert = new Map<string, Partial<Record<AlertTransition, number>>>();
+  const counts = { fired: 0, acknowledged: 0, resolved: 0 };
+
+  for (const entry of entries) {
+    counts[entry.transition]++;
+    const times = byAlert.get(entry.alertId) ?? {};
+    const time = entry.timestamp.getTime();
+    times[entry.transition] = Math.min(times[entry.transition] ?? time, time);
+    byAlert.set(entry.alertId, times);
+  }
+
+  const toAcknowledge: number[] = [];
+  const toResolve: number[] = [];
+  for (const times of byAlert.values()) {
+    if (times.fired === undefined) continue;
+    if (times.acknowledged !== undefined) toAcknowledge.push((times.acknowledged - times.fired) / 1000);
+    if (times.resolved !== undefined) toResolve.push((times.resolved - times.fired) / 1000);
+  }
+
+  return { ...counts, mttaSeconds: mean(toAcknowledge), mttrSeconds: mean(toResolve) };
+}
+
+/**
+ * One page of history, newest first. Statistics cover every entry matching
+ * the filters except `transition`, which would otherwise hide the
+ * acknowledgements and resolutions they are computed from.
+ */
+export function queryHistory(entries: AlertHistoryEntry[], query: AlertHistoryQuery): AlertHistoryPage {
+  const matching = filterHistory(entries, query)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const forStats = filterHistory(entries, { ...query, transition: undefined });
+
+  const byNodeEntries = new Map<string, AlertHistoryEntry[]>();
+  for (const entry of forStats) {
+    const key = entry.node ?? CLUSTER_KEY;
+    const nodeEntries = byNodeEntries.get(key);
+    if (nodeEntries) nodeEntries.push(entry);
+    else byNodeEntries.set(key, [entry]);
+  }
+  const byNode: Record<string, ResponseStats> = {};
+  for (const [node, nodeEntries] of byNodeEntries) {
+    byNode[node] = computeResponseStats(nodeEntries);
+  }
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    entries: matching.slice(start, start + query.pageSize),
+    page: query.page,
+    pageSize: query.pageSize,
+    total: matching.length,
+    stats: { ...computeResponseStats(forStats), byNode },
+  };
+}
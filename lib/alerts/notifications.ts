@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import { env } from '../../env/index';
+import { withRetry } from '@/lib/utils/error-handling';
+import type { RetryOptions } from '@/lib/utils/error-handling';
+import type { Alert, AlertConfig, NotificationChannelId, NotificationDelivery } from '@/lib/types';
+import type { AlertEvaluationResult } from './engine';
+import { getAlertStore } from './store';
+import type { AlertStore } from './store';
+import { createEmailChannel } from './channels/email';
+import { createWebhookChannel } from './channels/webhook';
+
+/**
+ * Delivery of alert state changes to external channels. The engine hands
+ * every evaluation result to the dispatcher, which sends the fired and
+ * resolved alerts to each channel that is both configured (env) and enabled
+ * (alert config), retrying transient failures and recording every delivery.
+ */
+
+export type NotificationEvent = {
+  type: NotificationDelivery['event'];
+  alert: Alert;
+  sentAt: Date;
+};
+
+export interface NotificationChannel {
+  id: NotificationChannelId;
+  send(event: NotificationEvent): Promise<void>;
+}
+
+export type NotificationDispatcherOptions = {
+  store: AlertStore;
+  channels: NotificationChannel[];
+  retry?: RetryOptions;
+};
+
+export class NotificationDispatcher {
+  constructor(private readonly options: NotificationDispatcherOptions) {}
+
+  /** Channels with a complete server-side configuration */
+  configuredChannels(): NotificationChannelId[] {
+    return this.options.channels.map((channel) => channel.id);
+  }
+
+  /**
+   * Send the alerts that fired or resolved during an evaluation. Never throws:
+   * failures are recorded in the delivery log.
+   */
+  async notify(result: Pick<AlertEvaluationResult, 'fired' | 'resolved'>, config: AlertConfig): Promise<NotificationDelivery[]> {
+    const channels = this.options.channels.filter((channel) => config.notificationChannels[channel.id]);
+    const events: NotificationEvent[] = [
+      ...result.fired.map((alert) => ({ type: 'alert.fired' as const, alert, sentAt: new Date() })),
+      ...result.resolved.map((alert) => ({ type: 'alert.resolved' as const, alert, sentAt: new Date() })),
+    ];
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const event of events) {
+      deliveries.push(...await Promise.all(channels.map((channel) => this.deliver(channel, event))));
+    }
+    return deliveries;
+  }
+
+  /**
+   * Send a sample alert through one channel, whether or not it is enabled.
+   * Returns null when the channel is not configured.
+   */
+  async test(channelId: NotificationChannelId): Promise<NotificationDelivery | null> {
+    const channel = this.options.channels.find((candidate) => candidate.id === channelId);
+    if (!channel) return null;
+
+    const now = new Date();
+    const alert: Alert = {
+      id: `test-${randomUUID()}`,
+      thresholdId: 'test',
+      message: 'Test notification from Proxmox VE Dashboard',
+      severity: 'info',
+      timestamp: now,
+      acknowledged: false,
+      status: 'firing',
+    };
+    return this.deliver(channel, { type: 'test', alert, sentAt: now });
+  }
+
+  private async deliver(channel: NotificationChannel, event: NotificationEvent): Promise<NotificationDelivery> {
+    let attempts = 0;
+    const delivery: NotificationDelivery = {
+      id: randomUUID(),
+      channel: channel.id,
+      event: event.type,
+      alertId: event.type === 'test' ? undefined : event.alert.id,
+      status: 'sent',
+      attempts: 0,
+      timestamp: event.sentAt,
+    };
+
+    try {
+      await withRetry(() => {
+        attempts++;
+        return channel.send(event);
+      }, this.options.retry);
+    } catch (error) {
+      delivery.status = 'failed';
+      delivery.error = error instanceof Error ? error.message : 'Unknown delivery error';
+      console.warn(`notifications: ${channel.id} delivery of ${event.type} failed:`, delivery.error);
+    }
+    delivery.attempts = attempts;
+
+    try {
+      await this.options.store.recordDelivery(delivery);
+    } catch (error) {
+      console.error('notifications: failed to record delivery:', error instanceof Error ? error.message : error);
+    }
+    return delivery;
+  }
+}
+
+/**
+ * Channels configured through the environment (see env/index.ts).
+ */
+function channelsFromEnv(): NotificationChannel[] {
+  const config = env.get();
+  const channels: NotificationChannel[] = [];
+
+  if (config.ALERT_WEBHOOK_URL) {
+    channels.push(createWebhookChannel({ url: config.ALERT_WEBHOOK_URL, secret: config.ALERT_WEBHOOK_SECRET }));
+  }
+  if (config.SMTP_HOST && config.ALERT_EMAIL_FROM && config.ALERT_EMAIL_TO) {
+    channels.push(createEmailChannel({
+      host: config.SMTP_HOST,
+      port: config.SMTP_PORT,
+      secure: config.SMTP_SECURE,
+      user: config.SMTP_USER,
+      password: config.SMTP_PASSWORD,
+      from: config.ALERT_EMAIL_FROM,
+      to: config.ALERT_EMAIL_TO.split(',').map((address) => address.trim()).filter(Boolean),
+      subjectTemplate: config.ALERT_EMAIL_SUBJECT_TEMPLATE,
+      bodyTemplate: config.ALERT_EMAIL_BODY_TEMPLATE,
+    }));
+  }
+  return channels;
+}
+
+let dispatcher: NotificationDispatcher | null = null;
+
+export function getNotificationDispatcher(): NotificationDispatcher {
+  if (!dispatcher) {
+    dispatcher = new NotificationDispatcher({ store: getAlertStore(), channels: channelsFromEnv() });
+  }
+  return dispatcher;
+}
@@ -0,0 +1,119 @@
+import type { Alert, AlertMatcher, AlertThreshold, MaintenanceWindow, Silence } from '@/lib/types';
+
+/**
+ * Pure helpers deciding whether an alert is suppressed by a silence (one-off,
+ * bounded in time) or a maintenance window (weekly recurring).
+ */
+
+/** Threshold/subject pair a matcher is compared against */
+export type SuppressionTarget = Omit<AlertMatcher, 'type' | 'severity' | 'thresholdId'> & {
+  thresholdId: string;
+  type?: AlertThreshold['type'];
+  severity: AlertThreshold['severity'];
+};
+
+export type Suppressions = {
+  silences: Silence[];
+  maintenanceWindows: MaintenanceWindow[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function matchesTarget(matcher: AlertMatcher, target: SuppressionTarget): boolean {
+  return (
+    (matcher.node === undefined || matcher.node === target.node) &&
+    (matcher.vmid === undefined || matcher.vmid === target.vmid) &&
+    (matcher.type === undefined || matcher.type === target.type) &&
+    (matcher.severity === undefined || matcher.severity === target.severity) &&
+    (matcher.thresholdId === undefined || matcher.thresholdId === target.thresholdId)
+  );
+}
+
+export const isSilenceActive = (silence: Silence, now: Date) =>
+  silence.startsAt.getTime() <= now.getTime() && now.getTime() < silence.endsAt.getTime();
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time of `date` in `timeZone`, encoded as if that time were UTC
+function wallClock(date: Date, timeZone: string): number {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(date).map((part) => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Instant at which the wall clock of `timeZone` shows `wall` (see wallClock)
+function fromWallClock(wall: number, timeZone: string): Date {
+  const guess = wall - (wallClock(new Date(wall), timeZone) - wall);
+  // Offset again at the guess, in case a daylight saving change lies in between
+  return new Date(wall - (wallClock(new Date(guess), timeZone) - guess));
+}
+
+/**
+ * End of the window occurrence in progress at `now`, or null outside the window.
+ */
+export function maintenanceWindowEnd(window: MaintenanceWindow, now: Date): Date | null {
+  if (!window.enabled) return null;
+  const [hours, minutes] = window.startTime.split(':').map(Number);
+  const durationMs = window.durationMinutes * 60 * 1000;
+  const today = Math.floor(wallClock(now, window.timeZone) / DAY_MS) * DAY_MS;
+  let end: Date | null = null;
+
+  // Occurrences longer than a day may have started on an earlier day
+  for (let daysAgo = Math.ceil(durationMs / DAY_MS); daysAgo >= 0; daysAgo--) {
+    const wallStart = today - daysAgo * DAY_MS + (hours * 60 + minutes) * 60 * 1000;
+    if (!window.days.includes(new Date(wallStart).getUTCDay())) continue;
+    const start = fromWallClock(wallStart, window.timeZone);
+    const occurrenceEnd = new Date(start.getTime() + durationMs);
+    if (start.getTime() <= now.getTime() && now.getTime() < occurrenceEnd.getTime() && (!end || occurrenceEnd > end)) {
+      end = occurrenceEnd;
+    }
+  }
+  return end;
+}
+
+export function isInMaintenance(target: SuppressionTarget, windows: MaintenanceWindow[], now: Date): boolean {
+  return windows.some((window) => matchesTarget(window.matcher, target) && maintenanceWindowEnd(window, now) !== null);
+}
+
+/**
+ * When the latest silence or maintenance window matching the target ends, or
+ * undefined when nothing suppresses it.
+ */
+export function suppressedUntil(target: SuppressionTarget, suppressions: Suppressions, now: Date): Date | undefined {
+  const ends: Date[] = [];
+  for (const silence of suppressions.silences) {
+    if (isSilenceActive(silence, now) && matchesTarget(silence.matcher, target)) ends.push(silence.endsAt);
+  }
+  for (const window of suppressions.maintenanceWindows) {
+    const end = matchesTarget(window.matcher, target) ? maintenanceWindowEnd(window, now) : null;
+    if (end) ends.push(end);
+  }
+  return ends.length > 0 ? new Date(Math.max(...ends.map((end) => end.getTime()))) : undefined;
+}
+
+/**
+ * Suppression target of a stored alert. The alert type comes from its
+ * threshold and is unknown once the threshold is deleted.
+ */
+export function alertTarget(alert: Alert, thresholds: AlertThreshold[]): SuppressionTarget {
+  return {
+    thresholdId: alert.thresholdId,
+    type: thresholds.find((threshold) => threshold.id === alert.thresholdId)?.type,
+    severity: alert.severity,
+    node: alert.node,
+    vmid: alert.vmid,
+  };
+}
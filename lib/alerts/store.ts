@@ -0,0 +1,340 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { env } from '../../env/index';
+import { ALERT_ENGINE } from '@/lib/constants';
+import { validateAlertConfig, validateMaintenanceWindowInput, validateSilenceInput } from '@/lib/types';
+import type {
+  Alert,
+  AlertConfig,
+  AlertHistoryEntry,
+  AlertStatus,
+  MaintenanceWindow,
+  NotificationDelivery,
+  Silence,
+} from '@/lib/types';
+import { readJsonFile, writeJsonFileAtomic } from '@/lib/utils/jsonFile';
+import { ALERT_ENGINE_ACTOR, historyEntry } from './history';
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  thresholds: [],
+  globalEnabled: true,
+  notificationChannels: {
+    toast: true,
+    email: false,
+    webhook: false,
+  },
+};
+
+// Dates are stored as ISO strings
+type StoredAlert = Omit<Alert, 'timestamp' | 'acknowledgedAt' | 'resolvedAt'> & {
+  timestamp: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+};
+
+type StoredHistoryEntry = Omit<AlertHistoryEntry, 'timestamp'> & { timestamp: string };
+
+type StoredDelivery = Omit<NotificationDelivery, 'timestamp'> & { timestamp: string };
+
+type StoredSilence = Omit<Silence, 'startsAt' | 'endsAt' | 'createdAt'> & {
+  startsAt: string;
+  endsAt: string;
+  createdAt: string;
+};
+
+type AlertFile = {
+  version: 1;
+  config: AlertConfig;
+  alerts: StoredAlert[];
+  deliveries?: StoredDelivery[];
+  silences?: StoredSilence[];
+  maintenanceWindows?: MaintenanceWindow[];
+  history?: StoredHistoryEntry[];
+};
+
+type AlertState = {
+  config: AlertConfig;
+  alerts: Alert[];
+  /** Newest first */
+  deliveries: NotificationDelivery[];
+  silences: Silence[];
+  maintenanceWindows: MaintenanceWindow[];
+  /** Oldest first */
+  history: AlertHistoryEntry[];
+};
+
+const toDate = (value?: string) => (value ? new Date(value) : undefined);
+
+function reviveAlert(stored: StoredAlert): Alert {
+  return {
+    ...stored,
+    timestamp: new Date(stored.timestamp),
+    acknowledgedAt: toDate(stored.acknowledgedAt),
+    resolvedAt: toDate(stored.resolvedAt),
+  };
+}
+
+function serializeAlert(alert: Alert): StoredAlert {
+  return {
+    ...alert,
+    timestamp: alert.timestamp.toISOString(),
+    acknowledgedAt: alert.acknowledgedAt?.toISOString(),
+    resolvedAt: alert.resolvedAt?.toISOString(),
+  };
+}
+
+/**
+ * Alert thresholds and alert records evaluated by the server-side engine,
+ * persisted as a JSON file. Operations are serialised like FileServerRepository.
+ */
+export class AlertStore {
+  private state: AlertState | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private run<T>(operation: (state: AlertState) => Promise<T> | T): Promise<T> {
+    const next = this.queue.then(async () => operation(await this.load()));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<AlertState> {
+    if (this.state) return this.state;
+    const file = await readJsonFile<AlertFile>(this.filePath);
+    let config = DEFAULT_ALERT_CONFIG;
+    if (file?.config) {
+      try {
+        config = validateAlertConfig(file.config);
+      } catch (error) {
+        console.warn('alertStore: ignoring invalid alert configuration', error);
+      }
+    }
+    this.state = {
+      config,
+      alerts: (file?.alerts ?? []).map(reviveAlert),
+      deliveries: (file?.deliveries ?? []).map((delivery) => ({ ...delivery, timestamp: new Date(delivery.timestamp) })),
+      silences: (file?.silences ?? []).map((silence) => ({
+        ...silence,
+        startsAt: new Date(silence.startsAt),
+        endsAt: new Date(silence.endsAt),
+        createdAt: new Date(silence.createdAt),
+      })),
+      // Windows saved before they carried a time zone ran in the server's
+      maintenanceWindows: (file?.maintenanceWindows ?? []).map((window) => ({
+        ...window,
+        timeZone: window.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      })),
+      history: (file?.history ?? []).map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+    };
+    return this.state;
+  }
+
+  private async write(state: AlertState): Promise<void> {
+    // Keep every firing alert and only the most recent resolved ones
+    const resolved = state.alerts.filter((alert) => alert.status === 'resolved');
+    if (resolved.length > ALERT_ENGINE.MAX_RESOLVED_ALERTS) {
+      const dropped = new Set(resolved
+        .sort((a, b) => (b.resolvedAt?.getTime() ?? 0) - (a.resolvedAt?.getTime() ?? 0))
+        .slice(ALERT_ENGINE.MAX_RESOLVED_ALERTS));
+      state.alerts = state.alerts.filter((alert) => !dropped.has(alert));
+    }
+
+    if (state.history.length > ALERT_ENGINE.MAX_HISTORY_ENTRIES) {
+      state.history = state.history.slice(-ALERT_ENGINE.MAX_HISTORY_ENTRIES);
+    }
+
+    const file: AlertFile = {
+      version: 1,
+      config: state.config,
+      alerts: state.alerts.map(serializeAlert),
+      deliveries: state.deliveries.map((delivery) => ({ ...delivery, timestamp: delivery.timestamp.toISOString() })),
+      silences: state.silences.map((silence) => ({
+        ...silence,
+        startsAt: silence.startsAt.toISOString(),
+        endsAt: silence.endsAt.toISOString(),
+        createdAt: silence.createdAt.toISOString(),
+      })),
+      maintenanceWindows: state.maintenanceWindows,
+      history: state.history.map((entry) => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+    };
+    await writeJsonFileAtomic(this.filePath, file);
+  }
+
+  getConfig(): Promise<AlertConfig> {
+    return this.run((state) => state.config);
+  }
+
+  async saveConfig(config: unknown): Promise<AlertConfig> {
+    const validated = validateAlertConfig(config);
+    return this.run(async (state) => {
+      state.config = validated;
+      await this.write(state);
+      return validated;
+    });
+  }
+
+  /**
+   * Alerts, newest first, optionally restricted to one status.
+   */
+  listAlerts(status?: AlertStatus): Promise<Alert[]> {
+    return this.run((state) => state.alerts
+      .filter((alert) => !status || (alert.status ?? 'firing') === status)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+  }
+
+  /**
+   * Insert or replace alerts by id in a single write, recording the alerts
+   * that fired or resolved in the history.
+   */
+  saveAlerts(alerts: Alert[]): Promise<void> {
+    return this.run(async (state) => {
+      if (alerts.length === 0) return;
+      const byId = new Map(alerts.map((alert) => [alert.id, alert]));
+      const previous = new Map(state.alerts.map((alert) => [alert.id, alert]));
+      state.alerts = state.alerts.map((alert) => byId.get(alert.id) ?? alert);
+      for (const alert of byId.values()) {
+        const before = previous.get(alert.id);
+        if (!before) {
+          state.alerts.push(alert);
+          state.history.push(historyEntry(alert, 'fired', ALERT_ENGINE_ACTOR, alert.timestamp));
+        }
+        if (alert.status === 'resolved' && before?.status !== 'resolved') {
+          state.history.push(historyEntry(alert, 'resolved', ALERT_ENGINE_ACTOR, alert.resolvedAt ?? new Date()));
+        }
+      }
+      await this.write(state);
+    });
+  }
+
+  /**
+   * Returns null when no alert has this id.
+   */
+  acknowledge(alertId: string, acknowledgedBy?: string): Promise<Alert | null> {
+    return this.run(async (state) => {
+      const index = state.alerts.findIndex((alert) => alert.id === alertId);
+      if (index === -1) return null;
+      const wasAcknowledged = state.alerts[index].acknowledged;
+      const alert: Alert = {
+        ...state.alerts[index],
+        acknowledged: true,
+        acknowledgedBy,
+        acknowledgedAt: new Date(),
+      };
+      state.alerts[index] = alert;
+      if (!wasAcknowledged) {
+        state.history.push(historyEntry(alert, 'acknowledged', acknowledgedBy ?? 'anonymous', alert.acknowledgedAt!));
+      }
+      await this.write(state);
+      return alert;
+    });
+  }
+
+  /**
+   * Alert state transitions, oldest first.
+   */
+  listHistory(): Promise<AlertHistoryEntry[]> {
+    return this.run((state) => [...state.history]);
+  }
+
+  /**
+   * Notification deliveries, newest first.
+   */
+  listDeliveries(limit: number = ALERT_ENGINE.MAX_DELIVERIES): Promise<NotificationDelivery[]> {
+    return this.run((state) => state.deliveries.slice(0, limit));
+  }
+
+  recordDelivery(delivery: NotificationDelivery): Promise<void> {
+    return this.run(async (state) => {
+      state.deliveries = [delivery, ...state.deliveries].slice(0, ALERT_ENGINE.MAX_DELIVERIES);
+      await this.write(state);
+    });
+  }
+
+  /**
+   * Silences that have not ended yet, soonest-ending first.
+   */
+  listSilences(now = new Date()): Promise<Silence[]> {
+    return this.run((state) => state.silences
+      .filter((silence) => silence.endsAt.getTime() > now.getTime())
+      .sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime()));
+  }
+
+  async createSilence(input: unknown): Promise<Silence> {
+    const validated = validateSilenceInput(input);
+    return this.run(async (state) => {
+      const now = new Date();
+      const silence: Silence = {
+        ...validated,
+        id: `silence-${randomUUID()}`,
+        startsAt: validated.startsAt ?? now,
+        createdAt: now,
+      };
+      // Expired silences are dropped rather than kept forever
+      state.silences = [...state.silences.filter((existing) => existing.endsAt.getTime() > now.getTime()), silence];
+      await this.write(state);
+      return silence;
+    });
+  }
+
+  /**
+   * Returns false when no silence has this id.
+   */
+  deleteSilence(silenceId: string): Promise<boolean> {
+    return this.run(async (state) => {
+      const remaining = state.silences.filter((silence) => silence.id !== silenceId);
+      if (remaining.length === state.silences.length) return false;
+      state.silences = remaining;
+      await this.write(state);
+      return true;
+    });
+  }
+
+  listMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    return this.run((state) => state.maintenanceWindows);
+  }
+
+  /**
+   * Create a window, or replace the window with this id. Returns null when
+   * `windowId` is given and no window has it.
+   */
+  async saveMaintenanceWindow(input: unknown, windowId?: string): Promise<MaintenanceWindow | null> {
+    const validated = validateMaintenanceWindowInput(input);
+    return this.run(async (state) => {
+      const window: MaintenanceWindow = { ...validated, id: windowId ?? `maintenance-${randomUUID()}` };
+      if (windowId) {
+        const index = state.maintenanceWindows.findIndex((existing) => existing.id === windowId);
+        if (index === -1) return null;
+        state.maintenanceWindows[index] = window;
+      } else {
+        state.maintenanceWindows.push(window);
+      }
+      await this.write(state);
+      return window;
+    });
+  }
+
+  /**
+   * Returns false when no window has this id.
+   */
+  deleteMaintenanceWindow(windowId: string): Promise<boolean> {
+    return this.run(async (state) => {
+      const remaining = state.maintenanceWindows.filter((window) => window.id !== windowId);
+      if (remaining.length === state.maintenanceWindows.length) return false;
+      state.maintenanceWindows = remaining;
+      await this.write(state);
+      return true;
+    });
+  }
+}
+
+// The engine started from instrumentation and the alert routes are bundled
+// separately; a store per bundle would overwrite the other's writes, so the
+// single instance hangs off globalThis
+const STORE_KEY = Symbol.for('proxmox-dashboard.alert-store');
+
+export function getAlertStore(): AlertStore {
+  const holder = globalThis as typeof globalThis & { [STORE_KEY]?: AlertStore };
+  holder[STORE_KEY] ??= new AlertStore(path.resolve(process.cwd(), env.get().ALERT_STORE_PATH));
+  return holder[STORE_KEY];
+}
@@ -0,0 +1,39 @@
+import type { ConsoleSession, ConsoleTarget } from '@/lib/types';
+
+/**
+ * Browser side of the console protocols, as relayed untouched by the console
+ * proxy. noVNC speaks RFB and authenticates with the ticket as VNC password.
+ * termproxy expects `user:ticket` first, answers `OK`, then takes framed
+ * messages: `0:<utf-8 length>:<data>` for input, `1:<cols>:<rows>:` for a
+ * resize and `2` as keep-alive. Output arrives as raw bytes.
+ */
+
+export const TERMINAL_PING = '2';
+export const TERMINAL_READY = 'OK';
+
+export const terminalLogin = (session: Pick<ConsoleSession, 'user' | 'ticket'>) => `${session.user}:${session.ticket}\n`;
+
+export const terminalInput = (data: string) => `0:${new TextEncoder().encode(data).length}:${data}`;
+
+export const terminalResize = (cols: number, rows: number) => `1:${cols}:${rows}:`;
+
+/**
+ * WebSocket URL of a console session on the proxy. `origin` is the page
+ * location the browser loaded the dashboard from.
+ */
+export function consoleSocketUrl(session: Pick<ConsoleSession, 'token' | 'url' | 'port' | 'path'>, origin: URL): string {
+  const base = session.url
+    ? new URL(session.url)
+    : new URL(`${origin.protocol === 'https:' ? 'wss:' : 'ws:'}//${origin.hostname}:${session.port}${session.path}`);
+  base.searchParams.set('token', session.token);
+  return base.toString();
+}
+
+/**
+ * Dashboard page showing the console of a guest or node shell.
+ */
+export function consolePageHref(target: ConsoleTarget): string {
+  const params = new URLSearchParams({ type: target.type, node: target.node });
+  if (target.vmid !== undefined) params.set('vmid', String(target.vmid));
+  return `/console?${params}`;
+}
@@ -0,0 +1,117 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage } from 'http';
+import type { RawData } from 'ws';
+import { env } from '../../env/index';
+import { getProxmoxClient } from '@/lib/proxmox/registry';
+import { CONSOLE_PROXY } from '@/lib/constants';
+import { getConsoleSessions } from './sessions';
+
+/**
+ * WebSocket proxy for browser consoles.
+ *
+ * Browsers connect to `CONSOLE_PROXY.PATH?token=<token>` with a session
+ * issued by the console route. The proxy opens the Proxmox `vncwebsocket`
+ * of that session with the dashboard's own credentials and relays frames
+ * both ways untouched, so the browser never needs to reach port 8006.
+ */
+
+// Codes the WebSocket protocol reserves for local use and forbids sending
+const RESERVED_CLOSE_CODES = new Set([1004, 1005, 1006, 1015]);
+
+function end(socket: WebSocket, code: number, reason: string): void {
+  if (socket.readyState === WebSocket.CLOSING || socket.readyState === WebSocket.CLOSED) return;
+  if (socket.readyState === WebSocket.CONNECTING) {
+    socket.terminate();
+    return;
+  }
+  const sendable = code >= 1000 && code < 5000 && !RESERVED_CLOSE_CODES.has(code);
+  socket.close(sendable ? code : 1000, reason.slice(0, 120));
+}
+
+/**
+ * Relay frames between the browser and Proxmox until either side closes.
+ * Browser frames sent while the upstream is still connecting are queued.
+ */
+export function relayConsole(client: WebSocket, upstream: WebSocket): void {
+  const queued: { data: RawData; isBinary: boolean }[] = [];
+
+  client.on('message', (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data, { binary: isBinary });
+    } else if (upstream.readyState === WebSocket.CONNECTING) {
+      queued.push({ data, isBinary });
+    }
+  });
+  upstream.on('open', () => {
+    queued.splice(0).forEach(({ data, isBinary }) => upstream.send(data, { binary: isBinary }));
+  });
+  upstream.on('message', (data, isBinary) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data, { binary: isBinary });
+    }
+  });
+
+  client.on('close', (code, reason) => end(upstream, code, reason.toString()));
+  upstream.on('close', (code, reason) => end(client, code, reason.toString()));
+  client.on('error', (error) => {
+    console.warn('consoleProxy: browser socket error:', error.message);
+    end(upstream, 1011, 'Browser connection failed');
+  });
+  // 4502 tells the browser the console itself could not be reached
+  upstream.on('error', (error) => {
+    console.warn('consoleProxy: upstream socket error:', error.message);
+    end(client, 4502, 'Console connection failed');
+  });
+}
+
+async function handleConnection(socket: WebSocket, request: IncomingMessage): Promise<void> {
+  // Hold browser frames (the VNC or terminal handshake) until the relay is in place
+  socket.pause();
+
+  const token = new URL(request.url ?? '/', 'http://localhost').searchParams.get('token') ?? '';
+  const session = getConsoleSessions().take(token);
+  if (!session) {
+    socket.close(4401, 'Unknown or expired console session');
+    return;
+  }
+
+  let upstream;
+  try {
+    const client = await getProxmoxClient(session.serverId);
+    upstream = await client.getConsoleUpstream(session.target, session.ticket);
+  } catch (error) {
+    socket.close(1011, (error instanceof Error ? error.message : 'Console connection failed').slice(0, 120));
+    return;
+  }
+
+  relayConsole(socket, new WebSocket(upstream.url, 'binary', {
+    headers: upstream.headers,
+    rejectUnauthorized: upstream.rejectUnauthorized,
+  }));
+  socket.resume();
+}
+
+let server: WebSocketServer | null = null;
+
+/**
+ * Listen for console connections unless CONSOLE_WS_ENABLED=false. Called once at server startup.
+ */
+export function startConsoleProxy(): void {
+  const config = env.get();
+  if (server || !config.CONSOLE_WS_ENABLED) return;
+
+  server = new WebSocketServer({
+    port: config.CONSOLE_WS_PORT,
+    path: CONSOLE_PROXY.PATH,
+    maxPayload: CONSOLE_PROXY.MAX_MESSAGE_BYTES,
+  });
+  server.on('connection', (socket, request) => {
+    handleConnection(socket, request).catch((error) => {
+      console.error('consoleProxy: connection setup failed:', error instanceof Error ? error.message : error);
+      socket.close(1011);
+    });
+  });
+  server.on('error', (error) => {
+    console.error('consoleProxy: failed to listen:', error.message);
+  });
+}
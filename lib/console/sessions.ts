@@ -0,0 +1,66 @@
+import { randomBytes } from 'crypto';
+import { CONSOLE_PROXY } from '@/lib/constants';
+import type { ConsoleTarget, ConsoleTicket } from '@/lib/types';
+
+/**
+ * Console sessions issued by the console route and waiting for the browser
+ * to connect to the console proxy. Tokens are random, can be used once and
+ * expire with the Proxmox ticket they stand for, so the proxy only ever
+ * relays consoles the dashboard opened.
+ */
+
+export type PendingConsole = {
+  serverId?: string;
+  target: ConsoleTarget;
+  ticket: ConsoleTicket;
+  expiresAt: number;
+};
+
+export class ConsoleSessionStore {
+  private readonly pending = new Map<string, PendingConsole>();
+
+  constructor(
+    private readonly ttlMs: number = CONSOLE_PROXY.SESSION_TTL,
+    private readonly maxPending: number = CONSOLE_PROXY.MAX_PENDING_SESSIONS,
+  ) {}
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  issue(entry: Omit<PendingConsole, 'expiresAt'>, now = Date.now()): { token: string; expiresAt: number } {
+    this.prune(now);
+    if (this.pending.size >= this.maxPending) {
+      throw new Error('Too many consoles waiting to connect');
+    }
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = now + this.ttlMs;
+    this.pending.set(token, { ...entry, expiresAt });
+    return { token, expiresAt };
+  }
+
+  /**
+   * The session of a token, which cannot be used again; null when unknown or expired.
+   */
+  take(token: string, now = Date.now()): PendingConsole | null {
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+    return entry && entry.expiresAt > now ? entry : null;
+  }
+
+  private prune(now: number): void {
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
+
+// The route issuing sessions and the proxy started from instrumentation are
+// bundled separately, so the store hangs off globalThis to be shared
+const STORE_KEY = Symbol.for('proxmox-dashboard.console-sessions');
+
+export function getConsoleSessions(): ConsoleSessionStore {
+  const holder = globalThis as typeof globalThis & { [STORE_KEY]?: ConsoleSessionStore };
+  holder[STORE_KEY] ??= new ConsoleSessionStore();
+  return holder[STORE_KEY];
+}
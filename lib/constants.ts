@@ -16,6 +16,7 @@ export const TIMEOUTS = {
   SSE_RECONNECT: 3000, // 3 seconds
   HEALTH_CHECK: 5000, // 5 seconds
   CACHE_TTL: 300000, // 5 minutes
+  TASK_WAIT: 15000, // 15 seconds before answering with a pending task
 } as const;
 
 // Polling and refresh intervals
@@ -24,6 +25,7 @@ export const INTERVALS = {
   HEALTH_CHECK: 30000, // 30 seconds
   CACHE_CLEANUP: 60000, // 1 minute
   HEARTBEAT: 10000, // 10 seconds
+  TASK_POLL: 1000, // 1 second
 } as const;
 
 // UI and UX constants
@@ -93,8 +95,94 @@ export const STORAGE_KEYS = {
 export const API_ENDPOINTS = {
   SUMMARY: '/api/proxmox/summary',
   EVENTS: '/api/proxmox/events',
+  LIVE: '/api/proxmox/live',
+  CONSOLE: '/api/proxmox/console',
   METRICS: '/api/proxmox/metrics',
+  METRICS_EXPORT: '/api/proxmox/metrics/export',
+  FORECAST: '/api/proxmox/forecast',
   HEALTH: '/api/health',
+  TASKS: '/api/proxmox/tasks',
+  ALERTS: '/api/proxmox/alerts',
+  ALERT_CONFIG: '/api/proxmox/alerts/config',
+  ALERT_NOTIFICATIONS: '/api/proxmox/alerts/notifications',
+  ALERT_SILENCES: '/api/proxmox/alerts/silences',
+  ALERT_MAINTENANCE: '/api/proxmox/alerts/maintenance',
+  ALERT_HISTORY: '/api/proxmox/alerts/history',
+  NODES: '/api/proxmox/nodes',
+  NODE_MAINTENANCE: '/api/proxmox/nodes/maintenance',
+  PROMETHEUS: '/api/metrics/prometheus',
+} as const;
+
+// Server-side event fan-out (SSE)
+export const EVENT_BROADCAST = {
+  BUFFER_SIZE: 500, // recent events kept for Last-Event-ID resumption
+} as const;
+
+// WebSocket live channel
+export const LIVE_CHANNEL = {
+  PATH: '/live',
+  MAX_TOPICS: 100, // topics a single connection may subscribe to
+  MAX_MESSAGE_BYTES: 64 * 1024, // largest client message accepted
+  COMMAND_TIMEOUT: 10000, // 10 seconds for a command result
+  MAX_RECONNECTS: 3, // failed reconnects before falling back to SSE
+  TOKEN_TTL: 30000, // 30 seconds to connect with an issued token
+  MAX_PENDING_TOKENS: 1000, // issued tokens not yet used
+} as const;
+
+// Console proxy relaying noVNC/xterm.js sessions to Proxmox
+export const CONSOLE_PROXY = {
+  PATH: '/console',
+  SESSION_TTL: 10000, // Proxmox drops an unused vncproxy/termproxy port after 10 seconds
+  MAX_PENDING_SESSIONS: 100, // issued sessions not yet connected
+  MAX_MESSAGE_BYTES: 1024 * 1024, // largest browser message relayed, e.g. pasted text
+  TERMINAL_PING_INTERVAL: 30000, // 30 seconds between keep-alives of an idle terminal
+} as const;
+
+// Server-side alert engine
+export const ALERT_ENGINE = {
+  MAX_RESOLVED_ALERTS: 1000, // resolved alerts kept in the store
+  MAX_DELIVERIES: 200, // notification deliveries kept in the log
+  MAX_HISTORY_ENTRIES: 10000, // alert state transitions kept in the history
+} as const;
+
+// Long-term metrics retention (rolled-up buckets kept per resolution)
+export const METRICS_RETENTION = {
+  '1m': 7 * 24 * 60 * 60 * 1000, // 7 days of 1-minute buckets
+  '15m': 90 * 24 * 60 * 60 * 1000, // 90 days of 15-minute buckets
+  '1h': 400 * 24 * 60 * 60 * 1000, // a year (and some) of hourly buckets
+  MAX_POINTS: 1500, // finest resolution is picked so a range stays under this many buckets
+  PRUNE_INTERVAL: 60 * 60 * 1000, // 1 hour between retention sweeps
+} as const;
+
+// Capacity forecasting (/api/proxmox/forecast)
+export const FORECAST = {
+  DEFAULT_TIME_RANGE: '7d', // history the trends are fitted on
+  DEFAULT_HORIZON_DAYS: 90, // how far ahead forecast bands are drawn
+  MAX_HORIZON_DAYS: 730,
+  SEARCH_HORIZON_DAYS: 730, // how far ahead threshold dates are looked for
+  THRESHOLDS: [0.8, 0.9, 1], // usage ratios reported with a projected date
+  MIN_POINTS: 12, // fewer samples give no forecast
+  FORECAST_POINTS: 60, // points in the forecast band
+  CACHE_TTL: 5 * 60 * 1000, // 5 minutes; history moves slowly
+} as const;
+
+// Node drain and maintenance (/api/proxmox/nodes/[node]/drain)
+export const NODE_DRAIN = {
+  DEFAULT_CONCURRENCY: 2, // migrations running at the same time
+  MAX_CONCURRENCY: 5,
+  MEMORY_HEADROOM: 0.1, // share of a target's memory kept free when placing guests
+  NODE_PATTERN: /^pve-[A-Za-z0-9-]+$/, // nodes the drain workflow applies to
+} as const;
+
+// Server-side metrics export (/api/proxmox/metrics/export)
+export const METRICS_EXPORT = {
+  MAX_SUBJECTS: 200, // nodes and guests in one export
+} as const;
+
+// Prometheus exporter (/api/metrics/prometheus)
+export const PROMETHEUS_EXPORTER = {
+  CACHE_TTL: 10000, // 10 seconds; scrapes within this window share one render
+  MAX_CACHED_SERVERS: 50,
 } as const;
 
 // Validation rules
@@ -0,0 +1,189 @@
+import { getProxmoxClient } from '@/lib/proxmox/registry';
+import { EVENT_BROADCAST, TIMEOUTS } from '@/lib/constants';
+import type { EventMessage, HeartbeatEvent } from '@/lib/types';
+import { RingBuffer } from './ringBuffer';
+
+/**
+ * Process-wide fan-out of cluster events.
+ *
+ * One broadcaster per Proxmox server consumes that server's `streamEvents()`
+ * while at least one client is subscribed, assigns each event a monotonically
+ * increasing id and keeps the most recent ones in a ring buffer, so clients
+ * reconnecting with a Last-Event-ID receive what they missed. Heartbeats are
+ * forwarded to live subscribers only.
+ */
+
+export type BufferedEventMessage = Exclude<EventMessage, HeartbeatEvent>;
+
+export type BroadcastEvent = {
+  id: number;
+  message: BufferedEventMessage;
+};
+
+export interface EventSubscriber {
+  send(event: BroadcastEvent): void;
+  heartbeat(ts: number): void;
+}
+
+export type EventBroadcasterOptions = {
+  source: () => Promise<AsyncIterable<EventMessage>>;
+  bufferSize?: number;
+  /** Delay before restarting a source that ended or threw */
+  restartDelayMs?: number;
+};
+
+export class EventBroadcaster {
+  private readonly buffer: RingBuffer<BroadcastEvent>;
+  private readonly subscribers = new Set<EventSubscriber>();
+  /** Latest status event per node, replayed to clients that cannot resume */
+  private readonly latestStatus = new Map<string, BroadcastEvent>();
+  private lastId = 0;
+  private iterator: AsyncIterator<EventMessage> | null = null;
+  private running = false;
+  /** Incremented on every start so a consumer left over from a previous run exits */
+  private generation = 0;
+
+  constructor(private readonly options: EventBroadcasterOptions) {
+    this.buffer = new RingBuffer(options.bufferSize ?? EVENT_BROADCAST.BUFFER_SIZE);
+  }
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Register a subscriber and return the events it should be sent first: the
+   * buffered events after `lastEventId` when they are all still buffered,
+   * otherwise the current status of every node. Starts polling for the first
+   * subscriber; the returned function unsubscribes and stops polling after the last.
+   */
+  subscribe(subscriber: EventSubscriber, lastEventId?: number): { replay: BroadcastEvent[]; unsubscribe: () => void } {
+    const replay = this.replay(lastEventId);
+    this.subscribers.add(subscriber);
+    this.start();
+
+    return {
+      replay,
+      unsubscribe: () => {
+        this.subscribers.delete(subscriber);
+        if (this.subscribers.size === 0) this.stop();
+      },
+    };
+  }
+
+  /**
+   * Buffer an event and send it to every subscriber.
+   */
+  publish(message: BufferedEventMessage): BroadcastEvent {
+    const event: BroadcastEvent = { id: ++this.lastId, message };
+    this.buffer.push(event);
+    if (message.type === 'status') {
+      this.latestStatus.set(message.node, event);
+    }
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber.send(event);
+      } catch (error) {
+        console.warn('eventBroadcaster: dropping subscriber after send failure:', error instanceof Error ? error.message : error);
+        this.subscribers.delete(subscriber);
+      }
+    }
+    return event;
+  }
+
+  private replay(lastEventId?: number): BroadcastEvent[] {
+    const events = this.buffer.toArray();
+    const oldest = this.buffer.oldest();
+    // Resume only when nothing after lastEventId was evicted and the id is from this process
+    const canResume = lastEventId !== undefined &&
+      lastEventId <= this.lastId &&
+      (!oldest || lastEventId >= oldest.id - 1);
+    if (canResume) {
+      return events.filter((event) => event.id > lastEventId);
+    }
+    return [...this.latestStatus.values()].sort((a, b) => a.id - b.id);
+  }
+
+  private heartbeat(ts: number): void {
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber.heartbeat(ts);
+      } catch {
+        this.subscribers.delete(subscriber);
+      }
+    }
+  }
+
+  private start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.consume(++this.generation);
+  }
+
+  private stop(): void {
+    this.running = false;
+    // Ends the generator at its next yield
+    void this.iterator?.return?.();
+    this.iterator = null;
+  }
+
+  private async consume(generation: number): Promise<void> {
+    const active = () => this.running && this.generation === generation;
+    while (active()) {
+      try {
+        const iterator = (await this.options.source())[Symbol.asyncIterator]();
+        if (!active()) {
+          void iterator.return?.();
+          return;
+        }
+        this.iterator = iterator;
+
+        while (active()) {
+          const { value, done } = await iterator.next();
+          if (done || !active()) break;
+          if (value.type === 'heartbeat') {
+            this.heartbeat(value.ts);
+          } else {
+            this.publish(value);
+          }
+        }
+      } catch (error) {
+        if (active()) {
+          this.publish({ type: 'error', message: error instanceof Error ? error.message : 'Event stream failed' });
+        }
+      }
+
+      if (active()) {
+        await new Promise((resolve) => setTimeout(resolve, this.options.restartDelayMs ?? TIMEOUTS.SSE_RECONNECT));
+      }
+    }
+  }
+}
+
+// The SSE route, the WebSocket server and the alert engine are bundled
+// separately (the latter two start from instrumentation). One registry on
+// globalThis keeps a single poller per server and lets every bundle publish
+// to the clients of the others.
+const REGISTRY_KEY = Symbol.for('proxmox-dashboard.event-broadcasters');
+
+function getBroadcasters(): Map<string, EventBroadcaster> {
+  const holder = globalThis as typeof globalThis & { [REGISTRY_KEY]?: Map<string, EventBroadcaster> };
+  holder[REGISTRY_KEY] ??= new Map();
+  return holder[REGISTRY_KEY];
+}
+
+/**
+ * Broadcaster of the given server, or of the env-configured default server.
+ */
+export function getEventBroadcaster(serverId?: string | null): EventBroadcaster {
+  const broadcasters = getBroadcasters();
+  const key = serverId ?? '';
+  let broadcaster = broadcasters.get(key);
+  if (!broadcaster) {
+    broadcaster = new EventBroadcaster({
+      source: async () => (await getProxmoxClient(serverId)).streamEvents(),
+    });
+    broadcasters.set(key, broadcaster);
+  }
+  return broadcaster;
+}
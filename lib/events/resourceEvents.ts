@@ -0,0 +1,150 @@
+import { isTaskSuccessful } from '@/lib/proxmox/tasks';
+import type {
+  BackupEvent,
+  BackupJob,
+  TaskEvent,
+  TaskStatus,
+  VmResource,
+  VmStatus,
+  VmStatusChange,
+  VmStatusEvent,
+} from '@/lib/types';
+
+/**
+ * Resource events derived from consecutive polls.
+ *
+ * Proxmox has no push API, so the adapters poll cluster resources and tasks
+ * and turn the differences between two snapshots into `vm-status`, `task`
+ * and `backup` events. The first snapshot is only a baseline: clients load
+ * the current state through the REST endpoints and apply events on top.
+ */
+
+const PAUSED_STATUSES: readonly VmStatus[] = ['paused', 'suspended'];
+
+function statusChange(previous: VmStatus, current: VmStatus): VmStatusChange {
+  if (current === 'running') {
+    return PAUSED_STATUSES.includes(previous) ? 'resumed' : 'started';
+  }
+  return PAUSED_STATUSES.includes(current) ? 'paused' : 'stopped';
+}
+
+/**
+ * Guests added, removed, migrated or whose run state changed between two
+ * snapshots of /cluster/resources. Guests are keyed by vmid, which is unique
+ * across the cluster.
+ */
+export function diffVms(previous: VmResource[], current: VmResource[]): VmStatusEvent[] {
+  const events: VmStatusEvent[] = [];
+  const before = new Map(previous.map((vm) => [vm.vmid, vm]));
+
+  for (const vm of current) {
+    const prev = before.get(vm.vmid);
+    before.delete(vm.vmid);
+    if (!prev) {
+      events.push({ type: 'vm-status', change: 'added', vm });
+    } else if (prev.node !== vm.node) {
+      events.push({ type: 'vm-status', change: 'migrated', vm, previousStatus: prev.status, previousNode: prev.node });
+    } else if (prev.status !== vm.status) {
+      events.push({ type: 'vm-status', change: statusChange(prev.status, vm.status), vm, previousStatus: prev.status });
+    }
+  }
+
+  // Whatever is left disappeared from the cluster
+  for (const vm of before.values()) {
+    events.push({ type: 'vm-status', change: 'removed', vm, previousStatus: vm.status });
+  }
+  return events;
+}
+
+function backupEvent(change: BackupEvent['change'], task: TaskStatus): BackupEvent {
+  const vmid = Number(task.id);
+  return {
+    type: 'backup',
+    change,
+    vmid: Number.isInteger(vmid) && vmid > 0 ? vmid : undefined,
+    result: change === 'finished' ? (isTaskSuccessful(task) ? 'ok' : 'failed') : undefined,
+    task,
+  };
+}
+
+/**
+ * Tasks that appeared or finished between two snapshots of /cluster/tasks.
+ * vzdump tasks additionally produce a `backup` event. A task that started
+ * and finished between two polls is only reported as finished.
+ */
+export function diffTasks(previous: TaskStatus[], current: TaskStatus[]): Array<TaskEvent | BackupEvent> {
+  const events: Array<TaskEvent | BackupEvent> = [];
+  const before = new Map(previous.map((task) => [task.upid, task]));
+
+  // /cluster/tasks is newest first; report in chronological order
+  for (const task of [...current].sort((a, b) => a.startTime - b.startTime)) {
+    const prev = before.get(task.upid);
+    let change: TaskEvent['change'] | null = null;
+    if (!prev) {
+      change = task.status === 'running' ? 'started' : 'finished';
+    } else if (prev.status === 'running' && task.status === 'stopped') {
+      change = 'finished';
+    }
+    if (!change) continue;
+
+    events.push({ type: 'task', change, task });
+    if (task.type === 'vzdump') {
+      events.push(backupEvent(change, task));
+    }
+  }
+  return events;
+}
+
+/**
+ * Keeps the previous snapshots of a polling loop and returns the events of
+ * each new one; the first snapshot of each kind yields nothing.
+ */
+export function createResourceEventTracker() {
+  let vms: VmResource[] | null = null;
+  let tasks: TaskStatus[] | null = null;
+
+  return {
+    vms(current: VmResource[]): VmStatusEvent[] {
+      const events = vms ? diffVms(vms, current) : [];
+      vms = current;
+      return events;
+    },
+    tasks(current: TaskStatus[]): Array<TaskEvent | BackupEvent> {
+      const events = tasks ? diffTasks(tasks, current) : [];
+      tasks = current;
+      return events;
+    },
+  };
+}
+
+/**
+ * Guest list with a `vm-status` event applied, kept sorted by vmid.
+ */
+export function applyVmStatusEvent(vms: VmResource[], event: VmStatusEvent): VmResource[] {
+  const others = vms.filter((vm) => vm.vmid !== event.vm.vmid);
+  if (event.change === 'removed') return others;
+  return [...others, event.vm].sort((a, b) => a.vmid - b.vmid);
+}
+
+/**
+ * Backup list with a `backup` event applied, newest first. Backups are
+ * identified by their task UPID; jobs covering several guests are skipped
+ * since a backup entry belongs to one guest.
+ */
+export function applyBackupEvent(backups: BackupJob[], event: BackupEvent): BackupJob[] {
+  if (event.vmid === undefined) return backups;
+  const { task } = event;
+  const backup: BackupJob = {
+    id: task.upid,
+    vmid: event.vmid,
+    node: task.node,
+    type: 'vzdump',
+    status: event.result === 'failed' ? 'failed' : event.change === 'finished' ? 'completed' : 'running',
+    startTime: new Date(task.startTime),
+    endTime: task.endTime ? new Date(task.endTime) : undefined,
+  };
+  // Backups loaded over the REST API carry ISO strings rather than dates
+  const started = (job: BackupJob) => (job.startTime ? new Date(job.startTime).getTime() : 0);
+  return [backup, ...backups.filter((existing) => existing.id !== backup.id)]
+    .sort((a, b) => started(b) - started(a));
+}
@@ -0,0 +1,75 @@
+import type { ProxmoxClient } from '@/lib/proxmox/client';
+import type { CapacityForecast, ForecastQuery, HistoricalMetrics, UsageForecast } from '@/lib/types';
+import { forecastUsage } from './trend';
+import type { UsageSample } from './trend';
+
+/**
+ * Capacity forecasts of every online node (memory and root storage) and
+ * storage pool, from the history returned by `getHistoricalMetrics` and
+ * `getStorageHistoricalMetrics`. Shared pools are forecast once, from the
+ * first node reporting them. A series that fails to load or fit is null.
+ */
+
+const usageSamples = (metrics: HistoricalMetrics, field: 'memory' | 'storage'): UsageSample[] =>
+  metrics.data.flatMap((point) => {
+    const value = point[field];
+    return value ? [{ timestamp: point.timestamp, used: value.used, total: value.total }] : [];
+  });
+
+// A series that cannot be loaded is logged and left out
+async function settle<T>(label: string, load: () => Promise<T>): Promise<T | null> {
+  try {
+    return await load();
+  } catch (error) {
+    console.warn(`forecast: failed to load ${label}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function buildCapacityForecast(
+  client: ProxmoxClient,
+  { timeRange, horizonDays, node }: ForecastQuery,
+  now = Date.now(),
+  signal?: AbortSignal,
+): Promise<CapacityForecast> {
+  const forecast = (metrics: HistoricalMetrics | null, field: 'memory' | 'storage'): UsageForecast | null =>
+    metrics ? forecastUsage(usageSamples(metrics, field), horizonDays, now) : null;
+
+  const [summary, pools] = await Promise.all([
+    client.getClusterSummary(signal),
+    settle('storage pools', () => client.getStoragePools(signal)),
+  ]);
+  const online = summary.nodes
+    .filter((entry) => entry.status === 'online' && (!node || entry.node === node))
+    .map((entry) => entry.node);
+
+  const seenShared = new Set<string>();
+  const targetPools = (pools ?? []).filter((pool) => {
+    if (!online.includes(pool.node) || (pool.status && pool.status !== 'available')) return false;
+    if (!pool.shared) return true;
+    if (seenShared.has(pool.storage)) return false;
+    seenShared.add(pool.storage);
+    return true;
+  });
+
+  const [nodes, poolForecasts] = await Promise.all([
+    Promise.all(online.map(async (name) => {
+      const metrics = await settle(`history of ${name}`, () => client.getHistoricalMetrics(name, timeRange, undefined, signal));
+      return { node: name, memory: forecast(metrics, 'memory'), storage: forecast(metrics, 'storage') };
+    })),
+    Promise.all(targetPools.map(async (pool) => {
+      const metrics = await settle(`history of ${pool.storage} on ${pool.node}`, () =>
+        client.getStorageHistoricalMetrics(pool.node, pool.storage, timeRange, signal)
+      );
+      return { storage: pool.storage, node: pool.node, type: pool.type, shared: pool.shared, forecast: forecast(metrics, 'storage') };
+    })),
+  ]);
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    timeRange,
+    horizonDays,
+    nodes,
+    pools: poolForecasts,
+  };
+}
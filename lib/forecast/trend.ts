@@ -0,0 +1,174 @@
+import { FORECAST } from '@/lib/constants';
+import type { ForecastPoint, ForecastThreshold, UsageForecast } from '@/lib/types';
+
+/**
+ * Usage trend fitting for capacity forecasts.
+ *
+ * A least-squares line is fitted on the usage ratio over time. When the
+ * history spans at least two days, the mean residual per time-of-day slot is
+ * added as a daily pattern, kept only if it explains a tenth of the residual
+ * variance or more. Forecast bands are the 95% prediction interval of the
+ * fit, widening away from the observed range.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+
+export type UsageSample = { timestamp: number; used: number; total: number };
+
+export type TrendModel = {
+  /** Ratio change per millisecond */
+  slope: number;
+  /** Mean ratio, the fitted value at `origin` */
+  intercept: number;
+  /** Mean timestamp; times are centred on it for numerical stability */
+  origin: number;
+  sxx: number;
+  n: number;
+  residualStd: number;
+  /** Offset per time-of-day slot, or null without a daily pattern */
+  seasonal: number[] | null;
+};
+
+type Point = { t: number; y: number };
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const sumOfSquares = (values: number[]) => values.reduce((sum, value) => sum + value * value, 0);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+const slotOf = (timestamp: number, slots: number) =>
+  Math.floor((((timestamp % DAY_MS) + DAY_MS) % DAY_MS) / (DAY_MS / slots));
+
+// Mean residual per slot of the day, centred on zero; null when the history cannot support it
+function fitDailyPattern(points: Point[], residuals: number[]): number[] | null {
+  const span = points[points.length - 1].t - points[0].t;
+  const interval = median(points.slice(1).map((point, i) => point.t - points[i].t));
+  const slots = Math.min(24, Math.floor(DAY_MS / interval));
+  if (span < 2 * DAY_MS || slots < 2) return null;
+
+  const sums = new Array<number>(slots).fill(0);
+  const counts = new Array<number>(slots).fill(0);
+  points.forEach((point, i) => {
+    const slot = slotOf(point.t, slots);
+    sums[slot] += residuals[i];
+    counts[slot]++;
+  });
+  const offsets = sums.map((sum, slot) => (counts[slot] > 0 ? sum / counts[slot] : 0));
+  const centre = mean(offsets);
+  const pattern = offsets.map((offset) => offset - centre);
+
+  const remaining = residuals.map((residual, i) => residual - pattern[slotOf(points[i].t, slots)]);
+  return sumOfSquares(remaining) <= 0.9 * sumOfSquares(residuals) ? pattern : null;
+}
+
+/**
+ * Fit a trend on usage ratios, or return null with too few samples.
+ */
+export function fitTrend(samples: { timestamp: number; value: number }[]): TrendModel | null {
+  const points = samples
+    .filter((sample) => Number.isFinite(sample.value))
+    .map((sample) => ({ t: sample.timestamp, y: sample.value }))
+    .sort((a, b) => a.t - b.t);
+  if (points.length < FORECAST.MIN_POINTS) return null;
+
+  const origin = mean(points.map((point) => point.t));
+  const intercept = mean(points.map((point) => point.y));
+  const sxx = sumOfSquares(points.map((point) => point.t - origin));
+  if (sxx === 0) return null;
+
+  const slope = points.reduce((sum, point) => sum + (point.t - origin) * (point.y - intercept), 0) / sxx;
+  const residuals = points.map((point) => point.y - (intercept + slope * (point.t - origin)));
+  const seasonal = fitDailyPattern(points, residuals);
+  const remaining = seasonal
+    ? residuals.map((residual, i) => residual - seasonal[slotOf(points[i].t, seasonal.length)])
+    : residuals;
+
+  return {
+    slope,
+    intercept,
+    origin,
+    sxx,
+    n: points.length,
+    residualStd: Math.sqrt(sumOfSquares(remaining) / Math.max(1, points.length - 2)),
+    seasonal,
+  };
+}
+
+export function predict(model: TrendModel, timestamp: number): number {
+  const offset = model.seasonal ? model.seasonal[slotOf(timestamp, model.seasonal.length)] : 0;
+  return model.intercept + model.slope * (timestamp - model.origin) + offset;
+}
+
+function bandHalfWidth(model: TrendModel, timestamp: number): number {
+  const x = timestamp - model.origin;
+  return Z_95 * model.residualStd * Math.sqrt(1 + 1 / model.n + (x * x) / model.sxx);
+}
+
+/**
+ * First time at or after `now` the forecast reaches each threshold, looking
+ * `FORECAST.SEARCH_HORIZON_DAYS` ahead. Thresholds already reached report `now`.
+ */
+export function thresholdCrossings(
+  model: TrendModel,
+  current: number,
+  now: number,
+  thresholds: readonly number[] = FORECAST.THRESHOLDS,
+): ForecastThreshold[] {
+  // Step through each slot of the daily pattern, or hourly along a plain line
+  const step = model.seasonal ? DAY_MS / model.seasonal.length : DAY_MS / 24;
+  const end = now + FORECAST.SEARCH_HORIZON_DAYS * DAY_MS;
+
+  return thresholds.map((threshold) => {
+    let reachedAt: number | null = current >= threshold ? now : null;
+    for (let t = now; reachedAt === null && t <= end; t += step) {
+      if (predict(model, t) >= threshold) reachedAt = t;
+    }
+    return {
+      threshold,
+      date: reachedAt === null ? null : new Date(reachedAt).toISOString(),
+      daysUntil: reachedAt === null ? null : Math.round(((reachedAt - now) / DAY_MS) * 10) / 10,
+    };
+  });
+}
+
+/**
+ * Forecast a usage series `horizonDays` ahead, or return null when it cannot be fitted.
+ */
+export function forecastUsage(samples: UsageSample[], horizonDays: number, now = Date.now()): UsageForecast | null {
+  const ordered = samples
+    .filter((sample) => sample.total > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const history = ordered.map((sample) => ({ timestamp: sample.timestamp, value: sample.used / sample.total }));
+  const model = fitTrend(history);
+  if (!model) return null;
+
+  const current = history[history.length - 1].value;
+  const stepMs = (horizonDays * DAY_MS) / FORECAST.FORECAST_POINTS;
+  const forecast: ForecastPoint[] = Array.from({ length: FORECAST.FORECAST_POINTS + 1 }, (_, i) => {
+    const timestamp = now + i * stepMs;
+    const value = predict(model, timestamp);
+    const halfWidth = bandHalfWidth(model, timestamp);
+    return {
+      timestamp,
+      value: Math.max(0, value),
+      lower: Math.max(0, value - halfWidth),
+      upper: Math.max(0, value + halfWidth),
+    };
+  });
+
+  return {
+    current,
+    total: ordered[ordered.length - 1].total,
+    slopePerDay: model.slope * DAY_MS,
+    seasonal: model.seasonal !== null,
+    thresholds: thresholdCrossings(model, current, now),
+    history,
+    forecast,
+  };
+}
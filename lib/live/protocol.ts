@@ -0,0 +1,57 @@
+import type { EventMessage, LiveTopic } from '@/lib/types';
+
+/**
+ * Live channel protocol shared by the WebSocket server and `useLiveChannel`.
+ *
+ * Clients subscribe to topics and receive only the events published on them;
+ * `error` events concern the whole stream and reach every client. Client
+ * messages are validated with `LiveClientMessageSchema`.
+ */
+
+export type LiveServerMessage =
+  | { type: 'event'; id: number; message: EventMessage }
+  | { type: 'heartbeat'; ts: number }
+  | { type: 'subscribed'; topics: LiveTopic[] }
+  | { type: 'result'; requestId: string; ok: true; data: unknown }
+  | { type: 'result'; requestId: string; ok: false; error: string }
+  | { type: 'error'; error: string };
+
+function guestTopic(id?: string | number): LiveTopic[] {
+  const vmid = Number(id);
+  return Number.isInteger(vmid) && vmid > 0 ? [`vm:${vmid}`] : [];
+}
+
+/**
+ * Topics an event is published on, or null for events sent to every client.
+ */
+export function eventTopics(message: EventMessage): LiveTopic[] | null {
+  switch (message.type) {
+    case 'heartbeat':
+    case 'error':
+      return null;
+    case 'status':
+      return [`node:${message.node}`];
+    case 'vm-status':
+      return [
+        'vms',
+        ...guestTopic(message.vm.vmid),
+        `node:${message.vm.node}`,
+        ...(message.previousNode ? [`node:${message.previousNode}`] : []),
+      ];
+    case 'task':
+      return ['tasks', `node:${message.task.node}`, ...guestTopic(message.task.id)];
+    case 'backup':
+      return ['backups', `node:${message.task.node}`, ...guestTopic(message.vmid)];
+    case 'alert':
+      return [
+        'alerts',
+        ...(message.alert.node ? [`node:${message.alert.node}`] : []),
+        ...guestTopic(message.alert.vmid),
+      ];
+  }
+}
+
+export function matchesTopics(message: EventMessage, topics: ReadonlySet<string>): boolean {
+  const published = eventTopics(message);
+  return published === null || published.some((topic) => topics.has(topic));
+}
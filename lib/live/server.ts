@@ -0,0 +1,207 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage } from 'http';
+import { ZodError } from 'zod';
+import { env } from '../../env/index';
+import { getAlertStore } from '@/lib/alerts/store';
+import { getEventBroadcaster } from '@/lib/events/broadcaster';
+import type { BroadcastEvent, EventBroadcaster } from '@/lib/events/broadcaster';
+import { getProxmoxClient, UnknownServerError } from '@/lib/proxmox/registry';
+import { LIVE_CHANNEL } from '@/lib/constants';
+import { LiveTopicSchema, validateLiveClientMessage } from '@/lib/types';
+import type { LiveCommand, LiveTopic } from '@/lib/types';
+import { matchesTopics } from './protocol';
+import type { LiveServerMessage } from './protocol';
+import { getLiveTokens } from './tokens';
+
+/**
+ * WebSocket transport for live updates.
+ *
+ * Each connection subscribes to the event broadcaster of its server (the
+ * same one behind the SSE route) and forwards only the events on its topics.
+ * Connections are opened on `LIVE_CHANNEL.PATH` with a `token` issued by
+ * the live route, optional query parameters `serverId`, `topics`
+ * (comma-separated) and `lastEventId`, and may then send subscribe,
+ * unsubscribe and command messages.
+ */
+
+export type LiveConnectionOptions = {
+  broadcaster: EventBroadcaster;
+  send: (message: LiveServerMessage) => void;
+  runCommand: (command: LiveCommand) => Promise<unknown>;
+};
+
+export class LiveConnection {
+  private readonly topics = new Set<LiveTopic>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly options: LiveConnectionOptions) {}
+
+  get subscribedTopics(): LiveTopic[] {
+    return [...this.topics];
+  }
+
+  /**
+   * Start forwarding events, first the ones missed since `lastEventId` (or the
+   * current node statuses) on the initial topics.
+   */
+  open(topics: LiveTopic[], lastEventId?: number): void {
+    topics.forEach((topic) => this.topics.add(topic));
+    const subscription = this.options.broadcaster.subscribe(
+      {
+        send: (event) => this.forward(event),
+        heartbeat: (ts) => this.options.send({ type: 'heartbeat', ts }),
+      },
+      lastEventId,
+    );
+    this.unsubscribe = subscription.unsubscribe;
+    subscription.replay.forEach((event) => this.forward(event));
+  }
+
+  async receive(raw: string): Promise<void> {
+    let message;
+    try {
+      message = validateLiveClientMessage(JSON.parse(raw));
+    } catch (error) {
+      const detail = error instanceof ZodError ? error.issues[0]?.message : 'Malformed JSON';
+      this.options.send({ type: 'error', error: `Invalid message: ${detail}` });
+      return;
+    }
+
+    switch (message.type) {
+      case 'subscribe':
+        if (new Set([...this.topics, ...message.topics]).size > LIVE_CHANNEL.MAX_TOPICS) {
+          this.options.send({ type: 'error', error: `At most ${LIVE_CHANNEL.MAX_TOPICS} topics per connection` });
+          return;
+        }
+        message.topics.forEach((topic) => this.topics.add(topic));
+        this.options.send({ type: 'subscribed', topics: this.subscribedTopics });
+        return;
+      case 'unsubscribe':
+        message.topics.forEach((topic) => this.topics.delete(topic));
+        this.options.send({ type: 'subscribed', topics: this.subscribedTopics });
+        return;
+      case 'command':
+        try {
+          const data = await this.options.runCommand(message.command);
+          this.options.send({ type: 'result', requestId: message.requestId, ok: true, data });
+        } catch (error) {
+          this.options.send({
+            type: 'result',
+            requestId: message.requestId,
+            ok: false,
+            error: error instanceof Error ? error.message : 'Command failed',
+          });
+        }
+        return;
+    }
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private forward({ id, message }: BroadcastEvent): void {
+    if (matchesTopics(message, this.topics)) {
+      this.options.send({ type: 'event', id, message });
+    }
+  }
+}
+
+/**
+ * Commands clients may run over the socket; results match the REST routes.
+ */
+export async function runLiveCommand(command: LiveCommand): Promise<unknown> {
+  switch (command.command) {
+    case 'acknowledge-alert': {
+      const alert = await getAlertStore().acknowledge(command.alertId, command.acknowledgedBy);
+      if (!alert) {
+        throw new Error(`Alert not found: ${command.alertId}`);
+      }
+      return { alertId: command.alertId, acknowledged: true };
+    }
+  }
+}
+
+function parseConnectionQuery(url: URL): { serverId?: string; topics: LiveTopic[]; lastEventId?: number } {
+  const topics = (url.searchParams.get('topics') ?? '')
+    .split(',')
+    .map((topic) => topic.trim())
+    .filter(Boolean)
+    .map((topic) => LiveTopicSchema.parse(topic))
+    .slice(0, LIVE_CHANNEL.MAX_TOPICS);
+  const lastEventId = Number(url.searchParams.get('lastEventId') ?? NaN);
+  return {
+    serverId: url.searchParams.get('serverId')?.trim() || undefined,
+    topics,
+    lastEventId: Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : undefined,
+  };
+}
+
+async function handleConnection(socket: WebSocket, request: IncomingMessage): Promise<void> {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  // Without a token any page could open the channel and run commands
+  if (!getLiveTokens().take(url.searchParams.get('token') ?? '')) {
+    socket.close(4401, 'Unknown or expired live channel token');
+    return;
+  }
+
+  let query;
+  try {
+    query = parseConnectionQuery(url);
+    // Resolve the client up front so unknown servers are refused instead of streaming errors
+    await getProxmoxClient(query.serverId);
+  } catch (error) {
+    // 4400/4404 mirror the HTTP status the SSE route would answer with
+    const code = error instanceof UnknownServerError ? 4404 : error instanceof ZodError ? 4400 : 1011;
+    const reason = error instanceof ZodError ? 'Invalid topics' : error instanceof Error ? error.message : 'Connection failed';
+    socket.close(code, reason.slice(0, 120));
+    return;
+  }
+
+  // The broadcaster registry is process-wide, so this shares the SSE route's poller
+  const connection = new LiveConnection({
+    broadcaster: getEventBroadcaster(query.serverId),
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    runCommand: runLiveCommand,
+  });
+
+  socket.on('message', (data) => {
+    void connection.receive(data.toString());
+  });
+  socket.on('close', () => connection.close());
+  socket.on('error', (error) => {
+    console.warn('liveServer: socket error:', error.message);
+    connection.close();
+  });
+  connection.open(query.topics, query.lastEventId);
+}
+
+let server: WebSocketServer | null = null;
+
+/**
+ * Listen for live channel connections unless LIVE_WS_ENABLED=false. Called once at server startup.
+ */
+export function startLiveServer(): void {
+  const config = env.get();
+  if (server || !config.LIVE_WS_ENABLED) return;
+
+  server = new WebSocketServer({
+    port: config.LIVE_WS_PORT,
+    path: LIVE_CHANNEL.PATH,
+    maxPayload: LIVE_CHANNEL.MAX_MESSAGE_BYTES,
+  });
+  server.on('connection', (socket, request) => {
+    handleConnection(socket, request).catch((error) => {
+      console.error('liveServer: connection setup failed:', error instanceof Error ? error.message : error);
+      socket.close(1011);
+    });
+  });
+  server.on('error', (error) => {
+    console.error('liveServer: failed to listen:', error.message);
+  });
+}
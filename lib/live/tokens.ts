@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto';
+import { LIVE_CHANNEL } from '@/lib/constants';
+
+/**
+ * Tokens issued by the live route for the browser to open the live channel
+ * with. The channel listens on its own port, so the browser would let any
+ * page connect to it; a token can only be read by dashboard pages, is used
+ * once and expires shortly after it is issued.
+ */
+export class LiveTokenStore {
+  private readonly pending = new Map<string, number>();
+
+  constructor(
+    private readonly ttlMs: number = LIVE_CHANNEL.TOKEN_TTL,
+    private readonly maxPending: number = LIVE_CHANNEL.MAX_PENDING_TOKENS,
+  ) {}
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  issue(now = Date.now()): { token: string; expiresAt: number } {
+    this.prune(now);
+    if (this.pending.size >= this.maxPending) {
+      throw new Error('Too many live connections waiting to open');
+    }
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = now + this.ttlMs;
+    this.pending.set(token, expiresAt);
+    return { token, expiresAt };
+  }
+
+  /**
+   * Whether the token was issued and has not expired; it cannot be used again.
+   */
+  take(token: string, now = Date.now()): boolean {
+    const expiresAt = this.pending.get(token);
+    this.pending.delete(token);
+    return expiresAt !== undefined && expiresAt > now;
+  }
+
+  private prune(now: number): void {
+    for (const [token, expiresAt] of this.pending) {
+      if (expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
+
+// The route issuing tokens and the live server started from instrumentation
+// are bundled separately, so the store hangs off globalThis to be shared
+const STORE_KEY = Symbol.for('proxmox-dashboard.live-tokens');
+
+export function getLiveTokens(): LiveTokenStore {
+  const holder = globalThis as typeof globalThis & { [STORE_KEY]?: LiveTokenStore };
+  holder[STORE_KEY] ??= new LiveTokenStore();
+  return holder[STORE_KEY];
+}
@@ -0,0 +1,280 @@
+import { getTaskTracker, isTaskFinished, isTaskSuccessful } from '@/lib/proxmox/tasks';
+import type { TaskTracker } from '@/lib/proxmox/tasks';
+import type { ProxmoxClient } from '@/lib/proxmox/client';
+import { MigrationOptionsSchema } from '@/lib/types';
+import type {
+  DrainPlacement,
+  DrainPlan,
+  NodeDrainRequest,
+  NodeMaintenance,
+  NodeMaintenanceGuest,
+  NodeUndrainRequest,
+} from '@/lib/types';
+import { planDrain, planUndrain } from './plan';
+import { getMaintenanceStore } from './store';
+import type { MaintenanceStore } from './store';
+
+/**
+ * Node evacuation. A drain migrates the guests of a node following an
+ * approved plan and leaves the node in maintenance; an undrain moves them
+ * back and ends the maintenance. Both run in the background, a bounded number
+ * of migrations at a time, and record each guest's progress in the store.
+ *
+ * The node counts as unavailable from the moment its drain is recorded,
+ * before the first migration: other drains place no guests on it. This is the
+ * dashboard's own state. Proxmox only offers HA node maintenance on the
+ * command line (`ha-manager crm-command node-maintenance enable <node>`), so
+ * the HA manager is not told about it.
+ */
+
+/**
+ * The node is already being drained or undrained, or the request does not
+ * fit its maintenance state.
+ */
+export class MaintenanceConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaintenanceConflictError';
+  }
+}
+
+export type NodeDrainerOptions = {
+  store: MaintenanceStore;
+  tracker?: TaskTracker;
+};
+
+/**
+ * Run `worker` over the items with at most `limit` calls in flight.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const nodeKey = (serverId: string | undefined, node: string) => `${serverId ?? ''}/${node}`;
+
+export class NodeDrainer {
+  /** Nodes with a drain or undrain running in this process */
+  private readonly active = new Set<string>();
+  private readonly store: MaintenanceStore;
+  private readonly tracker: TaskTracker;
+
+  constructor(options: NodeDrainerOptions) {
+    this.store = options.store;
+    this.tracker = options.tracker ?? getTaskTracker();
+  }
+
+  isRunning(serverId: string | undefined, node: string): boolean {
+    return this.active.has(nodeKey(serverId, node));
+  }
+
+  /**
+   * Where the guests of `node` would go. Nodes being drained, undrained or
+   * in maintenance take no guests.
+   */
+  async plan(client: ProxmoxClient, serverId: string | undefined, node: string, signal?: AbortSignal): Promise<DrainPlan> {
+    const [summary, { vms }, maintenance] = await Promise.all([
+      client.getClusterSummary(signal),
+      client.getVmList(signal),
+      this.store.list(serverId),
+    ]);
+    if (!summary.nodes.some((entry) => entry.node === node)) {
+      throw new MaintenanceConflictError(`${node} is not a node of this cluster`);
+    }
+    return planDrain(node, summary, vms, maintenance.map((entry) => entry.node));
+  }
+
+  /**
+   * Start migrating the guests of `node` as approved and put the node in
+   * maintenance. Draining a node already in maintenance again moves the
+   * guests started on it since, and retries the failed ones.
+   */
+  async drain(client: ProxmoxClient, serverId: string | undefined, node: string, request: NodeDrainRequest): Promise<NodeMaintenance> {
+    for (const placement of request.placements) {
+      if (placement.node !== node) {
+        throw new MaintenanceConflictError(`Guest ${placement.vmid} is planned from ${placement.node}, not ${node}`);
+      }
+      if (placement.target === node) {
+        throw new MaintenanceConflictError(`Guest ${placement.vmid} cannot be placed on the drained node`);
+      }
+    }
+
+    const release = this.claim(serverId, node);
+    let maintenance: NodeMaintenance;
+    try {
+      const [existing, others] = await Promise.all([this.store.get(serverId, node), this.store.list(serverId)]);
+      // The plan may predate another drain; checked once this node is claimed
+      const unavailable = new Set(others.map((entry) => entry.node));
+      for (const placement of request.placements) {
+        if (unavailable.has(placement.target) || this.isRunning(serverId, placement.target)) {
+          throw new MaintenanceConflictError(`${placement.target} is being drained or in maintenance and cannot take guest ${placement.vmid}`);
+        }
+      }
+
+      const now = new Date();
+      const planned = new Set(request.placements.map((placement) => placement.vmid));
+      maintenance = {
+        node,
+        serverId,
+        state: 'draining',
+        guests: [
+          ...(existing?.guests ?? []).filter((guest) => !planned.has(guest.vmid)),
+          ...request.placements.map((placement): NodeMaintenanceGuest => ({
+            vmid: placement.vmid,
+            name: placement.name,
+            type: placement.type,
+            originalNode: node,
+            target: placement.target,
+            status: 'pending',
+          })),
+        ],
+        startedAt: existing?.startedAt ?? now,
+        updatedAt: now,
+      };
+      await this.persist(maintenance);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    this.run(client, maintenance, request.placements, request.concurrency, release, async () => {
+      maintenance.state = 'maintenance';
+      await this.persist(maintenance);
+    });
+    return maintenance;
+  }
+
+  /**
+   * Start moving the drained guests back to `node`. The node leaves
+   * maintenance once every guest is back; otherwise it stays in maintenance
+   * with the failed migrations listed. Returns null when no guest has to
+   * move and the maintenance ended right away.
+   */
+  async undrain(client: ProxmoxClient, serverId: string | undefined, node: string, request: NodeUndrainRequest): Promise<NodeMaintenance | null> {
+    const release = this.claim(serverId, node);
+    let maintenance: NodeMaintenance;
+    let placements: DrainPlacement[];
+    let moving: Set<number>;
+    try {
+      const existing = await this.store.get(serverId, node);
+      if (!existing) {
+        throw new MaintenanceConflictError(`${node} is not in maintenance`);
+      }
+
+      const { vms } = await client.getVmList();
+      placements = planUndrain(existing, vms);
+      if (placements.length === 0) {
+        await this.store.remove(serverId, node);
+        release();
+        return null;
+      }
+
+      moving = new Set(placements.map((placement) => placement.vmid));
+      maintenance = {
+        ...existing,
+        state: 'undraining',
+        guests: existing.guests.map((guest) => (moving.has(guest.vmid)
+          ? { ...guest, target: guest.originalNode, status: 'pending', upid: undefined, error: undefined }
+          : guest)),
+        updatedAt: new Date(),
+      };
+      await this.persist(maintenance);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    this.run(client, maintenance, placements, request.concurrency, release, async () => {
+      if (maintenance.guests.some((guest) => moving.has(guest.vmid) && guest.status === 'failed')) {
+        maintenance.state = 'maintenance';
+        await this.persist(maintenance);
+      } else {
+        await this.store.remove(serverId, node);
+      }
+    });
+    return maintenance;
+  }
+
+  // Claimed before the first await, so concurrent requests see the node busy;
+  // the returned callback releases it
+  private claim(serverId: string | undefined, node: string): () => void {
+    const key = nodeKey(serverId, node);
+    if (this.active.has(key)) {
+      throw new MaintenanceConflictError(`${node} is already being drained or undrained`);
+    }
+    this.active.add(key);
+    return () => {
+      this.active.delete(key);
+    };
+  }
+
+  // Run the migrations without waiting for them; `release` once finished
+  private run(
+    client: ProxmoxClient,
+    maintenance: NodeMaintenance,
+    placements: DrainPlacement[],
+    concurrency: number,
+    release: () => void,
+    finish: () => Promise<void>,
+  ): void {
+    runWithConcurrency(placements, concurrency, (placement) => this.migrate(client, maintenance, placement))
+      .then(finish)
+      .catch((error) => {
+        console.error(`nodeDrainer: ${maintenance.state} of ${maintenance.node} failed:`, errorMessage(error));
+      })
+      .finally(release);
+  }
+
+  private async migrate(client: ProxmoxClient, maintenance: NodeMaintenance, placement: DrainPlacement): Promise<void> {
+    const guest = maintenance.guests.find((entry) => entry.vmid === placement.vmid)!;
+    const options = MigrationOptionsSchema.parse({ target: placement.target });
+    guest.status = 'migrating';
+    await this.persist(maintenance);
+
+    try {
+      const preflight = await client.getMigrationPreflight(placement.node, placement.vmid, options);
+      if (!preflight.ok) {
+        throw new Error(preflight.checks.find((check) => check.status === 'fail')?.message ?? 'Preflight checks failed');
+      }
+      const { upid } = await client.migrateVm(placement.node, placement.vmid, options);
+      guest.upid = upid;
+      await this.persist(maintenance);
+
+      const task = await this.tracker.track(client, upid, maintenance.serverId);
+      if (!isTaskFinished(task)) {
+        throw new Error('Lost track of the migration task');
+      }
+      if (!isTaskSuccessful(task)) {
+        throw new Error(`Task failed: ${task.exitstatus ?? 'unknown error'}`);
+      }
+      guest.status = 'migrated';
+    } catch (error) {
+      guest.status = 'failed';
+      guest.error = errorMessage(error);
+    }
+    await this.persist(maintenance);
+  }
+
+  // The store keeps a copy, so later changes only land through persist
+  private persist(maintenance: NodeMaintenance): Promise<void> {
+    maintenance.updatedAt = new Date();
+    return this.store.save({ ...maintenance, guests: maintenance.guests.map((guest) => ({ ...guest })) });
+  }
+}
+
+// Shared through globalThis like the store, so every route sees the drains
+// running in this process
+const DRAINER_KEY = Symbol.for('proxmox-dashboard.node-drainer');
+
+export function getNodeDrainer(): NodeDrainer {
+  const holder = globalThis as typeof globalThis & { [DRAINER_KEY]?: NodeDrainer };
+  holder[DRAINER_KEY] ??= new NodeDrainer({ store: getMaintenanceStore() });
+  return holder[DRAINER_KEY];
+}
@@ -0,0 +1,118 @@
+import { NODE_DRAIN } from '@/lib/constants';
+import type { ClusterSummary, DrainPlacement, DrainPlan, NodeMaintenance, VmResource } from '@/lib/types';
+
+/**
+ * Placement of the guests of a node being drained. Running guests are spread
+ * over the remaining online nodes, largest memory first, each onto the node
+ * left with the most free memory and CPU once it is placed.
+ */
+
+type Capacity = {
+  node: string;
+  memoryTotal: number;
+  memoryFree: number;
+  maxcpu: number;
+  cpuFree: number;
+  guests: number;
+};
+
+const formatGiB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+
+// Free share of memory and CPU a node is left with after taking the guest
+function score(capacity: Capacity, memory: number, cpu: number): number {
+  const memoryShare = (capacity.memoryFree - memory) / capacity.memoryTotal;
+  return capacity.maxcpu > 0 ? memoryShare + (capacity.cpuFree - cpu) / capacity.maxcpu : memoryShare;
+}
+
+/**
+ * Guests that a drain of `node` moves: running or paused, templates aside.
+ */
+export function drainableGuests(node: string, vms: VmResource[]): VmResource[] {
+  return vms.filter((vm) => vm.node === node && !vm.template && (vm.status === 'running' || vm.status === 'paused'));
+}
+
+/**
+ * Plan the drain of `node`. Nodes in `excluded` (e.g. in maintenance
+ * themselves) receive no guests.
+ */
+export function planDrain(node: string, summary: ClusterSummary, vms: VmResource[], excluded: string[] = []): DrainPlan {
+  const candidates: Capacity[] = summary.nodes
+    .filter((entry) => entry.node !== node && entry.status === 'online' && entry.memory && !excluded.includes(entry.node))
+    .map((entry) => ({
+      node: entry.node,
+      memoryTotal: entry.memory!.total,
+      memoryFree: entry.memory!.free,
+      maxcpu: entry.maxcpu ?? 0,
+      cpuFree: (entry.maxcpu ?? 0) * (1 - (entry.cpu ?? 0)),
+      guests: 0,
+    }));
+  const before = new Map(candidates.map((capacity) => [capacity.node, { ...capacity }]));
+
+  const guests = drainableGuests(node, vms)
+    .map((vm) => ({
+      vm,
+      memory: vm.memory?.max ?? vm.memory?.used ?? 0,
+      cpu: (vm.cpu ?? 0) * (vm.maxcpu ?? 0),
+    }))
+    .sort((a, b) => b.memory - a.memory || a.vm.vmid - b.vm.vmid);
+
+  const placements: DrainPlacement[] = [];
+  const unplaced: DrainPlan['unplaced'] = [];
+  for (const { vm, memory, cpu } of guests) {
+    const target = candidates
+      .filter((capacity) => capacity.memoryFree - memory >= capacity.memoryTotal * NODE_DRAIN.MEMORY_HEADROOM)
+      .sort((a, b) => score(b, memory, cpu) - score(a, memory, cpu) || a.node.localeCompare(b.node))[0];
+
+    if (!target) {
+      unplaced.push({
+        vmid: vm.vmid,
+        name: vm.name,
+        type: vm.type,
+        reason: candidates.length === 0
+          ? 'No other node is online'
+          : `No remaining node has room for ${formatGiB(memory)} of memory`,
+      });
+      continue;
+    }
+
+    target.memoryFree -= memory;
+    target.cpuFree -= cpu;
+    target.guests++;
+    placements.push({ vmid: vm.vmid, name: vm.name, type: vm.type, node, target: target.node, memory, cpu });
+  }
+
+  return {
+    node,
+    placements,
+    unplaced,
+    targets: candidates.map((capacity) => ({
+      node: capacity.node,
+      guests: capacity.guests,
+      memoryFree: before.get(capacity.node)!.memoryFree,
+      memoryFreeAfter: capacity.memoryFree,
+      cpuFree: before.get(capacity.node)!.cpuFree,
+      cpuFreeAfter: capacity.cpuFree,
+    })),
+  };
+}
+
+/**
+ * Migrations moving the guests a drain placed elsewhere back to the node in
+ * maintenance. Guests that were removed or never left it are skipped.
+ */
+export function planUndrain(maintenance: NodeMaintenance, vms: VmResource[]): DrainPlacement[] {
+  const byId = new Map(vms.map((vm) => [vm.vmid, vm]));
+  return maintenance.guests.flatMap((guest) => {
+    const vm = byId.get(guest.vmid);
+    if (!vm || vm.node === guest.originalNode) return [];
+    return [{
+      vmid: vm.vmid,
+      name: vm.name,
+      type: vm.type,
+      node: vm.node,
+      target: guest.originalNode,
+      memory: vm.memory?.max ?? 0,
+      cpu: (vm.cpu ?? 0) * (vm.maxcpu ?? 0),
+    }];
+  });
+}
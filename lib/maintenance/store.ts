@@ -0,0 +1,122 @@
+import path from 'path';
+import { env } from '../../env/index';
+import type { NodeMaintenance } from '@/lib/types';
+import { readJsonFile, writeJsonFileAtomic } from '@/lib/utils/jsonFile';
+
+// Dates are stored as ISO strings
+type StoredMaintenance = Omit<NodeMaintenance, 'startedAt' | 'updatedAt'> & {
+  startedAt: string;
+  updatedAt: string;
+};
+
+type MaintenanceFile = {
+  version: 1;
+  nodes: StoredMaintenance[];
+};
+
+const isSameNode = (maintenance: NodeMaintenance, serverId: string | undefined, node: string) =>
+  maintenance.serverId === serverId && maintenance.node === node;
+
+/**
+ * Drain of a process that stopped mid-way: the node stays in maintenance and
+ * the guests not moved yet are reported as failed, so the drain or undrain
+ * can be run again.
+ */
+function interrupted(maintenance: NodeMaintenance): NodeMaintenance {
+  if (maintenance.state === 'maintenance') return maintenance;
+  return {
+    ...maintenance,
+    state: 'maintenance',
+    guests: maintenance.guests.map((guest) =>
+      guest.status === 'pending' || guest.status === 'migrating'
+        ? { ...guest, status: 'failed', error: 'Interrupted by a dashboard restart' }
+        : guest),
+  };
+}
+
+/**
+ * Nodes being drained or in maintenance, persisted as a JSON file so undrain
+ * still knows where the guests came from after a restart. Operations are
+ * serialised like AlertStore.
+ */
+export class MaintenanceStore {
+  private nodes: NodeMaintenance[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private run<T>(operation: (nodes: NodeMaintenance[]) => Promise<T> | T): Promise<T> {
+    const next = this.queue.then(async () => operation(await this.load()));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<NodeMaintenance[]> {
+    if (this.nodes) return this.nodes;
+    const file = await readJsonFile<MaintenanceFile>(this.filePath);
+    this.nodes = (file?.nodes ?? []).map((stored) => interrupted({
+      ...stored,
+      startedAt: new Date(stored.startedAt),
+      updatedAt: new Date(stored.updatedAt),
+    }));
+    return this.nodes;
+  }
+
+  private async write(nodes: NodeMaintenance[]): Promise<void> {
+    const file: MaintenanceFile = {
+      version: 1,
+      nodes: nodes.map((maintenance) => ({
+        ...maintenance,
+        startedAt: maintenance.startedAt.toISOString(),
+        updatedAt: maintenance.updatedAt.toISOString(),
+      })),
+    };
+    await writeJsonFileAtomic(this.filePath, file);
+  }
+
+  /**
+   * Nodes of one server being drained or in maintenance.
+   */
+  list(serverId?: string): Promise<NodeMaintenance[]> {
+    return this.run((nodes) => nodes.filter((maintenance) => maintenance.serverId === serverId));
+  }
+
+  get(serverId: string | undefined, node: string): Promise<NodeMaintenance | undefined> {
+    return this.run((nodes) => nodes.find((maintenance) => isSameNode(maintenance, serverId, node)));
+  }
+
+  /**
+   * Insert or replace the maintenance of a node.
+   */
+  save(maintenance: NodeMaintenance): Promise<void> {
+    return this.run(async (nodes) => {
+      const index = nodes.findIndex((existing) => isSameNode(existing, maintenance.serverId, maintenance.node));
+      if (index === -1) nodes.push(maintenance);
+      else nodes[index] = maintenance;
+      await this.write(nodes);
+    });
+  }
+
+  /**
+   * Take a node out of maintenance. Returns false when it was not in maintenance.
+   */
+  remove(serverId: string | undefined, node: string): Promise<boolean> {
+    return this.run(async (nodes) => {
+      const index = nodes.findIndex((maintenance) => isSameNode(maintenance, serverId, node));
+      if (index === -1) return false;
+      nodes.splice(index, 1);
+      await this.write(nodes);
+      return true;
+    });
+  }
+}
+
+// The drain, undrain and maintenance routes may be bundled separately; the
+// store caches the file, so they share it through globalThis
+const STORE_KEY = Symbol.for('proxmox-dashboard.maintenance-store');
+
+export function getMaintenanceStore(): MaintenanceStore {
+  const holder = globalThis as typeof globalThis & { [STORE_KEY]?: MaintenanceStore };
+  holder[STORE_KEY] ??= new MaintenanceStore(path.resolve(process.cwd(), env.get().MAINTENANCE_STORE_PATH));
+  return holder[STORE_KEY];
+}
@@ -0,0 +1,157 @@
+import { env } from '../../env/index';
+import { getProxmoxClient } from '@/lib/proxmox/registry';
+import { METRICS_RETENTION } from '@/lib/constants';
+import type { ProxmoxClient } from '@/lib/proxmox/client';
+import type { ClusterSummary, MetricBucket, VmList } from '@/lib/types';
+import { bucketStart, coalesceBuckets, METRIC_RESOLUTIONS, RESOLUTION_MS, rollup, rollupBuckets } from './rollup';
+import type { MetricSample } from './rollup';
+import { getMetricsStore } from './store';
+import type { MetricsStore } from './store';
+
+/**
+ * Background collection of long-term metrics.
+ *
+ * Every interval the collector samples the nodes of the cluster summary and
+ * the running guests, and folds the samples into open 1-minute, 15-minute and
+ * 1-hour buckets. A bucket is written once its period is over. After a
+ * restart the open 15-minute and hourly buckets are rebuilt from the minute
+ * buckets already written, so only the current minute is lost.
+ */
+
+export type MetricsCollectorOptions = {
+  store: MetricsStore;
+  getClient: () => Promise<ProxmoxClient>;
+  intervalMs: number;
+};
+
+const usage = (used?: number, total?: number) =>
+  used !== undefined && total ? { used, total } : undefined;
+
+/**
+ * Samples of every node and running guest at `timestamp`.
+ */
+export function toSamples(summary: ClusterSummary, { vms }: VmList, timestamp: number): MetricSample[] {
+  const nodes = summary.nodes
+    .filter((node) => node.status === 'online')
+    .map((node): MetricSample => ({
+      node: node.node,
+      timestamp,
+      cpu: node.cpu,
+      memory: usage(node.memory?.used, node.memory?.total),
+      storage: usage(node.storage?.used, node.storage?.total),
+    }));
+  const guests = vms
+    .filter((vm) => vm.status === 'running' && !vm.template)
+    .map((vm): MetricSample => ({
+      node: vm.node,
+      vmid: vm.vmid,
+      timestamp,
+      cpu: vm.cpu,
+      memory: usage(vm.memory?.used, vm.memory?.max),
+      storage: usage(vm.disk?.used, vm.disk?.max),
+    }));
+  return [...nodes, ...guests];
+}
+
+export class MetricsCollector {
+  /** Buckets whose period has not ended yet */
+  private open: MetricBucket[] = [];
+  private restored = false;
+  private lastPrune = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(private readonly options: MetricsCollectorOptions) {}
+
+  start(): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.collect().catch((error) => {
+        console.error('metricsCollector: collection failed:', error instanceof Error ? error.message : error);
+      });
+    };
+    this.timer = setInterval(tick, this.options.intervalMs);
+    // Do not keep the process alive just for metrics collection
+    this.timer.unref?.();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Take one sample. Concurrent calls share the collection in progress.
+   */
+  collect(now = new Date()): Promise<void> {
+    if (!this.running) {
+      this.running = this.collectOnce(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async collectOnce(now: Date): Promise<void> {
+    const client = await this.options.getClient();
+    const [summary, vms] = await Promise.all([client.getClusterSummary(), client.getVmList()]);
+    const samples = toSamples(summary, vms, now.getTime());
+    if (!this.restored) {
+      this.open = await this.restoreOpenBuckets(samples, now);
+      this.restored = true;
+    }
+
+    const buckets = coalesceBuckets([
+      ...this.open,
+      ...METRIC_RESOLUTIONS.flatMap((resolution) => rollup(samples, resolution)),
+    ]);
+    const closed = buckets.filter((bucket) => bucket.start + RESOLUTION_MS[bucket.resolution] <= now.getTime());
+    this.open = buckets.filter((bucket) => !closed.includes(bucket));
+    await this.options.store.append(closed);
+
+    if (now.getTime() - this.lastPrune >= METRICS_RETENTION.PRUNE_INTERVAL) {
+      this.lastPrune = now.getTime();
+      await this.options.store.prune(now);
+    }
+  }
+
+  /**
+   * Open 15-minute and hourly buckets of the sampled subjects, rebuilt from
+   * the minute buckets written since the start of the current hour.
+   */
+  private async restoreOpenBuckets(samples: MetricSample[], now: Date): Promise<MetricBucket[]> {
+    const from = new Date(bucketStart(now.getTime(), '1h'));
+    const minutes = await Promise.all(samples.map(({ node, vmid }) =>
+      this.options.store.query({ node, vmid, resolution: '1m', from, to: now })
+    ));
+    return METRIC_RESOLUTIONS
+      .filter((resolution) => resolution !== '1m')
+      .flatMap((resolution) => rollupBuckets(minutes.flat(), resolution))
+      .filter((bucket) => bucket.start + RESOLUTION_MS[bucket.resolution] > now.getTime());
+  }
+}
+
+let collector: MetricsCollector | null = null;
+
+export function getMetricsCollector(): MetricsCollector {
+  if (!collector) {
+    collector = new MetricsCollector({
+      store: getMetricsStore(),
+      // Like the alert engine, the collector follows the default server
+      getClient: () => getProxmoxClient(),
+      intervalMs: env.get().POLL_INTERVAL_MS,
+    });
+  }
+  return collector;
+}
+
+/**
+ * Start periodic collection unless METRICS_COLLECTOR_ENABLED=false. Called once at server startup.
+ */
+export function startMetricsCollector(): void {
+  if (!env.get().METRICS_COLLECTOR_ENABLED) return;
+  getMetricsCollector().start();
+}
@@ -0,0 +1,142 @@
+import type { MetricAggregate, MetricBucket, MetricResolution, MetricSeries } from '@/lib/types';
+import type { MetricsStore } from './store';
+
+/**
+ * Streaming export of retained metrics as CSV or NDJSON.
+ *
+ * Subjects are read from the store one at a time and written as they come,
+ * so an export of many guests over a long range never sits in memory whole.
+ * CSV column names carry their unit; NDJSON starts with a header line that
+ * lists the units, followed by one line per bucket.
+ */
+
+export type MetricsExportFormat = 'csv' | 'ndjson';
+
+export type MetricsExportSubject = { node?: string; vmid?: number };
+
+export type MetricsExportOptions = {
+  store: MetricsStore;
+  format: MetricsExportFormat;
+  /** Name of the server the metrics were collected from */
+  server: string;
+  subjects: MetricsExportSubject[];
+  series: MetricSeries[];
+  resolution: MetricResolution;
+  from: Date;
+  to: Date;
+  signal?: AbortSignal;
+};
+
+export const SERIES_UNITS: Record<MetricSeries, string> = {
+  cpu: 'ratio',
+  memory: 'bytes',
+  storage: 'bytes',
+};
+
+const AGGREGATES = ['avg', 'min', 'max'] as const;
+
+function seriesColumns(series: MetricSeries): string[] {
+  const unit = SERIES_UNITS[series];
+  if (series === 'cpu') {
+    return AGGREGATES.map((aggregate) => `cpu_${aggregate}_${unit}`);
+  }
+  return [...AGGREGATES.map((aggregate) => `${series}_used_${aggregate}_${unit}`), `${series}_total_${unit}`];
+}
+
+function seriesValues(bucket: MetricBucket, series: MetricSeries): (number | undefined)[] {
+  const aggregate = bucket[series];
+  const values = AGGREGATES.map((key) => aggregate?.[key]);
+  return series === 'cpu' ? values : [...values, bucket[series]?.total];
+}
+
+export function csvHeader(series: MetricSeries[]): string[] {
+  return ['timestamp', 'server', 'node', 'vmid', 'resolution', ...series.flatMap(seriesColumns)];
+}
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvLine = (fields: (string | number | undefined)[]) => `${fields.map(csvField).join(',')}\n`;
+
+function csvRow(bucket: MetricBucket, server: string, series: MetricSeries[]): string {
+  return csvLine([
+    new Date(bucket.start).toISOString(),
+    server,
+    bucket.node,
+    bucket.vmid,
+    bucket.resolution,
+    ...series.flatMap((name) => seriesValues(bucket, name)),
+  ]);
+}
+
+// Sample counts are internal to merging buckets
+const withoutCount = (aggregate?: MetricAggregate & { total?: number }) => {
+  if (!aggregate) return undefined;
+  const { min, max, avg, total } = aggregate;
+  return { min, max, avg, total };
+};
+
+function ndjsonRow(bucket: MetricBucket, series: MetricSeries[]): string {
+  return `${JSON.stringify({
+    type: 'point',
+    timestamp: new Date(bucket.start).toISOString(),
+    node: bucket.node,
+    vmid: bucket.vmid,
+    ...Object.fromEntries(series.map((name) => [name, withoutCount(bucket[name])])),
+  })}\n`;
+}
+
+function header(options: MetricsExportOptions): string {
+  if (options.format === 'csv') {
+    return csvLine(csvHeader(options.series));
+  }
+  return `${JSON.stringify({
+    type: 'header',
+    server: options.server,
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    resolution: options.resolution,
+    units: Object.fromEntries(options.series.map((name) => [name, SERIES_UNITS[name]])),
+  })}\n`;
+}
+
+/**
+ * Stream the export: the header first, then each subject's buckets oldest first.
+ */
+export function createMetricsExportStream(options: MetricsExportOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const subjects = [...options.subjects];
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(header(options)));
+        return;
+      }
+
+      const subject = subjects.shift();
+      if (!subject || options.signal?.aborted) {
+        controller.close();
+        return;
+      }
+
+      const buckets = await options.store.query({
+        node: subject.node,
+        vmid: subject.vmid,
+        resolution: options.resolution,
+        from: options.from,
+        to: options.to,
+      });
+      const rows = buckets.map((bucket) => options.format === 'csv'
+        ? csvRow(bucket, options.server, options.series)
+        : ndjsonRow(bucket, options.series));
+      if (rows.length > 0) {
+        controller.enqueue(encoder.encode(rows.join('')));
+      }
+    },
+  });
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { METRICS_RETENTION } from '@/lib/constants';
+import { MetricBucketSchema } from '@/lib/types';
+import type { MetricBucket, MetricResolution } from '@/lib/types';
+import { coalesceBuckets, METRIC_RESOLUTIONS } from './rollup';
+import type { MetricBucketQuery, MetricsStore } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayOf = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * File-backed metrics store for single-node installs.
+ *
+ * Buckets are appended as JSON lines to one file per resolution and UTC day
+ * (`<root>/15m/2025-01-31.ndjson`), so writes never rewrite history and
+ * retention drops whole files.
+ */
+export class FileMetricsStore implements MetricsStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly root: string) {}
+
+  // Run operations one at a time so appends and pruning cannot interleave
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(operation);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private filePath(resolution: MetricResolution, day: string): string {
+    return path.join(this.root, resolution, `${day}.ndjson`);
+  }
+
+  private async readDay(resolution: MetricResolution, day: string): Promise<MetricBucket[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(resolution, day), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const buckets: MetricBucket[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = MetricBucketSchema.safeParse(JSON.parse(line));
+        if (parsed.success) buckets.push(parsed.data);
+      } catch {
+        // A line cut short by a crash mid-append; the rest of the file is still usable
+      }
+    }
+    return buckets;
+  }
+
+  async append(buckets: MetricBucket[]): Promise<void> {
+    if (buckets.length === 0) return;
+
+    const files = new Map<string, string[]>();
+    for (const bucket of buckets) {
+      const file = this.filePath(bucket.resolution, dayOf(bucket.start));
+      files.set(file, [...(files.get(file) ?? []), JSON.stringify(bucket)]);
+    }
+
+    await this.enqueue(async () => {
+      for (const [file, lines] of files) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, `${lines.join('\n')}\n`, { encoding: 'utf8', mode: 0o600 });
+      }
+    });
+  }
+
+  async query({ node, vmid, resolution, from, to }: MetricBucketQuery): Promise<MetricBucket[]> {
+    const start = from.getTime();
+    const end = to.getTime();
+    const days: string[] = [];
+    for (let day = Math.floor(start / DAY_MS) * DAY_MS; day < end; day += DAY_MS) {
+      days.push(dayOf(day));
+    }
+
+    const buckets = await this.enqueue(async () => {
+      const perDay = await Promise.all(days.map((day) => this.readDay(resolution, day)));
+      return perDay.flat();
+    });
+
+    return coalesceBuckets(buckets.filter((bucket) =>
+      bucket.start >= start &&
+      bucket.start < end &&
+      (vmid === undefined ? bucket.vmid === undefined && bucket.node === node : bucket.vmid === vmid)
+    ));
+  }
+
+  async prune(now = new Date()): Promise<void> {
+    await this.enqueue(async () => {
+      for (const resolution of METRIC_RESOLUTIONS) {
+        // Keep a day file while any of its buckets is still retained
+        const oldestKept = dayOf(now.getTime() - METRICS_RETENTION[resolution]);
+        let files: string[];
+        try {
+          files = await fs.readdir(path.join(this.root, resolution));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+          throw error;
+        }
+        for (const file of files) {
+          const day = path.basename(file, '.ndjson');
+          if (file.endsWith('.ndjson') && day < oldestKept) {
+            await fs.rm(path.join(this.root, resolution, file), { force: true });
+          }
+        }
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+}
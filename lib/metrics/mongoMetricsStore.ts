@@ -0,0 +1,91 @@
+import { MongoClient } from 'mongodb';
+import type { Collection, Document } from 'mongodb';
+import { METRICS_RETENTION } from '@/lib/constants';
+import { MetricBucketSchema } from '@/lib/types';
+import type { MetricBucket } from '@/lib/types';
+import { coalesceBuckets, METRIC_RESOLUTIONS } from './rollup';
+import type { MetricBucketQuery, MetricsStore } from './store';
+
+const COLLECTION_NAME = 'metrics';
+
+// Parsing strips _id and expiresAt
+function toBucket(doc: Document): MetricBucket | null {
+  const parsed = MetricBucketSchema.safeParse(doc);
+  return parsed.success ? parsed.data : null;
+}
+
+// Undefined fields are left out
+function toDocument(bucket: MetricBucket): Document {
+  return Object.fromEntries(Object.entries(bucket).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * MongoDB-backed metrics store for shared deployments.
+ *
+ * Each bucket is one document; a TTL index on `expiresAt` lets MongoDB
+ * expire buckets on its own, and `prune` catches up when the TTL monitor lags.
+ */
+export class MongoMetricsStore implements MetricsStore {
+  private client: MongoClient | null = null;
+  private ready: Promise<Collection<Document>> | null = null;
+
+  constructor(private readonly uri: string, private readonly dbName: string) {}
+
+  private collection(): Promise<Collection<Document>> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const client = new MongoClient(this.uri);
+        await client.connect();
+        this.client = client;
+        const collection = client.db(this.dbName).collection(COLLECTION_NAME);
+        await collection.createIndex({ resolution: 1, vmid: 1, node: 1, start: 1 });
+        await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        return collection;
+      })().catch((error) => {
+        // Allow a later call to retry the connection
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async append(buckets: MetricBucket[]): Promise<void> {
+    if (buckets.length === 0) return;
+    const collection = await this.collection();
+    await collection.insertMany(buckets.map((bucket) => ({
+      ...toDocument(bucket),
+      expiresAt: new Date(bucket.start + METRICS_RETENTION[bucket.resolution]),
+    })));
+  }
+
+  async query({ node, vmid, resolution, from, to }: MetricBucketQuery): Promise<MetricBucket[]> {
+    const collection = await this.collection();
+    const docs = await collection
+      .find({
+        resolution,
+        ...(vmid === undefined ? { node, vmid: { $exists: false } } : { vmid }),
+        start: { $gte: from.getTime(), $lt: to.getTime() },
+      })
+      .sort({ start: 1, _id: 1 })
+      .toArray();
+    return coalesceBuckets(docs.map(toBucket).filter((bucket): bucket is MetricBucket => bucket !== null));
+  }
+
+  async prune(now = new Date()): Promise<void> {
+    const collection = await this.collection();
+    await collection.deleteMany({
+      $or: METRIC_RESOLUTIONS.map((resolution) => ({
+        resolution,
+        start: { $lt: now.getTime() - METRICS_RETENTION[resolution] },
+      })),
+    });
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.ready = null;
+    await client?.close();
+  }
+}
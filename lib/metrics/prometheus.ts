@@ -0,0 +1,214 @@
+import type { ProxmoxClient } from '@/lib/proxmox/client';
+import { AlertSeveritySchema } from '@/lib/types';
+import type { Alert, BackupJob, ClusterSummary, ServiceStatus, VmList } from '@/lib/types';
+
+/**
+ * OpenMetrics rendering of what the dashboard knows about a cluster, for
+ * Prometheus to scrape from /api/metrics/prometheus.
+ *
+ * Every metric is a gauge prefixed with `pve_`. Sections other than the
+ * cluster summary are optional: when one fails to load it is left out and
+ * `pve_exporter_collector_success` reports it as 0.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type PrometheusSnapshot = {
+  summary: ClusterSummary;
+  vms?: VmList;
+  backups?: BackupJob[];
+  services?: { node: string; services: ServiceStatus[] }[];
+  /** Firing alerts of the alert engine */
+  alerts?: Alert[];
+  /** Whether each optional section loaded */
+  collectors: Record<string, boolean>;
+};
+
+type Labels = Record<string, string | number | undefined>;
+type Sample = { labels?: Labels; value: number | boolean };
+
+type MetricFamily = {
+  name: string;
+  help: string;
+  unit?: string;
+  samples: Sample[];
+};
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+// Undefined labels are left out rather than rendered empty
+function formatLabels(labels: Labels = {}): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number | boolean): string {
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
+
+function renderFamily({ name, help, unit, samples }: MetricFamily): string {
+  const lines = [`# TYPE ${name} gauge`];
+  if (unit) lines.push(`# UNIT ${name} ${unit}`);
+  lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+  samples.forEach(({ labels, value }) => lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`));
+  return lines.join('\n');
+}
+
+/** Samples for the items that have a value, skipping the rest */
+function samplesOf<T>(items: T[], labels: (item: T) => Labels, value: (item: T) => number | boolean | undefined): Sample[] {
+  return items.flatMap((item) => {
+    const v = value(item);
+    return v === undefined ? [] : [{ labels: labels(item), value: v }];
+  });
+}
+
+const toSeconds = (date?: Date) => (date instanceof Date ? date.getTime() / 1000 : undefined);
+
+function nodeFamilies({ nodes }: ClusterSummary): MetricFamily[] {
+  const labels = (node: ClusterSummary['nodes'][number]) => ({ node: node.node });
+  return [
+    { name: 'pve_node_up', help: 'Whether the node is online', samples: samplesOf(nodes, labels, (node) => node.status === 'online') },
+    { name: 'pve_node_cpu_usage_ratio', help: 'Node CPU usage', unit: 'ratio', samples: samplesOf(nodes, labels, (node) => node.cpu) },
+    { name: 'pve_node_cpu_count', help: 'Node logical CPUs', samples: samplesOf(nodes, labels, (node) => node.maxcpu) },
+    { name: 'pve_node_memory_used_bytes', help: 'Node memory in use', unit: 'bytes', samples: samplesOf(nodes, labels, (node) => node.memory?.used) },
+    { name: 'pve_node_memory_total_bytes', help: 'Node memory size', unit: 'bytes', samples: samplesOf(nodes, labels, (node) => node.memory?.total) },
+    { name: 'pve_node_storage_used_bytes', help: 'Node root storage in use', unit: 'bytes', samples: samplesOf(nodes, labels, (node) => node.storage?.used) },
+    { name: 'pve_node_storage_total_bytes', help: 'Node root storage size', unit: 'bytes', samples: samplesOf(nodes, labels, (node) => node.storage?.total) },
+    { name: 'pve_node_uptime_seconds', help: 'Node uptime', unit: 'seconds', samples: samplesOf(nodes, labels, (node) => node.uptime) },
+    {
+      name: 'pve_node_load_average',
+      help: 'Node load average over the period',
+      samples: nodes.flatMap((node) => (['1m', '5m', '15m'] as const).flatMap((period, index) =>
+        node.loadavg ? [{ labels: { node: node.node, period }, value: node.loadavg[index] }] : []
+      )),
+    },
+  ];
+}
+
+function guestFamilies({ vms }: VmList): MetricFamily[] {
+  const guests = vms.filter((vm) => !vm.template);
+  const labels = (vm: VmList['vms'][number]) => ({ vmid: vm.vmid, node: vm.node, type: vm.type });
+  return [
+    {
+      name: 'pve_guest_info',
+      help: 'Guest metadata; always 1',
+      samples: guests.map((vm) => ({ labels: { ...labels(vm), name: vm.name, status: vm.status, tags: vm.tags }, value: 1 })),
+    },
+    { name: 'pve_guest_up', help: 'Whether the guest is running', samples: samplesOf(guests, labels, (vm) => vm.status === 'running') },
+    { name: 'pve_guest_cpu_usage_ratio', help: 'Guest CPU usage of its allocated CPUs', unit: 'ratio', samples: samplesOf(guests, labels, (vm) => vm.cpu) },
+    { name: 'pve_guest_cpu_count', help: 'Guest allocated CPUs', samples: samplesOf(guests, labels, (vm) => vm.maxcpu) },
+    { name: 'pve_guest_memory_used_bytes', help: 'Guest memory in use', unit: 'bytes', samples: samplesOf(guests, labels, (vm) => vm.memory?.used) },
+    { name: 'pve_guest_memory_total_bytes', help: 'Guest allocated memory', unit: 'bytes', samples: samplesOf(guests, labels, (vm) => vm.memory?.max) },
+    { name: 'pve_guest_disk_used_bytes', help: 'Guest disk in use', unit: 'bytes', samples: samplesOf(guests, labels, (vm) => vm.disk?.used) },
+    { name: 'pve_guest_disk_total_bytes', help: 'Guest allocated disk', unit: 'bytes', samples: samplesOf(guests, labels, (vm) => vm.disk?.max) },
+    { name: 'pve_guest_uptime_seconds', help: 'Guest uptime', unit: 'seconds', samples: samplesOf(guests, labels, (vm) => vm.uptime) },
+  ];
+}
+
+function backupFamilies(backups: BackupJob[]): MetricFamily[] {
+  const labels = (job: BackupJob) => ({ id: job.id, vmid: job.vmid, node: job.node, type: job.type });
+  return [
+    {
+      name: 'pve_backup_job_status',
+      help: 'Backup job state; 1 for the current status',
+      samples: backups.map((job) => ({ labels: { ...labels(job), status: job.status }, value: 1 })),
+    },
+    { name: 'pve_backup_job_failed', help: 'Whether the backup job failed', samples: samplesOf(backups, labels, (job) => job.status === 'failed') },
+    { name: 'pve_backup_job_size_bytes', help: 'Backup size', unit: 'bytes', samples: samplesOf(backups, labels, (job) => job.size) },
+    { name: 'pve_backup_job_start_timestamp_seconds', help: 'Backup start time', unit: 'seconds', samples: samplesOf(backups, labels, (job) => toSeconds(job.startTime)) },
+    { name: 'pve_backup_job_end_timestamp_seconds', help: 'Backup end time', unit: 'seconds', samples: samplesOf(backups, labels, (job) => toSeconds(job.endTime)) },
+  ];
+}
+
+function serviceFamilies(nodes: { node: string; services: ServiceStatus[] }[]): MetricFamily[] {
+  const services = nodes.flatMap(({ node, services }) => services.map((service) => ({ node, service })));
+  const labels = ({ node, service }: (typeof services)[number]) => ({ node, service: service.name });
+  return [
+    {
+      name: 'pve_service_status',
+      help: 'Service state; 1 for the current status',
+      samples: services.map((entry) => ({ labels: { ...labels(entry), status: entry.service.status }, value: 1 })),
+    },
+    { name: 'pve_service_active', help: 'Whether the service is active', samples: samplesOf(services, labels, ({ service }) => service.status === 'active') },
+    { name: 'pve_service_enabled', help: 'Whether the service starts at boot', samples: samplesOf(services, labels, ({ service }) => service.enabled) },
+  ];
+}
+
+function alertFamilies(alerts: Alert[]): MetricFamily[] {
+  // Every severity is always present so alerting rules see 0 instead of no data
+  const count = (severity: string, acknowledged: boolean) =>
+    alerts.filter((alert) => alert.severity === severity && alert.acknowledged === acknowledged).length;
+  return [{
+    name: 'pve_alerts_active',
+    help: 'Firing alerts of the dashboard alert engine',
+    samples: AlertSeveritySchema.options.flatMap((severity) => [false, true].map((acknowledged) => ({
+      labels: { severity, acknowledged: String(acknowledged) },
+      value: count(severity, acknowledged),
+    }))),
+  }];
+}
+
+/**
+ * Render a snapshot in the OpenMetrics text format.
+ */
+export function renderOpenMetrics(snapshot: PrometheusSnapshot): string {
+  const families = [
+    ...nodeFamilies(snapshot.summary),
+    ...(snapshot.vms ? guestFamilies(snapshot.vms) : []),
+    ...(snapshot.backups ? backupFamilies(snapshot.backups) : []),
+    ...(snapshot.services ? serviceFamilies(snapshot.services) : []),
+    ...(snapshot.alerts ? alertFamilies(snapshot.alerts) : []),
+    {
+      name: 'pve_exporter_collector_success',
+      help: 'Whether the section loaded on the last scrape',
+      samples: Object.entries(snapshot.collectors).map(([collector, ok]) => ({ labels: { collector }, value: ok })),
+    },
+  ].filter((family) => family.samples.length > 0);
+
+  return `${families.map(renderFamily).join('\n')}\n# EOF\n`;
+}
+
+// A failed section is logged and left out of the scrape
+async function optional<T>(collector: string, collectors: Record<string, boolean>, load: () => Promise<T>): Promise<T | undefined> {
+  try {
+    const value = await load();
+    collectors[collector] = true;
+    return value;
+  } catch (error) {
+    console.warn(`prometheus: failed to collect ${collector}:`, error instanceof Error ? error.message : error);
+    collectors[collector] = false;
+    return undefined;
+  }
+}
+
+/**
+ * Load everything the exporter renders. The cluster summary is required;
+ * `loadAlerts` is omitted for servers the alert engine does not evaluate.
+ */
+export async function collectPrometheusSnapshot(
+  client: ProxmoxClient,
+  loadAlerts?: () => Promise<Alert[]>,
+  signal?: AbortSignal,
+): Promise<PrometheusSnapshot> {
+  const summary = await client.getClusterSummary(signal);
+  const collectors: Record<string, boolean> = {};
+  const onlineNodes = summary.nodes.filter((node) => node.status === 'online').map((node) => node.node);
+
+  const [vms, backups, services, alerts] = await Promise.all([
+    optional('guests', collectors, () => client.getVmList(signal)),
+    optional('backups', collectors, () => client.getBackupJobs(undefined, signal)),
+    optional('services', collectors, () => Promise.all(onlineNodes.map(async (node) => ({
+      node,
+      services: await client.getServiceStatus(node, signal),
+    })))),
+    loadAlerts ? optional('alerts', collectors, loadAlerts) : Promise.resolve(undefined),
+  ]);
+
+  return { summary, vms, backups, services, alerts, collectors };
+}
@@ -0,0 +1,128 @@
+import { METRICS_RETENTION } from '@/lib/constants';
+import type { MetricAggregate, MetricBucket, MetricResolution, MetricUsageAggregate } from '@/lib/types';
+
+/**
+ * Roll-up of raw metric samples into fixed-size buckets.
+ *
+ * Every bucket keeps min, max and average per metric along with the number
+ * of samples behind them, so buckets of the same subject and period merge
+ * into the exact aggregate of all their samples: fine buckets roll up into
+ * coarse ones without going back to the raw samples.
+ */
+
+/** One reading of a node or guest */
+export type MetricSample = {
+  node: string;
+  vmid?: number;
+  /** Epoch milliseconds */
+  timestamp: number;
+  cpu?: number;
+  memory?: { used: number; total: number };
+  storage?: { used: number; total: number };
+};
+
+export const METRIC_RESOLUTIONS: MetricResolution[] = ['1m', '15m', '1h'];
+
+export const RESOLUTION_MS: Record<MetricResolution, number> = {
+  '1m': 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+/** Guests are keyed by vmid alone so their series survive migrations */
+export const subjectKey = (subject: { node: string; vmid?: number }) =>
+  subject.vmid === undefined ? `node:${subject.node}` : `vm:${subject.vmid}`;
+
+export const bucketStart = (timestamp: number, resolution: MetricResolution) =>
+  Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+
+function mergeAggregate(a: MetricAggregate | undefined, b: MetricAggregate | undefined): MetricAggregate | undefined {
+  if (!a || !b) return a ?? b;
+  const count = a.count + b.count;
+  return {
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max),
+    avg: (a.avg * a.count + b.avg * b.count) / count,
+    count,
+  };
+}
+
+// The capacity of the later bucket wins
+function mergeUsage(a: MetricUsageAggregate | undefined, b: MetricUsageAggregate | undefined): MetricUsageAggregate | undefined {
+  const merged = mergeAggregate(a, b);
+  return merged && { ...merged, total: (b ?? a)!.total };
+}
+
+/**
+ * Merge two buckets of the same subject, resolution and start; `b` is the later one.
+ */
+export function mergeBuckets(a: MetricBucket, b: MetricBucket): MetricBucket {
+  return {
+    ...a,
+    node: b.node,
+    cpu: mergeAggregate(a.cpu, b.cpu),
+    memory: mergeUsage(a.memory, b.memory),
+    storage: mergeUsage(a.storage, b.storage),
+  };
+}
+
+function sampleBucket(sample: MetricSample, resolution: MetricResolution): MetricBucket {
+  const single = (value: number): MetricAggregate => ({ min: value, max: value, avg: value, count: 1 });
+  return {
+    node: sample.node,
+    vmid: sample.vmid,
+    resolution,
+    start: bucketStart(sample.timestamp, resolution),
+    cpu: sample.cpu === undefined ? undefined : single(sample.cpu),
+    memory: sample.memory && { ...single(sample.memory.used), total: sample.memory.total },
+    storage: sample.storage && { ...single(sample.storage.used), total: sample.storage.total },
+  };
+}
+
+/**
+ * Merge buckets sharing a subject, resolution and start, ordered by subject then start.
+ * Input order decides which capacity wins, so pass buckets oldest first.
+ */
+export function coalesceBuckets(buckets: MetricBucket[]): MetricBucket[] {
+  const merged = new Map<string, MetricBucket>();
+  for (const bucket of buckets) {
+    const key = `${subjectKey(bucket)}|${bucket.resolution}|${bucket.start}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? mergeBuckets(existing, bucket) : bucket);
+  }
+  return [...merged.values()].sort((a, b) =>
+    subjectKey(a).localeCompare(subjectKey(b)) || a.resolution.localeCompare(b.resolution) || a.start - b.start
+  );
+}
+
+/**
+ * Aggregate samples into buckets of the given resolution.
+ */
+export function rollup(samples: MetricSample[], resolution: MetricResolution): MetricBucket[] {
+  const ordered = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  return coalesceBuckets(ordered.map((sample) => sampleBucket(sample, resolution)));
+}
+
+/**
+ * Re-aggregate finer buckets into buckets of a coarser resolution.
+ */
+export function rollupBuckets(buckets: MetricBucket[], resolution: MetricResolution): MetricBucket[] {
+  return coalesceBuckets(
+    [...buckets]
+      .sort((a, b) => a.start - b.start)
+      .map((bucket) => ({ ...bucket, resolution, start: bucketStart(bucket.start, resolution) }))
+  );
+}
+
+/**
+ * Finest resolution still retained at `from` that covers the range in at
+ * most `METRICS_RETENTION.MAX_POINTS` buckets; hourly buckets otherwise.
+ */
+export function chooseResolution(from: Date, to: Date, now = new Date()): MetricResolution {
+  const span = to.getTime() - from.getTime();
+  const found = METRIC_RESOLUTIONS.find((resolution) =>
+    from.getTime() >= now.getTime() - METRICS_RETENTION[resolution] &&
+    span / RESOLUTION_MS[resolution] <= METRICS_RETENTION.MAX_POINTS
+  );
+  return found ?? '1h';
+}
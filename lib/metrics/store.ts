@@ -0,0 +1,50 @@
+import path from 'path';
+import { env } from '../../env/index';
+import type { MetricBucket, MetricResolution } from '@/lib/types';
+
+export type MetricBucketQuery = {
+  /** Required for node series; guests are found by vmid on any node */
+  node?: string;
+  /** Guest series when set; the node's own series otherwise */
+  vmid?: number;
+  resolution: MetricResolution;
+  from: Date;
+  to: Date;
+};
+
+/**
+ * Storage for the buckets written by the metrics collector.
+ *
+ * Buckets are append-only. The same subject, resolution and start may be
+ * written more than once (by several dashboards sharing one store), so
+ * queries return them merged with `coalesceBuckets`.
+ */
+export interface MetricsStore {
+  append(buckets: MetricBucket[]): Promise<void>;
+  /** Buckets starting within [from, to), oldest first */
+  query(query: MetricBucketQuery): Promise<MetricBucket[]>;
+  /** Drop buckets past their resolution's retention */
+  prune(now?: Date): Promise<void>;
+  close(): Promise<void>;
+}
+
+let store: MetricsStore | null = null;
+
+/**
+ * Store selected by METRICS_STORE ("file" or "mongo").
+ */
+export function getMetricsStore(): MetricsStore {
+  if (store) return store;
+
+  const e = env.get();
+  if (e.METRICS_STORE === 'mongo') {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { MongoMetricsStore } = require('./mongoMetricsStore') as typeof import('./mongoMetricsStore');
+    store = new MongoMetricsStore(e.MONGODB_URI!, e.MONGODB_DB);
+  } else {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { FileMetricsStore } = require('./fileMetricsStore') as typeof import('./fileMetricsStore');
+    store = new FileMetricsStore(path.resolve(process.cwd(), e.METRICS_STORE_PATH));
+  }
+  return store;
+}
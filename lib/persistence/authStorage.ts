@@ -1,12 +1,58 @@
 import { idbGet, idbPut, idbDel, idbClear } from './indexedDb';
+import { getSecretKey, deleteSecretKey, encryptSecret, decryptSecret } from './crypto';
+import type { EncryptedSecret } from './crypto';
+import { policies } from './policies';
 import { PersistErrorCode } from './types';
 
 const PROFILE_KEY = 'profile';
 const SECRET_PASSWORD_KEY = 'secret_password';
 
-export async function saveProfile(profile: any): Promise<PersistErrorCode | null> {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored values carry their expiry next to the data
+interface StoredEntry<T> {
+  version: 1;
+  value: T;
+  savedAt: number;
+  expiresAt: number;
+}
+
+class PersistError extends Error {
+  constructor(readonly code: PersistErrorCode) {
+    super(code);
+  }
+}
+
+const toErrorCode = (e: unknown) => (e instanceof PersistError ? e.code : PersistErrorCode.UNKNOWN_ERROR);
+
+async function orFail<T>(operation: () => Promise<T>, code: PersistErrorCode): Promise<T> {
+  try {
+    return await operation();
+  } catch {
+    throw new PersistError(code);
+  }
+}
+
+function wrap<T>(value: T, ttlDays: number): StoredEntry<T> {
+  const savedAt = Date.now();
+  return { version: 1, value, savedAt, expiresAt: savedAt + ttlDays * DAY_MS };
+}
+
+function isStoredEntry(value: unknown): value is StoredEntry<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as StoredEntry<unknown>).version === 1 &&
+    typeof (value as StoredEntry<unknown>).expiresAt === 'number' &&
+    'value' in value
+  );
+}
+
+const isExpired = (entry: StoredEntry<unknown>) => entry.expiresAt <= Date.now();
+
+export async function saveProfile(profile: any, ttlDays: number = policies.defaultTtlDays): Promise<PersistErrorCode | null> {
   try {
-    await idbPut(PROFILE_KEY, profile);
+    await idbPut(PROFILE_KEY, wrap(profile, ttlDays));
     return null;
   } catch (e) {
     return PersistErrorCode.UNKNOWN_ERROR;
@@ -15,11 +61,20 @@ export async function saveProfile(profile: any): Promise<PersistErrorCode | null
 
 export async function loadProfile(): Promise<{ profile: any | null; error?: PersistErrorCode }> {
   try {
-    const profile = await idbGet<any>(PROFILE_KEY);
-    if (profile === undefined) {
+    const stored = await idbGet<unknown>(PROFILE_KEY);
+    if (stored === undefined) {
       return { profile: null };
     }
-    return { profile };
+    if (!isStoredEntry(stored)) {
+      // Profile saved before expiry metadata existed: keep it and start its TTL now
+      await saveProfile(stored);
+      return { profile: stored };
+    }
+    if (isExpired(stored)) {
+      await idbDel(PROFILE_KEY);
+      return { profile: null, error: PersistErrorCode.TTL_EXPIRED };
+    }
+    return { profile: stored.value };
   } catch (e) {
     return { profile: null, error: PersistErrorCode.UNKNOWN_ERROR };
   }
@@ -34,30 +89,58 @@ export async function clearProfile(): Promise<PersistErrorCode | null> {
   }
 }
 
-export async function saveSecretPassword(password: string): Promise<PersistErrorCode | null> {
+/**
+ * Store the password encrypted with AES-GCM under the device key (see crypto.ts).
+ */
+export async function saveSecretPassword(
+  password: string,
+  ttlDays: number = policies.defaultSecretTtlDays
+): Promise<PersistErrorCode | null> {
   try {
-    await idbPut(SECRET_PASSWORD_KEY, password);
+    const key = await getSecretKey();
+    const secret = await orFail(() => encryptSecret(key, password), PersistErrorCode.ENCRYPTION_FAILED);
+    await idbPut(SECRET_PASSWORD_KEY, wrap(secret, ttlDays));
     return null;
   } catch (e) {
-    return PersistErrorCode.UNKNOWN_ERROR;
+    return toErrorCode(e);
   }
 }
 
 export async function loadSecretPassword(): Promise<{ password: string | null; error?: PersistErrorCode }> {
   try {
-    const password = await idbGet<string>(SECRET_PASSWORD_KEY);
-    if (password === undefined) {
+    const stored = await idbGet<unknown>(SECRET_PASSWORD_KEY);
+    if (stored === undefined) {
       return { password: null };
     }
-    return { password };
+    if (typeof stored === 'string') {
+      // Plaintext left by earlier versions: encrypt it in place
+      await saveSecretPassword(stored);
+      return { password: stored };
+    }
+    if (!isStoredEntry(stored) || isExpired(stored)) {
+      await idbDel(SECRET_PASSWORD_KEY);
+      return {
+        password: null,
+        error: isStoredEntry(stored) ? PersistErrorCode.TTL_EXPIRED : PersistErrorCode.DECRYPTION_FAILED,
+      };
+    }
+
+    const key = await getSecretKey();
+    try {
+      return { password: await decryptSecret(key, stored.value as EncryptedSecret) };
+    } catch {
+      // Wrong key (e.g. it was cleared) or corrupted data: the secret is unusable
+      await idbDel(SECRET_PASSWORD_KEY);
+      return { password: null, error: PersistErrorCode.DECRYPTION_FAILED };
+    }
   } catch (e) {
-    return { password: null, error: PersistErrorCode.UNKNOWN_ERROR };
+    return { password: null, error: toErrorCode(e) };
   }
 }
 
 export async function clearSecrets(): Promise<PersistErrorCode | null> {
   try {
-    await idbDel(SECRET_PASSWORD_KEY);
+    await Promise.all([idbDel(SECRET_PASSWORD_KEY), deleteSecretKey()]);
     return null;
   } catch (e) {
     return PersistErrorCode.UNKNOWN_ERROR;
@@ -66,9 +149,9 @@ export async function clearSecrets(): Promise<PersistErrorCode | null> {
 
 export async function clearAll(): Promise<PersistErrorCode | null> {
   try {
-    await Promise.all([idbDel(PROFILE_KEY), idbDel(SECRET_PASSWORD_KEY)]);
+    await Promise.all([idbDel(PROFILE_KEY), idbDel(SECRET_PASSWORD_KEY), deleteSecretKey()]);
     return null;
   } catch (e) {
     return PersistErrorCode.UNKNOWN_ERROR;
   }
-}
\ No newline at end of file
+}
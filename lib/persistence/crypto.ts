@@ -0,0 +1,46 @@
+import { idbGet, idbPut, idbDel } from './indexedDb';
+
+const SECRET_KEY = 'secret_key';
+const IV_BYTES = 12;
+
+export interface EncryptedSecret {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('WebCrypto is not available in this context');
+  }
+  return subtle;
+}
+
+/**
+ * AES-GCM key used for stored secrets. Generated once and kept in IndexedDB as a
+ * non-extractable CryptoKey, so the raw key material never reaches JavaScript.
+ */
+export async function getSecretKey(): Promise<CryptoKey> {
+  const stored = await idbGet<CryptoKey>(SECRET_KEY);
+  if (typeof CryptoKey !== 'undefined' && stored instanceof CryptoKey) {
+    return stored;
+  }
+  const key = await getSubtle().generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await idbPut(SECRET_KEY, key);
+  return key;
+}
+
+export async function deleteSecretKey(): Promise<void> {
+  await idbDel(SECRET_KEY);
+}
+
+export async function encryptSecret(key: CryptoKey, plaintext: string): Promise<EncryptedSecret> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await getSubtle().encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv, data };
+}
+
+export async function decryptSecret(key: CryptoKey, secret: EncryptedSecret): Promise<string> {
+  const plaintext = await getSubtle().decrypt({ name: 'AES-GCM', iv: new Uint8Array(secret.iv) }, key, secret.data);
+  return new TextDecoder().decode(plaintext);
+}
@@ -1,10 +1,17 @@
 import { saveProfile, loadProfile, clearProfile, saveSecretPassword, loadSecretPassword, clearSecrets, clearAll } from './authStorage';
+import { policies } from './policies';
+import { PersistErrorCode } from './types';
 
 export async function onSaveClick(formValues: { profile: any; password?: string; rememberPassword?: boolean }): Promise<{ ok: boolean; code?: PersistErrorCode }> {
   const profileError = await saveProfile(formValues.profile);
   if (profileError) {
     return { ok: false, code: profileError };
   }
+  if (!policies.policyAllowPasswordRemember) {
+    // Remembering passwords is disabled: also drop any password stored before the policy changed
+    const clearError = await clearSecrets();
+    return clearError ? { ok: false, code: clearError } : { ok: true };
+  }
   if (formValues.rememberPassword && formValues.password) {
     const savePwdError = await saveSecretPassword(formValues.password);
     if (savePwdError) {
@@ -1,20 +1,71 @@
 import type { IncomingHttpHeaders } from "http";
-import { env } from "../../../env";
+import type { Dispatcher } from "undici";
 import type {
+  ConsoleUpstream,
+  MigrationTaskResult,
+  ProxmoxClient,
+  SnapshotTaskResult,
+  VmAction,
+  VmActionResult,
+} from "../client";
+import type {
+  BackupJob,
   ClusterSummary,
+  ConsoleTarget,
+  ConsoleTicket,
+  Snapshot,
+  SnapshotInput,
   EventMessage,
+  HistoricalMetricPoint,
+  HistoricalMetrics,
   MetricsSeries,
+  MigrationOptions,
+  MigrationPreflight,
   NodeSummary,
-  ProxmoxClient,
-} from "../client";
+  ServiceStatus,
+  StoragePool,
+  TaskLogLine,
+  TaskStatus,
+  TimeRange,
+  VmConfig,
+  VmConfigUpdate,
+  VmDisk,
+  VmList,
+  VmNic,
+  VmResource,
+  VmStatus,
+  VmType,
+} from "../../types";
+import {
+  BackupJobSchema,
+  ServiceStatusSchema,
+  TaskLogLineSchema,
+  validateHistoricalMetrics,
+  validateConsoleTicket,
+  validateSnapshots,
+  validateStoragePools,
+  validateTaskStatus,
+  validateVmConfig,
+  validateVmList,
+  validateVmResource,
+} from "../../types";
+import { getTicketAuth } from "../auth";
+import { evaluateMigration } from "../migration";
+import { tlsDispatcher } from "../tls";
+import type { DispatcherRequestInit } from "../tls";
+import { createResourceEventTracker } from "../../events/resourceEvents";
 
 /**
  * HTTPS adapter for Proxmox API.
- * Uses token-based auth:
- * - Header: Authorization: PVEAPIToken=<tokenid>=<tokensecret>
+ * Supports two auth modes:
+ * - API token: Authorization: PVEAPIToken=<tokenid>=<tokensecret>
+ * - Ticket: username/password (+ optional TOTP secret) exchanged for a
+ *   PVEAuthCookie, renewed before expiry; see ../auth.ts.
+ * A token wins when both are configured.
  *
  * Notes:
- * - For self-signed certs in development, set PROXMOX_INSECURE_TLS=true.
+ * - For self-signed certs in development, set PROXMOX_INSECURE_TLS=true; only
+ *   requests to that server skip certificate checks.
  * - Proxmox API base paths generally start with /api2/json.
  */
 
@@ -22,6 +73,9 @@ type HttpsClientOptions = {
   baseUrl: string;
   tokenId?: string;
   tokenSecret?: string;
+  username?: string;
+  password?: string;
+  totpSecret?: string;
   insecureTLS?: boolean;
   cacheTtlMs?: number;
   pollIntervalMs?: number;
@@ -32,18 +86,88 @@ function authHeader(tokenId?: string, tokenSecret?: string): string | undefined
   return `PVEAPIToken=${tokenId}=${tokenSecret}`;
 }
 
+/**
+ * Non-2xx answer from the Proxmox API.
+ */
+export class ProxmoxHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ProxmoxHttpError";
+  }
+}
+
 // Simple in-memory cache for small responses
 const memoryCache = new Map<string, { data: unknown; exp: number }>();
 
-async function httpGetJSON<T>(url: string, headers: Record<string, string>): Promise<T> {
-  const res = await fetch(url, {
+type FormParams = Record<string, string | number | boolean | undefined>;
+
+async function httpGetJSON<T>(
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+  dispatcher?: Dispatcher,
+): Promise<T> {
+  const init: DispatcherRequestInit = {
     headers,
+    signal,
     // cache: "no-store" to avoid Next's fetch cache here; we manage our own TTL
     cache: "no-store",
-  });
+    dispatcher,
+  };
+  const res = await fetch(url, init);
+  return readProxmoxPayload<T>(res, url);
+}
+
+/**
+ * POST with form-encoded parameters, as expected by the Proxmox API.
+ * Booleans are sent as 1/0; undefined values are omitted.
+ */
+async function httpPostJSON<T>(
+  url: string,
+  headers: Record<string, string>,
+  params?: FormParams,
+  signal?: AbortSignal,
+  method: "POST" | "PUT" = "POST",
+  dispatcher?: Dispatcher,
+): Promise<T> {
+  const body = new URLSearchParams();
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value === undefined) continue;
+    body.set(key, typeof value === "boolean" ? (value ? "1" : "0") : String(value));
+  }
+  const init: DispatcherRequestInit = {
+    method,
+    headers: { ...headers, "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+    signal,
+    cache: "no-store",
+    dispatcher,
+  };
+  const res = await fetch(url, init);
+  return readProxmoxPayload<T>(res, url);
+}
+
+async function httpDeleteJSON<T>(
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+  dispatcher?: Dispatcher,
+): Promise<T> {
+  const init: DispatcherRequestInit = {
+    method: "DELETE",
+    headers,
+    signal,
+    cache: "no-store",
+    dispatcher,
+  };
+  const res = await fetch(url, init);
+  return readProxmoxPayload<T>(res, url);
+}
+
+async function readProxmoxPayload<T>(res: Response, url: string): Promise<T> {
   if (!res.ok) {
     const text = await res.text().catch(() => "");
-    throw new Error(`HTTP ${res.status} ${res.statusText} for ${url}: ${text}`);
+    throw new ProxmoxHttpError(`HTTP ${res.status} ${res.statusText} for ${url}: ${text}`, res.status);
   }
   // Proxmox wraps payload as { data: ... }
   const payload = (await res.json()) as { data: T } | T;
@@ -67,20 +191,561 @@ function setCached<T>(key: string, data: T, ttl: number) {
   memoryCache.set(key, { data, exp: Date.now() + ttl });
 }
 
+/**
+ * Raw guest entry as returned by /cluster/resources?type=vm.
+ */
+type PveVmResource = {
+  id: string;
+  type: string;
+  vmid: number;
+  node: string;
+  name?: string;
+  status?: string;
+  template?: number;
+  tags?: string;
+  cpu?: number;
+  maxcpu?: number;
+  mem?: number;
+  maxmem?: number;
+  disk?: number;
+  maxdisk?: number;
+  uptime?: number;
+};
+
+/**
+ * Raw payload of /nodes/{node}/{qemu|lxc}/{vmid}/status/current.
+ * Field names mirror /cluster/resources, except CPU count is `cpus` and
+ * QEMU guests report the finer-grained `qmpstatus`.
+ */
+type PveVmStatusCurrent = {
+  vmid?: number | string;
+  name?: string;
+  status?: string;
+  qmpstatus?: string;
+  template?: number;
+  tags?: string;
+  cpu?: number;
+  cpus?: number;
+  mem?: number;
+  maxmem?: number;
+  disk?: number;
+  maxdisk?: number;
+  uptime?: number;
+};
+
+/**
+ * Raw entry of /nodes/{node}/{qemu|lxc}/{vmid}/snapshot. The list ends with
+ * a `current` entry ("You are here!") whose parent is the active snapshot.
+ */
+type PveSnapshot = {
+  name: string;
+  description?: string;
+  parent?: string;
+  snaptime?: number;
+  vmstate?: number;
+};
+
+function mapSnapshot(raw: PveSnapshot): Snapshot {
+  const current = raw.name === "current";
+  return {
+    name: raw.name,
+    description: current ? undefined : raw.description?.trim() || undefined,
+    parent: raw.parent,
+    snaptime: raw.snaptime,
+    vmstate: raw.vmstate === 1,
+    current,
+  };
+}
+
+/**
+ * Raw payload of /nodes/{node}/{qemu|lxc}/{vmid}/config: flat keys whose
+ * values are numbers or Proxmox property strings (`key=value,key=value`).
+ */
+type PveVmConfig = Record<string, string | number | undefined> & { digest?: string };
+
+/**
+ * Raw entry of /nodes/{node}/{qemu|lxc}/{vmid}/pending. `pending` holds the
+ * value applied on the next restart; `delete` is set for removed settings.
+ */
+type PveVmPending = {
+  key: string;
+  value?: string | number;
+  pending?: string | number;
+  delete?: number;
+};
+
+const QEMU_DISK_KEY = /^(?:ide|sata|scsi|virtio|efidisk|tpmstate|unused)\d+$/;
+const LXC_DISK_KEY = /^(?:rootfs|mp\d+|unused\d+)$/;
+const NIC_KEY = /^net\d+$/;
+const IPCONFIG_KEY = /^ipconfig\d+$/;
+const QEMU_NIC_MODELS = ["virtio", "e1000", "e1000e", "rtl8139", "vmxnet3"];
+// Settings shown in their own section, or never sent to the browser
+const MAPPED_CONFIG_KEYS = new Set([
+  "name", "hostname", "cores", "sockets", "cpu", "memory", "balloon", "swap", "boot", "bootdisk",
+  "description", "tags", "onboot", "digest", "ciuser", "cipassword", "nameserver", "searchdomain", "sshkeys",
+]);
+const SECRET_CONFIG_KEYS = new Set(["cipassword"]);
+const LEGACY_BOOT_DEVICES: Record<string, string> = { c: "disk", d: "cdrom", n: "network" };
+const SIZE_UNITS: Record<string, number> = { K: 1024, M: 1024 ** 2, G: 1024 ** 3, T: 1024 ** 4 };
+
+/**
+ * Split a property string. A leading part without `=` (the volume of a
+ * disk) is returned under `""`.
+ */
+function parsePropertyString(value: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const part of value.split(",")) {
+    if (!part) continue;
+    const eq = part.indexOf("=");
+    if (eq === -1) result[""] = part;
+    else result[part.slice(0, eq)] = part.slice(eq + 1);
+  }
+  return result;
+}
+
+function parseSize(size?: string): number | undefined {
+  const match = size?.match(/^(\d+(?:\.\d+)?)([KMGT])?$/);
+  return match ? Math.round(parseFloat(match[1]) * (match[2] ? SIZE_UNITS[match[2]] : 1)) : undefined;
+}
+
+function mapVmDisk(id: string, value: string): VmDisk {
+  const { "": volume, volume: named, size, media, ...options } = parsePropertyString(value);
+  return { id, volume: volume ?? named ?? "", size: parseSize(size), media, options };
+}
+
+function mapVmNic(id: string, value: string, type: VmType): VmNic {
+  const { bridge, firewall, tag, hwaddr, ...rest } = parsePropertyString(value);
+  // QEMU writes the model as key of the MAC address (virtio=AA:BB:...)
+  const model = type === "qemu" ? QEMU_NIC_MODELS.find((m) => m in rest) : "veth";
+  const mac = type === "qemu" && model ? rest[model] : hwaddr;
+  if (model) delete rest[model];
+  return {
+    id,
+    model,
+    mac,
+    bridge,
+    vlan: tag ? parseInt(tag, 10) : undefined,
+    firewall: firewall === "1",
+    options: rest,
+  };
+}
+
+function parseBootOrder(boot?: string): string[] {
+  if (!boot) return [];
+  const { order, "": legacy } = parsePropertyString(boot);
+  if (order) return order.split(";").filter(Boolean);
+  return (legacy ?? "").split("").map((c) => LEGACY_BOOT_DEVICES[c] ?? c);
+}
+
+function mapVmConfig(raw: PveVmConfig, pending: PveVmPending[], node: string, vmid: number, type: VmType): VmConfig {
+  const str = (key: string) => (raw[key] === undefined ? undefined : String(raw[key]));
+  const num = (key: string) => (raw[key] === undefined ? undefined : Number(raw[key]));
+  const diskKey = type === "qemu" ? QEMU_DISK_KEY : LXC_DISK_KEY;
+  // net2 after net10 otherwise; the container root disk comes first
+  const keys = Object.keys(raw).sort((a, b) =>
+    Number(b === "rootfs") - Number(a === "rootfs") || a.localeCompare(b, undefined, { numeric: true }));
+
+  const disks: VmDisk[] = [];
+  const nics: VmNic[] = [];
+  const ipconfig: Record<string, string> = {};
+  const options: Record<string, string> = {};
+  for (const key of keys) {
+    const value = str(key);
+    if (value === undefined) continue;
+    if (diskKey.test(key)) disks.push(mapVmDisk(key, value));
+    else if (NIC_KEY.test(key)) nics.push(mapVmNic(key, value, type));
+    else if (IPCONFIG_KEY.test(key)) ipconfig[key] = value;
+    else if (!MAPPED_CONFIG_KEYS.has(key)) options[key] = value;
+  }
+
+  const sshKeys = decodeURIComponent(str("sshkeys") ?? "").split("\n").filter((line) => line.trim()).length;
+  const hasCloudInit = type === "qemu" && (
+    disks.some((disk) => disk.volume.includes("cloudinit")) ||
+    ["ciuser", "nameserver", "searchdomain", "sshkeys"].some((key) => raw[key] !== undefined) ||
+    Object.keys(ipconfig).length > 0
+  );
+
+  const pendingChanges: Record<string, string> = {};
+  for (const entry of pending) {
+    if (SECRET_CONFIG_KEYS.has(entry.key)) continue;
+    if (entry.delete) pendingChanges[entry.key] = "";
+    else if (entry.pending !== undefined) pendingChanges[entry.key] = String(entry.pending);
+  }
+
+  return validateVmConfig({
+    vmid,
+    node,
+    type,
+    name: str(type === "qemu" ? "name" : "hostname"),
+    cores: num("cores") ?? (type === "qemu" ? 1 : undefined),
+    sockets: num("sockets") ?? 1,
+    cpuType: str("cpu") && parsePropertyString(str("cpu")!)[""],
+    memory: num("memory") ?? 512,
+    balloon: type === "qemu" ? num("balloon") : undefined,
+    swap: type === "lxc" ? num("swap") : undefined,
+    disks,
+    nics,
+    bootOrder: parseBootOrder(str("boot")),
+    cloudInit: hasCloudInit
+      ? { user: str("ciuser"), nameserver: str("nameserver"), searchdomain: str("searchdomain"), ipconfig, sshKeys }
+      : undefined,
+    description: str("description")?.trim() || undefined,
+    tags: (str("tags") ?? "").split(/[;,\s]+/).filter(Boolean),
+    onboot: raw.onboot === 1 || raw.onboot === "1",
+    options,
+    pending: pendingChanges,
+    digest: raw.digest,
+  });
+}
+
+/**
+ * Raw payload of GET /nodes/{node}/qemu/{vmid}/migrate?target=, the checks
+ * Proxmox runs itself before a migration. Containers have no equivalent.
+ */
+type PveMigratePreconditions = {
+  running?: number | boolean;
+  allowed_nodes?: string[];
+  not_allowed_nodes?: Record<string, { unavailable_storages?: string[] }>;
+  local_disks?: { volid: string; size?: number; cdrom?: number }[];
+  local_resources?: string[];
+};
+
+// Container volumes are `storage:volume`; anything else is a bind mount of a host path
+const storageOfVolume = (volume: string) => (volume.includes(":") && !volume.startsWith("/") ? volume.split(":")[0] : undefined);
+
+/**
+ * Raw payload of vncproxy/termproxy. `port` is a string on some versions.
+ */
+type PveConsoleProxy = {
+  port: number | string;
+  ticket: string;
+  user: string;
+  upid?: string;
+};
+
+// API path of the guest or node a console belongs to
+function consoleBasePath(target: ConsoleTarget): string {
+  const node = `/nodes/${encodeURIComponent(target.node)}`;
+  return target.type === "node" ? node : `${node}/${target.type}/${target.vmid}`;
+}
+
+const VM_STATUSES: readonly VmStatus[] = ["running", "stopped", "paused", "suspended", "template"];
+
+function toVmStatus(raw: { status?: string; qmpstatus?: string; template?: number }): VmStatus {
+  if (raw.template) return "template";
+  // qmpstatus distinguishes paused/suspended guests that /status reports as "running"
+  const candidate = raw.qmpstatus ?? raw.status;
+  return VM_STATUSES.includes(candidate as VmStatus) ? (candidate as VmStatus) : "stopped";
+}
+
+function positiveOrUndefined(n?: number): number | undefined {
+  return typeof n === "number" && n > 0 ? n : undefined;
+}
+
+function nonNegativeOrUndefined(n?: number): number | undefined {
+  return typeof n === "number" && n >= 0 ? n : undefined;
+}
+
+/**
+ * Proxmox stores tags separated by ";" — normalize to the comma-separated
+ * form used throughout the UI.
+ */
+function normalizeTags(tags?: string): string | undefined {
+  if (!tags) return undefined;
+  const list = tags.split(/[;,\s]+/).filter(Boolean);
+  return list.length ? list.join(",") : undefined;
+}
+
+function mapVmResource(
+  raw: PveVmStatusCurrent & { maxcpu?: number },
+  node: string,
+  vmid: number,
+  type: VmType,
+): VmResource {
+  return {
+    vmid,
+    name: raw.name || undefined,
+    type,
+    status: toVmStatus(raw),
+    node,
+    cpu: typeof raw.cpu === "number" ? Math.min(1, Math.max(0, raw.cpu)) : undefined,
+    maxcpu: positiveOrUndefined(raw.maxcpu ?? raw.cpus),
+    memory: {
+      used: nonNegativeOrUndefined(raw.mem),
+      max: positiveOrUndefined(raw.maxmem),
+    },
+    disk: {
+      used: nonNegativeOrUndefined(raw.disk),
+      max: positiveOrUndefined(raw.maxdisk),
+    },
+    uptime: nonNegativeOrUndefined(raw.uptime),
+    template: raw.template === 1,
+    tags: normalizeTags(raw.tags),
+  };
+}
+
+/**
+ * Raw payload of /nodes/{node}/tasks/{upid}/status.
+ */
+type PveTaskStatus = {
+  upid: string;
+  node: string;
+  type: string;
+  id?: string;
+  user?: string;
+  status: string;
+  exitstatus?: string;
+  starttime: number;
+  endtime?: number;
+};
+
+function mapTaskStatus(raw: PveTaskStatus): TaskStatus {
+  return validateTaskStatus({
+    upid: raw.upid,
+    node: raw.node,
+    type: raw.type,
+    id: raw.id || undefined,
+    user: raw.user,
+    status: raw.status === "running" ? "running" : "stopped",
+    exitstatus: raw.exitstatus,
+    startTime: raw.starttime * 1000,
+    endTime: raw.endtime ? raw.endtime * 1000 : undefined,
+  });
+}
+
+/**
+ * Raw entry of /cluster/tasks. Finished tasks carry `endtime` and report
+ * their exit status in `status`; running tasks have neither.
+ */
+type PveClusterTask = {
+  upid: string;
+  node: string;
+  type: string;
+  id?: string;
+  user?: string;
+  starttime: number;
+  endtime?: number;
+  status?: string;
+};
+
+function mapClusterTask(raw: PveClusterTask): TaskStatus {
+  const finished = typeof raw.endtime === "number";
+  return validateTaskStatus({
+    upid: raw.upid,
+    node: raw.node,
+    type: raw.type,
+    id: raw.id || undefined,
+    user: raw.user,
+    status: finished ? "stopped" : "running",
+    exitstatus: finished ? raw.status : undefined,
+    startTime: raw.starttime * 1000,
+    endTime: finished ? raw.endtime! * 1000 : undefined,
+  });
+}
+
+/**
+ * Run of a vzdump task as a backup job. Tasks backing up several guests at
+ * once carry no vmid and are left out, as they cannot be told apart per guest.
+ */
+function mapBackupTask(raw: PveClusterTask): BackupJob | null {
+  if (!raw.id || !/^\d+$/.test(raw.id)) return null;
+  const task = mapClusterTask(raw);
+  const failed = task.status === "stopped" && !/^(OK|WARNINGS)/.test(task.exitstatus ?? "");
+  return {
+    id: task.upid,
+    vmid: Number(raw.id),
+    node: task.node,
+    type: "vzdump",
+    status: task.status === "running" ? "running" : failed ? "failed" : "completed",
+    startTime: new Date(task.startTime),
+    endTime: task.endTime ? new Date(task.endTime) : undefined,
+    notes: failed ? task.exitstatus : undefined,
+  };
+}
+
+/**
+ * Raw entry of /cluster/backup: a scheduled backup job. Guests are listed in
+ * `vmid` as a comma separated list, or selected with `all` minus `exclude`.
+ */
+type PveBackupSchedule = {
+  id: string;
+  enabled?: number | boolean;
+  schedule?: string;
+  starttime?: string;
+  dow?: string;
+  node?: string;
+  vmid?: string;
+  all?: number | boolean;
+  exclude?: string;
+  storage?: string;
+  comment?: string;
+};
+
+const parseVmids = (list?: string) =>
+  new Set((list ?? "").split(",").map((id) => Number(id.trim())).filter((id) => Number.isInteger(id) && id > 0));
+
+/**
+ * Guests a scheduled backup job covers, one scheduled entry each.
+ */
+function mapBackupSchedule(raw: PveBackupSchedule, vms: VmResource[]): BackupJob[] {
+  if (raw.enabled === 0 || raw.enabled === false) return [];
+  const listed = parseVmids(raw.vmid);
+  const excluded = parseVmids(raw.exclude);
+  const schedule = raw.schedule ?? [raw.dow, raw.starttime].filter(Boolean).join(" ");
+  const notes = [schedule, raw.storage && `to ${raw.storage}`, raw.comment].filter(Boolean).join(", ");
+  return vms
+    .filter((vm) => !vm.template && (!raw.node || vm.node === raw.node))
+    .filter((vm) => (raw.all ? !excluded.has(vm.vmid) : listed.has(vm.vmid)))
+    .map((vm): BackupJob => ({
+      id: `${raw.id}:${vm.vmid}`,
+      vmid: vm.vmid,
+      node: vm.node,
+      type: "vzdump",
+      status: "scheduled",
+      notes: notes || undefined,
+    }));
+}
+
+/**
+ * Raw entry of /nodes/{node}/services. `state` is the unit's run state
+ * (running, stopped, ...); newer releases add the systemd active and unit
+ * states.
+ */
+type PveService = {
+  service?: string;
+  name?: string;
+  desc?: string;
+  state?: string;
+  "active-state"?: string;
+  "unit-state"?: string;
+};
+
+const SERVICE_STATES: Record<string, ServiceStatus["status"]> = {
+  active: "active",
+  running: "active",
+  inactive: "inactive",
+  stopped: "inactive",
+  dead: "inactive",
+  failed: "failed",
+};
+
+function mapService(raw: PveService): ServiceStatus {
+  return {
+    name: raw.service ?? raw.name ?? "unknown",
+    status: SERVICE_STATES[raw["active-state"] ?? raw.state ?? ""] ?? "unknown",
+    enabled: raw["unit-state"] === "enabled",
+    description: raw.desc || undefined,
+  };
+}
+
+/**
+ * One sample of /nodes/{node}/rrddata, /nodes/{node}/{qemu|lxc}/{vmid}/rrddata
+ * or /nodes/{node}/storage/{storage}/rrddata.
+ * Nodes report memused/memtotal, swap, the root filesystem and iowait; guests
+ * report mem/maxmem, disk/maxdisk and disk I/O; storage pools report
+ * used/total. Rates are bytes per second, and samples falling in a
+ * collection gap only carry `time`.
+ */
+type PveRrdSample = {
+  time: number;
+  cpu?: number;
+  iowait?: number;
+  memused?: number;
+  memtotal?: number;
+  mem?: number;
+  maxmem?: number;
+  swapused?: number;
+  swaptotal?: number;
+  rootused?: number;
+  roottotal?: number;
+  used?: number;
+  total?: number;
+  disk?: number;
+  maxdisk?: number;
+  netin?: number;
+  netout?: number;
+  diskread?: number;
+  diskwrite?: number;
+};
+
+/** Storage entry of /cluster/resources?type=storage */
+type PveStorageResource = {
+  storage?: string;
+  node?: string;
+  plugintype?: string;
+  shared?: number;
+  status?: string;
+  content?: string;
+  disk?: number;
+  maxdisk?: number;
+};
+
+// Span of each dashboard range and the shortest rrd timeframe covering it
+const RRD_TIME_RANGES: Record<TimeRange, { seconds: number; timeframe: string }> = {
+  "1h": { seconds: 3600, timeframe: "hour" },
+  "6h": { seconds: 6 * 3600, timeframe: "day" },
+  "24h": { seconds: 86400, timeframe: "day" },
+  "7d": { seconds: 7 * 86400, timeframe: "week" },
+  "30d": { seconds: 30 * 86400, timeframe: "month" },
+};
+
+function fraction(n?: number): number | undefined {
+  return typeof n === "number" ? Math.min(1, Math.max(0, n)) : undefined;
+}
+
+function usage(used?: number, total?: number): { used: number; total: number } | undefined {
+  const u = nonNegativeOrUndefined(used);
+  const t = positiveOrUndefined(total);
+  return u !== undefined && t !== undefined ? { used: u, total: t } : undefined;
+}
+
+function rates(a?: number, b?: number): [number, number] | undefined {
+  const x = nonNegativeOrUndefined(a);
+  const y = nonNegativeOrUndefined(b);
+  return x !== undefined && y !== undefined ? [x, y] : undefined;
+}
+
+function mapRrdSample(raw: PveRrdSample): HistoricalMetricPoint {
+  const network = rates(raw.netin, raw.netout);
+  const diskIo = rates(raw.diskread, raw.diskwrite);
+  return {
+    timestamp: raw.time * 1000,
+    cpu: fraction(raw.cpu),
+    memory: usage(raw.memused ?? raw.mem, raw.memtotal ?? raw.maxmem),
+    storage: usage(raw.rootused ?? raw.disk ?? raw.used, raw.roottotal ?? raw.maxdisk ?? raw.total),
+    network: network && { rx: network[0], tx: network[1] },
+    diskIo: diskIo && { read: diskIo[0], write: diskIo[1] },
+    iowait: fraction(raw.iowait),
+    swap: usage(raw.swapused, raw.swaptotal),
+  };
+}
+
+// Dashboard actions mapped to the /status/{command} endpoints of qemu and lxc guests
+const VM_ACTION_COMMANDS: Record<VmAction, string> = {
+  start: "start",
+  stop: "stop",
+  restart: "reboot",
+  pause: "suspend",
+  resume: "resume",
+  shutdown: "shutdown",
+  reset: "reset",
+};
+
 export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
   const {
     baseUrl,
     tokenId,
     tokenSecret,
+    username,
+    password,
+    totpSecret,
     insecureTLS = false,
     cacheTtlMs = 2000,
     pollIntervalMs = 5000,
   } = opts;
 
-  // In dev-only scenarios, allow skipping TLS verification globally for these requests.
-  if (insecureTLS) {
-    process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-  }
+  // Certificate checks are skipped for this server only, never process-wide
+  const dispatcher = tlsDispatcher(baseUrl, insecureTLS);
 
   const commonHeaders: Record<string, string> = {
     "Content-Type": "application/json",
@@ -90,18 +755,60 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
     commonHeaders.Authorization = auth;
   }
 
+  // Without a token, fall back to a ticket session shared across client instances
+  const ticketAuth = !auth && username && password
+    ? getTicketAuth({ baseUrl, username, password, totpSecret, insecureTLS })
+    : undefined;
+
   const api = (path: string) => `${baseUrl.replace(/\/+$/, "")}/api2/json${path}`;
 
+  // The response cache is shared by every client in the process; keep servers apart
+  const cacheScope = (key: string) => `${baseUrl}|${key}`;
+
+  async function request<T>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    path: string,
+    params?: FormParams,
+    signal?: AbortSignal,
+    isRetry = false,
+  ): Promise<T> {
+    const headers = ticketAuth
+      ? { ...commonHeaders, ...(await ticketAuth.getHeaders(method)) }
+      : commonHeaders;
+    try {
+      switch (method) {
+        case "GET": return await httpGetJSON<T>(api(path), headers, signal, dispatcher);
+        case "POST": return await httpPostJSON<T>(api(path), headers, params, signal, "POST", dispatcher);
+        case "PUT": return await httpPostJSON<T>(api(path), headers, params, signal, "PUT", dispatcher);
+        case "DELETE": return await httpDeleteJSON<T>(api(path), headers, signal, dispatcher);
+      }
+    } catch (error) {
+      // A 401 means the ticket was revoked (e.g. pveproxy restarted); log in again once
+      if (ticketAuth && !isRetry && error instanceof ProxmoxHttpError && error.status === 401) {
+        ticketAuth.invalidate();
+        return request<T>(method, path, params, signal, true);
+      }
+      throw error;
+    }
+  }
+
+  const apiGet = <T>(path: string, signal?: AbortSignal) => request<T>("GET", path, undefined, signal);
+  const apiPost = <T>(path: string, params?: FormParams, signal?: AbortSignal) =>
+    request<T>("POST", path, params, signal);
+  const apiPut = <T>(path: string, params?: FormParams, signal?: AbortSignal) =>
+    request<T>("PUT", path, params, signal);
+  const apiDelete = <T>(path: string, signal?: AbortSignal) => request<T>("DELETE", path, undefined, signal);
+
   async function getClusterSummary(signal?: AbortSignal): Promise<ClusterSummary> {
-    const cacheKey = "cluster-summary";
+    const cacheKey = cacheScope("cluster-summary");
     const cached = getCached<ClusterSummary>(cacheKey);
     if (cached) return cached;
 
     // Option A: cluster/status has online/offline and quorum info
     // Option B: nodes provides resource stats per node
     const [status, nodes] = await Promise.all([
-      httpGetJSON<any[]>(api("/cluster/status"), commonHeaders),
-      httpGetJSON<any[]>(api("/nodes"), commonHeaders),
+      apiGet<any[]>("/cluster/status", signal),
+      apiGet<any[]>("/nodes", signal),
     ]);
 
     const nodeMap: Record<string, NodeSummary> = {};
@@ -139,7 +846,7 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
   }
 
   async function getNodeMetrics(node: string, rangeSeconds: number, signal?: AbortSignal): Promise<MetricsSeries> {
-    const cacheKey = `metrics:${node}:${rangeSeconds}`;
+    const cacheKey = cacheScope(`metrics:${node}:${rangeSeconds}`);
     const cached = getCached<MetricsSeries>(cacheKey);
     if (cached) return cached;
 
@@ -151,21 +858,18 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
       : rangeSeconds <= 2592000 ? "month"
       : "year";
 
-    const params = new URLSearchParams({
-      timeframe,
-      ds: "cpu,mem",
-    });
+    const params = new URLSearchParams({ timeframe, cf: "AVERAGE" });
 
-    const data = await httpGetJSON<any[]>(api(`/nodes/${encodeURIComponent(node)}/rrddata?${params}`), commonHeaders);
+    const data = await apiGet<PveRrdSample[]>(`/nodes/${encodeURIComponent(node)}/rrddata?${params}`, signal);
 
-    // Each entry example: { time: 1712345678, cpu: 0.12, mem: 123456789, maxmem: 34359738368 }
+    // Each entry example: { time: 1712345678, cpu: 0.12, memused: 123456789, memtotal: 34359738368 }
     const series = data
       .filter((d) => typeof d.time === "number")
       .map((d) => ({
-        t: (d.time as number) * 1000,
+        t: d.time * 1000,
         cpu: typeof d.cpu === "number" ? d.cpu : 0,
-        memUsed: typeof d.mem === "number" ? d.mem : 0,
-        memTotal: typeof d.maxmem === "number" ? d.maxmem : 0,
+        memUsed: d.memused ?? d.mem ?? 0,
+        memTotal: d.memtotal ?? d.maxmem ?? 0,
       }))
       // Ensure ascending time
       .sort((a, b) => a.t - b.t);
@@ -178,9 +882,11 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
   async function* streamEvents(init?: { headers?: IncomingHttpHeaders }) {
     // Proxmox doesn't expose SSE directly; implement a polling-based synthetic stream:
     // - Periodically poll cluster summary and emit status diffs + heartbeat.
+    // - Diff guests and tasks between polls into vm-status, task and backup events.
     // - Consumers can treat as a stream.
     const interval = Math.max(1000, pollIntervalMs);
     let last: ClusterSummary | null = null;
+    const tracker = createResourceEventTracker();
 
     while (true) {
       try {
@@ -204,6 +910,10 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
           }
         }
         last = current;
+
+        const [{ vms }, tasks] = await Promise.all([getVmList(), getTasks()]);
+        yield* tracker.vms(vms);
+        yield* tracker.tasks(tasks);
       } catch (e: any) {
         yield { type: "error", message: e?.message ?? String(e) } as EventMessage;
       }
@@ -213,6 +923,383 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
     }
   }
 
+  async function getVmList(signal?: AbortSignal): Promise<VmList> {
+    const cacheKey = cacheScope("vm-list");
+    const cached = getCached<VmList>(cacheKey);
+    if (cached) return cached;
+
+    const resources = await apiGet<PveVmResource[]>("/cluster/resources?type=vm", signal);
+
+    const vms = resources
+      .filter((r) => r.type === "qemu" || r.type === "lxc")
+      .map((r) => mapVmResource(r, r.node, r.vmid, r.type as VmType))
+      .sort((a, b) => a.vmid - b.vmid);
+
+    const result = validateVmList({ vms });
+    setCached(cacheKey, result, cacheTtlMs);
+    return result;
+  }
+
+  async function resolveVmType(node: string, vmid: number, signal?: AbortSignal): Promise<VmType> {
+    const { vms } = await getVmList(signal);
+    const match = vms.find((vm) => vm.vmid === vmid && vm.node === node);
+    if (!match) {
+      throw new Error(`VM/CT ${vmid} not found on node ${node}`);
+    }
+    return match.type;
+  }
+
+  async function getVmDetails(node: string, vmid: number, signal?: AbortSignal): Promise<VmResource> {
+    const cacheKey = cacheScope(`vm:${node}:${vmid}`);
+    const cached = getCached<VmResource>(cacheKey);
+    if (cached) return cached;
+
+    const type = await resolveVmType(node, vmid, signal);
+    const status = await apiGet<PveVmStatusCurrent>(
+      `/nodes/${encodeURIComponent(node)}/${type}/${vmid}/status/current`,
+      signal,
+    );
+
+    const result = validateVmResource(mapVmResource(status, node, vmid, type));
+    setCached(cacheKey, result, cacheTtlMs);
+    return result;
+  }
+
+  async function performVmAction(node: string, vmid: number, action: VmAction, signal?: AbortSignal): Promise<VmActionResult> {
+    const type = await resolveVmType(node, vmid, signal);
+    if (type === "lxc" && action === "reset") {
+      throw new Error("Reset is not supported for containers");
+    }
+
+    const upid = await apiPost<string>(
+      `/nodes/${encodeURIComponent(node)}/${type}/${vmid}/status/${VM_ACTION_COMMANDS[action]}`,
+      undefined,
+      signal,
+    );
+
+    // Guest state is about to change; drop cached inventory
+    memoryCache.delete(cacheScope("vm-list"));
+    memoryCache.delete(cacheScope(`vm:${node}:${vmid}`));
+
+    return {
+      success: true,
+      upid,
+      message: `${action} submitted for ${type === "qemu" ? "VM" : "CT"} ${vmid} on ${node}`,
+    };
+  }
+
+  async function getVmConfig(node: string, vmid: number, signal?: AbortSignal): Promise<VmConfig> {
+    const type = await resolveVmType(node, vmid, signal);
+    const base = `/nodes/${encodeURIComponent(node)}/${type}/${vmid}`;
+    const [config, pending] = await Promise.all([
+      apiGet<PveVmConfig>(`${base}/config?current=1`, signal),
+      apiGet<PveVmPending[]>(`${base}/pending`, signal),
+    ]);
+    return mapVmConfig(config, pending, node, vmid, type);
+  }
+
+  async function updateVmConfig(node: string, vmid: number, update: VmConfigUpdate, signal?: AbortSignal): Promise<VmConfig> {
+    const type = await resolveVmType(node, vmid, signal);
+    if (type === "lxc" && update.balloon !== undefined) {
+      throw new Error("Containers have no balloon device");
+    }
+
+    // Empty description and tags are removed rather than set to ""
+    const remove = [
+      update.description === "" && "description",
+      update.tags?.length === 0 && "tags",
+    ].filter(Boolean);
+    await apiPut<null>(
+      `/nodes/${encodeURIComponent(node)}/${type}/${vmid}/config`,
+      {
+        cores: update.cores,
+        memory: update.memory,
+        balloon: update.balloon,
+        description: update.description || undefined,
+        tags: update.tags?.length ? update.tags.join(";") : undefined,
+        onboot: update.onboot,
+        delete: remove.length ? remove.join(",") : undefined,
+        digest: update.digest,
+      },
+      signal,
+    );
+
+    // Name, tags and resources show up in the guest list and details
+    memoryCache.delete(cacheScope("vm-list"));
+    memoryCache.delete(cacheScope(`vm:${node}:${vmid}`));
+
+    return getVmConfig(node, vmid, signal);
+  }
+
+  async function getMigrationPreflight(node: string, vmid: number, options: MigrationOptions, signal?: AbortSignal): Promise<MigrationPreflight> {
+    const type = await resolveVmType(node, vmid, signal);
+    const [vm, { nodes }, pools] = await Promise.all([
+      getVmDetails(node, vmid, signal),
+      getClusterSummary(signal),
+      getStoragePools(signal),
+    ]);
+    const facts = {
+      vm,
+      options,
+      targetNode: nodes.find((n) => n.node === options.target),
+      targetStorages: pools.filter((pool) => pool.node === options.target),
+    };
+
+    if (type === "qemu") {
+      const params = new URLSearchParams({ target: options.target });
+      const preconditions = await apiGet<PveMigratePreconditions>(
+        `/nodes/${encodeURIComponent(node)}/qemu/${vmid}/migrate?${params}`,
+        signal,
+      );
+      return evaluateMigration({
+        ...facts,
+        allowedNodes: preconditions.allowed_nodes ?? [],
+        localDisks: (preconditions.local_disks ?? []).map((disk) => ({ volid: disk.volid, size: disk.size, cdrom: disk.cdrom === 1 })),
+        localResources: preconditions.local_resources ?? [],
+        unavailableStorages: preconditions.not_allowed_nodes?.[options.target]?.unavailable_storages ?? [],
+      });
+    }
+
+    const config = await getVmConfig(node, vmid, signal);
+    const volumes = config.disks.filter((disk) => !disk.id.startsWith("unused"));
+    const storages = [...new Set(volumes.map((disk) => storageOfVolume(disk.volume)).filter((id): id is string => !!id))];
+    const isShared = (storage?: string) => pools.some((pool) => pool.node === node && pool.storage === storage && pool.shared);
+    return evaluateMigration({
+      ...facts,
+      allowedNodes: nodes.filter((n) => n.node !== node && n.status === "online").map((n) => n.node),
+      localDisks: volumes
+        .filter((disk) => storageOfVolume(disk.volume) && !isShared(storageOfVolume(disk.volume)))
+        .map((disk) => ({ volid: disk.volume, size: disk.size })),
+      localResources: [
+        ...volumes.filter((disk) => !storageOfVolume(disk.volume)).map((disk) => `${disk.id} (bind mount)`),
+        ...Object.keys(config.options).filter((key) => /^dev\d+$/.test(key)),
+      ],
+      unavailableStorages: storages.filter((storage) => !facts.targetStorages.some((pool) => pool.storage === storage)),
+    });
+  }
+
+  async function migrateVm(node: string, vmid: number, options: MigrationOptions, signal?: AbortSignal): Promise<MigrationTaskResult> {
+    const type = await resolveVmType(node, vmid, signal);
+    // Stopped guests fall back to an offline migration on both endpoints
+    const params: FormParams = type === "qemu"
+      ? {
+          target: options.target,
+          online: true,
+          "with-local-disks": options.withLocalDisks || undefined,
+          targetstorage: options.targetStorage,
+        }
+      : {
+          target: options.target,
+          restart: true,
+          timeout: options.restartTimeout,
+          "target-storage": options.targetStorage,
+        };
+    const upid = await apiPost<string>(`/nodes/${encodeURIComponent(node)}/${type}/${vmid}/migrate`, params, signal);
+    return { upid, message: `Migration of ${type === "qemu" ? "VM" : "CT"} ${vmid} to ${options.target} submitted` };
+  }
+
+  async function snapshotPath(node: string, vmid: number, signal?: AbortSignal): Promise<{ type: VmType; path: string }> {
+    const type = await resolveVmType(node, vmid, signal);
+    return { type, path: `/nodes/${encodeURIComponent(node)}/${type}/${vmid}/snapshot` };
+  }
+
+  async function getSnapshots(node: string, vmid: number, signal?: AbortSignal): Promise<Snapshot[]> {
+    const { path } = await snapshotPath(node, vmid, signal);
+    const raw = await apiGet<PveSnapshot[]>(path, signal);
+    return validateSnapshots(raw.map(mapSnapshot));
+  }
+
+  async function createSnapshot(node: string, vmid: number, snapshot: SnapshotInput, signal?: AbortSignal): Promise<SnapshotTaskResult> {
+    const { type, path } = await snapshotPath(node, vmid, signal);
+    if (type === "lxc" && snapshot.vmstate) {
+      throw new Error("Containers cannot be snapshotted with their RAM state");
+    }
+    const upid = await apiPost<string>(
+      path,
+      {
+        snapname: snapshot.name,
+        description: snapshot.description,
+        vmstate: type === "qemu" ? snapshot.vmstate : undefined,
+      },
+      signal,
+    );
+    return { upid, message: `Snapshot ${snapshot.name} of ${type === "qemu" ? "VM" : "CT"} ${vmid} submitted` };
+  }
+
+  async function rollbackSnapshot(node: string, vmid: number, name: string, signal?: AbortSignal): Promise<SnapshotTaskResult> {
+    const { type, path } = await snapshotPath(node, vmid, signal);
+    const upid = await apiPost<string>(`${path}/${encodeURIComponent(name)}/rollback`, undefined, signal);
+
+    // Rolling back changes the guest state (and stops it unless the RAM was saved)
+    memoryCache.delete(cacheScope("vm-list"));
+    memoryCache.delete(cacheScope(`vm:${node}:${vmid}`));
+
+    return { upid, message: `Rollback of ${type === "qemu" ? "VM" : "CT"} ${vmid} to ${name} submitted` };
+  }
+
+  async function deleteSnapshot(node: string, vmid: number, name: string, signal?: AbortSignal): Promise<SnapshotTaskResult> {
+    const { type, path } = await snapshotPath(node, vmid, signal);
+    const upid = await apiDelete<string>(`${path}/${encodeURIComponent(name)}`, signal);
+    return { upid, message: `Deletion of snapshot ${name} of ${type === "qemu" ? "VM" : "CT"} ${vmid} submitted` };
+  }
+
+  async function getTaskStatus(node: string, upid: string, signal?: AbortSignal): Promise<TaskStatus> {
+    const raw = await apiGet<PveTaskStatus>(
+      `/nodes/${encodeURIComponent(node)}/tasks/${encodeURIComponent(upid)}/status`,
+      signal,
+    );
+    return mapTaskStatus(raw);
+  }
+
+  async function createConsoleTicket(target: ConsoleTarget, signal?: AbortSignal): Promise<ConsoleTicket> {
+    // Guests get a VNC framebuffer; containers and node shells a terminal for xterm.js
+    const protocol = target.type === "qemu" ? "vnc" : "terminal";
+    const raw = await apiPost<PveConsoleProxy>(
+      `${consoleBasePath(target)}/${protocol === "vnc" ? "vncproxy" : "termproxy"}`,
+      protocol === "vnc" ? { websocket: true } : undefined,
+      signal,
+    );
+    return validateConsoleTicket({ ...raw, protocol });
+  }
+
+  async function getConsoleUpstream(target: ConsoleTarget, ticket: ConsoleTicket): Promise<ConsoleUpstream> {
+    const params = new URLSearchParams({ port: String(ticket.port), vncticket: ticket.ticket });
+    const headers: Record<string, string> = ticketAuth
+      ? await ticketAuth.getHeaders("GET")
+      : auth ? { Authorization: auth } : {};
+    return {
+      url: api(`${consoleBasePath(target)}/vncwebsocket?${params}`).replace(/^http/, "ws"),
+      headers,
+      rejectUnauthorized: !insecureTLS,
+    };
+  }
+
+  // Samples of an rrddata endpoint within the requested range, oldest first
+  async function getRrdSeries(base: string, timeRange: TimeRange, signal?: AbortSignal): Promise<HistoricalMetricPoint[]> {
+    const { seconds, timeframe } = RRD_TIME_RANGES[timeRange];
+    const params = new URLSearchParams({ timeframe, cf: "AVERAGE" });
+    const samples = await apiGet<PveRrdSample[]>(`${base}/rrddata?${params}`, signal);
+
+    // Timeframes are coarser than the dashboard ranges; keep only the requested span
+    const since = Date.now() - seconds * 1000;
+    return samples
+      .filter((sample) => typeof sample.time === "number" && sample.time * 1000 >= since)
+      .map(mapRrdSample)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async function getHistoricalMetrics(
+    node: string,
+    timeRange: TimeRange,
+    vmid?: number,
+    signal?: AbortSignal,
+  ): Promise<HistoricalMetrics> {
+    const cacheKey = cacheScope(`history:${node}:${vmid ?? "node"}:${timeRange}`);
+    const cached = getCached<HistoricalMetrics>(cacheKey);
+    if (cached) return cached;
+
+    const base = vmid === undefined
+      ? `/nodes/${encodeURIComponent(node)}`
+      : `/nodes/${encodeURIComponent(node)}/${await resolveVmType(node, vmid, signal)}/${vmid}`;
+    const data = await getRrdSeries(base, timeRange, signal);
+
+    const result = validateHistoricalMetrics({ node, vmid, timeRange, data });
+    setCached(cacheKey, result, cacheTtlMs);
+    return result;
+  }
+
+  async function getStoragePools(signal?: AbortSignal): Promise<StoragePool[]> {
+    const cacheKey = cacheScope("storage-pools");
+    const cached = getCached<StoragePool[]>(cacheKey);
+    if (cached) return cached;
+
+    const resources = await apiGet<PveStorageResource[]>("/cluster/resources?type=storage", signal);
+    const pools = resources
+      .filter((r) => r.storage && r.node)
+      .map((r) => ({
+        storage: r.storage!,
+        node: r.node!,
+        type: r.plugintype,
+        shared: r.shared === 1,
+        status: r.status,
+        content: r.content,
+        used: nonNegativeOrUndefined(r.disk),
+        total: positiveOrUndefined(r.maxdisk),
+      }))
+      .sort((a, b) => a.node.localeCompare(b.node) || a.storage.localeCompare(b.storage));
+
+    const result = validateStoragePools(pools);
+    setCached(cacheKey, result, cacheTtlMs);
+    return result;
+  }
+
+  async function getStorageHistoricalMetrics(
+    node: string,
+    storage: string,
+    timeRange: TimeRange,
+    signal?: AbortSignal,
+  ): Promise<HistoricalMetrics> {
+    const cacheKey = cacheScope(`history:${node}:storage:${storage}:${timeRange}`);
+    const cached = getCached<HistoricalMetrics>(cacheKey);
+    if (cached) return cached;
+
+    const base = `/nodes/${encodeURIComponent(node)}/storage/${encodeURIComponent(storage)}`;
+    const data = await getRrdSeries(base, timeRange, signal);
+
+    const result = validateHistoricalMetrics({ node, storage, timeRange, data });
+    setCached(cacheKey, result, cacheTtlMs);
+    return result;
+  }
+
+  async function getTasks(signal?: AbortSignal): Promise<TaskStatus[]> {
+    const raw = await apiGet<PveClusterTask[]>("/cluster/tasks", signal);
+    return raw
+      .map(mapClusterTask)
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+
+  async function getTaskLog(
+    node: string,
+    upid: string,
+    start = 0,
+    limit = 500,
+    signal?: AbortSignal,
+  ): Promise<TaskLogLine[]> {
+    const params = new URLSearchParams({ start: String(start), limit: String(limit) });
+    const lines = await apiGet<TaskLogLine[]>(
+      `/nodes/${encodeURIComponent(node)}/tasks/${encodeURIComponent(upid)}/log?${params}`,
+      signal,
+    );
+    return TaskLogLineSchema.array().parse(lines);
+  }
+
+  async function getBackupJobs(node?: string, signal?: AbortSignal): Promise<BackupJob[]> {
+    const nodes = node
+      ? [node]
+      : (await getClusterSummary(signal)).nodes.filter((entry) => entry.status === "online").map((entry) => entry.node);
+    const [schedules, { vms }, tasks] = await Promise.all([
+      apiGet<PveBackupSchedule[]>("/cluster/backup", signal),
+      getVmList(signal),
+      Promise.all(nodes.map((name) =>
+        apiGet<PveClusterTask[]>(`/nodes/${encodeURIComponent(name)}/tasks?typefilter=vzdump`, signal))),
+    ]);
+
+    const runs = tasks.flat().flatMap((raw) => mapBackupTask(raw) ?? []);
+    const scheduled = schedules.flatMap((raw) =>
+      mapBackupSchedule(raw, node ? vms.filter((vm) => vm.node === node) : vms));
+    // Latest runs first, then what is still to come
+    const jobs = [
+      ...runs.sort((a, b) => b.startTime!.getTime() - a.startTime!.getTime()),
+      ...scheduled,
+    ];
+    return BackupJobSchema.array().parse(jobs);
+  }
+
+  async function getServiceStatus(node: string, signal?: AbortSignal): Promise<ServiceStatus[]> {
+    const raw = await apiGet<PveService[]>(`/nodes/${encodeURIComponent(node)}/services`, signal);
+    return ServiceStatusSchema.array().parse(raw.map(mapService));
+  }
+
   // Mock implementations for unimplemented methods
   const mockImpl = (name: string, data: any = {}) => {
     console.log(`[Mock] Called ${name}`);
@@ -224,37 +1311,32 @@ export function createHttpsClient(opts: HttpsClientOptions): ProxmoxClient {
     getNodeMetrics,
     streamEvents,
     
+    getVmList,
+    getVmDetails,
+    performVmAction,
+    getTaskStatus,
+    getTasks,
+    getTaskLog,
+    getHistoricalMetrics,
+    getStoragePools,
+    getStorageHistoricalMetrics,
+    getVmConfig,
+    updateVmConfig,
+    getMigrationPreflight,
+    migrateVm,
+    getSnapshots,
+    createSnapshot,
+    rollbackSnapshot,
+    deleteSnapshot,
+    createConsoleTicket,
+    getConsoleUpstream,
+    getBackupJobs,
+    getServiceStatus,
+
     // Fulfill the rest of the ProxmoxClient interface with mock data
-    getVmList: () => mockImpl("getVmList", {
-      vms: [
-        { vmid: 100, name: "vm-100", status: "running", type: "qemu", node: "pve-1", uptime: 7200, cpu: 0.75, maxcpu: 4, mem: { used: 2048, total: 4096, free: 2048 }, disk: { used: 21474836480, total: 42949672960, free: 21474836480 } },
-        { vmid: 101, name: "ct-101", status: "stopped", type: "lxc", node: "pve-2", uptime: 0, cpu: 0, maxcpu: 2, mem: { used: 512, total: 1024, free: 512 }, disk: { used: 10737418240, total: 21474836480, free: 10737418240 } },
-      ]
-    }),
-    getVmDetails: (vmid: number) => mockImpl("getVmDetails", { vmid, status: "running", name: `vm-${vmid}`, type: "qemu", node: "pve-1", uptime: 3600, cpu: 0.5, maxcpu: 2, mem: { used: 1024, total: 2048, free: 1024 }, disk: { used: 10737418240, total: 21474836480, free: 10737418240 } }),
-    performVmAction: (vmid: number, action: string) => mockImpl("performVmAction", { vmid, action }),
-    getHistoricalMetrics: () => mockImpl("getHistoricalMetrics", {
-      node: "mock-node",
-      series: [
-        { t: Date.now() - 3600 * 1000, cpu: 0.1, memUsed: 1024, memTotal: 4096 },
-        { t: Date.now(), cpu: 0.2, memUsed: 2048, memTotal: 4096 },
-      ]
-    }),
     getSystemLogs: () => mockImpl("getSystemLogs", [
       { n: 1, t: "2023-10-27 10:00:00", pri: "info", msg: "System boot" },
       { n: 2, t: "2023-10-27 10:01:00", pri: "error", msg: "Disk failure" },
     ]),
-    getBackupJobs: () => mockImpl("getBackupJobs", [
-      { id: "backup-1", node: "pve-1", vmid: 100, starttime: Date.now() - 86400 * 1000, status: "finished", type: "full" },
-    ]),
-    getServiceStatus: () => mockImpl("getServiceStatus", [
-      { node: "pve-1", name: "pveproxy", state: "running", description: "PVE API Proxy" },
-      { node: "pve-2", name: "pvedaemon", state: "running", description: "PVE Daemon" },
-    ]),
-    getActiveAlerts: () => mockImpl("getActiveAlerts", [
-      { id: "alert-1", node: "pve-1", type: "storage", severity: "warning", message: "Low disk space on /", timestamp: Date.now() },
-      { id: "alert-2", node: "pve-2", type: "cpu", severity: "critical", message: "High CPU usage", timestamp: Date.now() },
-    ]),
-    acknowledgeAlert: (alertId: string) => mockImpl("acknowledgeAlert", { alertId }),
   };
 }
\ No newline at end of file
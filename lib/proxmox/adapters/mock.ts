@@ -1,7 +1,11 @@
 import type { IncomingHttpHeaders } from "http";
 import type {
+  ConsoleUpstream,
+  MigrationTaskResult,
   ProxmoxClient,
+  SnapshotTaskResult,
   VmAction,
+  VmActionResult,
 } from "../client";
 import type {
   ClusterSummary,
@@ -12,11 +16,22 @@ import type {
   VmList,
   TimeRange,
   HistoricalMetrics,
+  StoragePool,
   LogEntry,
   BackupJob,
   ServiceStatus,
-  Alert,
+  TaskStatus,
+  TaskLogLine,
+  ConsoleTicket,
+  Snapshot,
+  SnapshotInput,
+  VmConfig,
+  VmConfigUpdate,
+  MigrationOptions,
+  MigrationPreflight,
 } from "../../types";
+import { createResourceEventTracker } from "../../events/resourceEvents";
+import { evaluateMigration } from "../migration";
 
 /**
  * Deterministic mock adapter for development and tests.
@@ -80,6 +95,177 @@ function genSeries(node: string, points = 60, stepMs = 5000): MetricsSeries {
   return { node, series };
 }
 
+// Simulated Proxmox tasks, kept at module level so they outlive a single client
+type MockTask = { status: TaskStatus; finishAt: number; exitstatus: string };
+const mockTasks = new Map<string, MockTask>();
+
+const MOCK_TASK_TYPES: Record<VmAction, string> = {
+  start: "start",
+  stop: "stop",
+  restart: "reboot",
+  pause: "suspend",
+  resume: "resume",
+  shutdown: "shutdown",
+  reset: "reset",
+};
+
+function hex8(n: number) {
+  return n.toString(16).toUpperCase().padStart(8, "0");
+}
+
+function mockUpid(node: string, startTime: number, type: string, id: string): string {
+  return `UPID:${node}:${hex8(Math.floor(Math.random() * 0xffff))}:${hex8(startTime % 0xffffffff)}:${hex8(Math.floor(startTime / 1000))}:${type}:${id}:root@pam:`;
+}
+
+function createMockTask(node: string, vmid: number, task: string, exitstatus: string, durationMs: number): string {
+  const now = Date.now();
+  // QEMU migrations are logged as qmigrate rather than qmmigrate
+  const type = task === "migrate" && vmid < 200 ? "qmigrate" : `${vmid < 200 ? "qm" : "vz"}${task}`;
+  const upid = mockUpid(node, now, type, String(vmid));
+  mockTasks.set(upid, {
+    status: { upid, node, type, id: String(vmid), user: "root@pam", status: "running", startTime: now },
+    finishAt: now + durationMs,
+    exitstatus,
+  });
+  return upid;
+}
+
+// Snapshots per guest, applied right away while their task runs
+type MockSnapshots = { snapshots: Snapshot[]; active?: string };
+const mockSnapshots = new Map<number, MockSnapshots>();
+
+function mockGuestSnapshots(vmid: number): MockSnapshots {
+  let entry = mockSnapshots.get(vmid);
+  if (!entry) {
+    const r = seededRandom(vmid * 7);
+    const count = Math.floor(r() * 4);
+    const now = Math.floor(Date.now() / 1000);
+    const snapshots: Snapshot[] = [];
+    for (let i = 0; i < count; i++) {
+      snapshots.push({
+        name: `snap${i + 1}`,
+        description: i === 0 ? "Before upgrade" : undefined,
+        parent: snapshots[i - 1]?.name,
+        snaptime: now - (count - i) * 86400 * 7,
+        vmstate: vmid < 200 && r() > 0.5,
+        current: false,
+      });
+    }
+    entry = { snapshots, active: snapshots[count - 1]?.name };
+    mockSnapshots.set(vmid, entry);
+  }
+  return entry;
+}
+
+// Guest configurations, created on first read so edits persist for the process
+const mockConfigs = new Map<number, VmConfig>();
+
+function mockDigest(config: Omit<VmConfig, "digest">): string {
+  let hash = 0;
+  for (const c of JSON.stringify(config)) hash = (hash * 31 + c.charCodeAt(0)) >>> 0;
+  return hash.toString(16).padStart(8, "0");
+}
+
+function mockGuestConfig(node: string, vmid: number): VmConfig {
+  let config = mockConfigs.get(vmid);
+  if (!config) {
+    const r = seededRandom(vmid * 13);
+    const isQemu = vmid < 200;
+    const memory = 1024 * (1 + Math.floor(r() * 8));
+    const base: Omit<VmConfig, "digest"> = {
+      vmid,
+      node,
+      type: isQemu ? "qemu" : "lxc",
+      name: `${isQemu ? "vm" : "ct"}-${node}-${vmid}`,
+      cores: 1 + Math.floor(r() * 4),
+      sockets: 1,
+      cpuType: isQemu ? "x86-64-v2-AES" : undefined,
+      memory,
+      balloon: isQemu ? memory / 2 : undefined,
+      swap: isQemu ? undefined : 512,
+      disks: isQemu
+        ? [
+            { id: "ide2", volume: `local-lvm:vm-${vmid}-cloudinit`, media: "cdrom", options: {} },
+            { id: "scsi0", volume: `local-lvm:vm-${vmid}-disk-0`, size: 32 * 1024 ** 3, options: { discard: "on", iothread: "1" } },
+          ]
+        : [{ id: "rootfs", volume: `local-lvm:vm-${vmid}-disk-0`, size: 8 * 1024 ** 3, options: {} }],
+      nics: [{
+        id: "net0",
+        model: isQemu ? "virtio" : "veth",
+        mac: `BC:24:11:${hex8(vmid).slice(2, 4)}:${hex8(vmid).slice(4, 6)}:${hex8(vmid).slice(6, 8)}`,
+        bridge: "vmbr0",
+        vlan: r() > 0.5 ? 10 : undefined,
+        firewall: true,
+        options: isQemu ? {} : { name: "eth0", ip: "dhcp" },
+      }],
+      bootOrder: isQemu ? ["scsi0", "ide2", "net0"] : [],
+      cloudInit: isQemu ? { user: "debian", ipconfig: { ipconfig0: "ip=dhcp" }, sshKeys: 1 } : undefined,
+      description: r() > 0.5 ? "Managed by the infrastructure team" : undefined,
+      tags: r() > 0.7 ? ["production", "web"] : [],
+      onboot: r() > 0.3,
+      options: isQemu ? { ostype: "l26", agent: "1", scsihw: "virtio-scsi-single" } : { ostype: "debian", arch: "amd64" },
+      pending: {},
+    };
+    config = { ...base, digest: mockDigest(base) };
+    mockConfigs.set(vmid, config);
+  }
+  return config;
+}
+
+// Finished tasks shown in the task history, generated once per process
+let mockHistorySeeded = false;
+
+function seedMockTaskHistory() {
+  if (mockHistorySeeded) return;
+  mockHistorySeeded = true;
+  const types = ["vzdump", "qmstart", "qmshutdown", "vzstart", "aptupdate", "qmigrate"];
+  const now = Date.now();
+  NODES.forEach((node, ni) => {
+    for (let i = 0; i < 6; i++) {
+      const r = seededRandom(ni * 10 + i);
+      const type = types[i % types.length];
+      const startTime = now - Math.floor((i + 1) * 3600000 * (1 + r()));
+      const endTime = startTime + Math.floor(5000 + r() * 600000);
+      const id = type === "aptupdate" ? "" : String(100 + Math.floor(r() * 15));
+      const exitstatus = r() > 0.15 ? "OK" : "command failed: exit code 1";
+      const upid = mockUpid(node, startTime, type, id);
+      mockTasks.set(upid, {
+        status: { upid, node, type, id: id || undefined, user: "root@pam", status: "stopped", exitstatus, startTime, endTime },
+        finishAt: endTime,
+        exitstatus,
+      });
+    }
+  });
+}
+
+function refreshMockTask(task: MockTask): TaskStatus {
+  if (task.status.status === "running" && Date.now() >= task.finishAt) {
+    task.status = { ...task.status, status: "stopped", exitstatus: task.exitstatus, endTime: task.finishAt };
+  }
+  return task.status;
+}
+
+function mockTaskLogLines(task: MockTask): string[] {
+  const { type, id, user } = task.status;
+  const lines = [
+    `task started by ${user ?? "root@pam"}`,
+    `starting ${type}${id ? ` for ${id}` : ""}`,
+    "progress 25%",
+    "progress 50%",
+    "progress 75%",
+    "progress 100%",
+  ];
+  const status = refreshMockTask(task);
+  if (status.status === "running") {
+    // Reveal lines progressively while the task runs
+    const duration = Math.max(1, task.finishAt - status.startTime);
+    const ratio = (Date.now() - status.startTime) / duration;
+    return lines.slice(0, Math.max(1, Math.ceil(ratio * lines.length)));
+  }
+  lines.push(status.exitstatus === "OK" ? "TASK OK" : `TASK ERROR: ${status.exitstatus}`);
+  return lines;
+}
+
 export function createMockClient(): ProxmoxClient {
   async function getClusterSummary(): Promise<ClusterSummary> {
     await new Promise((r) => setTimeout(r, 150)); // latency
@@ -96,6 +282,7 @@ export function createMockClient(): ProxmoxClient {
 
   async function* streamEvents(_init?: { headers?: IncomingHttpHeaders }) {
     let iter = 0;
+    const tracker = createResourceEventTracker();
     // Emit initial statuses
     for (const n of NODES) {
       yield { type: "status", node: n, status: genNodeSummary(n) } as EventMessage;
@@ -106,6 +293,9 @@ export function createMockClient(): ProxmoxClient {
         const n = NODES[iter % NODES.length];
         yield { type: "status", node: n, status: genNodeSummary(n) } as EventMessage;
       }
+      const [{ vms }, tasks] = await Promise.all([getVmList(), getTasks()]);
+      yield* tracker.vms(vms);
+      yield* tracker.tasks(tasks);
       await new Promise((r) => setTimeout(r, 1000));
     }
   }
@@ -200,20 +390,53 @@ export function createMockClient(): ProxmoxClient {
     };
   }
 
-  async function performVmAction(node: string, vmid: number, action: VmAction): Promise<{ success: boolean; message?: string }> {
-    await new Promise((r) => setTimeout(r, 200 + Math.random() * 800)); // Simulate action time
+  async function performVmAction(node: string, vmid: number, action: VmAction): Promise<VmActionResult> {
+    await new Promise((r) => setTimeout(r, 200)); // Simulate submission latency
     
     const r = seededRandom(vmid + action.length);
     const success = r() > 0.05; // 95% success rate
+    const exitstatus = success ? 'OK' : r() > 0.5 ? 'resource busy' : 'permission denied';
+    const upid = createMockTask(node, vmid, MOCK_TASK_TYPES[action], exitstatus, 1000 + Math.floor(r() * 3000));
     
     return {
-      success,
-      message: success
-        ? `Successfully ${action}ed VM/CT ${vmid} on ${node}`
-        : `Failed to ${action} VM/CT ${vmid}: ${r() > 0.5 ? 'Resource busy' : 'Permission denied'}`,
+      success: true,
+      upid,
+      message: `${action} submitted for VM/CT ${vmid} on ${node}`,
     };
   }
 
+  async function getTaskStatus(node: string, upid: string): Promise<TaskStatus> {
+    await new Promise((r) => setTimeout(r, 50));
+    
+    const task = mockTasks.get(upid);
+    if (!task || task.status.node !== node) {
+      throw new Error(`No such task: ${upid}`);
+    }
+    return refreshMockTask(task);
+  }
+
+  async function getTasks(): Promise<TaskStatus[]> {
+    await new Promise((r) => setTimeout(r, 80));
+    
+    seedMockTaskHistory();
+    return Array.from(mockTasks.values())
+      .map(refreshMockTask)
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+
+  async function getTaskLog(node: string, upid: string, start = 0, limit = 500): Promise<TaskLogLine[]> {
+    await new Promise((r) => setTimeout(r, 60));
+    
+    const task = mockTasks.get(upid);
+    if (!task || task.status.node !== node) {
+      throw new Error(`No such task: ${upid}`);
+    }
+    return mockTaskLogLines(task)
+      .map((t, i) => ({ n: i + 1, t }))
+      .slice(start, start + limit);
+  }
+
+
   // Historical metrics
   async function getHistoricalMetrics(node: string, timeRange: TimeRange, vmid?: number): Promise<HistoricalMetrics> {
     await new Promise((r) => setTimeout(r, 150));
@@ -250,12 +473,188 @@ export function createMockClient(): ProxmoxClient {
           rx: Math.floor(1024 * 1024 * (10 + 50 * Math.sin(i / 6) + rnd() * 20)),
           tx: Math.floor(1024 * 1024 * (5 + 25 * Math.sin(i / 6) + rnd() * 10)),
         },
+        // Nodes report iowait and swap, guests disk I/O
+        ...(vmid
+          ? {
+              diskIo: {
+                read: Math.floor(1024 * 1024 * (4 + 3 * Math.sin(i / 5) + rnd() * 2)),
+                write: Math.floor(1024 * 1024 * (2 + 1.5 * Math.sin(i / 7) + rnd())),
+              },
+            }
+          : {
+              iowait: Math.min(1, 0.02 + 0.015 * Math.sin(i / 9) + rnd() * 0.01),
+              swap: {
+                used: Math.floor(8 * 1024 ** 3 * (0.1 + 0.05 * Math.sin(i / 15) + rnd() * 0.02)),
+                total: 8 * 1024 ** 3,
+              },
+            }),
       };
     });
     
     return { node, vmid, timeRange, data };
   }
 
+  // Storage pools: two local pools per node and one shared Ceph pool
+  async function getStoragePools(): Promise<StoragePool[]> {
+    await new Promise((r) => setTimeout(r, 100));
+    return NODES.flatMap((node) => [
+      { storage: "local", node, type: "dir", shared: false, status: "available", content: "iso,vztmpl,backup" },
+      { storage: "local-lvm", node, type: "lvmthin", shared: false, status: "available", content: "images,rootdir" },
+      { storage: "ceph-pool", node, type: "rbd", shared: true, status: "available", content: "images" },
+    ].map((pool) => {
+      const total = (pool.shared ? 8192 : 1024) * 1024 ** 3;
+      const rnd = seededRandom((node + pool.storage).split("").reduce((a, c) => a + c.charCodeAt(0), 0));
+      return { ...pool, used: Math.floor(total * (0.4 + rnd() * 0.4)), total };
+    }));
+  }
+
+  // Storage usage grows steadily with a daily backup cycle on top
+  async function getStorageHistoricalMetrics(node: string, storage: string, timeRange: TimeRange): Promise<HistoricalMetrics> {
+    await new Promise((r) => setTimeout(r, 150));
+    const ranges = {
+      '1h': { points: 60, stepMs: 60 * 1000 },
+      '6h': { points: 72, stepMs: 5 * 60 * 1000 },
+      '24h': { points: 96, stepMs: 15 * 60 * 1000 },
+      '7d': { points: 168, stepMs: 60 * 60 * 1000 },
+      '30d': { points: 120, stepMs: 6 * 60 * 60 * 1000 },
+    };
+    const { points, stepMs } = ranges[timeRange];
+    const base = Date.now() - points * stepMs;
+    const seed = (node + storage).split('').reduce((a, c) => a + c.charCodeAt(0), 0);
+    const rnd = seededRandom(seed);
+    const total = (storage === 'ceph-pool' ? 8192 : 1024) * 1024 ** 3;
+    // Fraction of the pool filled per day
+    const growth = 0.002 + (seed % 7) * 0.001;
+
+    const data = Array.from({ length: points }, (_, i) => {
+      const timestamp = base + i * stepMs;
+      const days = (timestamp - Date.now()) / 86400000;
+      const daily = 0.01 * Math.sin((2 * Math.PI * (timestamp % 86400000)) / 86400000);
+      const ratio = Math.min(1, Math.max(0, 0.6 + growth * days + daily + rnd() * 0.005));
+      return { timestamp, storage: { used: Math.floor(total * ratio), total } };
+    });
+
+    return { node, storage, timeRange, data };
+  }
+
+  async function getVmConfig(node: string, vmid: number): Promise<VmConfig> {
+    await new Promise((r) => setTimeout(r, 100));
+    return mockGuestConfig(node, vmid);
+  }
+
+  async function updateVmConfig(node: string, vmid: number, update: VmConfigUpdate): Promise<VmConfig> {
+    await new Promise((r) => setTimeout(r, 100));
+    const { digest, ...current } = mockGuestConfig(node, vmid);
+    if (update.digest && update.digest !== digest) {
+      throw new Error("detected modified configuration - file changed by other user? Try again.");
+    }
+    if (current.type === "lxc" && update.balloon !== undefined) {
+      throw new Error("Containers have no balloon device");
+    }
+    const next: Omit<VmConfig, "digest"> = {
+      ...current,
+      cores: update.cores ?? current.cores,
+      memory: update.memory ?? current.memory,
+      balloon: update.balloon ?? current.balloon,
+      description: update.description === undefined ? current.description : update.description || undefined,
+      tags: update.tags ?? current.tags,
+      onboot: update.onboot ?? current.onboot,
+    };
+    const config = { ...next, digest: mockDigest(next) };
+    mockConfigs.set(vmid, config);
+    return config;
+  }
+
+  async function getMigrationPreflight(node: string, vmid: number, options: MigrationOptions): Promise<MigrationPreflight> {
+    const [vm, { nodes }, pools] = await Promise.all([getVmDetails(node, vmid), getClusterSummary(), getStoragePools()]);
+    const config = mockGuestConfig(node, vmid);
+    const storageOf = (volume: string) => volume.split(":")[0];
+    const targetStorages = pools.filter((pool) => pool.node === options.target);
+    return evaluateMigration({
+      vm,
+      options,
+      targetNode: nodes.find((n) => n.node === options.target),
+      allowedNodes: nodes.filter((n) => n.node !== node).map((n) => n.node),
+      localDisks: config.disks
+        .filter((disk) => !pools.some((pool) => pool.storage === storageOf(disk.volume) && pool.shared))
+        .map((disk) => ({ volid: disk.volume, size: disk.size })),
+      localResources: [],
+      unavailableStorages: config.disks
+        .map((disk) => storageOf(disk.volume))
+        .filter((storage) => !targetStorages.some((pool) => pool.storage === storage)),
+      targetStorages,
+    });
+  }
+
+  async function migrateVm(node: string, vmid: number, options: MigrationOptions): Promise<MigrationTaskResult> {
+    const upid = createMockTask(node, vmid, "migrate", "OK", 5000);
+    return { upid, message: `Migration of VM/CT ${vmid} to ${options.target} submitted` };
+  }
+
+  async function getSnapshots(node: string, vmid: number): Promise<Snapshot[]> {
+    await new Promise((r) => setTimeout(r, 150));
+    const { snapshots, active } = mockGuestSnapshots(vmid);
+    return [
+      ...snapshots,
+      { name: "current", description: "You are here!", parent: active, vmstate: false, current: true },
+    ];
+  }
+
+  async function createSnapshot(node: string, vmid: number, snapshot: SnapshotInput): Promise<SnapshotTaskResult> {
+    await new Promise((r) => setTimeout(r, 150));
+    const entry = mockGuestSnapshots(vmid);
+    if (entry.snapshots.some((s) => s.name === snapshot.name)) {
+      throw new Error(`snapshot name '${snapshot.name}' already used`);
+    }
+    entry.snapshots.push({
+      name: snapshot.name,
+      description: snapshot.description,
+      parent: entry.active,
+      snaptime: Math.floor(Date.now() / 1000),
+      vmstate: vmid < 200 && snapshot.vmstate,
+      current: false,
+    });
+    entry.active = snapshot.name;
+    const upid = createMockTask(node, vmid, "snapshot", "OK", 1500);
+    return { upid, message: `Snapshot ${snapshot.name} of VM/CT ${vmid} submitted` };
+  }
+
+  async function rollbackSnapshot(node: string, vmid: number, name: string): Promise<SnapshotTaskResult> {
+    await new Promise((r) => setTimeout(r, 150));
+    const entry = mockGuestSnapshots(vmid);
+    if (!entry.snapshots.some((s) => s.name === name)) {
+      throw new Error(`snapshot '${name}' does not exist`);
+    }
+    entry.active = name;
+    const upid = createMockTask(node, vmid, "rollback", "OK", 1500);
+    return { upid, message: `Rollback of VM/CT ${vmid} to ${name} submitted` };
+  }
+
+  async function deleteSnapshot(node: string, vmid: number, name: string): Promise<SnapshotTaskResult> {
+    await new Promise((r) => setTimeout(r, 150));
+    const entry = mockGuestSnapshots(vmid);
+    const removed = entry.snapshots.find((s) => s.name === name);
+    if (!removed) {
+      throw new Error(`snapshot '${name}' does not exist`);
+    }
+    // Children move up to the parent of the deleted snapshot, as in Proxmox
+    entry.snapshots = entry.snapshots
+      .filter((s) => s !== removed)
+      .map((s) => (s.parent === name ? { ...s, parent: removed.parent } : s));
+    if (entry.active === name) entry.active = removed.parent;
+    const upid = createMockTask(node, vmid, "delsnapshot", "OK", 1500);
+    return { upid, message: `Deletion of snapshot ${name} of VM/CT ${vmid} submitted` };
+  }
+
+  // There is no Proxmox host behind the mock to relay a console to
+  async function createConsoleTicket(): Promise<ConsoleTicket> {
+    throw new Error("Consoles are not available with the mock adapter");
+  }
+
+  async function getConsoleUpstream(): Promise<ConsoleUpstream> {
+    throw new Error("Consoles are not available with the mock adapter");
+  }
+
   // Monitoring features
   async function getSystemLogs(node: string, limit = 50): Promise<LogEntry[]> {
     await new Promise((r) => setTimeout(r, 120));
@@ -341,71 +740,6 @@ export function createMockClient(): ProxmoxClient {
     });
   }
 
-  // Alert management
-  async function getActiveAlerts(): Promise<Alert[]> {
-    await new Promise((r) => setTimeout(r, 90));
-    
-    const now = new Date();
-    const alerts: Alert[] = [
-      {
-        id: 'alert-1',
-        thresholdId: 'threshold-cpu',
-        message: 'High CPU usage on pve-1',
-        severity: 'warning',
-        timestamp: new Date(now.getTime() - 3600000),
-        node: 'pve-1',
-        acknowledged: false,
-      },
-      {
-        id: 'alert-2',
-        thresholdId: 'threshold-disk',
-        message: 'Critical disk space on pve-2',
-        severity: 'critical',
-        timestamp: new Date(now.getTime() - 7200000),
-        node: 'pve-2',
-        vmid: 101,
-        acknowledged: false,
-      },
-      {
-        id: 'alert-3',
-        thresholdId: 'threshold-mem',
-        message: 'Memory usage high on pve-3',
-        severity: 'warning',
-        timestamp: new Date(now.getTime() - 10800000),
-        node: 'pve-3',
-        acknowledged: true,
-        acknowledgedBy: 'admin',
-        acknowledgedAt: new Date(now.getTime() - 1800000),
-      },
-      {
-        id: 'alert-4',
-        thresholdId: 'threshold-load',
-        message: 'High load average on pve-1',
-        severity: 'info',
-        timestamp: new Date(now.getTime() - 14400000),
-        node: 'pve-1',
-        acknowledged: false,
-      },
-      {
-        id: 'alert-5',
-        thresholdId: 'threshold-io',
-        message: 'Disk I/O delay on pve-2',
-        severity: 'error',
-        timestamp: new Date(now.getTime() - 18000000),
-        node: 'pve-2',
-        vmid: 102,
-        acknowledged: false,
-      },
-    ];
-    
-    return alerts.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }
-
-  async function acknowledgeAlert(alertId: string): Promise<{ success: boolean }> {
-    await new Promise((r) => setTimeout(r, 50));
-    return { success: true };
-  }
-
   return {
     getClusterSummary,
     getNodeMetrics,
@@ -413,11 +747,24 @@ export function createMockClient(): ProxmoxClient {
     getVmList,
     getVmDetails,
     performVmAction,
+    getTaskStatus,
+    getTasks,
+    getTaskLog,
     getHistoricalMetrics,
+    getStoragePools,
+    getStorageHistoricalMetrics,
+    getVmConfig,
+    updateVmConfig,
+    getMigrationPreflight,
+    migrateVm,
+    getSnapshots,
+    createSnapshot,
+    rollbackSnapshot,
+    deleteSnapshot,
+    createConsoleTicket,
+    getConsoleUpstream,
     getSystemLogs,
     getBackupJobs,
     getServiceStatus,
-    getActiveAlerts,
-    acknowledgeAlert,
   };
 }
\ No newline at end of file
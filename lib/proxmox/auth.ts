@@ -0,0 +1,280 @@
+import { createHmac } from "crypto";
+import type { Dispatcher } from "undici";
+import { tlsDispatcher } from "./tls";
+import type { DispatcherRequestInit } from "./tls";
+
+/**
+ * Proxmox ticket (username/password) authentication.
+ *
+ * POST /access/ticket exchanges credentials for a `PVEAuthCookie` ticket and a
+ * `CSRFPreventionToken`. Tickets expire after two hours; posting the current
+ * ticket as the password renews it without asking for the second factor again.
+ * Mutating requests (anything but GET) must send the CSRF token header.
+ *
+ * When the user has TOTP enabled, the first response only carries a partial
+ * `PVE:!tfa!` ticket and `NeedTFA: 1`; the login is completed by posting that
+ * ticket as `tfa-challenge` with `totp:<code>` as the password (PVE >= 7.2).
+ */
+
+export const TICKET_LIFETIME_MS = 2 * 60 * 60 * 1000;
+const DEFAULT_RENEW_MARGIN_MS = 30 * 60 * 1000;
+
+export type TicketSession = {
+  username: string;
+  ticket: string;
+  csrfToken: string;
+  issuedAt: number;
+};
+
+export type TicketLoginResult =
+  | { status: "ok"; session: TicketSession }
+  | { status: "tfa_required" };
+
+export type TicketCredentials = {
+  username: string;
+  password: string;
+  /** One-time TOTP code answering a second-factor challenge */
+  otp?: string;
+};
+
+type PveTicketResponse = {
+  username: string;
+  ticket: string;
+  CSRFPreventionToken?: string;
+  NeedTFA?: number;
+};
+
+async function postTicket(
+  baseUrl: string,
+  params: Record<string, string>,
+  signal?: AbortSignal,
+  dispatcher?: Dispatcher,
+): Promise<PveTicketResponse> {
+  const url = `${baseUrl.replace(/\/+$/, "")}/api2/json/access/ticket`;
+  const init: DispatcherRequestInit = {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+    signal,
+    cache: "no-store",
+    dispatcher,
+  };
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    // Proxmox answers 401 for bad credentials and bad TFA codes alike
+    if (res.status === 401) {
+      throw new Error("Authentication failed: invalid credentials or verification code");
+    }
+    const text = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status} ${res.statusText} for ${url}: ${text}`);
+  }
+  const payload = (await res.json()) as { data: PveTicketResponse | null };
+  if (!payload?.data?.ticket) {
+    throw new Error("Authentication failed: no ticket returned");
+  }
+  return payload.data;
+}
+
+function toSession(data: PveTicketResponse): TicketSession {
+  return {
+    username: data.username,
+    ticket: data.ticket,
+    csrfToken: data.CSRFPreventionToken ?? "",
+    issuedAt: Date.now(),
+  };
+}
+
+/**
+ * Log in with username/password, answering a TOTP challenge when an `otp` code
+ * is supplied. Returns `tfa_required` if the account needs a code and none was given.
+ */
+export async function requestTicket(
+  baseUrl: string,
+  credentials: TicketCredentials,
+  signal?: AbortSignal,
+  dispatcher?: Dispatcher,
+): Promise<TicketLoginResult> {
+  const first = await postTicket(baseUrl, {
+    username: credentials.username,
+    password: credentials.password,
+    "new-format": "1",
+  }, signal, dispatcher);
+
+  if (!first.NeedTFA) {
+    return { status: "ok", session: toSession(first) };
+  }
+  if (!credentials.otp) {
+    return { status: "tfa_required" };
+  }
+
+  const second = await postTicket(baseUrl, {
+    username: first.username,
+    "tfa-challenge": first.ticket,
+    password: `totp:${credentials.otp}`,
+    "new-format": "1",
+  }, signal, dispatcher);
+  return { status: "ok", session: toSession(second) };
+}
+
+/**
+ * Renew a still-valid ticket. The ticket itself is the password, so no second factor is needed.
+ */
+export async function renewTicket(
+  baseUrl: string,
+  session: TicketSession,
+  signal?: AbortSignal,
+  dispatcher?: Dispatcher,
+): Promise<TicketSession> {
+  const data = await postTicket(baseUrl, {
+    username: session.username,
+    password: session.ticket,
+    "new-format": "1",
+  }, signal, dispatcher);
+  return toSession(data);
+}
+
+// RFC 4648 base32, as used by authenticator apps for TOTP secrets
+function decodeBase32(secret: string): Buffer {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  const clean = secret.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const idx = alphabet.indexOf(char);
+    if (idx === -1) {
+      throw new Error("Invalid TOTP secret: not base32");
+    }
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate an RFC 6238 TOTP code (SHA-1, 30 s step, 6 digits), matching Proxmox' TOTP factor.
+ */
+export function generateTotp(secret: string, now = Date.now(), stepSeconds = 30, digits = 6): string {
+  const counter = Math.floor(now / 1000 / stepSeconds);
+  const msg = Buffer.alloc(8);
+  msg.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  msg.writeUInt32BE(counter >>> 0, 4);
+
+  const hmac = createHmac("sha1", decodeBase32(secret)).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return code.toString().padStart(digits, "0");
+}
+
+export type TicketAuthOptions = {
+  baseUrl: string;
+  username: string;
+  password: string;
+  /** Base32 TOTP secret used to answer second-factor challenges unattended */
+  totpSecret?: string;
+  /** Skip certificate checks for this server */
+  insecureTLS?: boolean;
+  /** Renew this long before the two-hour expiry */
+  renewMarginMs?: number;
+};
+
+/**
+ * Keeps a ticket session alive for one server/user: logs in lazily, renews
+ * ahead of expiry and falls back to a full login when renewal is refused.
+ * Concurrent callers share a single in-flight login.
+ */
+export class TicketAuth {
+  private session: TicketSession | null = null;
+  private pending: Promise<TicketSession> | null = null;
+
+  constructor(private readonly options: TicketAuthOptions) {}
+
+  /**
+   * Headers authenticating a request with the given HTTP method.
+   */
+  async getHeaders(method = "GET"): Promise<Record<string, string>> {
+    const session = await this.getSession();
+    const headers: Record<string, string> = { Cookie: `PVEAuthCookie=${encodeURIComponent(session.ticket)}` };
+    if (method.toUpperCase() !== "GET") {
+      headers.CSRFPreventionToken = session.csrfToken;
+    }
+    return headers;
+  }
+
+  /**
+   * Drop the current ticket, e.g. after the API answered 401.
+   */
+  invalidate(): void {
+    this.session = null;
+  }
+
+  private async getSession(): Promise<TicketSession> {
+    const { renewMarginMs = DEFAULT_RENEW_MARGIN_MS } = this.options;
+    const session = this.session;
+    if (session && Date.now() - session.issuedAt < TICKET_LIFETIME_MS - renewMarginMs) {
+      return session;
+    }
+
+    // Not tied to any caller's AbortSignal: the login is shared by everyone waiting on it
+    if (!this.pending) {
+      this.pending = this.refresh(session).finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async refresh(current: TicketSession | null): Promise<TicketSession> {
+    const { baseUrl } = this.options;
+    const dispatcher = tlsDispatcher(baseUrl, this.options.insecureTLS ?? false);
+
+    if (current && Date.now() - current.issuedAt < TICKET_LIFETIME_MS) {
+      try {
+        this.session = await renewTicket(baseUrl, current, undefined, dispatcher);
+        return this.session;
+      } catch {
+        // Ticket was revoked or the server restarted with new keys; log in again
+      }
+    }
+
+    const { username, password, totpSecret } = this.options;
+    const result = await requestTicket(baseUrl, {
+      username,
+      password,
+      otp: totpSecret ? generateTotp(totpSecret) : undefined,
+    }, undefined, dispatcher);
+    if (result.status === "tfa_required") {
+      throw new Error(`Two-factor authentication is required for ${username}; configure a TOTP secret`);
+    }
+
+    this.session = result.session;
+    return this.session;
+  }
+}
+
+// Sessions outlive individual clients, which are created per request
+const ticketAuthRegistry = new Map<string, { auth: TicketAuth; fingerprint: string }>();
+
+/**
+ * Shared TicketAuth for a server/user pair. Changing the password or TOTP
+ * secret replaces the cached session.
+ */
+export function getTicketAuth(options: TicketAuthOptions): TicketAuth {
+  const key = `${options.baseUrl}|${options.username}`;
+  const fingerprint = createHmac("sha256", key)
+    .update(`${options.password}\0${options.totpSecret ?? ""}\0${options.insecureTLS ? "insecure" : ""}`)
+    .digest("hex");
+
+  const existing = ticketAuthRegistry.get(key);
+  if (existing?.fingerprint === fingerprint) {
+    return existing.auth;
+  }
+
+  const auth = new TicketAuth(options);
+  ticketAuthRegistry.set(key, { auth, fingerprint });
+  return auth;
+}
@@ -10,10 +10,20 @@ import type {
   VmList,
   TimeRange,
   HistoricalMetrics,
+  StoragePool,
   LogEntry,
   BackupJob,
   ServiceStatus,
-  Alert,
+  TaskStatus,
+  TaskLogLine,
+  ConsoleTarget,
+  ConsoleTicket,
+  Snapshot,
+  SnapshotInput,
+  VmConfig,
+  VmConfigUpdate,
+  MigrationOptions,
+  MigrationPreflight,
 } from "../types";
 
 /**
@@ -21,6 +31,25 @@ import type {
  */
 export type VmAction = 'start' | 'stop' | 'restart' | 'pause' | 'resume' | 'shutdown' | 'reset';
 
+/**
+ * Outcome of submitting a VM action. `upid` identifies the Proxmox task
+ * that carries out the action when the backend runs it asynchronously.
+ */
+export type VmActionResult = { success: boolean; message?: string; upid?: string };
+
+/**
+ * A submitted snapshot operation; `upid` identifies the Proxmox task carrying it out.
+ */
+export type SnapshotTaskResult = { upid: string; message: string };
+
+export type MigrationTaskResult = { upid: string; message: string };
+
+/**
+ * The Proxmox `vncwebsocket` serving a console ticket, with what the relay
+ * needs to open it on behalf of the browser.
+ */
+export type ConsoleUpstream = { url: string; headers: Record<string, string>; rejectUnauthorized: boolean };
+
 /**
  * Enhanced transport-agnostic client interface with new features
  */
@@ -30,13 +59,48 @@ export interface ProxmoxClient {
   streamEvents(init?: { headers?: IncomingHttpHeaders }): AsyncIterable<EventMessage>;
   getVmList(signal?: AbortSignal): Promise<VmList>;
   getVmDetails(node: string, vmid: number, signal?: AbortSignal): Promise<VmResource>;
-  performVmAction(node: string, vmid: number, action: VmAction, signal?: AbortSignal): Promise<{ success: boolean; message?: string }>;
+  performVmAction(node: string, vmid: number, action: VmAction, signal?: AbortSignal): Promise<VmActionResult>;
+  getTaskStatus(node: string, upid: string, signal?: AbortSignal): Promise<TaskStatus>;
+  getTasks(signal?: AbortSignal): Promise<TaskStatus[]>;
+  getTaskLog(
+    node: string,
+    upid: string,
+    start?: number,
+    limit?: number,
+    signal?: AbortSignal,
+  ): Promise<TaskLogLine[]>;
   getHistoricalMetrics(
     node: string,
     timeRange: TimeRange,
     vmid?: number,
     signal?: AbortSignal,
   ): Promise<HistoricalMetrics>;
+  /** Storage pools of every node, from /cluster/resources */
+  getStoragePools(signal?: AbortSignal): Promise<StoragePool[]>;
+  /** Usage history of one storage pool on one node, in the `storage` field of each point */
+  getStorageHistoricalMetrics(
+    node: string,
+    storage: string,
+    timeRange: TimeRange,
+    signal?: AbortSignal,
+  ): Promise<HistoricalMetrics>;
+  /** Full configuration of a guest, with changes pending until its next restart */
+  getVmConfig(node: string, vmid: number, signal?: AbortSignal): Promise<VmConfig>;
+  /** Apply settings to a guest; fails if `digest` no longer matches the stored config */
+  updateVmConfig(node: string, vmid: number, update: VmConfigUpdate, signal?: AbortSignal): Promise<VmConfig>;
+  /** Check whether a guest can be migrated with these options, without starting anything */
+  getMigrationPreflight(node: string, vmid: number, options: MigrationOptions, signal?: AbortSignal): Promise<MigrationPreflight>;
+  /** Migrate a guest: online for running VMs, with a restart for running containers */
+  migrateVm(node: string, vmid: number, options: MigrationOptions, signal?: AbortSignal): Promise<MigrationTaskResult>;
+  /** Snapshots of a guest, including the `current` entry for its running state */
+  getSnapshots(node: string, vmid: number, signal?: AbortSignal): Promise<Snapshot[]>;
+  createSnapshot(node: string, vmid: number, snapshot: SnapshotInput, signal?: AbortSignal): Promise<SnapshotTaskResult>;
+  rollbackSnapshot(node: string, vmid: number, name: string, signal?: AbortSignal): Promise<SnapshotTaskResult>;
+  deleteSnapshot(node: string, vmid: number, name: string, signal?: AbortSignal): Promise<SnapshotTaskResult>;
+  /** Open a vncproxy (qemu) or termproxy (container, node shell) session */
+  createConsoleTicket(target: ConsoleTarget, signal?: AbortSignal): Promise<ConsoleTicket>;
+  /** WebSocket endpoint to relay a console ticket to */
+  getConsoleUpstream(target: ConsoleTarget, ticket: ConsoleTicket): Promise<ConsoleUpstream>;
   getSystemLogs(
     node: string,
     limit?: number,
@@ -45,14 +109,13 @@ export interface ProxmoxClient {
   ): Promise<LogEntry[]>;
   getBackupJobs(node?: string, signal?: AbortSignal): Promise<BackupJob[]>;
   getServiceStatus(node: string, signal?: AbortSignal): Promise<ServiceStatus[]>;
-  getActiveAlerts(signal?: AbortSignal): Promise<Alert[]>;
-  acknowledgeAlert(alertId: string, signal?: AbortSignal): Promise<{ success: boolean }>;
 }
 
 /**
  * Factory: chooses adapter based on environment.
  * - If ENABLE_MOCK=true, use the mock adapter.
- * - Else use HTTPS adapter with token auth.
+ * - Else use HTTPS adapter with token auth, or ticket auth when only
+ *   username/password are configured.
  */
 export function createProxmoxClient(): ProxmoxClient {
   const e = env.get();
@@ -69,6 +132,9 @@ export function createProxmoxClient(): ProxmoxClient {
     baseUrl: e.PROXMOX_BASE_URL,
     tokenId: e.PROXMOX_API_TOKEN_ID,
     tokenSecret: e.PROXMOX_API_TOKEN_SECRET,
+    username: e.PROXMOX_USERNAME,
+    password: e.PROXMOX_PASSWORD,
+    totpSecret: e.PROXMOX_TOTP_SECRET,
     insecureTLS: e.PROXMOX_INSECURE_TLS,
     cacheTtlMs: e.SERVER_CACHE_TTL_MS,
     pollIntervalMs: e.POLL_INTERVAL_MS,
@@ -111,6 +177,40 @@ export async function performVmAction(node: string, vmid: number, action: VmActi
   return client.performVmAction(node, vmid, action, signal);
 }
 
+export async function getVmConfig(node: string, vmid: number, signal?: AbortSignal) {
+  const client = createProxmoxClient();
+  return client.getVmConfig(node, vmid, signal);
+}
+
+export async function getSnapshots(node: string, vmid: number, signal?: AbortSignal) {
+  const client = createProxmoxClient();
+  return client.getSnapshots(node, vmid, signal);
+}
+
+/**
+ * Convenience helpers for Proxmox tasks
+ */
+export async function getTaskStatus(node: string, upid: string, signal?: AbortSignal) {
+  const client = createProxmoxClient();
+  return client.getTaskStatus(node, upid, signal);
+}
+
+export async function getTasks(signal?: AbortSignal) {
+  const client = createProxmoxClient();
+  return client.getTasks(signal);
+}
+
+export async function getTaskLog(
+  node: string,
+  upid: string,
+  start?: number,
+  limit?: number,
+  signal?: AbortSignal
+) {
+  const client = createProxmoxClient();
+  return client.getTaskLog(node, upid, start, limit, signal);
+}
+
 /**
  * Convenience helpers for historical metrics
  */
@@ -124,6 +224,21 @@ export async function getHistoricalMetrics(
   return client.getHistoricalMetrics(node, timeRange, vmid, signal);
 }
 
+export async function getStoragePools(signal?: AbortSignal) {
+  const client = createProxmoxClient();
+  return client.getStoragePools(signal);
+}
+
+export async function getStorageHistoricalMetrics(
+  node: string,
+  storage: string,
+  timeRange: TimeRange,
+  signal?: AbortSignal
+) {
+  const client = createProxmoxClient();
+  return client.getStorageHistoricalMetrics(node, storage, timeRange, signal);
+}
+
 /**
  * Convenience helpers for monitoring features
  */
@@ -146,16 +261,3 @@ export async function getServiceStatus(node: string, signal?: AbortSignal) {
   const client = createProxmoxClient();
   return client.getServiceStatus(node, signal);
 }
-
-/**
- * Convenience helpers for alert management
- */
-export async function getActiveAlerts(signal?: AbortSignal) {
-  const client = createProxmoxClient();
-  return client.getActiveAlerts(signal);
-}
-
-export async function acknowledgeAlert(alertId: string, signal?: AbortSignal) {
-  const client = createProxmoxClient();
-  return client.acknowledgeAlert(alertId, signal);
-}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import type {
+  MigrationCheck,
+  MigrationOptions,
+  MigrationPreflight,
+  NodeSummary,
+  StoragePool,
+  VmResource,
+} from '@/lib/types';
+
+/**
+ * What an adapter knows about a planned migration. For QEMU guests most of
+ * it comes from Proxmox's own preconditions (GET .../qemu/{vmid}/migrate);
+ * containers have no such endpoint, so their facts are gathered from the
+ * guest config and the storage list.
+ */
+export type MigrationFacts = {
+  vm: VmResource;
+  options: MigrationOptions;
+  /** Undefined when the target is not a cluster member */
+  targetNode?: NodeSummary;
+  allowedNodes: string[];
+  localDisks: { volid: string; size?: number; cdrom?: boolean }[];
+  /** Passed-through devices and other resources bound to the current node */
+  localResources: string[];
+  /** Storages used by the guest that the target node does not have */
+  unavailableStorages: string[];
+  /** Storages of the target node, to check an explicit target storage */
+  targetStorages: StoragePool[];
+};
+
+// Keep some headroom on the target for the host itself
+const MEMORY_HEADROOM = 0.1;
+
+const formatGiB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Turn the facts into the preflight checks shown before a migration starts.
+ * Any failed check blocks the migration.
+ */
+export function evaluateMigration(facts: MigrationFacts): MigrationPreflight {
+  const { vm, options, targetNode } = facts;
+  const { target } = options;
+  const running = vm.status === 'running' || vm.status === 'paused';
+  const checks: MigrationCheck[] = [];
+
+  if (target === vm.node) {
+    checks.push({ id: 'target', status: 'fail', message: `The guest already runs on ${target}` });
+  } else if (!targetNode) {
+    checks.push({ id: 'target', status: 'fail', message: `${target} is not a node of this cluster` });
+  } else if (targetNode.status !== 'online') {
+    checks.push({ id: 'target', status: 'fail', message: `${target} is ${targetNode.status}` });
+  } else if (facts.allowedNodes.length > 0 && !facts.allowedNodes.includes(target)) {
+    checks.push({ id: 'target', status: 'fail', message: `Proxmox does not allow migrating to ${target}` });
+  } else {
+    checks.push({ id: 'target', status: 'pass', message: `${target} is online` });
+  }
+
+  const mode = !running ? 'offline' : vm.type === 'qemu' ? 'online' : 'restart';
+  checks.push(
+    mode === 'online'
+      ? { id: 'mode', status: 'pass', message: 'Live migration while the VM keeps running' }
+      : mode === 'restart'
+        ? { id: 'mode', status: 'warn', message: `The container is shut down (waiting up to ${options.restartTimeout}s) and started again on ${target}` }
+        : { id: 'mode', status: 'pass', message: 'Offline migration of a stopped guest' }
+  );
+
+  const cdroms = facts.localDisks.filter((disk) => disk.cdrom);
+  const disks = facts.localDisks.filter((disk) => !disk.cdrom);
+  const diskSize = disks.reduce((sum, disk) => sum + (disk.size ?? 0), 0);
+  if (cdroms.length > 0) {
+    checks.push({ id: 'local-disks', status: 'fail', message: `Local ISO ${cdroms.map((disk) => disk.volid).join(', ')} is attached; eject it first` });
+  } else if (disks.length === 0) {
+    checks.push({ id: 'local-disks', status: 'pass', message: 'All disks are on shared storage' });
+  } else if (vm.type === 'qemu' && !options.withLocalDisks) {
+    checks.push({ id: 'local-disks', status: 'fail', message: `${plural(disks.length, 'local disk')} (${formatGiB(diskSize)}) must be copied; enable copying local disks` });
+  } else {
+    checks.push({ id: 'local-disks', status: 'warn', message: `${plural(disks.length, 'local disk')} (${formatGiB(diskSize)}) will be copied to ${target}` });
+  }
+
+  checks.push(
+    facts.localResources.length > 0
+      ? { id: 'local-resources', status: 'fail', message: `Bound to resources of ${vm.node}: ${facts.localResources.join(', ')}` }
+      : { id: 'local-resources', status: 'pass', message: 'No passed-through devices' }
+  );
+
+  if (options.targetStorage) {
+    const storage = facts.targetStorages.find((pool) => pool.storage === options.targetStorage);
+    checks.push(
+      storage && storage.status !== 'unavailable'
+        ? { id: 'storage', status: 'pass', message: `Disks are placed on ${storage.storage}` }
+        : { id: 'storage', status: 'fail', message: `Storage ${options.targetStorage} is not available on ${target}` }
+    );
+  } else if (facts.unavailableStorages.length > 0) {
+    checks.push({ id: 'storage', status: 'fail', message: `Storage ${facts.unavailableStorages.join(', ')} is not available on ${target}; choose a target storage` });
+  } else {
+    checks.push({ id: 'storage', status: 'pass', message: `The guest's storages exist on ${target}` });
+  }
+
+  const needed = vm.memory?.max ?? 0;
+  const memory = targetNode?.memory;
+  if (!running) {
+    checks.push({ id: 'memory', status: 'pass', message: 'Memory is only needed once the guest starts' });
+  } else if (!memory) {
+    checks.push({ id: 'memory', status: 'warn', message: `Free memory of ${target} is unknown` });
+  } else if (needed > memory.free) {
+    checks.push({ id: 'memory', status: 'fail', message: `${target} has ${formatGiB(memory.free)} free, the guest needs ${formatGiB(needed)}` });
+  } else if (memory.free - needed < memory.total * MEMORY_HEADROOM) {
+    checks.push({ id: 'memory', status: 'warn', message: `${target} is left with ${formatGiB(memory.free - needed)} free` });
+  } else {
+    checks.push({ id: 'memory', status: 'pass', message: `${target} has ${formatGiB(memory.free)} free for ${formatGiB(needed)}` });
+  }
+
+  return {
+    vmid: vm.vmid,
+    node: vm.node,
+    type: vm.type,
+    target,
+    mode,
+    allowedNodes: facts.allowedNodes,
+    localDisks: facts.localDisks.map(({ volid, size }) => ({ volid, size })),
+    checks,
+    ok: !checks.some((check) => check.status === 'fail'),
+  };
+}
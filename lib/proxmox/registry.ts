@@ -0,0 +1,130 @@
+import { env } from "../../env/index";
+import { createProxmoxClient } from "./client";
+import type { ProxmoxClient } from "./client";
+import { createHttpsClient } from "./adapters/https";
+import { getServerRepository } from "../services/serverRepository";
+import { openServerSecrets } from "../services/serverSecrets";
+
+/**
+ * Per-server client registry.
+ *
+ * Servers saved through /api/servers are turned into HTTPS clients keyed by
+ * server id, so one dashboard instance can browse several clusters. Requests
+ * without a server id keep using the env-configured default client.
+ */
+
+export type ProxmoxServerConfig = {
+  id: string;
+  host: string;
+  port: number;
+  username?: string;
+  /** API token secret, possibly encrypted; paired with `tokenId` (or the username) as PVEAPIToken */
+  token?: string;
+  tokenId?: string;
+  /** Ticket auth, used when no token is stored */
+  password?: string;
+  totpSecret?: string;
+  insecureTLS: boolean;
+};
+
+/**
+ * The requested server id does not match any stored server.
+ */
+export class UnknownServerError extends Error {
+  constructor(readonly serverId: string) {
+    super(`Unknown server: ${serverId}`);
+    this.name = "UnknownServerError";
+  }
+}
+
+// Stored configs are re-read periodically so edits reach long-lived clients
+const CONFIG_TTL_MS = 60_000;
+
+type RegistryEntry = {
+  client: ProxmoxClient;
+  expires: number;
+};
+
+const registry = new Map<string, RegistryEntry>();
+const pendingLookups = new Map<string, Promise<ProxmoxClient>>();
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+
+/**
+ * Build a client for a stored server. Honors ENABLE_MOCK like the default factory.
+ * This is the only place where stored secrets are decrypted.
+ */
+export function createServerClient(server: ProxmoxServerConfig): ProxmoxClient {
+  const e = env.get();
+  if (e.ENABLE_MOCK) {
+    return createProxmoxClient();
+  }
+
+  const config = openServerSecrets(server);
+  return createHttpsClient({
+    baseUrl: `https://${config.host}:${config.port}`,
+    // Same convention as the connection test: the username doubles as the token id
+    tokenId: config.token ? config.tokenId ?? config.username : undefined,
+    tokenSecret: config.token,
+    username: config.password ? config.username : undefined,
+    password: config.password,
+    totpSecret: config.totpSecret,
+    insecureTLS: config.insecureTLS,
+    cacheTtlMs: e.SERVER_CACHE_TTL_MS,
+    pollIntervalMs: e.POLL_INTERVAL_MS,
+  });
+}
+
+async function loadServerClient(serverId: string): Promise<ProxmoxClient> {
+  const server = await getServerRepository().get(serverId);
+  if (!server) {
+    throw new UnknownServerError(serverId);
+  }
+  const client = createServerClient(server);
+  registry.set(serverId, { client, expires: Date.now() + CONFIG_TTL_MS });
+  return client;
+}
+
+/**
+ * Client for the given server id, or the env-configured default when no id is given.
+ */
+export async function getProxmoxClient(serverId?: string | null): Promise<ProxmoxClient> {
+  if (!serverId) {
+    return createProxmoxClient();
+  }
+
+  const entry = registry.get(serverId);
+  if (entry && entry.expires > Date.now()) {
+    return entry.client;
+  }
+
+  let pending = pendingLookups.get(serverId);
+  if (!pending) {
+    pending = loadServerClient(serverId).finally(() => pendingLookups.delete(serverId));
+    pendingLookups.set(serverId, pending);
+  }
+  return pending;
+}
+
+/**
+ * Drop the cached client of a server whose settings changed or that was deleted.
+ */
+export function invalidateProxmoxClient(serverId: string): void {
+  registry.delete(serverId);
+}
+
+/**
+ * Server id of an API request: `?serverId=` or the `X-Proxmox-Server-Id` header.
+ */
+export function getRequestServerId(request: Request): string | undefined {
+  const fromQuery = new URL(request.url).searchParams.get("serverId");
+  return optionalString(fromQuery) ?? optionalString(request.headers.get("x-proxmox-server-id"));
+}
+
+/**
+ * Client targeted by an API request; see getRequestServerId.
+ */
+export function getClientForRequest(request: Request): Promise<ProxmoxClient> {
+  return getProxmoxClient(getRequestServerId(request));
+}
@@ -0,0 +1,30 @@
+import type { Snapshot } from '@/lib/types';
+
+export type SnapshotTreeNode = Snapshot & { children: SnapshotTreeNode[] };
+
+/**
+ * Arrange the flat Proxmox snapshot list into a tree following `parent`.
+ * Siblings are ordered by creation time, with the `current` state last;
+ * entries whose parent is missing become roots.
+ */
+export function buildSnapshotTree(snapshots: Snapshot[]): SnapshotTreeNode[] {
+  const nodes = new Map<string, SnapshotTreeNode>();
+  for (const snapshot of snapshots) {
+    nodes.set(snapshot.name, { ...snapshot, children: [] });
+  }
+
+  const roots: SnapshotTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent ? nodes.get(node.parent) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const order = (a: SnapshotTreeNode, b: SnapshotTreeNode) =>
+    Number(a.current) - Number(b.current) || (a.snaptime ?? 0) - (b.snaptime ?? 0);
+  const sort = (list: SnapshotTreeNode[]) => {
+    list.sort(order);
+    list.forEach((node) => sort(node.children));
+  };
+  sort(roots);
+  return roots;
+}
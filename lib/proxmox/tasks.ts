@@ -0,0 +1,298 @@
+import type { ProxmoxClient } from "./client";
+import type { TaskLogLine, TaskStatus } from "../types";
+import { API_ENDPOINTS, INTERVALS } from "../constants";
+import { sleep } from "../utils/error-handling";
+
+/**
+ * Proxmox task (UPID) tracking.
+ *
+ * Every asynchronous Proxmox operation returns a UPID of the form
+ *   UPID:<node>:<pid>:<pstart>:<starttime>:<type>:<id>:<user>:
+ * where pid, pstart and starttime are hexadecimal. The tracker polls
+ * /nodes/{node}/tasks/{upid}/status until the task stops and keeps the
+ * final state for a while so API routes can answer follow-up polls.
+ */
+
+export type ParsedUpid = {
+  upid: string;
+  node: string;
+  pid: number;
+  pstart: number;
+  startTime: number;
+  type: string;
+  id?: string;
+  user: string;
+};
+
+export function parseUpid(upid: string): ParsedUpid | null {
+  const parts = upid.split(":");
+  if (parts.length < 8 || parts[0] !== "UPID") return null;
+
+  const [, node, pid, pstart, starttime, type, id, ...userParts] = parts;
+  // The user part may itself contain ":" (e.g. token ids); drop the trailing empty segment
+  const user = userParts.join(":").replace(/:$/, "");
+  const startSeconds = parseInt(starttime, 16);
+  if (!node || !type || !Number.isFinite(startSeconds)) return null;
+
+  return {
+    upid,
+    node,
+    pid: parseInt(pid, 16),
+    pstart: parseInt(pstart, 16),
+    startTime: startSeconds * 1000,
+    type,
+    id: id || undefined,
+    user,
+  };
+}
+
+export function isTaskFinished(task: TaskStatus): boolean {
+  return task.status === "stopped";
+}
+
+/**
+ * Proxmox reports "OK" for clean runs and "WARNINGS: <n>" when the task
+ * completed with warnings; anything else is the error message.
+ */
+export function isTaskSuccessful(task: TaskStatus): boolean {
+  return (
+    task.status === "stopped" &&
+    (task.exitstatus === "OK" || (task.exitstatus?.startsWith("WARNINGS") ?? false))
+  );
+}
+
+export type TaskLogEvent =
+  | { type: "log"; lines: TaskLogLine[] }
+  | { type: "task"; task: TaskStatus }
+  | { type: "end"; task: TaskStatus };
+
+const TASK_LOG_PAGE_SIZE = 500;
+
+/**
+ * Follow a task's log incrementally, like `tail -f`.
+ * Yields new log lines as they appear, a "task" event whenever the run state
+ * changes and a final "end" event once the task has stopped and its log has
+ * been drained.
+ */
+export async function* tailTaskLog(
+  client: ProxmoxClient,
+  node: string,
+  upid: string,
+  options: { start?: number; pollIntervalMs?: number; signal?: AbortSignal } = {},
+): AsyncGenerator<TaskLogEvent> {
+  const { pollIntervalMs = INTERVALS.TASK_POLL, signal } = options;
+  let start = options.start ?? 0;
+  let lastState: TaskStatus["status"] | undefined;
+
+  while (!signal?.aborted) {
+    // Read the status before the log so a stopped task's log is known to be complete
+    const task = await client.getTaskStatus(node, upid, signal);
+
+    let page: TaskLogLine[];
+    do {
+      page = await client.getTaskLog(node, upid, start, TASK_LOG_PAGE_SIZE, signal);
+      const fresh = page.filter((line) => line.n > start);
+      if (fresh.length > 0) {
+        start = fresh[fresh.length - 1].n;
+        yield { type: "log", lines: fresh };
+      }
+    } while (page.length >= TASK_LOG_PAGE_SIZE);
+
+    if (task.status !== lastState) {
+      lastState = task.status;
+      yield { type: "task", task };
+    }
+    if (isTaskFinished(task)) {
+      yield { type: "end", task };
+      return;
+    }
+
+    await sleep(pollIntervalMs);
+  }
+}
+
+export type TaskTrackerOptions = {
+  pollIntervalMs?: number;
+  maxTrackMs?: number;
+  retainMs?: number;
+  maxConsecutiveErrors?: number;
+};
+
+type TaskState = {
+  status: TaskStatus;
+  error?: string;
+  updatedAt: number;
+  settled: boolean;
+};
+
+type TrackedTask = TaskState & { done: Promise<TaskStatus> };
+
+// UPIDs are only unique within a cluster, so tasks are keyed by server too
+const taskKey = (upid: string, serverId?: string) => `${serverId ?? ""}/${upid}`;
+
+/**
+ * In-process registry of Proxmox tasks being watched.
+ * Tracking the same task twice shares a single polling loop. `serverId` is
+ * the stored server the task runs on, undefined for the default server.
+ */
+export class TaskTracker {
+  private tasks = new Map<string, TrackedTask>();
+  private options: Required<TaskTrackerOptions>;
+
+  constructor(options: TaskTrackerOptions = {}) {
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? INTERVALS.TASK_POLL,
+      maxTrackMs: options.maxTrackMs ?? 30 * 60 * 1000,
+      retainMs: options.retainMs ?? 10 * 60 * 1000,
+      maxConsecutiveErrors: options.maxConsecutiveErrors ?? 5,
+    };
+  }
+
+  /**
+   * Start (or join) polling of a task. The returned promise resolves with the
+   * final status, or with the last known status if tracking gives up.
+   */
+  track(client: ProxmoxClient, upid: string, serverId?: string): Promise<TaskStatus> {
+    this.prune();
+
+    const key = taskKey(upid, serverId);
+    const existing = this.tasks.get(key);
+    if (existing) return existing.done;
+
+    const parsed = parseUpid(upid);
+    if (!parsed) {
+      return Promise.reject(new Error(`Invalid UPID: ${upid}`));
+    }
+
+    const state: TaskState = {
+      status: {
+        upid,
+        node: parsed.node,
+        type: parsed.type,
+        id: parsed.id,
+        user: parsed.user,
+        status: "running",
+        startTime: parsed.startTime,
+      },
+      updatedAt: Date.now(),
+      settled: false,
+    };
+    const done = this.poll(client, parsed.node, upid, state).finally(() => {
+      state.settled = true;
+    });
+    const entry: TrackedTask = Object.assign(state, { done });
+    this.tasks.set(key, entry);
+    return entry.done;
+  }
+
+  /**
+   * Track a task but stop waiting after `timeoutMs`; resolves with whatever
+   * status is known at that point (which may still be "running").
+   */
+  async wait(client: ProxmoxClient, upid: string, timeoutMs: number, serverId?: string): Promise<TaskStatus> {
+    const done = this.track(client, upid, serverId);
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<TaskStatus>((resolve) => {
+      timer = setTimeout(() => resolve(this.tasks.get(taskKey(upid, serverId))!.status), timeoutMs);
+    });
+    try {
+      return await Promise.race([done, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  get(upid: string, serverId?: string): TaskStatus | undefined {
+    return this.tasks.get(taskKey(upid, serverId))?.status;
+  }
+
+  getError(upid: string, serverId?: string): string | undefined {
+    return this.tasks.get(taskKey(upid, serverId))?.error;
+  }
+
+  private async poll(client: ProxmoxClient, node: string, upid: string, entry: TaskState): Promise<TaskStatus> {
+    const deadline = Date.now() + this.options.maxTrackMs;
+    let consecutiveErrors = 0;
+
+    while (Date.now() < deadline) {
+      try {
+        const status = await client.getTaskStatus(node, upid);
+        consecutiveErrors = 0;
+        entry.status = { ...entry.status, ...status };
+        entry.error = undefined;
+        entry.updatedAt = Date.now();
+        if (isTaskFinished(entry.status)) {
+          return entry.status;
+        }
+      } catch (e) {
+        consecutiveErrors++;
+        entry.error = e instanceof Error ? e.message : String(e);
+        entry.updatedAt = Date.now();
+        if (consecutiveErrors >= this.options.maxConsecutiveErrors) {
+          console.warn(`[TaskTracker] Giving up on ${upid}: ${entry.error}`);
+          return entry.status;
+        }
+      }
+      await sleep(this.options.pollIntervalMs);
+    }
+
+    return entry.status;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.retainMs;
+    for (const [key, entry] of this.tasks.entries()) {
+      if (entry.settled && entry.updatedAt < cutoff) {
+        this.tasks.delete(key);
+      }
+    }
+  }
+}
+
+// The action, migrate, snapshot and task status routes may be bundled
+// separately; they share one tracker through globalThis so a task started by
+// one is found already polled by the others
+const TRACKER_KEY = Symbol.for("proxmox-dashboard.task-tracker");
+
+/**
+ * Process-wide tracker shared by the API routes.
+ */
+export function getTaskTracker(): TaskTracker {
+  const holder = globalThis as typeof globalThis & { [TRACKER_KEY]?: TaskTracker };
+  holder[TRACKER_KEY] ??= new TaskTracker();
+  return holder[TRACKER_KEY];
+}
+
+/**
+ * Browser side: `path` of a dashboard API call aimed at a stored server, or
+ * unchanged for the default server.
+ */
+export function withServerId(path: string, serverId?: string): string {
+  if (!serverId) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}serverId=${encodeURIComponent(serverId)}`;
+}
+
+/**
+ * Browser side: poll a task through the dashboard API until it stops. The
+ * task is looked up on `serverId`, the server that started it.
+ * Resolves with null if it is still running after `maxWaitMs`.
+ */
+export async function waitForTask(
+  upid: string,
+  options: { serverId?: string; maxWaitMs?: number } = {},
+): Promise<TaskStatus | null> {
+  const { serverId, maxWaitMs = 5 * 60 * 1000 } = options;
+  const deadline = Date.now() + maxWaitMs;
+  while (Date.now() < deadline) {
+    const url = withServerId(`${API_ENDPOINTS.TASKS}/${encodeURIComponent(upid)}`, serverId);
+    const response = await fetch(url, { cache: "no-store" });
+    const json = await response.json();
+    if (!response.ok || !json.ok) {
+      throw new Error(json.error || "Failed to fetch task status");
+    }
+    const task = json.data as TaskStatus;
+    if (isTaskFinished(task)) return task;
+    await sleep(INTERVALS.TASK_POLL * 2);
+  }
+  return null;
+}
@@ -0,0 +1,26 @@
+import { Agent } from "undici";
+import type { Dispatcher } from "undici";
+
+/**
+ * fetch options extended with the undici dispatcher Node's fetch accepts.
+ */
+export type DispatcherRequestInit = RequestInit & { dispatcher?: Dispatcher };
+
+// One agent per server skipping certificate checks; clients of the default
+// server are created per request, so they reuse it instead of leaking sockets
+const insecureAgents = new Map<string, Agent>();
+
+/**
+ * Dispatcher for requests to a server. Only servers configured with
+ * `insecureTLS` get an agent that does not verify certificates; every other
+ * request, including webhooks and SMTP, keeps the default checks.
+ */
+export function tlsDispatcher(baseUrl: string, insecureTLS: boolean): Dispatcher | undefined {
+  if (!insecureTLS) return undefined;
+  let agent = insecureAgents.get(baseUrl);
+  if (!agent) {
+    agent = new Agent({ connect: { rejectUnauthorized: false } });
+    insecureAgents.set(baseUrl, agent);
+  }
+  return agent;
+}
@@ -0,0 +1,81 @@
+import type { VmConfig, VmConfigUpdate } from '@/lib/types';
+
+/**
+ * The editable settings of a guest, as held by the edit form.
+ */
+export type VmConfigDraft = Pick<VmConfig, 'cores' | 'memory' | 'balloon' | 'description' | 'tags' | 'onboot'>;
+
+export type VmConfigChange = {
+  field: keyof VmConfigDraft;
+  label: string;
+  from: string;
+  to: string;
+};
+
+const LABELS: Record<keyof VmConfigDraft, string> = {
+  cores: 'CPU cores',
+  memory: 'Memory',
+  balloon: 'Minimum memory (balloon)',
+  description: 'Description',
+  tags: 'Tags',
+  onboot: 'Start at boot',
+};
+
+const NUMERIC_FIELDS = new Set<keyof VmConfigDraft>(['cores', 'memory', 'balloon']);
+
+const NONE = '(none)';
+
+const format = (field: keyof VmConfigDraft, value: VmConfigDraft[keyof VmConfigDraft]): string => {
+  if (value === undefined || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0)) return NONE;
+  if (field === 'memory' || field === 'balloon') return `${value} MiB`;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+// Compare the way Proxmox stores them: trimmed text, tag order kept
+const normalize = (value: VmConfigDraft[keyof VmConfigDraft]) =>
+  Array.isArray(value) ? value.join(';') : typeof value === 'string' ? value.trim() : value ?? '';
+
+export function toConfigDraft(config: VmConfig): VmConfigDraft {
+  return {
+    cores: config.cores,
+    memory: config.memory,
+    balloon: config.balloon,
+    description: config.description ?? '',
+    tags: config.tags,
+    onboot: config.onboot,
+  };
+}
+
+/**
+ * Pending changes of a draft against the stored configuration, in form order.
+ * Numbers left empty keep their current value.
+ */
+export function diffVmConfig(config: VmConfig, draft: VmConfigDraft): VmConfigChange[] {
+  const current = toConfigDraft(config);
+  return (Object.keys(LABELS) as (keyof VmConfigDraft)[])
+    .filter((field) => draft[field] !== undefined || !NUMERIC_FIELDS.has(field))
+    .filter((field) => normalize(current[field]) !== normalize(draft[field]))
+    .map((field) => ({
+      field,
+      label: LABELS[field],
+      from: format(field, current[field]),
+      to: format(field, draft[field]),
+    }));
+}
+
+/**
+ * Update carrying only the changed settings, guarded by the config digest.
+ */
+export function toConfigUpdate(config: VmConfig, draft: VmConfigDraft): VmConfigUpdate {
+  const update: VmConfigUpdate = { digest: config.digest };
+  for (const { field } of diffVmConfig(config, draft)) {
+    switch (field) {
+      case 'description': update.description = draft.description?.trim() ?? ''; break;
+      case 'tags': update.tags = draft.tags; break;
+      case 'onboot': update.onboot = draft.onboot; break;
+      default: update[field] = draft[field];
+    }
+  }
+  return update;
+}
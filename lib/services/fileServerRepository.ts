@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { validateServerInput, validateServerRecord, validateServerUpdate } from '@/lib/types';
+import type { ServerRecord } from '@/lib/types';
+import { readJsonFile, writeJsonFileAtomic } from '@/lib/utils/jsonFile';
+import type { ServerRepository } from './serverRepository';
+import { isNormalised, normaliseServerDocument } from './serverMigration';
+import { sealServerSecrets } from './serverSecrets';
+import type { ServerMigrationReport } from './serverMigration';
+
+const FILE_VERSION = 1;
+
+type ServerFile = {
+  version: number;
+  servers: ServerRecord[];
+  /** Documents the migration could not repair, kept verbatim for manual fixing */
+  invalid?: unknown[];
+};
+
+type LoadedState = {
+  servers: ServerRecord[];
+  invalid: unknown[];
+};
+
+/**
+ * JSON-file server store for single-node installs.
+ * Reads are served from memory; every change re-reads the file first and
+ * rewrites it atomically (temp file + rename), so it never writes back stale
+ * copies of what another process changed, e.g. secrets re-encrypted by
+ * scripts/rotate-server-secrets.ts. Operations are serialised.
+ */
+export class FileServerRepository implements ServerRepository {
+  private state: LoadedState | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  // Run operations one at a time so concurrent writes cannot interleave
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(operation);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private run<T>(operation: (state: LoadedState) => Promise<T>): Promise<T> {
+    return this.enqueue(async () => operation(await this.load()));
+  }
+
+  // Apply a change to the current content of the file; `operation` writes it
+  private change<T>(operation: (state: LoadedState) => Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const { state } = await this.read();
+      this.state = state;
+      return operation(state);
+    });
+  }
+
+  private async load(): Promise<LoadedState> {
+    if (this.state) return this.state;
+    const { state, report } = await this.read();
+    this.state = state;
+    if (report.migrated > 0) {
+      await this.write(state);
+      console.info(`fileServerRepository: normalised ${report.migrated} server(s), ${report.invalid.length} invalid`);
+    }
+    return state;
+  }
+
+  private async read(): Promise<{ state: LoadedState; report: ServerMigrationReport }> {
+    const report: ServerMigrationReport = { migrated: 0, unchanged: 0, invalid: [] };
+    const raw = await readJsonFile(this.filePath);
+    if (raw === undefined) {
+      return { state: { servers: [], invalid: [] }, report };
+    }
+
+    // Legacy files are a bare array of documents
+    const file = Array.isArray(raw) ? { version: 0, servers: raw, invalid: [] } : (raw as ServerFile);
+    const docs = [...(file.servers ?? []), ...(file.invalid ?? [])] as Array<Record<string, unknown>>;
+    const state: LoadedState = { servers: [], invalid: [] };
+
+    for (const doc of docs) {
+      const id = String(doc.id ?? doc._id ?? randomUUID());
+      try {
+        const record = normaliseServerDocument(id, doc);
+        if (isNormalised(doc, record) && file.version === FILE_VERSION) {
+          report.unchanged++;
+        } else {
+          report.migrated++;
+        }
+        state.servers.push(record);
+      } catch (error) {
+        report.invalid.push({ id, error: error instanceof Error ? error.message : String(error) });
+        state.invalid.push(doc);
+      }
+    }
+    return { state, report };
+  }
+
+  private async write(state: LoadedState): Promise<void> {
+    const file: ServerFile = { version: FILE_VERSION, servers: state.servers };
+    if (state.invalid.length > 0) {
+      file.invalid = state.invalid;
+    }
+    await writeJsonFileAtomic(this.filePath, file);
+  }
+
+  list(): Promise<ServerRecord[]> {
+    return this.run(async (state) => [...state.servers]);
+  }
+
+  get(id: string): Promise<ServerRecord | null> {
+    return this.run(async (state) => state.servers.find((server) => server.id === id) ?? null);
+  }
+
+  async create(input: unknown): Promise<ServerRecord> {
+    const server = sealServerSecrets(validateServerInput(input));
+    return this.change(async (state) => {
+      const now = new Date().toISOString();
+      const record: ServerRecord = { ...server, id: randomUUID(), createdAt: now, updatedAt: now };
+      state.servers.push(record);
+      await this.write(state);
+      return record;
+    });
+  }
+
+  async update(id: string, patch: unknown): Promise<ServerRecord | null> {
+    const changes = sealServerSecrets(validateServerUpdate(patch));
+    return this.change(async (state) => {
+      const index = state.servers.findIndex((server) => server.id === id);
+      if (index === -1) return null;
+      const record = validateServerRecord({
+        ...state.servers[index],
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      });
+      state.servers[index] = record;
+      await this.write(state);
+      return record;
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.change(async (state) => {
+      const before = state.servers.length;
+      state.servers = state.servers.filter((server) => server.id !== id);
+      if (state.servers.length === before) return false;
+      await this.write(state);
+      return true;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.change(async (state) => {
+      state.servers = [];
+      state.invalid = [];
+      await this.write(state);
+    });
+  }
+
+  migrate(): Promise<ServerMigrationReport> {
+    return this.enqueue(async () => {
+      // Re-read from disk so hand edits are picked up
+      const { state, report } = await this.read();
+      this.state = state;
+      await this.write(state);
+      return report;
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+    this.state = null;
+  }
+}
@@ -0,0 +1,143 @@
+import { MongoClient, ObjectId } from 'mongodb';
+import type { Collection, Document, Filter } from 'mongodb';
+import { ServerRecordSchema, validateServerInput, validateServerUpdate } from '@/lib/types';
+import type { ServerRecord } from '@/lib/types';
+import type { ServerRepository } from './serverRepository';
+import { isNormalised, normaliseServerDocument } from './serverMigration';
+import { sealServerSecrets } from './serverSecrets';
+import type { ServerMigrationReport } from './serverMigration';
+
+const COLLECTION_NAME = 'servers';
+
+// Documents created by Mongo use ObjectIds; seeded or imported ones may use plain strings
+function idFilter(id: string): Filter<Document> {
+  return /^[0-9a-fA-F]{24}$/.test(id) ? { _id: new ObjectId(id) } : { _id: id as unknown as ObjectId };
+}
+
+function toRecord(doc: Document): ServerRecord | null {
+  const { _id, ...fields } = doc;
+  const parsed = ServerRecordSchema.safeParse({ ...fields, id: String(_id) });
+  if (!parsed.success) {
+    console.warn(`mongoServerRepository: skipping invalid server document ${String(_id)}`);
+    return null;
+  }
+  return parsed.data;
+}
+
+// Stored without the id, which lives in _id; undefined fields are left out
+function toDocument(fields: Partial<ServerRecord>): Document {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([key, value]) => key !== 'id' && value !== undefined)
+  );
+}
+
+/**
+ * MongoDB-backed server store.
+ */
+export class MongoServerRepository implements ServerRepository {
+  private client: MongoClient | null = null;
+  private ready: Promise<Collection<Document>> | null = null;
+
+  constructor(private readonly uri: string, private readonly dbName: string) {}
+
+  private collection(): Promise<Collection<Document>> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const client = new MongoClient(this.uri);
+        await client.connect();
+        this.client = client;
+        const collection = client.db(this.dbName).collection(COLLECTION_NAME);
+        await this.normalise(collection);
+        return collection;
+      })().catch((error) => {
+        // Allow a later call to retry the connection
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async normalise(collection: Collection<Document>): Promise<ServerMigrationReport> {
+    const report: ServerMigrationReport = { migrated: 0, unchanged: 0, invalid: [] };
+    const docs = await collection.find({}).toArray();
+
+    for (const doc of docs) {
+      const id = String(doc._id);
+      try {
+        const record = normaliseServerDocument(id, doc);
+        if (isNormalised(doc, record)) {
+          report.unchanged++;
+          continue;
+        }
+        await collection.replaceOne({ _id: doc._id }, toDocument(record));
+        report.migrated++;
+      } catch (error) {
+        report.invalid.push({ id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (report.migrated > 0 || report.invalid.length > 0) {
+      console.info(
+        `mongoServerRepository: normalised ${report.migrated} server(s), ${report.invalid.length} invalid`,
+        report.invalid
+      );
+    }
+    return report;
+  }
+
+  async list(): Promise<ServerRecord[]> {
+    const collection = await this.collection();
+    const docs = await collection.find({}).toArray();
+    return docs.map(toRecord).filter((record): record is ServerRecord => record !== null);
+  }
+
+  async get(id: string): Promise<ServerRecord | null> {
+    const collection = await this.collection();
+    const doc = await collection.findOne(idFilter(id));
+    return doc ? toRecord(doc) : null;
+  }
+
+  async create(input: unknown): Promise<ServerRecord> {
+    const server = sealServerSecrets(validateServerInput(input));
+    const collection = await this.collection();
+    const now = new Date().toISOString();
+    const doc = toDocument({ ...server, createdAt: now, updatedAt: now });
+    const result = await collection.insertOne(doc);
+    return { ...server, id: result.insertedId.toString(), createdAt: now, updatedAt: now };
+  }
+
+  async update(id: string, patch: unknown): Promise<ServerRecord | null> {
+    const changes = sealServerSecrets(validateServerUpdate(patch));
+    const collection = await this.collection();
+    const updatedAt = new Date().toISOString();
+    const doc = await collection.findOneAndUpdate(
+      idFilter(id),
+      { $set: { ...changes, updatedAt } },
+      { returnDocument: 'after' }
+    );
+    return doc ? toRecord(doc) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const collection = await this.collection();
+    const result = await collection.deleteOne(idFilter(id));
+    return result.deletedCount === 1;
+  }
+
+  async clear(): Promise<void> {
+    const collection = await this.collection();
+    await collection.deleteMany({});
+  }
+
+  async migrate(): Promise<ServerMigrationReport> {
+    return this.normalise(await this.collection());
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.ready = null;
+    await client?.close();
+  }
+}
@@ -0,0 +1,74 @@
+import { validateServerRecord } from '@/lib/types';
+import type { ServerRecord } from '@/lib/types';
+import { sealServerSecrets } from './serverSecrets';
+
+/**
+ * Normalisation of legacy server documents.
+ *
+ * Earlier versions stored whatever the connection form posted: hosts with a
+ * scheme or port, ports as strings, `tokenSecret` instead of `token`,
+ * `insecureTLS` as a string, Date objects as timestamps and plaintext
+ * secrets. The migration rewrites every stored server into the ServerRecord
+ * shape with its secrets encrypted (see serverSecrets.ts). Documents that
+ * cannot be repaired (no host or username) are reported and left untouched.
+ */
+
+export type ServerMigrationReport = {
+  migrated: number;
+  unchanged: number;
+  invalid: Array<{ id: string; error: string }>;
+};
+
+const str = (value: unknown) =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+
+const toIso = (value: unknown) => {
+  if (value instanceof Date && !isNaN(value.getTime())) return value.toISOString();
+  if (typeof value === 'string' && !isNaN(Date.parse(value))) return new Date(value).toISOString();
+  return undefined;
+};
+
+/**
+ * Turn a stored document into a valid ServerRecord. Throws a ZodError when it cannot be repaired.
+ */
+export function normaliseServerDocument(id: string, raw: Record<string, unknown>, now = new Date()): ServerRecord {
+  let host = str(raw.host) ?? str(raw.url) ?? '';
+  let port: unknown = raw.port;
+
+  // Accept "https://pve.example:8006/" style hosts
+  const match = /^(?:https?:\/\/)?(\[[^\]]+\]|[^/:]+)(?::(\d+))?\/*$/i.exec(host);
+  if (match) {
+    host = match[1];
+    if ((port === undefined || port === '') && match[2]) port = match[2];
+  }
+  const portNumber = Number(port);
+
+  const createdAt = toIso(raw.createdAt) ?? toIso(raw.updatedAt) ?? now.toISOString();
+
+  return validateServerRecord(sealServerSecrets({
+    id,
+    name: str(raw.name),
+    host,
+    port: Number.isInteger(portNumber) && portNumber > 0 && portNumber <= 65535 ? portNumber : 8006,
+    username: str(raw.username),
+    token: str(raw.token) ?? str(raw.tokenSecret),
+    tokenId: str(raw.tokenId),
+    password: str(raw.password),
+    totpSecret: str(raw.totpSecret),
+    insecureTLS: raw.insecureTLS === true || raw.insecureTLS === 'true',
+    createdAt,
+    updatedAt: toIso(raw.updatedAt) ?? createdAt,
+  }));
+}
+
+/**
+ * Whether a stored document already has exactly the normalised shape.
+ */
+export function isNormalised(raw: Record<string, unknown>, record: ServerRecord): boolean {
+  const comparable = (doc: Record<string, unknown>) => Object.fromEntries(
+    Object.entries(doc).filter(([key, value]) => key !== 'id' && key !== '_id' && value !== undefined)
+  );
+  const stored = comparable(raw);
+  const expected = comparable(record);
+  return JSON.stringify(stored, Object.keys(stored).sort()) === JSON.stringify(expected, Object.keys(expected).sort());
+}
@@ -0,0 +1,45 @@
+import path from 'path';
+import { env } from '../../env/index';
+import type { ServerRecord } from '@/lib/types';
+import type { ServerMigrationReport } from './serverMigration';
+
+/**
+ * Storage for the Proxmox servers managed through /api/servers.
+ *
+ * Backends validate input with ServerInputSchema / ServerUpdateSchema and
+ * throw the resulting ZodError on invalid data. Legacy documents are
+ * normalised (see serverMigration.ts) the first time a store is opened.
+ */
+export interface ServerRepository {
+  list(): Promise<ServerRecord[]>;
+  get(id: string): Promise<ServerRecord | null>;
+  create(input: unknown): Promise<ServerRecord>;
+  /** Returns null when no server has this id */
+  update(id: string, patch: unknown): Promise<ServerRecord | null>;
+  delete(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+  /** Normalise every stored document; safe to run repeatedly */
+  migrate(): Promise<ServerMigrationReport>;
+  close(): Promise<void>;
+}
+
+let repository: ServerRepository | null = null;
+
+/**
+ * Repository selected by SERVER_STORE ("file" or "mongo").
+ */
+export function getServerRepository(): ServerRepository {
+  if (repository) return repository;
+
+  const e = env.get();
+  if (e.SERVER_STORE === 'mongo') {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { MongoServerRepository } = require('./mongoServerRepository') as typeof import('./mongoServerRepository');
+    repository = new MongoServerRepository(e.MONGODB_URI!, e.MONGODB_DB);
+  } else {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { FileServerRepository } = require('./fileServerRepository') as typeof import('./fileServerRepository');
+    repository = new FileServerRepository(path.resolve(process.cwd(), e.SERVER_STORE_PATH));
+  }
+  return repository;
+}
@@ -0,0 +1,220 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { env } from '../../env/index';
+import type { ServerRecord } from '@/lib/types';
+import type { ServerRepository } from './serverRepository';
+
+/**
+ * Envelope encryption of stored server secrets.
+ *
+ * Every secret gets its own random data key (AES-256-GCM); the data key is
+ * wrapped with the master key from SECRETS_MASTER_KEY. Envelopes carry the id
+ * of the master key that wrapped them, so older keys listed in
+ * SECRETS_PREVIOUS_KEYS keep working until rotateServerSecrets() has
+ * re-encrypted every stored document with the current key.
+ *
+ * Format: `enc:v1:<key id>:<wrapped data key>:<payload>` (base64url parts,
+ * each being iv | ciphertext | auth tag).
+ */
+
+export const SERVER_SECRET_FIELDS = ['token', 'password', 'totpSecret'] as const;
+export type ServerSecretField = typeof SERVER_SECRET_FIELDS[number];
+type WithSecrets = Partial<Record<ServerSecretField, string>>;
+
+/** Placeholder returned by the API instead of stored secrets */
+export const REDACTED_SECRET = '********';
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Only used outside production when no master key is configured; production
+// deployments need SECRETS_MASTER_KEY once they seal or open a secret
+const DEVELOPMENT_KEY_SEED = 'proxmox-ve-dashboard development key';
+
+type MasterKey = { id: string; key: Buffer };
+type KeyRing = { current: MasterKey; byId: Map<string, MasterKey> };
+
+let keyRing: KeyRing | null = null;
+
+function parseMasterKey(value: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Secrets master keys must be 32 bytes, given as base64 or hex');
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+function getKeyRing(): KeyRing {
+  if (keyRing) return keyRing;
+
+  const e = env.get();
+  let current: MasterKey;
+  if (e.SECRETS_MASTER_KEY) {
+    current = parseMasterKey(e.SECRETS_MASTER_KEY);
+  } else if (e.NODE_ENV === 'production') {
+    throw new Error('SECRETS_MASTER_KEY is not set: it is required in production to encrypt and decrypt stored server secrets');
+  } else {
+    console.warn('serverSecrets: SECRETS_MASTER_KEY is not set, using an insecure development key');
+    current = parseMasterKey(createHash('sha256').update(DEVELOPMENT_KEY_SEED).digest('hex'));
+  }
+
+  const byId = new Map<string, MasterKey>([[current.id, current]]);
+  for (const value of (e.SECRETS_PREVIOUS_KEYS ?? '').split(',')) {
+    if (!value.trim()) continue;
+    const previous = parseMasterKey(value);
+    if (!byId.has(previous.id)) byId.set(previous.id, previous);
+  }
+
+  keyRing = { current, byId };
+  return keyRing;
+}
+
+/**
+ * Forget the cached keys, e.g. after the env changed in tests.
+ */
+export function resetSecretKeys(): void {
+  keyRing = null;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function decrypt(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES)), decipher.final()]);
+}
+
+function parseEnvelope(value: string): { keyId: string; wrappedKey: Buffer; payload: Buffer } {
+  const [keyId, wrappedKey, payload] = value.slice(ENVELOPE_PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !payload) {
+    throw new Error('Malformed encrypted secret');
+  }
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64url'),
+    payload: Buffer.from(payload, 'base64url'),
+  };
+}
+
+export function isSealedSecret(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt a secret with the current master key. Envelopes are returned unchanged.
+ */
+export function sealSecret(value: string): string {
+  if (isSealedSecret(value)) return value;
+
+  const { current } = getKeyRing();
+  const dataKey = randomBytes(32);
+  const payload = encrypt(dataKey, Buffer.from(value, 'utf8'));
+  const wrappedKey = encrypt(current.key, dataKey);
+  return `${ENVELOPE_PREFIX}${current.id}:${wrappedKey.toString('base64url')}:${payload.toString('base64url')}`;
+}
+
+/**
+ * Decrypt an envelope. Plaintext values (not migrated yet) are returned unchanged.
+ */
+export function openSecret(value: string): string {
+  if (!isSealedSecret(value)) return value;
+
+  const { keyId, wrappedKey, payload } = parseEnvelope(value);
+  const masterKey = getKeyRing().byId.get(keyId);
+  if (!masterKey) {
+    throw new Error(`No master key available for secrets encrypted with key ${keyId}`);
+  }
+  const dataKey = decrypt(masterKey.key, wrappedKey);
+  return decrypt(dataKey, payload).toString('utf8');
+}
+
+/**
+ * Whether a stored value must be re-encrypted to be readable with the current key only.
+ */
+export function needsReseal(value: string): boolean {
+  return !isSealedSecret(value) || parseEnvelope(value).keyId !== getKeyRing().current.id;
+}
+
+function mapSecrets<T extends WithSecrets>(server: T, transform: (value: string) => string): T {
+  const result = { ...server };
+  for (const field of SERVER_SECRET_FIELDS) {
+    const value = result[field];
+    if (typeof value === 'string') {
+      result[field] = transform(value) as T[typeof field];
+    }
+  }
+  return result;
+}
+
+export function sealServerSecrets<T extends WithSecrets>(server: T): T {
+  return mapSecrets(server, sealSecret);
+}
+
+/**
+ * Decrypted copy of a stored server. Only the Proxmox client factory should need this.
+ */
+export function openServerSecrets<T extends WithSecrets>(server: T): T {
+  return mapSecrets(server, openSecret);
+}
+
+export function redactServerSecrets<T extends WithSecrets>(server: T): T {
+  return mapSecrets(server, () => REDACTED_SECRET);
+}
+
+/**
+ * Drop secret fields that still hold the redaction placeholder, so a form
+ * echoing a GET response back does not overwrite the stored secrets.
+ */
+export function stripRedactedSecrets<T>(patch: T): T {
+  if (!patch || typeof patch !== 'object') return patch;
+  const result = { ...patch } as Record<string, unknown>;
+  for (const field of SERVER_SECRET_FIELDS) {
+    if (result[field] === REDACTED_SECRET) delete result[field];
+  }
+  return result as T;
+}
+
+export type SecretRotationReport = {
+  rotated: number;
+  unchanged: number;
+  failed: Array<{ id: string; error: string }>;
+};
+
+/**
+ * Re-encrypt the secrets of every stored server with the current master key.
+ * Safe to run repeatedly; servers already using the current key are skipped.
+ */
+export async function rotateServerSecrets(repository: ServerRepository): Promise<SecretRotationReport> {
+  const report: SecretRotationReport = { rotated: 0, unchanged: 0, failed: [] };
+
+  for (const server of await repository.list()) {
+    try {
+      const patch: Partial<ServerRecord> = {};
+      for (const field of SERVER_SECRET_FIELDS) {
+        const value = server[field];
+        if (value && needsReseal(value)) {
+          patch[field] = sealSecret(openSecret(value));
+        }
+      }
+      if (Object.keys(patch).length === 0) {
+        report.unchanged++;
+        continue;
+      }
+      await repository.update(server.id, patch);
+      report.rotated++;
+    } catch (error) {
+      report.failed.push({ id: server.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return report;
+}
@@ -14,12 +14,13 @@ if (process.env.NODE_ENV === 'test') {
     getVmList: mockClient.getVmList,
     getVmDetails: mockClient.getVmDetails,
     performVmAction: mockClient.performVmAction,
+    getTaskStatus: mockClient.getTaskStatus,
+    getTasks: mockClient.getTasks,
+    getTaskLog: mockClient.getTaskLog,
     getHistoricalMetrics: mockClient.getHistoricalMetrics,
     getSystemLogs: mockClient.getSystemLogs,
     getBackupJobs: mockClient.getBackupJobs,
     getServiceStatus: mockClient.getServiceStatus,
-    getActiveAlerts: mockClient.getActiveAlerts,
-    acknowledgeAlert: mockClient.acknowledgeAlert,
   };
 } else {
   exportedService = realService;
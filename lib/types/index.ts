@@ -3,7 +3,7 @@
  */
 
 import { z } from 'zod';
-import { VALIDATION_RULES } from '../constants';
+import { FORECAST, LIVE_CHANNEL, METRICS_EXPORT, NODE_DRAIN, VALIDATION_RULES } from '../constants';
 
 // Base schemas
 export const NodeNameSchema = z.string()
@@ -93,12 +93,6 @@ export const ErrorEventSchema = z.object({
   message: z.string().max(VALIDATION_RULES.ERROR_MESSAGE_MAX_LENGTH),
 });
 
-export const EventMessageSchema = z.discriminatedUnion('type', [
-  HeartbeatEventSchema,
-  StatusEventSchema,
-  ErrorEventSchema,
-]);
-
 // Chart data schema
 export const ChartDataPointSchema = z.object({
   time: z.string(),
@@ -317,8 +311,14 @@ export const AlertThresholdSchema = z.object({
   enabled: z.boolean().default(true),
   node: NodeNameSchema.optional(),
   vmid: z.number().positive().optional(),
+  /** Seconds the condition must hold before the alert fires */
+  forSeconds: z.number().nonnegative().optional(),
+  /** Margin past the threshold value required before a firing alert resolves */
+  hysteresis: z.number().nonnegative().optional(),
 });
 
+export const AlertStatusSchema = z.enum(['firing', 'resolved']);
+
 export const AlertSchema = z.object({
   id: z.string(),
   thresholdId: z.string(),
@@ -330,6 +330,12 @@ export const AlertSchema = z.object({
   acknowledged: z.boolean().default(false),
   acknowledgedBy: z.string().optional(),
   acknowledgedAt: z.date().optional(),
+  status: AlertStatusSchema.optional(),
+  /** Metric value that triggered the alert, and the latest one while it fires */
+  value: z.number().optional(),
+  resolvedAt: z.date().optional(),
+  /** End of the silence or maintenance window suppressing a firing alert (set by the alerts API) */
+  silencedUntil: z.date().optional(),
 });
 
 export const AlertConfigSchema = z.object({
@@ -342,6 +348,109 @@ export const AlertConfigSchema = z.object({
   }),
 });
 
+export const AlertTransitionSchema = z.enum(['fired', 'acknowledged', 'resolved']);
+
+/** One alert state transition, kept after the alert itself is pruned */
+export const AlertHistoryEntrySchema = z.object({
+  id: z.string(),
+  alertId: z.string(),
+  thresholdId: z.string(),
+  transition: AlertTransitionSchema,
+  severity: AlertSeveritySchema,
+  message: z.string(),
+  node: NodeNameSchema.optional(),
+  vmid: z.number().positive().optional(),
+  value: z.number().optional(),
+  /** User who acknowledged, or the alert engine for fired/resolved */
+  actor: z.string(),
+  timestamp: z.date(),
+});
+
+export const AlertHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+  node: NodeNameSchema.optional(),
+  vmid: z.coerce.number().int().positive().optional(),
+  severity: AlertSeveritySchema.optional(),
+  transition: AlertTransitionSchema.optional(),
+  alertId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/** Alerts a silence or maintenance window applies to; unset fields match any alert */
+export const AlertMatcherSchema = z.object({
+  node: NodeNameSchema.optional(),
+  vmid: z.number().positive().optional(),
+  type: AlertTypeSchema.optional(),
+  severity: AlertSeveritySchema.optional(),
+  thresholdId: z.string().optional(),
+});
+
+export const SilenceSchema = z.object({
+  id: z.string(),
+  matcher: AlertMatcherSchema,
+  startsAt: z.date(),
+  endsAt: z.date(),
+  comment: z.string().optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+});
+
+export const SilenceInputSchema = z.object({
+  matcher: AlertMatcherSchema,
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date(),
+  comment: z.string().max(500).optional(),
+  createdBy: z.string().optional(),
+}).refine((silence) => silence.endsAt.getTime() > (silence.startsAt ?? new Date()).getTime(), {
+  message: 'endsAt must be later than startsAt and in the future',
+  path: ['endsAt'],
+});
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Weekly recurring window during which matching thresholds neither fire nor
+ * notify. Days and start time are wall-clock times in the window's time
+ * zone, so the window follows daylight saving time there.
+ */
+export const MaintenanceWindowSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  matcher: AlertMatcherSchema,
+  /** Days of the week the window starts on (0 = Sunday) */
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  /** Start time of day, HH:MM, in `timeZone` */
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM'),
+  /** IANA time zone the days and start time are in, e.g. Europe/Paris */
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone').default('UTC'),
+  durationMinutes: z.number().int().positive().max(7 * 24 * 60),
+  enabled: z.boolean().default(true),
+});
+
+export const MaintenanceWindowInputSchema = MaintenanceWindowSchema.omit({ id: true });
+
+export const NotificationChannelIdSchema = z.enum(['email', 'webhook']);
+
+export const NotificationDeliverySchema = z.object({
+  id: z.string(),
+  channel: NotificationChannelIdSchema,
+  event: z.enum(['alert.fired', 'alert.resolved', 'test']),
+  alertId: z.string().optional(),
+  status: z.enum(['sent', 'failed']),
+  attempts: z.number().int().nonnegative(),
+  error: z.string().optional(),
+  timestamp: z.date(),
+});
+
 // Historical metrics schemas
 export const TimeRangeSchema = z.enum(['1h', '6h', '24h', '7d', '30d']);
 
@@ -356,19 +465,165 @@ export const HistoricalMetricPointSchema = z.object({
     used: z.number().nonnegative(),
     total: z.number().positive(),
   }).optional(),
+  /** Bytes per second received and transmitted */
   network: z.object({
     rx: z.number().nonnegative(),
     tx: z.number().nonnegative(),
   }).optional(),
+  /** Bytes per second read from and written to disk (guests only) */
+  diskIo: z.object({
+    read: z.number().nonnegative(),
+    write: z.number().nonnegative(),
+  }).optional(),
+  /** Fraction of CPU time spent waiting for I/O (nodes only) */
+  iowait: z.number().min(0).max(1).optional(),
+  swap: z.object({
+    used: z.number().nonnegative(),
+    total: z.number().positive(),
+  }).optional(),
 });
 
 export const HistoricalMetricsSchema = z.object({
   node: NodeNameSchema,
   vmid: z.number().positive().optional(),
+  /** Storage pool the series belongs to; `storage` then holds the pool usage */
+  storage: z.string().optional(),
   timeRange: TimeRangeSchema,
   data: z.array(HistoricalMetricPointSchema),
 });
 
+// Storage pools (one entry per node; shared pools appear on every node)
+export const StoragePoolSchema = z.object({
+  storage: z.string().min(1),
+  node: NodeNameSchema,
+  type: z.string().optional(),
+  shared: z.boolean().default(false),
+  status: z.string().optional(),
+  content: z.string().optional(),
+  used: z.number().nonnegative().optional(),
+  total: z.number().positive().optional(),
+});
+
+// Capacity forecast schemas
+export const ForecastThresholdSchema = z.object({
+  /** Usage ratio, e.g. 0.9 */
+  threshold: z.number().min(0).max(1),
+  /** When usage is projected to reach the threshold; null when not within the horizon */
+  date: z.string().datetime().nullable(),
+  daysUntil: z.number().nonnegative().nullable(),
+});
+
+export const ForecastPointSchema = z.object({
+  timestamp: TimestampSchema,
+  value: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+});
+
+export const UsageForecastSchema = z.object({
+  /** Latest observed usage ratio */
+  current: z.number().min(0),
+  total: z.number().positive(),
+  /** Trend of the usage ratio per day */
+  slopePerDay: z.number(),
+  /** Whether a daily pattern was fitted on top of the trend */
+  seasonal: z.boolean(),
+  thresholds: z.array(ForecastThresholdSchema),
+  history: z.array(z.object({ timestamp: TimestampSchema, value: z.number() })),
+  forecast: z.array(ForecastPointSchema),
+});
+
+export const CapacityForecastSchema = z.object({
+  generatedAt: z.string().datetime(),
+  timeRange: TimeRangeSchema,
+  horizonDays: z.number().int().positive(),
+  nodes: z.array(z.object({
+    node: NodeNameSchema,
+    memory: UsageForecastSchema.nullable(),
+    storage: UsageForecastSchema.nullable(),
+  })),
+  pools: z.array(z.object({
+    storage: z.string().min(1),
+    node: NodeNameSchema,
+    type: z.string().optional(),
+    shared: z.boolean(),
+    forecast: UsageForecastSchema.nullable(),
+  })),
+});
+
+export const ForecastQuerySchema = z.object({
+  timeRange: TimeRangeSchema.default(FORECAST.DEFAULT_TIME_RANGE),
+  horizonDays: z.coerce.number().int().min(1).max(FORECAST.MAX_HORIZON_DAYS).default(FORECAST.DEFAULT_HORIZON_DAYS),
+  node: NodeNameSchema.optional(),
+});
+
+// Retained metrics schemas (samples rolled up by the metrics collector)
+export const MetricResolutionSchema = z.enum(['1m', '15m', '1h']);
+
+export const MetricAggregateSchema = z.object({
+  min: z.number(),
+  max: z.number(),
+  avg: z.number(),
+  /** Samples behind the aggregate, used to merge buckets */
+  count: z.number().int().positive(),
+});
+
+export const MetricUsageAggregateSchema = MetricAggregateSchema.extend({
+  /** Capacity at the end of the bucket */
+  total: z.number().positive(),
+});
+
+export const MetricBucketSchema = z.object({
+  node: NodeNameSchema,
+  vmid: z.number().int().positive().optional(),
+  resolution: MetricResolutionSchema,
+  /** Bucket start, epoch milliseconds */
+  start: TimestampSchema,
+  cpu: MetricAggregateSchema.optional(),
+  memory: MetricUsageAggregateSchema.optional(),
+  storage: MetricUsageAggregateSchema.optional(),
+});
+
+export const MetricsRangeQuerySchema = z.object({
+  node: NodeNameSchema,
+  vmid: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date(),
+  to: z.coerce.date().default(() => new Date()),
+  resolution: MetricResolutionSchema.optional(),
+}).refine(
+  (data) => data.from < data.to,
+  { message: 'from must be before to', path: ['from'] }
+);
+
+export const MetricSeriesSchema = z.enum(['cpu', 'memory', 'storage']);
+
+// Comma-separated query parameter
+const listParam = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').map((entry) => entry.trim()).filter(Boolean) : value),
+  z.array(item)
+);
+
+export const MetricsExportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+  nodes: listParam(NodeNameSchema).default([]),
+  vmids: listParam(z.coerce.number().int().positive()).default([]),
+  series: listParam(MetricSeriesSchema)
+    .refine((series) => series.length > 0, 'At least one series is required')
+    .default(['cpu', 'memory', 'storage']),
+  from: z.coerce.date(),
+  to: z.coerce.date().default(() => new Date()),
+  resolution: MetricResolutionSchema.optional(),
+}).refine(
+  (data) => data.from < data.to,
+  { message: 'from must be before to', path: ['from'] }
+).refine(
+  (data) => data.nodes.length + data.vmids.length > 0,
+  { message: 'At least one node or guest is required', path: ['nodes'] }
+).refine(
+  (data) => data.nodes.length + data.vmids.length <= METRICS_EXPORT.MAX_SUBJECTS,
+  { message: `At most ${METRICS_EXPORT.MAX_SUBJECTS} nodes and guests per export`, path: ['vmids'] }
+);
+
 // Settings schemas
 export const ProxmoxConnectionSchema = z.object({
   id: z.string(),
@@ -431,6 +686,364 @@ export const ServiceStatusSchema = z.object({
   description: z.string().optional(),
 });
 
+// Task schemas (Proxmox UPID-based asynchronous operations)
+export const TaskRunStateSchema = z.enum(['running', 'stopped']);
+
+export const TaskStatusSchema = z.object({
+  upid: z.string().min(1),
+  node: NodeNameSchema,
+  type: z.string(),
+  id: z.string().optional(),
+  user: z.string().optional(),
+  status: TaskRunStateSchema,
+  exitstatus: z.string().optional(),
+  startTime: TimestampSchema,
+  endTime: TimestampSchema.optional(),
+});
+
+export const TaskLogLineSchema = z.object({
+  n: z.number().int().positive(),
+  t: z.string(),
+});
+
+// Guest snapshots; `current` marks the entry for the running state, whose parent is the active snapshot
+export const SnapshotSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  parent: z.string().optional(),
+  snaptime: z.number().int().nonnegative().optional(),
+  vmstate: z.boolean().default(false),
+  current: z.boolean().default(false),
+});
+
+// Same rule as Proxmox configuration ids
+export const SnapshotNameSchema = z.string()
+  .regex(/^[A-Za-z][A-Za-z0-9_-]{1,39}$/, 'Snapshot names start with a letter and use 2-40 letters, digits, - or _')
+  .refine((name) => name !== 'current', 'current is a reserved snapshot name');
+
+export const SnapshotInputSchema = z.object({
+  name: SnapshotNameSchema,
+  description: z.string().trim().max(8192).optional(),
+  /** Include the RAM state (QEMU guests only) */
+  vmstate: z.boolean().default(false),
+});
+
+// Node a guest runs on, given with snapshot requests
+export const GuestNodeSchema = z.object({
+  node: NodeNameSchema,
+});
+
+export const SnapshotCreateRequestSchema = SnapshotInputSchema.extend(GuestNodeSchema.shape);
+
+// Guest configuration (/nodes/{node}/{type}/{vmid}/config) split into the sections of the detail page
+export const VmDiskSchema = z.object({
+  /** Config key: scsi0, virtio1, efidisk0, rootfs, mp0, unused0... */
+  id: z.string(),
+  volume: z.string(),
+  size: z.number().nonnegative().optional(),
+  media: z.string().optional(),
+  /** Remaining properties as written by Proxmox (cache, discard, backup...) */
+  options: z.record(z.string(), z.string()).default({}),
+});
+
+export const VmNicSchema = z.object({
+  /** Config key: net0, net1... */
+  id: z.string(),
+  model: z.string().optional(),
+  mac: z.string().optional(),
+  bridge: z.string().optional(),
+  vlan: z.number().int().optional(),
+  firewall: z.boolean().default(false),
+  options: z.record(z.string(), z.string()).default({}),
+});
+
+export const VmCloudInitSchema = z.object({
+  user: z.string().optional(),
+  nameserver: z.string().optional(),
+  searchdomain: z.string().optional(),
+  /** ipconfig0, ipconfig1... */
+  ipconfig: z.record(z.string(), z.string()).default({}),
+  sshKeys: z.number().int().nonnegative().default(0),
+});
+
+export const VmConfigSchema = z.object({
+  vmid: z.number().positive(),
+  node: NodeNameSchema,
+  type: VmTypeSchema,
+  name: z.string().optional(),
+  /** Unset on containers allowed to use every host core */
+  cores: z.number().int().positive().optional(),
+  sockets: z.number().int().positive().default(1),
+  cpuType: z.string().optional(),
+  /** MiB */
+  memory: z.number().int().positive(),
+  /** Minimum memory the balloon device may shrink to, in MiB; 0 disables it (QEMU only) */
+  balloon: z.number().int().nonnegative().optional(),
+  /** MiB (containers only) */
+  swap: z.number().int().nonnegative().optional(),
+  disks: z.array(VmDiskSchema),
+  nics: z.array(VmNicSchema),
+  bootOrder: z.array(z.string()),
+  cloudInit: VmCloudInitSchema.optional(),
+  description: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  onboot: z.boolean().default(false),
+  /** Other settings (ostype, agent, bios, machine, startup, protection...) as raw strings */
+  options: z.record(z.string(), z.string()).default({}),
+  /** Changes Proxmox applies on the next guest restart, by config key */
+  pending: z.record(z.string(), z.string()).default({}),
+  /** Config checksum; sent back with an update to detect concurrent edits */
+  digest: z.string().optional(),
+});
+
+export const VmTagSchema = z.string()
+  .regex(/^[a-z0-9_][a-z0-9_+.-]*$/i, 'Tags use letters, digits, _, +, . and -');
+
+const VmConfigUpdateFields = z.object({
+  cores: z.number().int().min(1).max(512).optional(),
+  /** MiB */
+  memory: z.number().int().min(16).optional(),
+  /** MiB; 0 disables ballooning */
+  balloon: z.number().int().min(0).optional(),
+  /** An empty description removes it */
+  description: z.string().max(8192).optional(),
+  tags: z.array(VmTagSchema).optional(),
+  onboot: z.boolean().optional(),
+  digest: z.string().optional(),
+});
+
+// Shared by the update and its request form, which also carries the node
+const refineConfigUpdate = (update: z.infer<typeof VmConfigUpdateFields>, ctx: z.RefinementCtx) => {
+  const { cores, memory, balloon, description, tags, onboot } = update;
+  if ([cores, memory, balloon, description, tags, onboot].every((value) => value === undefined)) {
+    ctx.addIssue({ code: 'custom', message: 'At least one setting must change' });
+  }
+  if (update.balloon !== undefined && update.memory !== undefined && update.balloon > update.memory) {
+    ctx.addIssue({ code: 'custom', path: ['balloon'], message: 'Balloon minimum cannot exceed memory' });
+  }
+};
+
+export const VmConfigUpdateSchema = VmConfigUpdateFields.superRefine(refineConfigUpdate);
+
+export const VmConfigUpdateRequestSchema = VmConfigUpdateFields.extend(GuestNodeSchema.shape).superRefine(refineConfigUpdate);
+
+// Guest migration: preflight checks, then the migrate task
+export const MigrationModeSchema = z.enum(['online', 'offline', 'restart']);
+
+export const MigrationCheckSchema = z.object({
+  id: z.enum(['target', 'mode', 'local-disks', 'local-resources', 'storage', 'memory']),
+  status: z.enum(['pass', 'warn', 'fail']),
+  message: z.string(),
+});
+
+export const MigrationPreflightSchema = z.object({
+  vmid: z.number().positive(),
+  node: NodeNameSchema,
+  type: VmTypeSchema,
+  target: NodeNameSchema,
+  /** online for running VMs, restart for running containers */
+  mode: MigrationModeSchema,
+  /** Nodes Proxmox would accept as target */
+  allowedNodes: z.array(NodeNameSchema),
+  localDisks: z.array(z.object({ volid: z.string(), size: z.number().nonnegative().optional() })),
+  checks: z.array(MigrationCheckSchema),
+  /** False when any check failed */
+  ok: z.boolean(),
+});
+
+export const MigrationOptionsSchema = z.object({
+  target: NodeNameSchema,
+  /** Copy local disks along (QEMU only) */
+  withLocalDisks: z.boolean().default(false),
+  /** Storage on the target for the migrated disks; defaults to the same storage id */
+  targetStorage: z.string().min(1).optional(),
+  /** Seconds to wait for a container to shut down before it is moved */
+  restartTimeout: z.number().int().positive().max(3600).default(180),
+});
+
+export const MigrationRequestSchema = MigrationOptionsSchema.extend(GuestNodeSchema.shape)
+  .refine((request) => request.target !== request.node, { path: ['target'], message: 'The guest is already on this node' });
+
+// Node drain: placement plan, then the migrations and the maintenance state
+export const DrainNodeSchema = NodeNameSchema.regex(NODE_DRAIN.NODE_PATTERN, 'Only pve-* nodes can be drained');
+
+export const DrainPlacementSchema = z.object({
+  vmid: z.number().positive(),
+  name: z.string().optional(),
+  type: VmTypeSchema,
+  /** Node the guest runs on */
+  node: NodeNameSchema,
+  target: NodeNameSchema,
+  /** Allocated memory in bytes */
+  memory: z.number().nonnegative(),
+  /** CPU in use, in cores */
+  cpu: z.number().nonnegative(),
+});
+
+export const DrainPlanSchema = z.object({
+  node: NodeNameSchema,
+  placements: z.array(DrainPlacementSchema),
+  /** Guests no remaining node has room for */
+  unplaced: z.array(z.object({
+    vmid: z.number().positive(),
+    name: z.string().optional(),
+    type: VmTypeSchema,
+    reason: z.string(),
+  })),
+  /** Free resources of every candidate node before and after the plan */
+  targets: z.array(z.object({
+    node: NodeNameSchema,
+    guests: z.number().int().nonnegative(),
+    memoryFree: z.number(),
+    memoryFreeAfter: z.number(),
+    cpuFree: z.number(),
+    cpuFreeAfter: z.number(),
+  })),
+});
+
+export const NodeMaintenanceStateSchema = z.enum(['draining', 'maintenance', 'undraining']);
+
+export const DrainGuestStatusSchema = z.enum(['pending', 'migrating', 'migrated', 'failed']);
+
+export const NodeMaintenanceGuestSchema = z.object({
+  vmid: z.number().positive(),
+  name: z.string().optional(),
+  type: VmTypeSchema,
+  /** Node the guest ran on before the drain, where undrain moves it back */
+  originalNode: NodeNameSchema,
+  /** Node the current drain or undrain moves it to */
+  target: NodeNameSchema,
+  status: DrainGuestStatusSchema,
+  upid: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const NodeMaintenanceSchema = z.object({
+  node: NodeNameSchema,
+  /** Stored server the node belongs to; unset for the env-configured one */
+  serverId: z.string().optional(),
+  state: NodeMaintenanceStateSchema,
+  guests: z.array(NodeMaintenanceGuestSchema),
+  startedAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const NodeDrainRequestSchema = z.object({
+  /** The approved plan; every placement must move a guest off the drained node */
+  placements: z.array(DrainPlacementSchema),
+  /** Migrations running at the same time */
+  concurrency: z.number().int().min(1).max(NODE_DRAIN.MAX_CONCURRENCY).default(NODE_DRAIN.DEFAULT_CONCURRENCY),
+});
+
+export const NodeUndrainRequestSchema = z.object({
+  concurrency: z.number().int().min(1).max(NODE_DRAIN.MAX_CONCURRENCY).default(NODE_DRAIN.DEFAULT_CONCURRENCY),
+});
+
+// Resource event schemas (declared after the resources they carry)
+export const VmStatusChangeSchema = z.enum(['added', 'removed', 'started', 'stopped', 'paused', 'resumed', 'migrated']);
+
+export const VmStatusEventSchema = z.object({
+  type: z.literal('vm-status'),
+  change: VmStatusChangeSchema,
+  /** Current state of the guest; the last known state when it was removed */
+  vm: VmResourceSchema,
+  previousStatus: VmStatusSchema.optional(),
+  /** Node the guest ran on before a migration */
+  previousNode: NodeNameSchema.optional(),
+});
+
+export const TaskEventSchema = z.object({
+  type: z.literal('task'),
+  change: z.enum(['started', 'finished']),
+  task: TaskStatusSchema,
+});
+
+export const BackupEventSchema = z.object({
+  type: z.literal('backup'),
+  change: z.enum(['started', 'finished']),
+  /** Guest being backed up; absent for jobs covering several guests */
+  vmid: z.number().int().positive().optional(),
+  /** Outcome of a finished backup */
+  result: z.enum(['ok', 'failed']).optional(),
+  task: TaskStatusSchema,
+});
+
+export const AlertEventSchema = z.object({
+  type: z.literal('alert'),
+  change: z.enum(['fired', 'resolved']),
+  // Dates arrive as ISO strings over the wire
+  alert: AlertSchema.extend({
+    timestamp: z.coerce.date(),
+    acknowledgedAt: z.coerce.date().optional(),
+    resolvedAt: z.coerce.date().optional(),
+    silencedUntil: z.coerce.date().optional(),
+  }),
+});
+
+export const EventMessageSchema = z.discriminatedUnion('type', [
+  HeartbeatEventSchema,
+  StatusEventSchema,
+  ErrorEventSchema,
+  VmStatusEventSchema,
+  TaskEventSchema,
+  BackupEventSchema,
+  AlertEventSchema,
+]);
+
+// Live channel (WebSocket) client messages
+// Topics: every guest, task, backup or alert event, or the events of one node or guest
+export const LiveTopicSchema = z.string().regex(
+  /^(vms|tasks|backups|alerts|node:[^\s]+|vm:[1-9]\d*)$/,
+  'Topic must be vms, tasks, backups, alerts, node:<name> or vm:<vmid>',
+);
+
+export const LiveCommandSchema = z.discriminatedUnion('command', [
+  z.object({
+    command: z.literal('acknowledge-alert'),
+    alertId: z.string().min(1),
+    acknowledgedBy: z.string().trim().min(1).optional(),
+  }),
+]);
+
+export const LiveClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subscribe'), topics: z.array(LiveTopicSchema).max(LIVE_CHANNEL.MAX_TOPICS) }),
+  z.object({ type: z.literal('unsubscribe'), topics: z.array(LiveTopicSchema).max(LIVE_CHANNEL.MAX_TOPICS) }),
+  z.object({ type: z.literal('command'), requestId: z.string().min(1).max(100), command: LiveCommandSchema }),
+]);
+
+// Browser consoles: noVNC for qemu guests, xterm.js for containers and node shells
+export const ConsoleTargetSchema = z.object({
+  type: z.enum(['qemu', 'lxc', 'node']),
+  node: NodeNameSchema,
+  vmid: z.coerce.number().int().positive().optional(),
+}).refine((target) => (target.type === 'node') === (target.vmid === undefined), {
+  message: 'vmid is required for guest consoles and not allowed for node shells',
+  path: ['vmid'],
+});
+
+export const ConsoleProtocolSchema = z.enum(['vnc', 'terminal']);
+
+// Answer of vncproxy/termproxy; the port only accepts one connection, shortly after
+export const ConsoleTicketSchema = z.object({
+  protocol: ConsoleProtocolSchema,
+  port: z.coerce.number().int().positive(),
+  ticket: z.string().min(1),
+  user: z.string().min(1),
+  upid: z.string().optional(),
+});
+
+// Handed to the browser: where to connect, and the credentials for the console handshake
+export const ConsoleSessionSchema = z.object({
+  token: z.string().min(1),
+  protocol: ConsoleProtocolSchema,
+  url: z.string().nullable(),
+  port: z.number().int().positive(),
+  path: z.string(),
+  user: z.string(),
+  ticket: z.string(),
+  expiresAt: z.string().datetime(),
+});
+
 // TypeScript types derived from new schemas
 export type VmStatus = z.infer<typeof VmStatusSchema>;
 export type VmType = z.infer<typeof VmTypeSchema>;
@@ -439,16 +1052,78 @@ export type VmList = z.infer<typeof VmListSchema>;
 export type AlertSeverity = z.infer<typeof AlertSeveritySchema>;
 export type AlertType = z.infer<typeof AlertTypeSchema>;
 export type AlertThreshold = z.infer<typeof AlertThresholdSchema>;
+export type AlertStatus = z.infer<typeof AlertStatusSchema>;
 export type Alert = z.infer<typeof AlertSchema>;
 export type AlertConfig = z.infer<typeof AlertConfigSchema>;
+export type AlertTransition = z.infer<typeof AlertTransitionSchema>;
+export type AlertHistoryEntry = z.infer<typeof AlertHistoryEntrySchema>;
+export type AlertHistoryQuery = z.infer<typeof AlertHistoryQuerySchema>;
+export type AlertMatcher = z.infer<typeof AlertMatcherSchema>;
+export type Silence = z.infer<typeof SilenceSchema>;
+export type SilenceInput = z.infer<typeof SilenceInputSchema>;
+export type MaintenanceWindow = z.infer<typeof MaintenanceWindowSchema>;
+export type MaintenanceWindowInput = z.infer<typeof MaintenanceWindowInputSchema>;
+export type NotificationChannelId = z.infer<typeof NotificationChannelIdSchema>;
+export type NotificationDelivery = z.infer<typeof NotificationDeliverySchema>;
 export type TimeRange = z.infer<typeof TimeRangeSchema>;
 export type HistoricalMetricPoint = z.infer<typeof HistoricalMetricPointSchema>;
 export type HistoricalMetrics = z.infer<typeof HistoricalMetricsSchema>;
+export type StoragePool = z.infer<typeof StoragePoolSchema>;
+export type ForecastThreshold = z.infer<typeof ForecastThresholdSchema>;
+export type ForecastPoint = z.infer<typeof ForecastPointSchema>;
+export type UsageForecast = z.infer<typeof UsageForecastSchema>;
+export type CapacityForecast = z.infer<typeof CapacityForecastSchema>;
+export type ForecastQuery = z.infer<typeof ForecastQuerySchema>;
+export type MetricResolution = z.infer<typeof MetricResolutionSchema>;
+export type MetricAggregate = z.infer<typeof MetricAggregateSchema>;
+export type MetricUsageAggregate = z.infer<typeof MetricUsageAggregateSchema>;
+export type MetricBucket = z.infer<typeof MetricBucketSchema>;
+export type MetricsRangeQuery = z.infer<typeof MetricsRangeQuerySchema>;
+export type MetricSeries = z.infer<typeof MetricSeriesSchema>;
+export type MetricsExportQuery = z.infer<typeof MetricsExportQuerySchema>;
 export type ProxmoxConnection = z.infer<typeof ProxmoxConnectionSchema>;
 export type AppSettings = z.infer<typeof AppSettingsSchema>;
 export type LogEntry = z.infer<typeof LogEntrySchema>;
 export type BackupJob = z.infer<typeof BackupJobSchema>;
 export type ServiceStatus = z.infer<typeof ServiceStatusSchema>;
+export type TaskRunState = z.infer<typeof TaskRunStateSchema>;
+export type TaskStatus = z.infer<typeof TaskStatusSchema>;
+export type TaskLogLine = z.infer<typeof TaskLogLineSchema>;
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+export type SnapshotInput = z.infer<typeof SnapshotInputSchema>;
+export type GuestNode = z.infer<typeof GuestNodeSchema>;
+export type SnapshotCreateRequest = z.infer<typeof SnapshotCreateRequestSchema>;
+export type VmDisk = z.infer<typeof VmDiskSchema>;
+export type VmNic = z.infer<typeof VmNicSchema>;
+export type VmCloudInit = z.infer<typeof VmCloudInitSchema>;
+export type VmConfig = z.infer<typeof VmConfigSchema>;
+export type VmConfigUpdate = z.infer<typeof VmConfigUpdateSchema>;
+export type VmConfigUpdateRequest = z.infer<typeof VmConfigUpdateRequestSchema>;
+export type MigrationMode = z.infer<typeof MigrationModeSchema>;
+export type MigrationCheck = z.infer<typeof MigrationCheckSchema>;
+export type MigrationPreflight = z.infer<typeof MigrationPreflightSchema>;
+export type MigrationOptions = z.infer<typeof MigrationOptionsSchema>;
+export type MigrationRequest = z.infer<typeof MigrationRequestSchema>;
+export type DrainPlacement = z.infer<typeof DrainPlacementSchema>;
+export type DrainPlan = z.infer<typeof DrainPlanSchema>;
+export type NodeMaintenanceState = z.infer<typeof NodeMaintenanceStateSchema>;
+export type DrainGuestStatus = z.infer<typeof DrainGuestStatusSchema>;
+export type NodeMaintenanceGuest = z.infer<typeof NodeMaintenanceGuestSchema>;
+export type NodeMaintenance = z.infer<typeof NodeMaintenanceSchema>;
+export type NodeDrainRequest = z.infer<typeof NodeDrainRequestSchema>;
+export type NodeUndrainRequest = z.infer<typeof NodeUndrainRequestSchema>;
+export type VmStatusChange = z.infer<typeof VmStatusChangeSchema>;
+export type VmStatusEvent = z.infer<typeof VmStatusEventSchema>;
+export type TaskEvent = z.infer<typeof TaskEventSchema>;
+export type BackupEvent = z.infer<typeof BackupEventSchema>;
+export type AlertEvent = z.infer<typeof AlertEventSchema>;
+export type LiveTopic = z.infer<typeof LiveTopicSchema>;
+export type LiveCommand = z.infer<typeof LiveCommandSchema>;
+export type LiveClientMessage = z.infer<typeof LiveClientMessageSchema>;
+export type ConsoleTarget = z.infer<typeof ConsoleTargetSchema>;
+export type ConsoleProtocol = z.infer<typeof ConsoleProtocolSchema>;
+export type ConsoleTicket = z.infer<typeof ConsoleTicketSchema>;
+export type ConsoleSession = z.infer<typeof ConsoleSessionSchema>;
 
 // Validation functions for new schemas
 export function validateVmResource(data: unknown): VmResource {
@@ -463,6 +1138,34 @@ export function validateAlert(data: unknown): Alert {
   return AlertSchema.parse(data);
 }
 
+export function validateAlertConfig(data: unknown): AlertConfig {
+  return AlertConfigSchema.parse(data);
+}
+
+export function validateAlertHistoryQuery(data: unknown): AlertHistoryQuery {
+  return AlertHistoryQuerySchema.parse(data);
+}
+
+export function validateLiveClientMessage(data: unknown): LiveClientMessage {
+  return LiveClientMessageSchema.parse(data);
+}
+
+export function validateConsoleTarget(data: unknown): ConsoleTarget {
+  return ConsoleTargetSchema.parse(data);
+}
+
+export function validateConsoleTicket(data: unknown): ConsoleTicket {
+  return ConsoleTicketSchema.parse(data);
+}
+
+export function validateSilenceInput(data: unknown): SilenceInput {
+  return SilenceInputSchema.parse(data);
+}
+
+export function validateMaintenanceWindowInput(data: unknown): MaintenanceWindowInput {
+  return MaintenanceWindowInputSchema.parse(data);
+}
+
 export function validateAppSettings(data: unknown): AppSettings {
   return AppSettingsSchema.parse(data);
 }
@@ -471,6 +1174,66 @@ export function validateHistoricalMetrics(data: unknown): HistoricalMetrics {
   return HistoricalMetricsSchema.parse(data);
 }
 
+export function validateStoragePools(data: unknown): StoragePool[] {
+  return z.array(StoragePoolSchema).parse(data);
+}
+
+export function validateForecastQuery(data: unknown): ForecastQuery {
+  return ForecastQuerySchema.parse(data);
+}
+
+export function validateMetricsRangeQuery(data: unknown): MetricsRangeQuery {
+  return MetricsRangeQuerySchema.parse(data);
+}
+
+export function validateMetricsExportQuery(data: unknown): MetricsExportQuery {
+  return MetricsExportQuerySchema.parse(data);
+}
+
+export function validateTaskStatus(data: unknown): TaskStatus {
+  return TaskStatusSchema.parse(data);
+}
+
+export function validateSnapshots(data: unknown): Snapshot[] {
+  return z.array(SnapshotSchema).parse(data);
+}
+
+export function validateSnapshotCreateRequest(data: unknown): SnapshotCreateRequest {
+  return SnapshotCreateRequestSchema.parse(data);
+}
+
+export function validateGuestNode(data: unknown): GuestNode {
+  return GuestNodeSchema.parse(data);
+}
+
+export function validateVmConfig(data: unknown): VmConfig {
+  return VmConfigSchema.parse(data);
+}
+
+export function validateVmConfigUpdateRequest(data: unknown): VmConfigUpdateRequest {
+  return VmConfigUpdateRequestSchema.parse(data);
+}
+
+export function validateMigrationPreflight(data: unknown): MigrationPreflight {
+  return MigrationPreflightSchema.parse(data);
+}
+
+export function validateMigrationRequest(data: unknown): MigrationRequest {
+  return MigrationRequestSchema.parse(data);
+}
+
+export function validateDrainNode(data: unknown): string {
+  return DrainNodeSchema.parse(data);
+}
+
+export function validateNodeDrainRequest(data: unknown): NodeDrainRequest {
+  return NodeDrainRequestSchema.parse(data);
+}
+
+export function validateNodeUndrainRequest(data: unknown): NodeUndrainRequest {
+  return NodeUndrainRequestSchema.parse(data);
+}
+
 // Safe validation functions
 export function safeValidateVmList(data: unknown): { success: true; data: VmList } | { success: false; error: string } {
   try {
@@ -589,4 +1352,55 @@ export function isConnectionState(data: unknown): data is ConnectionState {
 
 export function isConnectionTestResult(data: unknown): data is ConnectionTestResult {
   return ConnectionTestResultSchema.safeParse(data).success;
-}
\ No newline at end of file
+}
+
+// Stored server schemas (servers saved through /api/servers)
+const ServerFieldsSchema = z.object({
+  name: z.string().trim().min(1),
+  host: z.string().trim().min(1, 'Host is required'),
+  port: z.coerce.number().int().min(1).max(65535),
+  username: z.string().trim().min(1, 'Username is required'),
+  token: z.string().min(1),
+  tokenId: z.string().trim().min(1),
+  password: z.string().min(1),
+  totpSecret: z.string().trim().min(1),
+  insecureTLS: z.boolean(),
+});
+
+export const ServerInputSchema = ServerFieldsSchema.extend({
+  name: ServerFieldsSchema.shape.name.optional(),
+  port: ServerFieldsSchema.shape.port.default(8006),
+  token: ServerFieldsSchema.shape.token.optional(),
+  tokenId: ServerFieldsSchema.shape.tokenId.optional(),
+  password: ServerFieldsSchema.shape.password.optional(),
+  totpSecret: ServerFieldsSchema.shape.totpSecret.optional(),
+  insecureTLS: ServerFieldsSchema.shape.insecureTLS.default(false),
+}).strict();
+
+// No defaults here: omitted fields must stay untouched on update
+export const ServerUpdateSchema = ServerFieldsSchema.partial().strict().refine(
+  (data) => Object.keys(data).length > 0,
+  'No fields to update',
+);
+
+export const ServerRecordSchema = ServerInputSchema.extend({
+  id: z.string().min(1),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type ServerInput = z.infer<typeof ServerInputSchema>;
+export type ServerUpdate = z.infer<typeof ServerUpdateSchema>;
+export type ServerRecord = z.infer<typeof ServerRecordSchema>;
+
+export function validateServerInput(data: unknown): ServerInput {
+  return ServerInputSchema.parse(data);
+}
+
+export function validateServerUpdate(data: unknown): ServerUpdate {
+  return ServerUpdateSchema.parse(data);
+}
+
+export function validateServerRecord(data: unknown): ServerRecord {
+  return ServerRecordSchema.parse(data);
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Read and parse a JSON file. Returns undefined when the file does not exist.
+ */
+export async function readJsonFile<T = unknown>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write JSON atomically (temp file + rename), creating the directory if needed.
+ * Files are only readable by the owner since they may hold credentials.
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tmp, filePath);
+}
@@ -0,0 +1,38 @@
+/**
+ * Re-encrypt every stored server secret with the current master key.
+ *
+ * Key rotation:
+ *   1. Generate a key: `openssl rand -base64 32`
+ *   2. Move the old SECRETS_MASTER_KEY into SECRETS_PREVIOUS_KEYS and set the new one
+ *   3. Run `npm run secrets:rotate` with that environment
+ *   4. Once it reports no failures, remove the old key from SECRETS_PREVIOUS_KEYS
+ *
+ * A running dashboard does not undo the rotation: the file store re-reads the
+ * file before each change. Restart it with the new keys afterwards.
+ */
+import { getServerRepository } from '../lib/services/serverRepository';
+import { rotateServerSecrets } from '../lib/services/serverSecrets';
+
+async function main() {
+  const repository = getServerRepository();
+  try {
+    // Normalising first also encrypts secrets still stored in plaintext
+    const migration = await repository.migrate();
+    const report = await rotateServerSecrets(repository);
+
+    console.log(`Re-encrypted ${report.rotated} server(s), ${report.unchanged} already up to date`);
+    for (const { id, error } of [...migration.invalid, ...report.failed]) {
+      console.error(`  ${id}: ${error}`);
+    }
+    if (report.failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await repository.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AlertEngine } from '../../lib/alerts/engine';
+import { AlertStore } from '../../lib/alerts/store';
+import { isConditionMet, resolveSubjects } from '../../lib/alerts/evaluate';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+import type { AlertThreshold, ClusterSummary, VmResource } from '../../lib/types';
+
+const cpuThreshold: AlertThreshold = {
+  id: 'cpu-high',
+  name: 'High CPU',
+  type: 'cpu',
+  metric: 'usage',
+  operator: '>',
+  value: 80,
+  severity: 'critical',
+  enabled: true,
+  forSeconds: 60,
+  hysteresis: 5,
+};
+
+describe('alert evaluation helpers', () => {
+  it('should apply hysteresis only while firing', () => {
+    expect(isConditionMet(cpuThreshold, 78, false)).toBe(false);
+    expect(isConditionMet(cpuThreshold, 78, true)).toBe(true);
+    expect(isConditionMet(cpuThreshold, 74, true)).toBe(false);
+    expect(isConditionMet({ ...cpuThreshold, operator: '<', value: 10 }, 12, true)).toBe(true);
+  });
+
+  it('should target one guest or the matching nodes', () => {
+    const summary: ClusterSummary = {
+      nodes: [
+        { node: 'pve-1', status: 'online', cpu: 0.9, memory: { total: 100, used: 50, free: 50 } },
+        { node: 'pve-2', status: 'offline', cpu: 0.1 },
+      ],
+    };
+    const vms: VmResource[] = [
+      { vmid: 100, name: 'web', type: 'qemu', status: 'running', node: 'pve-1', memory: { used: 3, max: 4 } },
+    ];
+
+    expect(resolveSubjects(cpuThreshold, summary, vms)).toEqual([
+      { key: 'cpu-high|pve-1|', label: 'Node pve-1', node: 'pve-1', value: 90 },
+      { key: 'cpu-high|pve-2|', label: 'Node pve-2', node: 'pve-2', value: undefined },
+    ]);
+    expect(resolveSubjects({ ...cpuThreshold, type: 'memory', vmid: 100 }, summary, vms)).toEqual([
+      { key: 'cpu-high||100', label: 'VM 100 (web)', node: 'pve-1', vmid: 100, value: 75 },
+    ]);
+  });
+});
+
+describe('AlertEngine', () => {
+  let dir: string;
+  let store: AlertStore;
+  let cpu: number;
+  let nodes: ClusterSummary['nodes'] | null;
+  let vms: VmResource[];
+  let engine: AlertEngine;
+
+  const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 0, 0, seconds));
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'alerts-'));
+    store = new AlertStore(path.join(dir, 'alerts.json'));
+    await store.saveConfig({
+      thresholds: [cpuThreshold],
+      globalEnabled: true,
+      notificationChannels: { toast: true, email: false, webhook: false },
+    });
+    cpu = 0.9;
+    nodes = null;
+    vms = [];
+    const client = {
+      getClusterSummary: async () => ({ nodes: nodes ?? [{ node: 'pve-1', status: 'online', cpu }] }),
+      getVmList: async () => ({ vms }),
+    } as unknown as ProxmoxClient;
+    engine = new AlertEngine({ store, getClient: async () => client, intervalMs: 1000 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should fire only after the for-duration and resolve past the hysteresis', async () => {
+    expect((await engine.evaluate(at(0))).fired).toHaveLength(0);
+    expect((await engine.evaluate(at(30))).fired).toHaveLength(0);
+
+    const { fired } = await engine.evaluate(at(60));
+    expect(fired).toMatchObject([{ thresholdId: 'cpu-high', node: 'pve-1', severity: 'critical', status: 'firing', value: 90 }]);
+    expect(fired[0].message).toBe('High CPU: Node pve-1 cpu is 90.0% (> 80%)');
+
+    cpu = 0.78;
+    expect((await engine.evaluate(at(90))).resolved).toHaveLength(0);
+
+    cpu = 0.7;
+    const { resolved } = await engine.evaluate(at(120));
+    expect(resolved).toMatchObject([{ id: fired[0].id, status: 'resolved', resolvedAt: at(120), value: 70 }]);
+
+    // Persisted across store instances
+    const reloaded = new AlertStore(path.join(dir, 'alerts.json'));
+    expect(await reloaded.listAlerts('firing')).toEqual([]);
+    expect(await reloaded.listAlerts('resolved')).toMatchObject([{ id: fired[0].id, timestamp: at(60) }]);
+  });
+
+  it('should reset the for-duration when the condition stops holding', async () => {
+    await engine.evaluate(at(0));
+    cpu = 0.5;
+    await engine.evaluate(at(30));
+    cpu = 0.9;
+    expect((await engine.evaluate(at(60))).fired).toHaveLength(0);
+    expect((await engine.evaluate(at(120))).fired).toHaveLength(1);
+  });
+
+  it('should resolve alerts of disabled thresholds', async () => {
+    await engine.evaluate(at(0));
+    await engine.evaluate(at(60));
+    expect(await store.listAlerts('firing')).toHaveLength(1);
+
+    const config = await store.getConfig();
+    await store.saveConfig({ ...config, thresholds: [{ ...cpuThreshold, enabled: false }] });
+
+    expect((await engine.evaluate(at(90))).resolved).toHaveLength(1);
+    expect(await store.listAlerts('firing')).toHaveLength(0);
+  });
+
+  it('should resolve alerts of nodes that go offline or stop reporting', async () => {
+    await engine.evaluate(at(0));
+    await engine.evaluate(at(60));
+    expect(await store.listAlerts('firing')).toHaveLength(1);
+
+    nodes = [{ node: 'pve-1', status: 'offline' }];
+    expect((await engine.evaluate(at(90))).resolved).toMatchObject([{ node: 'pve-1', status: 'resolved', resolvedAt: at(90), value: 90 }]);
+
+    nodes = null;
+    await engine.evaluate(at(120));
+    await engine.evaluate(at(180));
+    expect(await store.listAlerts('firing')).toHaveLength(1);
+
+    nodes = [];
+    expect((await engine.evaluate(at(210))).resolved).toHaveLength(1);
+    expect(await store.listAlerts('firing')).toHaveLength(0);
+  });
+
+  it('should resolve alerts of guests that are stopped or disappear', async () => {
+    const guestThreshold: AlertThreshold = { ...cpuThreshold, id: 'vm-cpu', node: 'pve-1', vmid: 100, forSeconds: 0 };
+    await store.saveConfig({ ...(await store.getConfig()), thresholds: [guestThreshold] });
+    const guest: VmResource = { vmid: 100, name: 'web', type: 'qemu', status: 'running', node: 'pve-1', cpu: 0.9, maxcpu: 2 };
+
+    vms = [guest];
+    expect((await engine.evaluate(at(0))).fired).toMatchObject([{ thresholdId: 'vm-cpu', vmid: 100 }]);
+    vms = [{ ...guest, status: 'stopped' }];
+    expect((await engine.evaluate(at(30))).resolved).toMatchObject([{ vmid: 100, status: 'resolved' }]);
+
+    vms = [guest];
+    expect((await engine.evaluate(at(60))).fired).toHaveLength(1);
+    // Migrated off the threshold's node
+    vms = [{ ...guest, node: 'pve-2' }];
+    expect((await engine.evaluate(at(90))).resolved).toMatchObject([{ vmid: 100, status: 'resolved' }]);
+
+    vms = [guest];
+    expect((await engine.evaluate(at(120))).fired).toHaveLength(1);
+    vms = [];
+    expect((await engine.evaluate(at(150))).resolved).toMatchObject([{ vmid: 100, status: 'resolved' }]);
+    expect(await store.listAlerts('firing')).toHaveLength(0);
+  });
+});
+
+describe('getAlertStore', () => {
+  it('should share one store between separately loaded module instances', async () => {
+    vi.resetModules();
+    const engineBundle = await import('../../lib/alerts/store');
+    vi.resetModules();
+    const routeBundle = await import('../../lib/alerts/store');
+
+    expect(routeBundle).not.toBe(engineBundle);
+    expect(routeBundle.getAlertStore()).toBe(engineBundle.getAlertStore());
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AlertStore } from '../../lib/alerts/store';
+import { queryHistory } from '../../lib/alerts/history';
+import { validateAlertHistoryQuery } from '../../lib/types';
+import type { Alert } from '../../lib/types';
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 0, minutes));
+
+const firing = (id: string, node: string, minutes: number): Alert => ({
+  id,
+  thresholdId: 'cpu-high',
+  message: `High CPU on ${node}`,
+  severity: 'critical',
+  timestamp: at(minutes),
+  node,
+  acknowledged: false,
+  status: 'firing',
+});
+
+describe('alert history', () => {
+  let dir: string;
+  let store: AlertStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'alert-history-'));
+    store = new AlertStore(path.join(dir, 'alerts.json'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should record each transition once with its actor', async () => {
+    const alert = firing('alert-1', 'pve-1', 0);
+    await store.saveAlerts([alert]);
+    await store.saveAlerts([{ ...alert, value: 95 }]);
+    await store.acknowledge('alert-1', 'root@pam');
+    await store.acknowledge('alert-1', 'root@pam');
+    await store.saveAlerts([{ ...alert, status: 'resolved', resolvedAt: at(30) }]);
+
+    const reloaded = new AlertStore(path.join(dir, 'alerts.json'));
+    expect(await reloaded.listHistory()).toMatchObject([
+      { alertId: 'alert-1', transition: 'fired', actor: 'alert-engine', timestamp: at(0) },
+      { alertId: 'alert-1', transition: 'acknowledged', actor: 'root@pam' },
+      { alertId: 'alert-1', transition: 'resolved', actor: 'alert-engine', timestamp: at(30) },
+    ]);
+  });
+
+  it('should compute MTTA and MTTR overall and per node', async () => {
+    await store.saveAlerts([firing('alert-1', 'pve-1', 0), firing('alert-2', 'pve-2', 10)]);
+    await store.saveAlerts([
+      { ...firing('alert-1', 'pve-1', 0), status: 'resolved', resolvedAt: at(20) },
+      { ...firing('alert-2', 'pve-2', 10), status: 'resolved', resolvedAt: at(50) },
+    ]);
+    const history = await store.listHistory();
+    // Acknowledgement 5 minutes after alert-1 fired
+    history.push({ ...history[0], id: 'ack', transition: 'acknowledged', actor: 'root@pam', timestamp: at(5) });
+
+    const result = queryHistory(history, validateAlertHistoryQuery({}));
+    expect(result.total).toBe(5);
+    expect(result.stats).toMatchObject({ fired: 2, acknowledged: 1, resolved: 2, mttaSeconds: 300, mttrSeconds: 1800 });
+    expect(result.stats.byNode['pve-2']).toMatchObject({ fired: 1, mttaSeconds: null, mttrSeconds: 2400 });
+
+    const page = queryHistory(history, validateAlertHistoryQuery({ node: 'pve-1', transition: 'resolved', pageSize: '1' }));
+    expect(page.entries).toMatchObject([{ alertId: 'alert-1', transition: 'resolved' }]);
+    expect(page.total).toBe(1);
+    // Statistics ignore the transition filter
+    expect(page.stats).toMatchObject({ fired: 1, mttaSeconds: 300, mttrSeconds: 1200 });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NotificationDispatcher } from '../../lib/alerts/notifications';
+import type { NotificationChannel, NotificationEvent } from '../../lib/alerts/notifications';
+import { createWebhookChannel } from '../../lib/alerts/channels/webhook';
+import { createEmailChannel, renderTemplate } from '../../lib/alerts/channels/email';
+import { AlertStore, DEFAULT_ALERT_CONFIG } from '../../lib/alerts/store';
+import type { Transporter } from 'nodemailer';
+import type { Alert } from '../../lib/types';
+
+const alert: Alert = {
+  id: 'alert-1',
+  thresholdId: 'cpu-high',
+  message: 'High CPU: Node pve-1 cpu is 91.0% (> 80%)',
+  severity: 'critical',
+  timestamp: new Date('2025-01-01T00:00:00.000Z'),
+  node: 'pve-1',
+  acknowledged: false,
+  status: 'firing',
+  value: 91,
+};
+
+const event: NotificationEvent = { type: 'alert.fired', alert, sentAt: new Date('2025-01-01T00:01:00.000Z') };
+
+describe('notification channels', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should sign webhook bodies with the shared secret', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createWebhookChannel({ url: 'https://hooks.example.com/pve', secret: 's3cret' }).send(event);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+    expect(url).toBe('https://hooks.example.com/pve');
+    expect(JSON.parse(body)).toMatchObject({ event: 'alert.fired', alert: { id: 'alert-1', timestamp: '2025-01-01T00:00:00.000Z' } });
+    expect(headers['X-Signature-Timestamp']).toBe('1735689660');
+    expect(headers['X-Signature']).toBe(`sha256=${createHmac('sha256', 's3cret').update(`1735689660.${body}`).digest('hex')}`);
+  });
+
+  it('should render email templates from the alert fields', async () => {
+    expect(renderTemplate('[{{severity}}] {{ status }} on {{node}}/{{vmid}}: {{value}} {{unknown}}', event))
+      .toBe('[critical] firing on pve-1/: 91 ');
+
+    const sendMail = vi.fn(async () => ({}));
+    await createEmailChannel({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      from: 'pve@example.com',
+      to: ['ops@example.com'],
+      transport: { sendMail } as unknown as Transporter,
+    }).send({ ...event, type: 'alert.resolved', alert: { ...alert, status: 'resolved' } });
+
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['ops@example.com'],
+      subject: '[critical] resolved: High CPU: Node pve-1 cpu is 91.0% (> 80%)',
+    }));
+  });
+});
+
+describe('NotificationDispatcher', () => {
+  let dir: string;
+  let store: AlertStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'notifications-'));
+    store = new AlertStore(path.join(dir, 'alerts.json'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should retry server errors and log every delivery', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503, statusText: 'Service Unavailable' }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const email: NotificationChannel = { id: 'email', send: vi.fn(async () => undefined) };
+
+    const dispatcher = new NotificationDispatcher({
+      store,
+      channels: [createWebhookChannel({ url: 'https://hooks.example.com/pve' }), email],
+      retry: { baseDelayMs: 1 },
+    });
+    const config = { ...DEFAULT_ALERT_CONFIG, notificationChannels: { toast: true, email: false, webhook: true } };
+
+    const deliveries = await dispatcher.notify({ fired: [alert], resolved: [] }, config);
+
+    expect(deliveries).toMatchObject([{ channel: 'webhook', event: 'alert.fired', alertId: 'alert-1', status: 'sent', attempts: 2 }]);
+    expect(email.send).not.toHaveBeenCalled();
+    expect(await store.listDeliveries()).toHaveLength(1);
+  });
+
+  it('should not retry client errors and report unconfigured test channels', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404, statusText: 'Not Found' })));
+    const dispatcher = new NotificationDispatcher({
+      store,
+      channels: [createWebhookChannel({ url: 'https://hooks.example.com/pve' })],
+      retry: { baseDelayMs: 1 },
+    });
+
+    expect(await dispatcher.test('webhook')).toMatchObject({ event: 'test', status: 'failed', attempts: 1, error: 'HTTP 404: Not Found' });
+    expect(await dispatcher.test('email')).toBeNull();
+
+    const reloaded = new AlertStore(path.join(dir, 'alerts.json'));
+    expect(await reloaded.listDeliveries()).toMatchObject([{ channel: 'webhook', status: 'failed' }]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZodError } from 'zod';
+import { AlertEngine } from '../../lib/alerts/engine';
+import { AlertStore } from '../../lib/alerts/store';
+import { maintenanceWindowEnd, matchesTarget, suppressedUntil } from '../../lib/alerts/silences';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+import { validateMaintenanceWindowInput } from '../../lib/types';
+import type { AlertThreshold, MaintenanceWindow, Silence } from '../../lib/types';
+
+const cpuThreshold: AlertThreshold = {
+  id: 'cpu-high',
+  name: 'High CPU',
+  type: 'cpu',
+  metric: 'usage',
+  operator: '>',
+  value: 80,
+  severity: 'critical',
+  enabled: true,
+};
+
+// Wall-clock time in Paris, UTC+1 in January. 2025-01-06 is a Monday.
+const paris = (day: number, hours: number, minutes = 0) => new Date(Date.UTC(2025, 0, day, hours - 1, minutes));
+
+const nightly: MaintenanceWindow = {
+  id: 'maintenance-1',
+  name: 'Patching',
+  matcher: { node: 'pve-1' },
+  days: [1],
+  startTime: '23:00',
+  timeZone: 'Europe/Paris',
+  durationMinutes: 120,
+  enabled: true,
+};
+
+describe('suppression helpers', () => {
+  it('should match on every matcher field that is set', () => {
+    const target = { thresholdId: 'cpu-high', type: 'cpu' as const, severity: 'critical' as const, node: 'pve-1', vmid: 100 };
+    expect(matchesTarget({}, target)).toBe(true);
+    expect(matchesTarget({ node: 'pve-1', type: 'cpu' }, target)).toBe(true);
+    expect(matchesTarget({ node: 'pve-1', severity: 'warning' }, target)).toBe(false);
+    expect(matchesTarget({ vmid: 100 }, { ...target, vmid: undefined })).toBe(false);
+  });
+
+  it('should find the maintenance occurrence in progress across midnight', () => {
+    expect(maintenanceWindowEnd(nightly, paris(6, 22, 59))).toBeNull();
+    expect(maintenanceWindowEnd(nightly, paris(6, 23, 30))).toEqual(paris(7, 1));
+    expect(maintenanceWindowEnd(nightly, paris(7, 0, 30))).toEqual(paris(7, 1));
+    expect(maintenanceWindowEnd(nightly, paris(7, 1))).toBeNull();
+    expect(maintenanceWindowEnd(nightly, paris(7, 23, 30))).toBeNull();
+    expect(maintenanceWindowEnd({ ...nightly, enabled: false }, paris(6, 23, 30))).toBeNull();
+  });
+
+  it('should follow the window\'s time zone and its daylight saving time', () => {
+    // 2025-07-07 is a Monday; Paris is UTC+2 in summer
+    expect(maintenanceWindowEnd(nightly, new Date(Date.UTC(2025, 6, 7, 21, 30)))).toEqual(new Date(Date.UTC(2025, 6, 7, 23)));
+    expect(maintenanceWindowEnd(nightly, new Date(Date.UTC(2025, 6, 7, 22, 30)))).toEqual(new Date(Date.UTC(2025, 6, 7, 23)));
+
+    // 23:00 on Monday in New York (UTC-5) is already Tuesday in Paris
+    const newYork = { ...nightly, timeZone: 'America/New_York' };
+    expect(maintenanceWindowEnd(newYork, paris(6, 23, 30))).toBeNull();
+    expect(maintenanceWindowEnd(newYork, new Date(Date.UTC(2025, 0, 7, 4, 30)))).toEqual(new Date(Date.UTC(2025, 0, 7, 6)));
+  });
+
+  it('should reject unknown time zones', () => {
+    expect(() => validateMaintenanceWindowInput({ ...nightly, id: undefined, timeZone: 'Mars/Olympus' })).toThrow(ZodError);
+    expect(validateMaintenanceWindowInput({ ...nightly, id: undefined, timeZone: undefined }).timeZone).toBe('UTC');
+  });
+
+  it('should report the latest end among matching silences and windows', () => {
+    const silence: Silence = {
+      id: 'silence-1',
+      matcher: { severity: 'critical' },
+      startsAt: paris(6, 20),
+      endsAt: paris(7, 3),
+      createdAt: paris(6, 20),
+    };
+    const target = { thresholdId: 'cpu-high', type: 'cpu' as const, severity: 'critical' as const, node: 'pve-1' };
+
+    expect(suppressedUntil(target, { silences: [silence], maintenanceWindows: [nightly] }, paris(6, 23, 30))).toEqual(paris(7, 3));
+    expect(suppressedUntil({ ...target, severity: 'warning' }, { silences: [silence], maintenanceWindows: [nightly] }, paris(6, 23, 30)))
+      .toEqual(paris(7, 1));
+    expect(suppressedUntil(target, { silences: [silence], maintenanceWindows: [] }, paris(7, 3))).toBeUndefined();
+  });
+});
+
+describe('AlertEngine suppressions', () => {
+  let dir: string;
+  let store: AlertStore;
+  let engine: AlertEngine;
+  let notify: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'silences-'));
+    store = new AlertStore(path.join(dir, 'alerts.json'));
+    await store.saveConfig({
+      thresholds: [cpuThreshold],
+      globalEnabled: true,
+      notificationChannels: { toast: true, email: false, webhook: true },
+    });
+    const client = {
+      getClusterSummary: async () => ({ nodes: [{ node: 'pve-1', status: 'online', cpu: 0.9 }] }),
+      getVmList: async () => ({ vms: [] }),
+    } as unknown as ProxmoxClient;
+    notify = vi.fn(async () => undefined);
+    engine = new AlertEngine({ store, getClient: async () => client, intervalMs: 1000, notify });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should not fire during a maintenance window', async () => {
+    await store.saveMaintenanceWindow({ ...nightly, id: undefined });
+
+    expect((await engine.evaluate(paris(6, 23, 30))).fired).toHaveLength(0);
+    expect((await engine.evaluate(paris(7, 1))).fired).toHaveLength(1);
+  });
+
+  it('should not wait for notifications to be delivered', async () => {
+    notify.mockImplementation(() => new Promise(() => undefined));
+
+    const { fired } = await engine.evaluate();
+    expect(fired).toHaveLength(1);
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ fired }), expect.anything());
+  });
+
+  it('should fire silenced alerts without notifying', async () => {
+    await store.createSilence({ matcher: { node: 'pve-1' }, endsAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+    expect((await engine.evaluate()).fired).toHaveLength(1);
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should reject silences that already ended', async () => {
+    await expect(store.createSilence({ matcher: {}, endsAt: new Date(Date.now() - 1000) })).rejects.toBeInstanceOf(ZodError);
+    expect(await store.listSilences()).toEqual([]);
+  });
+});
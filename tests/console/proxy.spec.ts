@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { ConsoleSessionStore } from '../../lib/console/sessions';
+import { relayConsole } from '../../lib/console/proxy';
+import { consoleSocketUrl, terminalInput, terminalResize } from '../../lib/console/protocol';
+import { validateConsoleTarget } from '../../lib/types';
+import type { ConsoleTicket } from '../../lib/types';
+
+const ticket: ConsoleTicket = { protocol: 'terminal', port: 5900, ticket: 'PVEVNC:ticket', user: 'root@pam' };
+
+const listen = async (server: WebSocketServer) => {
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const nextMessage = (socket: WebSocket) =>
+  new Promise<{ data: string; isBinary: boolean }>((resolve) =>
+    socket.once('message', (data, isBinary) => resolve({ data: data.toString(), isBinary }))
+  );
+
+describe('console sessions', () => {
+  it('should hand out each token once and only before it expires', () => {
+    const store = new ConsoleSessionStore(10000, 2);
+    const target = validateConsoleTarget({ type: 'lxc', node: 'pve-1', vmid: '101' });
+    const first = store.issue({ target, ticket }, 0);
+    const second = store.issue({ target, ticket }, 0);
+
+    expect(first.token).not.toBe(second.token);
+    expect(() => store.issue({ target, ticket }, 0)).toThrow('Too many consoles waiting to connect');
+    expect(store.take(first.token, 5000)).toEqual({ target: { type: 'lxc', node: 'pve-1', vmid: 101 }, ticket, expiresAt: 10000 });
+    expect(store.take(first.token, 5000)).toBeNull();
+    expect(store.take(second.token, 10000)).toBeNull();
+    expect(store.take('unknown')).toBeNull();
+  });
+
+  it('should require a vmid for guests only', () => {
+    expect(() => validateConsoleTarget({ type: 'qemu', node: 'pve-1' })).toThrow('vmid is required');
+    expect(() => validateConsoleTarget({ type: 'node', node: 'pve-1', vmid: 100 })).toThrow('vmid is required');
+    expect(validateConsoleTarget({ type: 'node', node: 'pve-1' })).toEqual({ type: 'node', node: 'pve-1' });
+  });
+
+  it('should frame terminal messages and build proxy URLs', () => {
+    expect(terminalInput('ls\r')).toBe('0:3:ls\r');
+    expect(terminalInput('é')).toBe('0:2:é');
+    expect(terminalResize(80, 24)).toBe('1:80:24:');
+
+    const session = { token: 'abc', url: null, port: 15002, path: '/console' };
+    expect(consoleSocketUrl(session, new URL('https://dash.example.com/console'))).toBe('wss://dash.example.com:15002/console?token=abc');
+    expect(consoleSocketUrl({ ...session, url: 'wss://proxy.example.com/pve-console' }, new URL('http://localhost:15000/')))
+      .toBe('wss://proxy.example.com/pve-console?token=abc');
+  });
+});
+
+describe('console relay', () => {
+  const servers: WebSocketServer[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  it('should relay frames both ways and close together', async () => {
+    // Stands in for the Proxmox vncwebsocket: answers text with OK and echoes binary frames
+    const upstreamServer = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    servers.push(upstreamServer);
+    const upstreamClosed = new Promise<number>((resolve) => {
+      upstreamServer.on('connection', (socket) => {
+        socket.on('message', (data, isBinary) => socket.send(isBinary ? data : `OK ${data}`, { binary: isBinary }));
+        socket.on('close', (code) => resolve(code));
+      });
+    });
+    const upstreamUrl = await listen(upstreamServer);
+
+    const proxyServer = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    servers.push(proxyServer);
+    proxyServer.on('connection', (socket) => relayConsole(socket, new WebSocket(upstreamUrl, 'binary')));
+    const browser = new WebSocket(await listen(proxyServer));
+
+    // Usually arrives while the upstream is still connecting, and is queued by the relay
+    await new Promise((resolve) => browser.once('open', resolve));
+    browser.send('root@pam:ticket');
+    expect(await nextMessage(browser)).toEqual({ data: 'OK root@pam:ticket', isBinary: false });
+
+    browser.send(Buffer.from([1, 2, 3]));
+    expect(await nextMessage(browser)).toEqual({ data: '\u0001\u0002\u0003', isBinary: true });
+
+    browser.close(1000);
+    expect(await upstreamClosed).toBe(1000);
+  });
+
+  it('should close the browser side when the console cannot be reached', async () => {
+    const proxyServer = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    servers.push(proxyServer);
+    proxyServer.on('connection', (socket) => relayConsole(socket, new WebSocket('ws://127.0.0.1:1/console')));
+    const browser = new WebSocket(await listen(proxyServer));
+
+    const code = await new Promise<number>((resolve) => browser.once('close', (closeCode) => resolve(closeCode)));
+    expect(code).toBe(4502);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBroadcaster } from '../../lib/events/broadcaster';
+import type { BroadcastEvent, EventSubscriber } from '../../lib/events/broadcaster';
+import { RingBuffer } from '../../lib/events/ringBuffer';
+import type { EventMessage } from '../../lib/types';
+
+const status = (node: string, state: 'online' | 'offline' = 'online'): EventMessage =>
+  ({ type: 'status', node, status: { node, status: state } });
+
+/** Source whose events are pushed by the test */
+function controlledSource() {
+  const queue: EventMessage[] = [];
+  let wake: (() => void) | null = null;
+  let stopped = false;
+  const source = vi.fn(async () => (async function* () {
+    try {
+      while (true) {
+        while (queue.length > 0) yield queue.shift()!;
+        await new Promise<void>((resolve) => { wake = resolve; });
+      }
+    } finally {
+      stopped = true;
+    }
+  })());
+  return {
+    source,
+    emit: async (...messages: EventMessage[]) => {
+      queue.push(...messages);
+      wake?.();
+      // Let the broadcaster drain the queue
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    },
+    isStopped: () => stopped,
+  };
+}
+
+function collector(): EventSubscriber & { events: BroadcastEvent[]; heartbeats: number[] } {
+  const events: BroadcastEvent[] = [];
+  const heartbeats: number[] = [];
+  return { events, heartbeats, send: (event) => events.push(event), heartbeat: (ts) => heartbeats.push(ts) };
+}
+
+describe('RingBuffer', () => {
+  it('should keep the newest items in order', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach((item) => buffer.push(item));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.oldest()).toBe(3);
+    expect(buffer.size).toBe(3);
+  });
+});
+
+describe('EventBroadcaster', () => {
+  it('should poll once and fan out to every subscriber', async () => {
+    const { source, emit } = controlledSource();
+    const broadcaster = new EventBroadcaster({ source, restartDelayMs: 1 });
+    const first = collector();
+    const second = collector();
+
+    broadcaster.subscribe(first);
+    broadcaster.subscribe(second);
+    await emit(status('pve-1'), { type: 'heartbeat', ts: 42 });
+
+    expect(source).toHaveBeenCalledTimes(1);
+    expect(first.events).toEqual([{ id: 1, message: status('pve-1') }]);
+    expect(second.events).toEqual(first.events);
+    expect(second.heartbeats).toEqual([42]);
+  });
+
+  it('should replay missed events after Last-Event-ID', async () => {
+    const { source, emit } = controlledSource();
+    const broadcaster = new EventBroadcaster({ source, restartDelayMs: 1 });
+    broadcaster.subscribe(collector());
+    await emit(status('pve-1'), status('pve-2'), status('pve-1', 'offline'));
+
+    const { replay } = broadcaster.subscribe(collector(), 1);
+    expect(replay.map((event) => event.id)).toEqual([2, 3]);
+  });
+
+  it('should send the latest node statuses when events were evicted or the id is unknown', async () => {
+    const { source, emit } = controlledSource();
+    const broadcaster = new EventBroadcaster({ source, bufferSize: 2, restartDelayMs: 1 });
+    broadcaster.subscribe(collector());
+    await emit(status('pve-1'), status('pve-2'), status('pve-1', 'offline'), { type: 'error', message: 'timeout' });
+
+    const snapshot = [
+      { id: 2, message: status('pve-2') },
+      { id: 3, message: status('pve-1', 'offline') },
+    ];
+    expect(broadcaster.subscribe(collector(), 1).replay).toEqual(snapshot);
+    expect(broadcaster.subscribe(collector(), 99).replay).toEqual(snapshot);
+    expect(broadcaster.subscribe(collector()).replay).toEqual(snapshot);
+    expect(broadcaster.subscribe(collector(), 3).replay.map((event) => event.id)).toEqual([4]);
+  });
+
+  it('should stop polling after the last subscriber leaves', async () => {
+    const { source, emit, isStopped } = controlledSource();
+    const broadcaster = new EventBroadcaster({ source, restartDelayMs: 1 });
+    const first = broadcaster.subscribe(collector());
+    const second = broadcaster.subscribe(collector());
+
+    first.unsubscribe();
+    await emit(status('pve-1'));
+    expect(isStopped()).toBe(false);
+
+    second.unsubscribe();
+    await emit(status('pve-2'));
+    expect(isStopped()).toBe(true);
+    expect(broadcaster.subscriberCount).toBe(0);
+  });
+});
+
+describe('getEventBroadcaster', () => {
+  it('should share broadcasters between separately loaded module instances', async () => {
+    // A stream that stays quiet, so only the published event reaches the subscriber
+    vi.doMock('../../lib/proxmox/registry', () => ({
+      getProxmoxClient: async () => ({ streamEvents: () => (async function* () { await new Promise(() => {}); })() }),
+    }));
+    vi.resetModules();
+    const engineBundle = await import('../../lib/events/broadcaster');
+    vi.resetModules();
+    const routeBundle = await import('../../lib/events/broadcaster');
+
+    const subscriber = collector();
+    const { unsubscribe } = routeBundle.getEventBroadcaster('shared-test').subscribe(subscriber);
+    engineBundle.getEventBroadcaster('shared-test').publish({ type: 'error', message: 'from the engine' });
+    unsubscribe();
+    vi.doUnmock('../../lib/proxmox/registry');
+
+    expect(routeBundle).not.toBe(engineBundle);
+    expect(subscriber.events.map((event) => event.message)).toEqual([{ type: 'error', message: 'from the engine' }]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyBackupEvent,
+  applyVmStatusEvent,
+  createResourceEventTracker,
+  diffTasks,
+  diffVms,
+} from '../../lib/events/resourceEvents';
+import { validateEventMessage } from '../../lib/types';
+import type { TaskStatus, VmResource, VmStatus } from '../../lib/types';
+
+const vm = (vmid: number, status: VmStatus, node = 'pve-1'): VmResource =>
+  ({ vmid, type: 'qemu', status, node, memory: {}, disk: {}, template: false });
+
+const task = (upid: string, type: string, status: 'running' | 'stopped', extra: Partial<TaskStatus> = {}): TaskStatus =>
+  ({ upid, node: 'pve-1', type, status, startTime: 1000, ...extra });
+
+describe('diffVms', () => {
+  it('should report run state changes, migrations and removals', () => {
+    const events = diffVms(
+      [vm(100, 'stopped'), vm(101, 'running'), vm(102, 'paused'), vm(103, 'running'), vm(104, 'running')],
+      [vm(100, 'running'), vm(101, 'stopped'), vm(102, 'running'), vm(103, 'running', 'pve-2'), vm(105, 'stopped')],
+    );
+
+    expect(events.map(({ change, vm }) => [vm.vmid, change])).toEqual([
+      [100, 'started'],
+      [101, 'stopped'],
+      [102, 'resumed'],
+      [103, 'migrated'],
+      [105, 'added'],
+      [104, 'removed'],
+    ]);
+    expect(events[3]).toMatchObject({ previousNode: 'pve-1', vm: { node: 'pve-2' } });
+  });
+
+  it('should apply events to a guest list', () => {
+    const vms = [vm(100, 'stopped'), vm(101, 'running')];
+    const [started, removed] = diffVms(vms, [vm(100, 'running')]);
+
+    expect(applyVmStatusEvent(applyVmStatusEvent(vms, started), removed)).toEqual([vm(100, 'running')]);
+  });
+});
+
+describe('diffTasks', () => {
+  it('should report new and finished tasks with backup events for vzdump', () => {
+    const events = diffTasks(
+      [task('UPID:a', 'qmstart', 'running'), task('UPID:b', 'vzdump', 'running', { id: '100' })],
+      [
+        task('UPID:a', 'qmstart', 'stopped', { exitstatus: 'OK' }),
+        task('UPID:b', 'vzdump', 'stopped', { id: '100', exitstatus: 'job errors', endTime: 5000 }),
+        task('UPID:c', 'qmstop', 'running', { startTime: 2000 }),
+      ],
+    );
+
+    expect(events.map((event) => [event.type, event.change, event.task.upid])).toEqual([
+      ['task', 'finished', 'UPID:a'],
+      ['task', 'finished', 'UPID:b'],
+      ['backup', 'finished', 'UPID:b'],
+      ['task', 'started', 'UPID:c'],
+    ]);
+    const backup = events[2];
+    expect(backup).toMatchObject({ vmid: 100, result: 'failed' });
+    expect(backup.type === 'backup' && applyBackupEvent([], backup)).toMatchObject([
+      { id: 'UPID:b', vmid: 100, status: 'failed' },
+    ]);
+  });
+
+  it('should only use the first snapshot as a baseline', () => {
+    const tracker = createResourceEventTracker();
+    expect(tracker.tasks([task('UPID:a', 'vzdump', 'running')])).toEqual([]);
+    expect(tracker.vms([vm(100, 'running')])).toEqual([]);
+    expect(tracker.vms([vm(100, 'stopped')])).toHaveLength(1);
+  });
+});
+
+describe('event messages', () => {
+  it('should accept alert events with ISO dates from the wire', () => {
+    const message = validateEventMessage(JSON.parse(JSON.stringify({
+      type: 'alert',
+      change: 'fired',
+      alert: { id: 'alert-1', thresholdId: 'cpu', message: 'High CPU', severity: 'warning', timestamp: new Date(0), acknowledged: false },
+    })));
+
+    expect(message.type === 'alert' && message.alert.timestamp).toEqual(new Date(0));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { DAY_MS, fitTrend, forecastUsage } from '../../lib/forecast/trend';
+import { buildCapacityForecast } from '../../lib/forecast/capacity';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+
+const NOW = Date.UTC(2025, 2, 10, 0, 0, 0);
+const HOUR = DAY_MS / 24;
+
+// Hourly samples over `days` ending at NOW, with the ratio given by `ratio(t)`
+const hourly = (days: number, ratio: (t: number) => number) =>
+  Array.from({ length: days * 24 + 1 }, (_, i) => {
+    const timestamp = NOW - (days * 24 - i) * HOUR;
+    return { timestamp, used: ratio(timestamp) * 1000, total: 1000 };
+  });
+
+describe('capacity forecast', () => {
+  it('should project threshold crossings of a linear trend', () => {
+    // 50% now, growing one point per day
+    const forecast = forecastUsage(hourly(7, (t) => 0.5 + (t - NOW) / DAY_MS / 100), 90, NOW);
+
+    expect(forecast).not.toBeNull();
+    expect(forecast!.seasonal).toBe(false);
+    expect(forecast!.slopePerDay).toBeCloseTo(0.01, 6);
+    expect(forecast!.thresholds.map((entry) => entry.daysUntil)).toEqual([30, 40, 50]);
+    // Crossings are found in hourly steps
+    expect(Math.abs(Date.parse(forecast!.thresholds[2].date!) - (NOW + 50 * DAY_MS))).toBeLessThanOrEqual(HOUR);
+    expect(forecast!.forecast[0]).toMatchObject({ timestamp: NOW });
+    expect(forecast!.forecast[0].value).toBeCloseTo(0.5, 6);
+  });
+
+  it('should keep a daily pattern and report thresholds already reached', () => {
+    const daily = (t: number) => 0.1 * Math.sin((2 * Math.PI * (t % DAY_MS)) / DAY_MS);
+    const model = fitTrend(hourly(5, (t) => 0.6 + daily(t)).map((sample) => ({
+      timestamp: sample.timestamp,
+      value: sample.used / sample.total,
+    })));
+    expect(model?.seasonal).toHaveLength(24);
+    expect(model!.slope).toBeCloseTo(0, 9);
+
+    const full = forecastUsage(hourly(3, () => 0.95), 30, NOW);
+    expect(full!.thresholds.map((entry) => entry.daysUntil)).toEqual([0, 0, null]);
+  });
+
+  it('should not forecast without enough history', () => {
+    expect(forecastUsage(hourly(7, () => 0.5).slice(0, 5), 90, NOW)).toBeNull();
+    expect(forecastUsage(hourly(1, () => 0.5).map((sample) => ({ ...sample, total: 0 })), 90, NOW)).toBeNull();
+  });
+
+  it('should forecast online nodes and each shared pool once', async () => {
+    const series = (ratio: number) => ({
+      node: 'pve-1',
+      timeRange: '7d',
+      data: hourly(7, () => ratio).map(({ timestamp, used, total }) => ({ timestamp, storage: { used, total } })),
+    });
+    const client = {
+      getClusterSummary: async () => ({
+        nodes: [
+          { node: 'pve-1', status: 'online' },
+          { node: 'pve-2', status: 'online' },
+          { node: 'pve-3', status: 'offline' },
+        ],
+      }),
+      getStoragePools: async () => [
+        { storage: 'local', node: 'pve-1', shared: false, status: 'available' },
+        { storage: 'ceph', node: 'pve-1', shared: true, status: 'available' },
+        { storage: 'ceph', node: 'pve-2', shared: true, status: 'available' },
+        { storage: 'local', node: 'pve-3', shared: false, status: 'available' },
+      ],
+      getHistoricalMetrics: async (node: string) => {
+        if (node === 'pve-2') throw new Error('unreachable');
+        return series(0.5);
+      },
+      getStorageHistoricalMetrics: async () => series(0.3),
+    } as unknown as ProxmoxClient;
+
+    const result = await buildCapacityForecast(client, { timeRange: '7d', horizonDays: 30 }, NOW);
+
+    expect(result.nodes.map((entry) => entry.node)).toEqual(['pve-1', 'pve-2']);
+    expect(result.nodes[0].memory).toBeNull();
+    expect(result.nodes[0].storage?.current).toBeCloseTo(0.5, 6);
+    expect(result.nodes[1]).toEqual({ node: 'pve-2', memory: null, storage: null });
+    expect(result.pools.map((pool) => `${pool.node}/${pool.storage}`)).toEqual(['pve-1/local', 'pve-1/ceph']);
+    expect(result.pools[1].forecast?.current).toBeCloseTo(0.3, 6);
+  });
+});
@@ -1,11 +1,16 @@
-import { mongoServerService } from '../lib/services/mongoServerService';
+import { getServerRepository } from '../lib/services/serverRepository';
 import { seedData } from './seed-data';
 
 async function globalSetup() {
-  await mongoServerService.connect();
-  await mongoServerService.clear();
-  await mongoServerService.seed(seedData.servers);
-  await mongoServerService.disconnect();
+  const repository = getServerRepository();
+  await repository.clear();
+  for (const seeded of seedData.servers) {
+    // The repository assigns the id
+    const server: Partial<typeof seeded> = { ...seeded };
+    delete server.id;
+    await repository.create(server);
+  }
+  await repository.close();
 }
 
-export default globalSetup;
\ No newline at end of file
+export default globalSetup;
@@ -1,9 +1,9 @@
-import { mongoServerService } from '../lib/services/mongoServerService';
+import { getServerRepository } from '../lib/services/serverRepository';
 
 async function globalTeardown() {
-  await mongoServerService.connect();
-  await mongoServerService.clear();
-  await mongoServerService.disconnect();
+  const repository = getServerRepository();
+  await repository.clear();
+  await repository.close();
 }
 
-export default globalTeardown;
\ No newline at end of file
+export default globalTeardown;
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBroadcaster } from '../../lib/events/broadcaster';
+import type { BufferedEventMessage } from '../../lib/events/broadcaster';
+import { LiveConnection } from '../../lib/live/server';
+import { LiveTokenStore } from '../../lib/live/tokens';
+import { eventTopics } from '../../lib/live/protocol';
+import type { LiveServerMessage } from '../../lib/live/protocol';
+import type { VmResource } from '../../lib/types';
+
+const status = (node: string): BufferedEventMessage => ({ type: 'status', node, status: { node, status: 'online' } });
+
+const vm = (vmid: number, node: string): VmResource =>
+  ({ vmid, type: 'qemu', status: 'running', node, memory: {}, disk: {}, template: false });
+
+function setup(runCommand = vi.fn(async () => ({ acknowledged: true }))) {
+  // Events are published directly; the source never yields
+  const broadcaster = new EventBroadcaster({ source: async () => (async function* () { await new Promise(() => {}); })() });
+  const sent: LiveServerMessage[] = [];
+  const connection = new LiveConnection({ broadcaster, send: (message) => sent.push(message), runCommand });
+  return { broadcaster, connection, sent, runCommand };
+}
+
+const eventsOf = (sent: LiveServerMessage[]) =>
+  sent.flatMap((message) => (message.type === 'event' ? [message.message] : []));
+
+describe('live channel topics', () => {
+  it('should publish guest events on the guest, its nodes and the vms topic', () => {
+    expect(eventTopics({ type: 'vm-status', change: 'migrated', vm: vm(100, 'pve-2'), previousNode: 'pve-1' }))
+      .toEqual(['vms', 'vm:100', 'node:pve-2', 'node:pve-1']);
+    expect(eventTopics({ type: 'error', message: 'timeout' })).toBeNull();
+  });
+});
+
+describe('LiveConnection', () => {
+  it('should forward only events on subscribed topics', async () => {
+    const { broadcaster, connection, sent } = setup();
+    connection.open(['node:pve-1']);
+
+    broadcaster.publish(status('pve-1'));
+    broadcaster.publish(status('pve-2'));
+    await connection.receive(JSON.stringify({ type: 'subscribe', topics: ['vm:101'] }));
+    broadcaster.publish({ type: 'vm-status', change: 'started', vm: vm(101, 'pve-3') });
+    broadcaster.publish({ type: 'vm-status', change: 'started', vm: vm(102, 'pve-3') });
+    broadcaster.publish({ type: 'error', message: 'timeout' });
+
+    expect(eventsOf(sent)).toEqual([
+      status('pve-1'),
+      { type: 'vm-status', change: 'started', vm: vm(101, 'pve-3') },
+      { type: 'error', message: 'timeout' },
+    ]);
+    expect(sent).toContainEqual({ type: 'subscribed', topics: ['node:pve-1', 'vm:101'] });
+  });
+
+  it('should replay missed events on its topics', () => {
+    const { broadcaster, connection, sent } = setup();
+    broadcaster.subscribe({ send: () => {}, heartbeat: () => {} });
+    broadcaster.publish(status('pve-1'));
+    broadcaster.publish(status('pve-2'));
+    broadcaster.publish(status('pve-1'));
+
+    connection.open(['node:pve-1'], 1);
+    expect(sent).toEqual([{ type: 'event', id: 3, message: status('pve-1') }]);
+  });
+
+  it('should answer commands and reject invalid messages', async () => {
+    const runCommand = vi.fn()
+      .mockResolvedValueOnce({ alertId: 'alert-1', acknowledged: true })
+      .mockRejectedValueOnce(new Error('Alert not found: alert-2'));
+    const { connection, sent } = setup(runCommand);
+    connection.open([]);
+
+    const command = (requestId: string, alertId: string) =>
+      JSON.stringify({ type: 'command', requestId, command: { command: 'acknowledge-alert', alertId } });
+    await connection.receive(command('r1', 'alert-1'));
+    await connection.receive(command('r2', 'alert-2'));
+    await connection.receive(JSON.stringify({ type: 'subscribe', topics: ['everything'] }));
+    await connection.receive('not json');
+
+    expect(runCommand).toHaveBeenCalledWith({ command: 'acknowledge-alert', alertId: 'alert-1' });
+    expect(sent).toEqual([
+      { type: 'result', requestId: 'r1', ok: true, data: { alertId: 'alert-1', acknowledged: true } },
+      { type: 'result', requestId: 'r2', ok: false, error: 'Alert not found: alert-2' },
+      { type: 'error', error: expect.stringContaining('Topic must be') },
+      { type: 'error', error: 'Invalid message: Malformed JSON' },
+    ]);
+  });
+});
+
+describe('live server broadcaster', () => {
+  it('should share the SSE poller of a server instead of starting its own', async () => {
+    const streamEvents = vi.fn(() => (async function* () { await new Promise(() => {}); })());
+    vi.doMock('../../lib/proxmox/registry', () => ({ getProxmoxClient: async () => ({ streamEvents }) }));
+    vi.resetModules();
+    const liveServerBundle = await import('../../lib/events/broadcaster');
+    vi.resetModules();
+    const sseRouteBundle = await import('../../lib/events/broadcaster');
+
+    const live = new LiveConnection({ broadcaster: liveServerBundle.getEventBroadcaster('live-poller-test'), send: () => {}, runCommand: vi.fn() });
+    live.open(['vms']);
+    const sse = sseRouteBundle.getEventBroadcaster('live-poller-test').subscribe({ send: () => {}, heartbeat: () => {} });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    live.close();
+    sse.unsubscribe();
+    vi.doUnmock('../../lib/proxmox/registry');
+
+    expect(streamEvents).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('live channel tokens', () => {
+  it('should accept each token once and only before it expires', () => {
+    const store = new LiveTokenStore(30000, 2);
+    const first = store.issue(0);
+    const second = store.issue(0);
+
+    expect(first.token).not.toBe(second.token);
+    expect(() => store.issue(0)).toThrow('Too many live connections waiting to open');
+    expect(store.take(first.token, 5000)).toBe(true);
+    expect(store.take(first.token, 5000)).toBe(false);
+    expect(store.take(second.token, 30000)).toBe(false);
+    expect(store.take('')).toBe(false);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MaintenanceConflictError, NodeDrainer, runWithConcurrency } from '../../lib/maintenance/drain';
+import { planDrain, planUndrain } from '../../lib/maintenance/plan';
+import { MaintenanceStore } from '../../lib/maintenance/store';
+import { TaskTracker } from '../../lib/proxmox/tasks';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+import type { ClusterSummary, NodeMaintenance, VmResource } from '../../lib/types';
+
+const GiB = 1024 ** 3;
+
+const summary: ClusterSummary = {
+  nodes: [
+    { node: 'pve-1', status: 'online', cpu: 0.5, maxcpu: 16, memory: { total: 64 * GiB, used: 40 * GiB, free: 24 * GiB } },
+    { node: 'pve-2', status: 'online', cpu: 0.5, maxcpu: 16, memory: { total: 64 * GiB, used: 24 * GiB, free: 40 * GiB } },
+    { node: 'pve-3', status: 'online', cpu: 0.1, maxcpu: 16, memory: { total: 64 * GiB, used: 32 * GiB, free: 32 * GiB } },
+    { node: 'pve-4', status: 'offline' },
+  ],
+};
+
+const guest = (vmid: number, memoryGiB: number, overrides: Partial<VmResource> = {}): VmResource => ({
+  vmid,
+  type: 'qemu',
+  status: 'running',
+  node: 'pve-1',
+  cpu: 0.25,
+  maxcpu: 4,
+  memory: { used: memoryGiB * GiB / 2, max: memoryGiB * GiB },
+  ...overrides,
+});
+
+describe('drain planning', () => {
+  it('should spread running guests by free memory and CPU', () => {
+    // pve-3 has less memory free than pve-2 but is nearly idle
+    const vms = [
+      guest(100, 16),
+      guest(101, 8),
+      guest(102, 8),
+      guest(103, 4, { status: 'stopped' }),
+      guest(104, 4, { template: true, status: 'stopped' }),
+      guest(200, 4, { node: 'pve-2' }),
+    ];
+
+    const plan = planDrain('pve-1', summary, vms);
+
+    expect(plan.placements.map(({ vmid, target }) => ({ vmid, target }))).toEqual([
+      { vmid: 100, target: 'pve-3' },
+      { vmid: 101, target: 'pve-2' },
+      { vmid: 102, target: 'pve-3' },
+    ]);
+    expect(plan.unplaced).toEqual([]);
+    expect(plan.targets.map(({ node, guests, memoryFreeAfter }) => ({ node, guests, memoryFreeAfter }))).toEqual([
+      { node: 'pve-2', guests: 1, memoryFreeAfter: 32 * GiB },
+      { node: 'pve-3', guests: 2, memoryFreeAfter: 8 * GiB },
+    ]);
+  });
+
+  it('should leave guests no node has room for and skip excluded nodes', () => {
+    const plan = planDrain('pve-1', summary, [guest(100, 48), guest(101, 8)], ['pve-2']);
+
+    expect(plan.placements.map(({ vmid, target }) => ({ vmid, target }))).toEqual([{ vmid: 101, target: 'pve-3' }]);
+    expect(plan.unplaced).toEqual([
+      { vmid: 100, name: undefined, type: 'qemu', reason: 'No remaining node has room for 48.0 GiB of memory' },
+    ]);
+    expect(planDrain('pve-1', { nodes: [summary.nodes[0]] }, [guest(100, 1)]).unplaced[0].reason).toBe('No other node is online');
+  });
+
+  it('should move drained guests back to their original node', () => {
+    const maintenance: NodeMaintenance = {
+      node: 'pve-1',
+      state: 'maintenance',
+      guests: [
+        { vmid: 100, type: 'qemu', originalNode: 'pve-1', target: 'pve-2', status: 'migrated' },
+        { vmid: 101, type: 'qemu', originalNode: 'pve-1', target: 'pve-3', status: 'failed', error: 'boom' },
+        { vmid: 102, type: 'qemu', originalNode: 'pve-1', target: 'pve-2', status: 'migrated' },
+      ],
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const vms = [guest(100, 8, { node: 'pve-2' }), guest(101, 8)];
+
+    expect(planUndrain(maintenance, vms)).toEqual([
+      { vmid: 100, name: undefined, type: 'qemu', node: 'pve-2', target: 'pve-1', memory: 8 * GiB, cpu: 1 },
+    ]);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('should keep at most the limit in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      done.push(item);
+    });
+
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('NodeDrainer', () => {
+  let dir: string;
+  let store: MaintenanceStore;
+  let drainer: NodeDrainer;
+  let vms: VmResource[];
+  let failing: Set<number>;
+
+  const client = {
+    getClusterSummary: async () => summary,
+    getVmList: async () => ({ vms }),
+    getMigrationPreflight: async (node: string, vmid: number) => ({ ok: !failing.has(vmid), checks: [{ id: 'target', status: 'fail', message: `Guest ${vmid} is pinned` }] }),
+    migrateVm: async (node: string, vmid: number, options: { target: string }) => {
+      vms = vms.map((vm) => (vm.vmid === vmid ? { ...vm, node: options.target } : vm));
+      return { upid: `UPID:${node}:0000A1B2:00C0FFEE:65000000:qmigrate:${vmid}:root@pam:`, message: 'started' };
+    },
+    getTaskStatus: async (node: string, upid: string) => ({ upid, node, type: 'qmigrate', user: 'root@pam', status: 'stopped', exitstatus: 'OK' }),
+  } as unknown as ProxmoxClient;
+
+  const settled = (node: string) => vi.waitFor(() => {
+    if (drainer.isRunning(undefined, node)) throw new Error('still running');
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maintenance-'));
+    store = new MaintenanceStore(path.join(dir, 'maintenance.json'));
+    drainer = new NodeDrainer({ store, tracker: new TaskTracker({ pollIntervalMs: 1 }) });
+    vms = [guest(100, 16), guest(101, 8), guest(102, 8)];
+    failing = new Set();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should drain a node into maintenance and undrain it back', async () => {
+    failing.add(102);
+    const plan = await drainer.plan(client, undefined, 'pve-1');
+    const started = await drainer.drain(client, undefined, 'pve-1', { placements: plan.placements, concurrency: 2 });
+
+    expect(started.state).toBe('draining');
+    await expect(drainer.drain(client, undefined, 'pve-1', { placements: [], concurrency: 1 })).rejects.toThrow(MaintenanceConflictError);
+    await settled('pve-1');
+
+    const drained = await store.get(undefined, 'pve-1');
+    expect(drained?.state).toBe('maintenance');
+    expect(drained?.guests.map(({ vmid, status, error }) => ({ vmid, status, error }))).toEqual([
+      { vmid: 100, status: 'migrated', error: undefined },
+      { vmid: 101, status: 'migrated', error: undefined },
+      { vmid: 102, status: 'failed', error: 'Guest 102 is pinned' },
+    ]);
+    expect(vms.map((vm) => vm.node)).toEqual(['pve-3', 'pve-2', 'pve-1']);
+
+    // Nodes in maintenance take no guests
+    expect((await drainer.plan(client, undefined, 'pve-2')).targets.map((target) => target.node)).toEqual(['pve-3']);
+
+    const undraining = await drainer.undrain(client, undefined, 'pve-1', { concurrency: 2 });
+    expect(undraining?.state).toBe('undraining');
+    await settled('pve-1');
+
+    expect(vms.every((vm) => vm.node === 'pve-1')).toBe(true);
+    expect(await store.get(undefined, 'pve-1')).toBeUndefined();
+    await expect(drainer.undrain(client, undefined, 'pve-1', { concurrency: 1 })).rejects.toThrow('pve-1 is not in maintenance');
+  });
+
+  it('should keep guests off a node as soon as its drain starts', async () => {
+    let open!: () => void;
+    const gate = new Promise<void>((resolve) => { open = resolve; });
+    const held = { ...client, migrateVm: async (...args: Parameters<ProxmoxClient['migrateVm']>) => gate.then(() => client.migrateVm(...args)) } as ProxmoxClient;
+
+    const plan = await drainer.plan(held, undefined, 'pve-1');
+    await drainer.drain(held, undefined, 'pve-1', { placements: plan.placements, concurrency: 1 });
+
+    // No guest has moved yet, but pve-1 already takes no guests
+    expect((await store.get(undefined, 'pve-1'))?.state).toBe('draining');
+    expect((await drainer.plan(held, undefined, 'pve-2')).targets.map((target) => target.node)).toEqual(['pve-3']);
+    const placement = { vmid: 200, type: 'qemu' as const, node: 'pve-2', target: 'pve-1', memory: 0, cpu: 0 };
+    await expect(drainer.drain(held, undefined, 'pve-2', { placements: [placement], concurrency: 1 }))
+      .rejects.toThrow('pve-1 is being drained or in maintenance');
+    expect(drainer.isRunning(undefined, 'pve-2')).toBe(false);
+
+    open();
+    await settled('pve-1');
+  });
+
+  it('should reject placements that do not leave the node', async () => {
+    const placement = { vmid: 200, type: 'qemu' as const, node: 'pve-2', target: 'pve-3', memory: 0, cpu: 0 };
+
+    await expect(drainer.drain(client, undefined, 'pve-1', { placements: [placement], concurrency: 1 })).rejects.toThrow('planned from pve-2');
+    await expect(drainer.drain(client, undefined, 'pve-1', { placements: [{ ...placement, node: 'pve-1', target: 'pve-1' }], concurrency: 1 }))
+      .rejects.toThrow('cannot be placed on the drained node');
+  });
+
+  it('should report migrations cut short by a restart as failed', async () => {
+    const file = path.join(dir, 'maintenance.json');
+    await fs.writeFile(file, JSON.stringify({
+      version: 1,
+      nodes: [{
+        node: 'pve-1',
+        state: 'draining',
+        guests: [
+          { vmid: 100, type: 'qemu', originalNode: 'pve-1', target: 'pve-2', status: 'migrated' },
+          { vmid: 101, type: 'qemu', originalNode: 'pve-1', target: 'pve-3', status: 'migrating' },
+        ],
+        startedAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:01:00.000Z',
+      }],
+    }));
+
+    const maintenance = await new MaintenanceStore(file).get(undefined, 'pve-1');
+
+    expect(maintenance?.state).toBe('maintenance');
+    expect(maintenance?.startedAt).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+    expect(maintenance?.guests.map((entry) => entry.status)).toEqual(['migrated', 'failed']);
+  });
+});
+
+describe('getNodeDrainer', () => {
+  it('should share one drainer and store between separately loaded module instances', async () => {
+    vi.resetModules();
+    const drainRoute = await import('../../lib/maintenance/drain');
+    vi.resetModules();
+    const maintenanceRoute = await import('../../lib/maintenance/drain');
+
+    expect(maintenanceRoute).not.toBe(drainRoute);
+    expect(maintenanceRoute.getNodeDrainer()).toBe(drainRoute.getNodeDrainer());
+  });
+});
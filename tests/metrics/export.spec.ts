@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileMetricsStore } from '../../lib/metrics/fileMetricsStore';
+import { createMetricsExportStream } from '../../lib/metrics/export';
+import type { MetricsExportOptions } from '../../lib/metrics/export';
+import { rollup } from '../../lib/metrics/rollup';
+import { validateMetricsExportQuery } from '../../lib/types';
+
+const T0 = Date.UTC(2025, 2, 1, 0, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+describe('metrics export', () => {
+  let dir: string;
+  let store: FileMetricsStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metrics-export-'));
+    store = new FileMetricsStore(dir);
+    await store.append(rollup([
+      { node: 'pve-1', timestamp: T0, cpu: 0.2, memory: { used: 100, total: 400 } },
+      { node: 'pve-1', timestamp: T0 + 1000, cpu: 0.4, memory: { used: 300, total: 400 } },
+      { node: 'pve-1', vmid: 100, timestamp: T0 + HOUR, cpu: 0.5 },
+    ], '1h'));
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const exportText = (options: Partial<MetricsExportOptions>) => new Response(createMetricsExportStream({
+    store,
+    format: 'csv',
+    server: 'pve.example.com',
+    subjects: [{ node: 'pve-1' }, { vmid: 100 }],
+    series: ['cpu', 'memory'],
+    resolution: '1h',
+    from: new Date(T0),
+    to: new Date(T0 + 2 * HOUR),
+    ...options,
+  })).text();
+
+  it('should stream CSV with unit columns and ISO timestamps', async () => {
+    expect((await exportText({})).split('\n')).toEqual([
+      'timestamp,server,node,vmid,resolution,cpu_avg_ratio,cpu_min_ratio,cpu_max_ratio,'
+        + 'memory_used_avg_bytes,memory_used_min_bytes,memory_used_max_bytes,memory_total_bytes',
+      '2025-03-01T00:00:00.000Z,pve.example.com,pve-1,,1h,0.30000000000000004,0.2,0.4,200,100,300,400',
+      '2025-03-01T01:00:00.000Z,pve.example.com,pve-1,100,1h,0.5,0.5,0.5,,,,',
+      '',
+    ]);
+  });
+
+  it('should stream NDJSON after a header line', async () => {
+    const lines = (await exportText({ format: 'ndjson', series: ['cpu'], subjects: [{ vmid: 100 }] }))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(lines).toEqual([
+      {
+        type: 'header',
+        server: 'pve.example.com',
+        from: '2025-03-01T00:00:00.000Z',
+        to: '2025-03-01T02:00:00.000Z',
+        resolution: '1h',
+        units: { cpu: 'ratio' },
+      },
+      { type: 'point', timestamp: '2025-03-01T01:00:00.000Z', node: 'pve-1', vmid: 100, cpu: { min: 0.5, max: 0.5, avg: 0.5 } },
+    ]);
+  });
+
+  it('should parse comma-separated subjects and series', () => {
+    const query = validateMetricsExportQuery({ nodes: 'pve-1, pve-2', vmids: '100,101', from: '2025-03-01' });
+    expect(query).toMatchObject({ format: 'csv', nodes: ['pve-1', 'pve-2'], vmids: [100, 101], series: ['cpu', 'memory', 'storage'] });
+    expect(() => validateMetricsExportQuery({ from: '2025-03-01' })).toThrow('At least one node or guest is required');
+    expect(() => validateMetricsExportQuery({ nodes: 'pve-1', from: '2025-03-01', series: 'disk' })).toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { chooseResolution, rollup, rollupBuckets } from '../../lib/metrics/rollup';
+import type { MetricSample } from '../../lib/metrics/rollup';
+import { FileMetricsStore } from '../../lib/metrics/fileMetricsStore';
+import { MetricsCollector } from '../../lib/metrics/collector';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const T0 = Date.UTC(2025, 0, 31, 10, 0, 0);
+
+const sample = (timestamp: number, cpu: number, vmid?: number): MetricSample => ({
+  node: 'pve-1',
+  vmid,
+  timestamp,
+  cpu,
+  memory: { used: cpu * 1000, total: 1000 },
+});
+
+describe('metrics rollup', () => {
+  it('should aggregate samples into buckets with min, max and avg', () => {
+    const buckets = rollup([
+      sample(T0 + 5000, 0.2),
+      sample(T0 + 40000, 0.6),
+      sample(T0 + MINUTE + 1000, 0.5),
+      sample(T0 + 5000, 0.9, 100),
+    ], '1m');
+
+    expect(buckets).toEqual([
+      expect.objectContaining({ node: 'pve-1', vmid: undefined, start: T0, cpu: { min: 0.2, max: 0.6, avg: 0.4, count: 2 } }),
+      expect.objectContaining({ start: T0 + MINUTE, cpu: { min: 0.5, max: 0.5, avg: 0.5, count: 1 } }),
+      expect.objectContaining({ vmid: 100, start: T0, cpu: { min: 0.9, max: 0.9, avg: 0.9, count: 1 } }),
+    ]);
+    expect(buckets[0].memory).toEqual({ min: 200, max: 600, avg: 400, count: 2, total: 1000 });
+  });
+
+  it('should weight averages by sample count when rolling up', () => {
+    const minutes = rollup([
+      sample(T0, 0.1),
+      sample(T0 + 1000, 0.1),
+      sample(T0 + 2000, 0.1),
+      sample(T0 + 14 * MINUTE, 0.5),
+      sample(T0 + 15 * MINUTE, 0.3),
+    ], '1m');
+
+    const quarters = rollupBuckets(minutes, '15m');
+    expect(quarters.map((bucket) => [bucket.start, bucket.cpu])).toEqual([
+      [T0, { min: 0.1, max: 0.5, avg: 0.2, count: 4 }],
+      [T0 + 15 * MINUTE, { min: 0.3, max: 0.3, avg: 0.3, count: 1 }],
+    ]);
+  });
+
+  it('should pick the finest retained resolution for a range', () => {
+    const now = new Date(T0);
+    expect(chooseResolution(new Date(T0 - 6 * 60 * MINUTE), now, now)).toBe('1m');
+    expect(chooseResolution(new Date(T0 - 3 * DAY), now, now)).toBe('15m');
+    expect(chooseResolution(new Date(T0 - 10 * DAY), new Date(T0 - 9 * DAY), now)).toBe('15m');
+    expect(chooseResolution(new Date(T0 - 90 * DAY), now, now)).toBe('1h');
+  });
+});
+
+describe('FileMetricsStore', () => {
+  let dir: string;
+  let store: FileMetricsStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metrics-store-'));
+    store = new FileMetricsStore(dir);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should query buckets across days and merge duplicates', async () => {
+    await store.append(rollup([sample(T0 - DAY, 0.1), sample(T0, 0.2), sample(T0, 0.3, 100)], '1h'));
+    await store.append(rollup([sample(T0 + 1000, 0.4)], '1h'));
+
+    const buckets = await store.query({
+      node: 'pve-1',
+      resolution: '1h',
+      from: new Date(T0 - 2 * DAY),
+      to: new Date(T0 + DAY),
+    });
+    expect(buckets.map((bucket) => [bucket.start, bucket.cpu?.avg, bucket.cpu?.count])).toEqual([
+      [T0 - DAY, 0.1, 1],
+      [T0, expect.closeTo(0.3), 2],
+    ]);
+
+    const guest = await store.query({ node: 'pve-2', vmid: 100, resolution: '1h', from: new Date(T0), to: new Date(T0 + 1) });
+    expect(guest).toHaveLength(1);
+  });
+
+  it('should drop day files past retention', async () => {
+    await store.append([
+      ...rollup([sample(T0 - 10 * DAY, 0.1), sample(T0, 0.2)], '1m'),
+      ...rollup([sample(T0 - 10 * DAY, 0.1)], '15m'),
+    ]);
+
+    await store.prune(new Date(T0));
+
+    expect((await fs.readdir(path.join(dir, '1m'))).sort()).toEqual(['2025-01-31.ndjson']);
+    expect(await fs.readdir(path.join(dir, '15m'))).toEqual(['2025-01-21.ndjson']);
+  });
+});
+
+describe('MetricsCollector', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metrics-collector-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const clientWithCpu = (cpu: number) => ({
+    getClusterSummary: async () => ({ nodes: [{ node: 'pve-1', status: 'online', cpu }] }),
+    getVmList: async () => ({ vms: [] }),
+  }) as unknown as ProxmoxClient;
+
+  it('should write closed buckets and rebuild open ones after a restart', async () => {
+    const store = new FileMetricsStore(dir);
+    let cpu = 0.2;
+    const collector = () => new MetricsCollector({ store, getClient: async () => clientWithCpu(cpu), intervalMs: 5000 });
+
+    const first = collector();
+    await first.collect(new Date(T0 + 10000));
+    await first.collect(new Date(T0 + MINUTE + 10000));
+
+    // The minute still open when the first collector goes away is lost
+    cpu = 0.4;
+    const second = collector();
+    await second.collect(new Date(T0 + 2 * MINUTE + 10000));
+    await second.collect(new Date(T0 + 60 * MINUTE + 10000));
+
+    const range = { node: 'pve-1', from: new Date(T0), to: new Date(T0 + 60 * MINUTE) };
+    expect((await store.query({ ...range, resolution: '1m' })).map((bucket) => bucket.cpu?.avg)).toEqual([0.2, 0.4]);
+    expect((await store.query({ ...range, resolution: '1h' })).map((bucket) => bucket.cpu)).toEqual([
+      { min: 0.2, max: 0.4, avg: expect.closeTo(0.3), count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { collectPrometheusSnapshot, renderOpenMetrics } from '../../lib/metrics/prometheus';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+import type { Alert, ClusterSummary } from '../../lib/types';
+
+const summary: ClusterSummary = {
+  nodes: [
+    {
+      node: 'pve-1',
+      status: 'online',
+      cpu: 0.25,
+      maxcpu: 8,
+      uptime: 3600,
+      loadavg: [0.5, 0.4, 0.3],
+      memory: { used: 4096, free: 4096, total: 8192 },
+    },
+    { node: 'pve-2', status: 'offline' },
+  ],
+};
+
+const alert = (id: string, severity: Alert['severity'], acknowledged = false): Alert =>
+  ({ id, thresholdId: 't1', message: 'High CPU', severity, timestamp: new Date(), acknowledged });
+
+describe('renderOpenMetrics', () => {
+  it('should render labelled gauges and end with EOF', () => {
+    const text = renderOpenMetrics({
+      summary,
+      vms: {
+        vms: [
+          { vmid: 100, name: 'web "prod"', type: 'qemu', status: 'running', node: 'pve-1', cpu: 0.5, memory: { used: 512, max: 1024 } },
+          { vmid: 9000, type: 'qemu', status: 'stopped', node: 'pve-1', template: true },
+        ],
+      },
+      alerts: [alert('a1', 'critical'), alert('a2', 'critical', true)],
+      collectors: { guests: true, backups: false },
+    });
+
+    expect(text).toContain('# TYPE pve_node_cpu_usage_ratio gauge\n# UNIT pve_node_cpu_usage_ratio ratio\n');
+    expect(text).toContain('pve_node_up{node="pve-1"} 1\npve_node_up{node="pve-2"} 0\n');
+    expect(text).toContain('pve_node_memory_used_bytes{node="pve-1"} 4096\n');
+    expect(text).toContain('pve_node_load_average{node="pve-1",period="5m"} 0.4\n');
+    expect(text).toContain('pve_guest_info{vmid="100",node="pve-1",type="qemu",name="web \\"prod\\"",status="running"} 1\n');
+    expect(text).toContain('pve_guest_memory_total_bytes{vmid="100",node="pve-1",type="qemu"} 1024\n');
+    expect(text).not.toContain('vmid="9000"');
+    expect(text).toContain('pve_alerts_active{severity="critical",acknowledged="false"} 1\n');
+    expect(text).toContain('pve_alerts_active{severity="info",acknowledged="false"} 0\n');
+    expect(text).toContain('pve_exporter_collector_success{collector="backups"} 0\n');
+    expect(text).not.toContain('pve_backup_job_status');
+    expect(text.endsWith('\n# EOF\n')).toBe(true);
+  });
+});
+
+describe('collectPrometheusSnapshot', () => {
+  it('should keep the scrape going when an optional section fails', async () => {
+    const getServiceStatus = vi.fn(async () => [{ name: 'pveproxy', status: 'active' as const, enabled: true }]);
+    const client = {
+      getClusterSummary: async () => summary,
+      getVmList: async () => ({ vms: [] }),
+      getBackupJobs: async () => {
+        throw new Error('403 Forbidden');
+      },
+      getServiceStatus,
+    } as unknown as ProxmoxClient;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const snapshot = await collectPrometheusSnapshot(client);
+
+    expect(snapshot.backups).toBeUndefined();
+    expect(snapshot.collectors).toEqual({ guests: true, backups: false, services: true });
+    // Offline nodes are not asked for their services
+    expect(getServiceStatus).toHaveBeenCalledTimes(1);
+    expect(renderOpenMetrics(snapshot)).toContain('pve_service_active{node="pve-1",service="pveproxy"} 1\n');
+  });
+});
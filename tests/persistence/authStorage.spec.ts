@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PersistErrorCode } from '../../lib/persistence/types';
+import type { EncryptedSecret } from '../../lib/persistence/crypto';
 import { saveProfile, loadProfile, clearProfile, saveSecretPassword, loadSecretPassword, clearSecrets, clearAll } from '../../lib/persistence/authStorage';
 import { idbGet, idbPut, idbDel, idbClear } from '../../lib/persistence/indexedDb';
 
@@ -97,4 +99,65 @@ describe('authStorage', () => {
     const error = await clearAll();
     expect(error).toBe('UNKNOWN_ERROR');
   });
-});
\ No newline at end of file
+
+  describe('encryption and expiry', () => {
+    // In-memory stand-in for the IndexedDB store
+    const useMemoryStore = () => {
+      const store = new Map<string, unknown>();
+      vi.mocked(idbGet).mockImplementation(async (key: string) => store.get(key));
+      vi.mocked(idbPut).mockImplementation(async (key: string, value: unknown) => { store.set(key, value); });
+      vi.mocked(idbDel).mockImplementation(async (key: string) => { store.delete(key); });
+      return store;
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should store the password encrypted with a non-extractable key', async () => {
+      const store = useMemoryStore();
+
+      expect(await saveSecretPassword('mypassword')).toBeNull();
+
+      const stored = store.get('secret_password') as { value: EncryptedSecret };
+      expect(JSON.stringify(stored)).not.toContain('mypassword');
+      expect(new TextDecoder().decode(stored.value.data)).not.toContain('mypassword');
+      expect((store.get('secret_key') as CryptoKey).extractable).toBe(false);
+      expect(await loadSecretPassword()).toEqual({ password: 'mypassword' });
+    });
+
+    it('should encrypt legacy plaintext passwords when loading them', async () => {
+      const store = useMemoryStore();
+      store.set('secret_password', 'legacy');
+
+      expect(await loadSecretPassword()).toEqual({ password: 'legacy' });
+      expect(typeof store.get('secret_password')).toBe('object');
+      expect(await loadSecretPassword()).toEqual({ password: 'legacy' });
+    });
+
+    it('should report undecryptable passwords', async () => {
+      const store = useMemoryStore();
+      await saveSecretPassword('mypassword');
+      store.delete('secret_key');
+
+      expect(await loadSecretPassword()).toEqual({ password: null, error: PersistErrorCode.DECRYPTION_FAILED });
+      expect(store.has('secret_password')).toBe(false);
+    });
+
+    it('should expire profiles and passwords after their TTL', async () => {
+      const store = useMemoryStore();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      await saveProfile({ name: 'Test' }, 1);
+      await saveSecretPassword('mypassword', 2);
+
+      vi.setSystemTime(new Date('2025-01-02T12:00:00Z'));
+      expect(await loadProfile()).toEqual({ profile: null, error: PersistErrorCode.TTL_EXPIRED });
+      expect(store.has('profile')).toBe(false);
+      expect(await loadSecretPassword()).toEqual({ password: 'mypassword' });
+
+      vi.setSystemTime(new Date('2025-01-03T00:00:00Z'));
+      expect(await loadSecretPassword()).toEqual({ password: null, error: PersistErrorCode.TTL_EXPIRED });
+    });
+  });
+});
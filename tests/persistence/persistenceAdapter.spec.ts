@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { onSaveClick, onLoadAtStartup, onClearStoredData, persistence } from '../../lib/persistence/persistenceAdapter';
 import * as authStorage from '../../lib/persistence/authStorage';
+import { policies } from '../../lib/persistence/policies';
 
 vi.mock('../../lib/persistence/authStorage', () => ({
   saveProfile: vi.fn(),
@@ -12,9 +13,14 @@ vi.mock('../../lib/persistence/authStorage', () => ({
   clearAll: vi.fn()
 }));
 
+vi.mock('../../lib/persistence/policies', () => ({
+  policies: { policyAllowPasswordRemember: true, defaultTtlDays: 30, defaultSecretTtlDays: 30 }
+}));
+
 describe('persistenceAdapter', () => {
   afterEach(() => {
     vi.clearAllMocks();
+    policies.policyAllowPasswordRemember = true;
   });
 
   describe('onSaveClick', () => {
@@ -50,6 +56,16 @@ describe('persistenceAdapter', () => {
       expect(authStorage.saveProfile).toHaveBeenCalledWith({ name: 'test' });
       expect(authStorage.saveSecretPassword).not.toHaveBeenCalled();
     });
+
+    it('should not remember the password when the policy forbids it', async () => {
+      policies.policyAllowPasswordRemember = false;
+      vi.mocked(authStorage.saveProfile).mockResolvedValue(null);
+      vi.mocked(authStorage.clearSecrets).mockResolvedValue(null);
+      const result = await onSaveClick({ profile: { name: 'test' }, password: 'pass', rememberPassword: true });
+      expect(result.ok).toBe(true);
+      expect(authStorage.saveSecretPassword).not.toHaveBeenCalled();
+      expect(authStorage.clearSecrets).toHaveBeenCalled();
+    });
   });
 
   describe('onLoadAtStartup', () => {
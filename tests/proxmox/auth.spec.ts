@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateTotp, TicketAuth, TICKET_LIFETIME_MS } from '../../lib/proxmox/auth';
+
+const BASE_URL = 'https://pve.test:8006';
+const TICKET_URL = `${BASE_URL}/api2/json/access/ticket`;
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify({ data }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function ticketResponse(ticket: string, extra: Record<string, unknown> = {}) {
+  return jsonResponse({ username: 'ops@pam', ticket, CSRFPreventionToken: `csrf-${ticket}`, ...extra });
+}
+
+function formBody(call: unknown[]): URLSearchParams {
+  return (call[1] as RequestInit).body as URLSearchParams;
+}
+
+describe('generateTotp', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    // ASCII "12345678901234567890" in base32
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    expect(generateTotp(secret, 59_000, 30, 8)).toBe('94287082');
+    expect(generateTotp(secret, 1111111109_000, 30, 8)).toBe('07081804');
+    expect(generateTotp(secret, 59_000)).toBe('287082');
+  });
+});
+
+describe('TicketAuth', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should log in once and send the CSRF token only on mutating calls', async () => {
+    fetchMock.mockResolvedValueOnce(ticketResponse('PVE:ops@pam:1'));
+    const auth = new TicketAuth({ baseUrl: BASE_URL, username: 'ops@pam', password: 'pw' });
+
+    const [get, post] = await Promise.all([auth.getHeaders('GET'), auth.getHeaders('POST')]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(TICKET_URL);
+    expect(formBody(fetchMock.mock.calls[0]).get('password')).toBe('pw');
+    expect(get).toEqual({ Cookie: 'PVEAuthCookie=PVE%3Aops%40pam%3A1' });
+    expect(post).toEqual({ Cookie: 'PVEAuthCookie=PVE%3Aops%40pam%3A1', CSRFPreventionToken: 'csrf-PVE:ops@pam:1' });
+  });
+
+  it('should answer a TOTP challenge with a code from the configured secret', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(59_000);
+    fetchMock
+      .mockResolvedValueOnce(ticketResponse('PVE:!tfa!challenge', { NeedTFA: 1 }))
+      .mockResolvedValueOnce(ticketResponse('PVE:ops@pam:2'));
+    const auth = new TicketAuth({
+      baseUrl: BASE_URL,
+      username: 'ops@pam',
+      password: 'pw',
+      totpSecret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+    });
+
+    await auth.getHeaders();
+
+    const challenge = formBody(fetchMock.mock.calls[1]);
+    expect(challenge.get('tfa-challenge')).toBe('PVE:!tfa!challenge');
+    expect(challenge.get('password')).toBe('totp:287082');
+  });
+
+  it('should fail clearly when a second factor is required but not configured', async () => {
+    fetchMock.mockResolvedValueOnce(ticketResponse('PVE:!tfa!challenge', { NeedTFA: 1 }));
+    const auth = new TicketAuth({ baseUrl: BASE_URL, username: 'ops@pam', password: 'pw' });
+
+    await expect(auth.getHeaders()).rejects.toThrow(/Two-factor authentication is required/);
+  });
+
+  it('should renew the ticket with itself before it expires', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    fetchMock
+      .mockResolvedValueOnce(ticketResponse('PVE:ops@pam:1'))
+      .mockResolvedValueOnce(ticketResponse('PVE:ops@pam:2'));
+    const auth = new TicketAuth({ baseUrl: BASE_URL, username: 'ops@pam', password: 'pw', renewMarginMs: 60_000 });
+
+    await auth.getHeaders();
+    vi.setSystemTime(TICKET_LIFETIME_MS - 30_000);
+    const headers = await auth.getHeaders();
+
+    expect(formBody(fetchMock.mock.calls[1]).get('password')).toBe('PVE:ops@pam:1');
+    expect(headers.Cookie).toBe('PVEAuthCookie=PVE%3Aops%40pam%3A2');
+  });
+
+  it('should log in from scratch when renewal is refused', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    fetchMock
+      .mockResolvedValueOnce(ticketResponse('PVE:ops@pam:1'))
+      .mockResolvedValueOnce(new Response('', { status: 401 }))
+      .mockResolvedValueOnce(ticketResponse('PVE:ops@pam:3'));
+    const auth = new TicketAuth({ baseUrl: BASE_URL, username: 'ops@pam', password: 'pw' });
+
+    await auth.getHeaders();
+    vi.setSystemTime(TICKET_LIFETIME_MS - 60_000);
+    const headers = await auth.getHeaders();
+
+    expect(formBody(fetchMock.mock.calls[2]).get('password')).toBe('pw');
+    expect(headers.Cookie).toBe('PVEAuthCookie=PVE%3Aops%40pam%3A3');
+  });
+});
@@ -0,0 +1,559 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+
+const BASE_URL = 'https://pve.test:8006';
+
+function jsonResponse(data: unknown) {
+  return new Response(JSON.stringify({ data }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const clusterResources = [
+  { id: 'qemu/100', type: 'qemu', vmid: 100, node: 'pve-1', name: 'web', status: 'running', cpu: 0.25, maxcpu: 4, mem: 2147483648, maxmem: 4294967296, disk: 0, maxdisk: 34359738368, uptime: 7200, tags: 'prod;web', template: 0 },
+  { id: 'lxc/101', type: 'lxc', vmid: 101, node: 'pve-2', name: 'dns', status: 'stopped', cpu: 0, maxcpu: 1, mem: 0, maxmem: 536870912, disk: 0, maxdisk: 8589934592, uptime: 0 },
+  { id: 'qemu/9000', type: 'qemu', vmid: 9000, node: 'pve-1', name: 'debian-tpl', status: 'stopped', maxcpu: 2, maxmem: 2147483648, maxdisk: 10737418240, template: 1 },
+];
+
+describe('https adapter - guest inventory', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+
+  beforeEach(async () => {
+    // The adapter keeps a module-level response cache; start each test fresh
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, tokenId: 'root@pam!dash', tokenSecret: 'secret' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should map /cluster/resources entries to VmResource', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(clusterResources));
+
+    const { vms } = await client.getVmList();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${BASE_URL}/api2/json/cluster/resources?type=vm`,
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'PVEAPIToken=root@pam!dash=secret' }),
+      }),
+    );
+    expect(vms).toHaveLength(3);
+    expect(vms[0]).toMatchObject({
+      vmid: 100,
+      type: 'qemu',
+      status: 'running',
+      node: 'pve-1',
+      maxcpu: 4,
+      memory: { used: 2147483648, max: 4294967296 },
+      disk: { used: 0, max: 34359738368 },
+      tags: 'prod,web',
+      template: false,
+    });
+    expect(vms[1]).toMatchObject({ vmid: 101, type: 'lxc', status: 'stopped' });
+    expect(vms[2]).toMatchObject({ vmid: 9000, status: 'template', template: true });
+  });
+
+  it('should query the guest status endpoint for details', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(clusterResources))
+      .mockResolvedValueOnce(jsonResponse({
+        vmid: 101, name: 'dns', status: 'running', cpu: 0.05, cpus: 1,
+        mem: 134217728, maxmem: 536870912, disk: 1073741824, maxdisk: 8589934592, uptime: 60,
+      }));
+
+    const vm = await client.getVmDetails('pve-2', 101);
+
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      `${BASE_URL}/api2/json/nodes/pve-2/lxc/101/status/current`,
+      expect.anything(),
+    );
+    expect(vm).toMatchObject({ vmid: 101, type: 'lxc', status: 'running', maxcpu: 1, uptime: 60 });
+  });
+
+  it('should report paused QEMU guests from qmpstatus', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(clusterResources))
+      .mockResolvedValueOnce(jsonResponse({ vmid: 100, status: 'running', qmpstatus: 'paused', cpus: 4, maxmem: 4294967296 }));
+
+    const vm = await client.getVmDetails('pve-1', 100);
+    expect(vm.status).toBe('paused');
+  });
+
+  it('should fail for a guest that is not on the given node', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(clusterResources));
+    await expect(client.getVmDetails('pve-3', 100)).rejects.toThrow('VM/CT 100 not found on node pve-3');
+  });
+});
+
+describe('https adapter - ticket auth', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+
+  const ticket = (n: number) =>
+    jsonResponse({ username: 'ops@pam', ticket: `PVE:ops@pam:${n}`, CSRFPreventionToken: `csrf-${n}` });
+
+  beforeEach(async () => {
+    // Ticket sessions are shared per module; start each test fresh
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, username: 'ops@pam', password: 'pw' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the ticket cookie and CSRF token on mutating calls', async () => {
+    fetchMock
+      .mockResolvedValueOnce(ticket(1))
+      .mockResolvedValueOnce(jsonResponse(clusterResources))
+      .mockResolvedValueOnce(jsonResponse('UPID:pve-1:00000001:00000002:66F0A000:qmstart:100:ops@pam:'));
+
+    await client.performVmAction('pve-1', 100, 'start');
+
+    const [, listInit] = fetchMock.mock.calls[1];
+    expect(listInit.headers).toMatchObject({ Cookie: 'PVEAuthCookie=PVE%3Aops%40pam%3A1' });
+    expect(listInit.headers).not.toHaveProperty('CSRFPreventionToken');
+    expect(listInit.headers).not.toHaveProperty('Authorization');
+
+    const [url, actionInit] = fetchMock.mock.calls[2];
+    expect(url).toBe(`${BASE_URL}/api2/json/nodes/pve-1/qemu/100/status/start`);
+    expect(actionInit.headers).toMatchObject({ CSRFPreventionToken: 'csrf-1' });
+  });
+
+  it('should log in again once when the ticket is rejected', async () => {
+    fetchMock
+      .mockResolvedValueOnce(ticket(1))
+      .mockResolvedValueOnce(new Response('', { status: 401, statusText: 'permission denied - invalid PVE ticket' }))
+      .mockResolvedValueOnce(ticket(2))
+      .mockResolvedValueOnce(jsonResponse(clusterResources));
+
+    const { vms } = await client.getVmList();
+
+    expect(vms).toHaveLength(3);
+    expect(fetchMock.mock.calls[3][1].headers).toMatchObject({ Cookie: 'PVEAuthCookie=PVE%3Aops%40pam%3A2' });
+  });
+});
+
+describe('https adapter - multiple servers', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should not share cached responses between servers', async () => {
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    const a = createHttpsClient({ baseUrl: 'https://a.test:8006', tokenId: 'root@pam!dash', tokenSecret: 'x' });
+    const b = createHttpsClient({ baseUrl: 'https://b.test:8006', tokenId: 'root@pam!dash', tokenSecret: 'y' });
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(clusterResources))
+      .mockResolvedValueOnce(jsonResponse([]));
+
+    expect((await a.getVmList()).vms).toHaveLength(3);
+    expect((await b.getVmList()).vms).toHaveLength(0);
+    expect(fetchMock.mock.calls[1][0]).toBe('https://b.test:8006/api2/json/cluster/resources?type=vm');
+  });
+
+  it('should skip certificate checks only for the insecure server', async () => {
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    const insecure = createHttpsClient({ baseUrl: 'https://a.test:8006', tokenId: 'root@pam!dash', tokenSecret: 'x', insecureTLS: true });
+    const verified = createHttpsClient({ baseUrl: 'https://b.test:8006', tokenId: 'root@pam!dash', tokenSecret: 'y' });
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+
+    await insecure.getVmList();
+    await verified.getVmList();
+
+    expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+    expect(fetchMock.mock.calls[0][1].dispatcher).toBeDefined();
+    expect(fetchMock.mock.calls[1][1].dispatcher).toBeUndefined();
+  });
+});
+
+describe('https adapter - historical metrics', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, tokenId: 'root@pam!dash', tokenSecret: 'secret' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should map node rrddata within the requested range', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse([
+      { time: now - 60, cpu: 0.2, iowait: 0.05, memused: 4e9, memtotal: 16e9, swapused: 1e8, swaptotal: 8e9, rootused: 2e10, roottotal: 1e11, netin: 1500, netout: 900 },
+      // Older than 6 hours although part of the "day" timeframe
+      { time: now - 7 * 3600, cpu: 0.9 },
+      // Collection gap
+      { time: now - 120 },
+    ]));
+
+    const metrics = await client.getHistoricalMetrics('pve-1', '6h');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${BASE_URL}/api2/json/nodes/pve-1/rrddata?timeframe=day&cf=AVERAGE`,
+      expect.anything(),
+    );
+    expect(metrics.data).toEqual([
+      { timestamp: (now - 120) * 1000 },
+      {
+        timestamp: (now - 60) * 1000,
+        cpu: 0.2,
+        iowait: 0.05,
+        memory: { used: 4e9, total: 16e9 },
+        swap: { used: 1e8, total: 8e9 },
+        storage: { used: 2e10, total: 1e11 },
+        network: { rx: 1500, tx: 900 },
+      },
+    ]);
+  });
+
+  it('should query the guest endpoint for its type and map disk I/O', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(clusterResources))
+      .mockResolvedValueOnce(jsonResponse([
+        { time: now - 30, cpu: 0.1, mem: 1e8, maxmem: 5e8, disk: 1e9, maxdisk: 8e9, netin: 10, netout: 20, diskread: 300, diskwrite: 400 },
+      ]));
+
+    const metrics = await client.getHistoricalMetrics('pve-2', '30d', 101);
+
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      `${BASE_URL}/api2/json/nodes/pve-2/lxc/101/rrddata?timeframe=month&cf=AVERAGE`,
+      expect.anything(),
+    );
+    expect(metrics).toMatchObject({ node: 'pve-2', vmid: 101, timeRange: '30d' });
+    expect(metrics.data[0]).toMatchObject({ memory: { used: 1e8, total: 5e8 }, diskIo: { read: 300, write: 400 } });
+  });
+});
+
+describe('https adapter - snapshots', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+  const upid = 'UPID:pve-1:0000A1B2:00C0FFEE:65000000:qmsnapshot:100:root@pam:';
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, tokenId: 'root@pam!dash', tokenSecret: 'secret' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should list snapshots with the current state', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(clusterResources))
+      .mockResolvedValueOnce(jsonResponse([
+        { name: 'base', description: 'Fresh install\n', snaptime: 1700000000, vmstate: 1 },
+        { name: 'current', description: 'You are here!', parent: 'base', running: 1 },
+      ]));
+
+    const snapshots = await client.getSnapshots('pve-1', 100);
+
+    expect(fetchMock).toHaveBeenLastCalledWith(`${BASE_URL}/api2/json/nodes/pve-1/qemu/100/snapshot`, expect.anything());
+    expect(snapshots).toEqual([
+      { name: 'base', description: 'Fresh install', snaptime: 1700000000, vmstate: true, current: false },
+      { name: 'current', parent: 'base', vmstate: false, current: true },
+    ]);
+  });
+
+  it('should create, roll back and delete snapshots as tasks', async () => {
+    // A rollback drops the cached guest list, so it may be fetched again
+    fetchMock.mockImplementation(async (url: string) =>
+      jsonResponse(url.endsWith('/cluster/resources?type=vm') ? clusterResources : upid));
+
+    const created = await client.createSnapshot('pve-1', 100, { name: 'pre-upgrade', description: 'Before 8.2', vmstate: true });
+    expect(created.upid).toBe(upid);
+    const [createUrl, createInit] = fetchMock.mock.calls[1];
+    expect(createUrl).toBe(`${BASE_URL}/api2/json/nodes/pve-1/qemu/100/snapshot`);
+    expect(createInit.method).toBe('POST');
+    expect(String(createInit.body)).toBe('snapname=pre-upgrade&description=Before+8.2&vmstate=1');
+
+    await client.rollbackSnapshot('pve-1', 100, 'pre-upgrade');
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      `${BASE_URL}/api2/json/nodes/pve-1/qemu/100/snapshot/pre-upgrade/rollback`,
+      expect.objectContaining({ method: 'POST' }),
+    );
+
+    const deleted = await client.deleteSnapshot('pve-1', 100, 'pre-upgrade');
+    expect(deleted.upid).toBe(upid);
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      `${BASE_URL}/api2/json/nodes/pve-1/qemu/100/snapshot/pre-upgrade`,
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('should refuse RAM snapshots of containers', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(clusterResources));
+
+    await expect(client.createSnapshot('pve-2', 101, { name: 'pre-upgrade', vmstate: true })).rejects.toThrow('RAM state');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('https adapter - guest configuration', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+
+  const qemuConfig = {
+    name: 'web',
+    cores: 4,
+    sockets: 1,
+    cpu: 'x86-64-v2-AES,flags=+aes',
+    memory: '4096',
+    balloon: 2048,
+    scsi0: 'local-lvm:vm-100-disk-0,discard=on,iothread=1,size=32G',
+    ide2: 'local-lvm:vm-100-cloudinit,media=cdrom',
+    unused0: 'local-lvm:vm-100-disk-1',
+    net0: 'virtio=BC:24:11:AA:BB:CC,bridge=vmbr0,firewall=1,tag=20',
+    boot: 'order=scsi0;ide2;net0',
+    ciuser: 'debian',
+    cipassword: '**********',
+    ipconfig0: 'ip=dhcp',
+    sshkeys: 'ssh-ed25519%20AAAA%20me%0Assh-rsa%20BBBB%20you%0A',
+    tags: 'prod;web',
+    onboot: 1,
+    ostype: 'l26',
+    agent: '1',
+    digest: 'abc123',
+  };
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, tokenId: 'root@pam!dash', tokenSecret: 'secret' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  const respond = (config: Record<string, unknown>, pending: unknown[] = []) =>
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/cluster/resources?type=vm')) return jsonResponse(clusterResources);
+      if (url.includes('/pending')) return jsonResponse(pending);
+      return jsonResponse(url.includes('/config?') ? config : null);
+    });
+
+  it('should split the QEMU config into sections', async () => {
+    respond(qemuConfig, [
+      { key: 'memory', value: 4096, pending: 8192 },
+      { key: 'cipassword', value: '**********', pending: 'secret' },
+      { key: 'agent', value: '1', delete: 1 },
+    ]);
+
+    const config = await client.getVmConfig('pve-1', 100);
+
+    expect(fetchMock).toHaveBeenCalledWith(`${BASE_URL}/api2/json/nodes/pve-1/qemu/100/config?current=1`, expect.anything());
+    expect(config).toMatchObject({
+      name: 'web',
+      cores: 4,
+      cpuType: 'x86-64-v2-AES',
+      memory: 4096,
+      balloon: 2048,
+      bootOrder: ['scsi0', 'ide2', 'net0'],
+      cloudInit: { user: 'debian', ipconfig: { ipconfig0: 'ip=dhcp' }, sshKeys: 2 },
+      tags: ['prod', 'web'],
+      onboot: true,
+      options: { ostype: 'l26', agent: '1' },
+      pending: { memory: '8192', agent: '' },
+      digest: 'abc123',
+    });
+    expect(config.disks).toEqual([
+      { id: 'ide2', volume: 'local-lvm:vm-100-cloudinit', media: 'cdrom', options: {} },
+      { id: 'scsi0', volume: 'local-lvm:vm-100-disk-0', size: 32 * 1024 ** 3, options: { discard: 'on', iothread: '1' } },
+      { id: 'unused0', volume: 'local-lvm:vm-100-disk-1', options: {} },
+    ]);
+    expect(config.nics).toEqual([
+      { id: 'net0', model: 'virtio', mac: 'BC:24:11:AA:BB:CC', bridge: 'vmbr0', vlan: 20, firewall: true, options: {} },
+    ]);
+    expect(JSON.stringify(config)).not.toContain('**********');
+  });
+
+  it('should map container disks and interfaces', async () => {
+    respond({
+      hostname: 'dns',
+      memory: 512,
+      swap: 512,
+      rootfs: 'local-lvm:subvol-101-disk-0,size=8G',
+      mp0: 'tank:subvol-101-disk-1,mp=/srv,size=100G',
+      net0: 'name=eth0,bridge=vmbr1,hwaddr=BC:24:11:00:00:01,ip=dhcp,type=veth',
+      digest: 'def456',
+    });
+
+    const config = await client.getVmConfig('pve-2', 101);
+
+    expect(config).toMatchObject({ name: 'dns', type: 'lxc', cores: undefined, memory: 512, swap: 512, bootOrder: [], tags: [], onboot: false });
+    expect(config.cloudInit).toBeUndefined();
+    expect(config.disks.map((disk) => [disk.id, disk.size])).toEqual([['rootfs', 8 * 1024 ** 3], ['mp0', 100 * 1024 ** 3]]);
+    expect(config.nics[0]).toMatchObject({ model: 'veth', mac: 'BC:24:11:00:00:01', bridge: 'vmbr1', options: { name: 'eth0', ip: 'dhcp', type: 'veth' } });
+  });
+
+  it('should PUT changed settings with the digest', async () => {
+    respond(qemuConfig);
+
+    await client.updateVmConfig('pve-1', 100, { cores: 2, memory: 8192, description: '', tags: ['prod', 'db'], onboot: false, digest: 'abc123' });
+
+    const [url, init] = fetchMock.mock.calls.find(([, init]) => init?.method === 'PUT')!;
+    expect(url).toBe(`${BASE_URL}/api2/json/nodes/pve-1/qemu/100/config`);
+    expect(Object.fromEntries(new URLSearchParams(String(init.body)))).toEqual({
+      cores: '2',
+      memory: '8192',
+      tags: 'prod;db',
+      onboot: '0',
+      delete: 'description',
+      digest: 'abc123',
+    });
+  });
+
+  it('should refuse a balloon for containers', async () => {
+    respond({});
+    await expect(client.updateVmConfig('pve-2', 101, { balloon: 256 })).rejects.toThrow('no balloon device');
+  });
+});
+
+describe('https adapter - migration', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+  const upid = 'UPID:pve-1:0000A1B2:00C0FFEE:65000000:qmigrate:100:root@pam:';
+
+  const routes: Record<string, unknown> = {
+    '/cluster/resources?type=vm': clusterResources,
+    '/cluster/resources?type=storage': [
+      { storage: 'local-lvm', node: 'pve-1', plugintype: 'lvmthin', shared: 0, status: 'available' },
+      { storage: 'local-lvm', node: 'pve-2', plugintype: 'lvmthin', shared: 0, status: 'available' },
+    ],
+    '/cluster/status': [{ type: 'node', name: 'pve-1', online: 1 }, { type: 'node', name: 'pve-2', online: 1 }],
+    '/nodes': [
+      { node: 'pve-1', status: 'online', maxmem: 68719476736, mem: 17179869184, maxdisk: 1, disk: 0 },
+      { node: 'pve-2', status: 'online', maxmem: 68719476736, mem: 17179869184, maxdisk: 1, disk: 0 },
+    ],
+    '/nodes/pve-1/qemu/100/status/current': { status: 'running', qmpstatus: 'running', maxmem: 4294967296, mem: 2147483648 },
+    '/nodes/pve-1/qemu/100/migrate?target=pve-2': {
+      running: 1,
+      allowed_nodes: ['pve-2'],
+      not_allowed_nodes: {},
+      local_disks: [{ volid: 'local-lvm:vm-100-disk-0', size: 34359738368 }],
+      local_resources: [],
+    },
+  };
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+      const path = url.slice(`${BASE_URL}/api2/json`.length);
+      return jsonResponse(init?.method === 'POST' ? upid : routes[path]);
+    });
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, tokenId: 'root@pam!dash', tokenSecret: 'secret' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should evaluate the QEMU migrate preconditions', async () => {
+    const preflight = await client.getMigrationPreflight('pve-1', 100, { target: 'pve-2', withLocalDisks: false, restartTimeout: 180 });
+
+    expect(preflight).toMatchObject({ mode: 'online', allowedNodes: ['pve-2'], ok: false });
+    expect(preflight.localDisks).toEqual([{ volid: 'local-lvm:vm-100-disk-0', size: 34359738368 }]);
+    expect(preflight.checks.find((check) => check.id === 'local-disks')?.status).toBe('fail');
+  });
+
+  it('should start an online migration with local disks', async () => {
+    const result = await client.migrateVm('pve-1', 100, { target: 'pve-2', withLocalDisks: true, restartTimeout: 180 });
+
+    expect(result.upid).toBe(upid);
+    const [url, init] = fetchMock.mock.calls.find(([, init]) => init?.method === 'POST')!;
+    expect(url).toBe(`${BASE_URL}/api2/json/nodes/pve-1/qemu/100/migrate`);
+    expect(String(init.body)).toBe('target=pve-2&online=1&with-local-disks=1');
+  });
+});
+
+describe('https adapter - backups and services', () => {
+  let client: ProxmoxClient;
+  const fetchMock = vi.fn();
+
+  const routes: Record<string, unknown> = {
+    '/cluster/resources?type=vm': clusterResources,
+    '/cluster/backup': [
+      { id: 'backup-daily', enabled: 1, schedule: '21:00', all: 1, exclude: '101', storage: 'pbs' },
+      { id: 'backup-dns', enabled: 1, schedule: 'sun 02:00', vmid: '101' },
+      { id: 'backup-off', enabled: 0, schedule: '03:00', vmid: '100' },
+    ],
+    '/nodes/pve-1/tasks?typefilter=vzdump': [
+      { upid: 'UPID:pve-1:1:1:65000000:vzdump:100:root@pam:', node: 'pve-1', type: 'vzdump', id: '100', starttime: 1700000000, endtime: 1700000600, status: 'OK' },
+      { upid: 'UPID:pve-1:2:2:65100000:vzdump:100:root@pam:', node: 'pve-1', type: 'vzdump', id: '100', starttime: 1700086400, endtime: 1700086500, status: 'job errors' },
+      { upid: 'UPID:pve-1:3:3:65200000:vzdump::root@pam:', node: 'pve-1', type: 'vzdump', id: '', starttime: 1700172800 },
+    ],
+    '/nodes/pve-1/services': [
+      { service: 'pveproxy', name: 'pveproxy', desc: 'PVE API Proxy Server', state: 'running', 'active-state': 'active', 'unit-state': 'enabled' },
+      { service: 'corosync', name: 'corosync', desc: 'Corosync Cluster Engine', state: 'stopped', 'active-state': 'failed', 'unit-state': 'enabled' },
+      { service: 'spiceproxy', name: 'spiceproxy', state: 'stopped', 'unit-state': 'disabled' },
+    ],
+  };
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockImplementation(async (url: string) => jsonResponse(routes[url.slice(`${BASE_URL}/api2/json`.length)]));
+    const { createHttpsClient } = await import('../../lib/proxmox/adapters/https');
+    client = createHttpsClient({ baseUrl: BASE_URL, tokenId: 'root@pam!dash', tokenSecret: 'secret' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should list vzdump runs of a node and the guests its schedules cover', async () => {
+    const jobs = await client.getBackupJobs('pve-1');
+
+    // The multi-guest run has no vmid; templates and guests of other nodes are not scheduled
+    expect(jobs).toEqual([
+      expect.objectContaining({ vmid: 100, status: 'failed', notes: 'job errors', startTime: new Date(1700086400 * 1000) }),
+      expect.objectContaining({ vmid: 100, status: 'completed', endTime: new Date(1700000600 * 1000) }),
+      { id: 'backup-daily:100', vmid: 100, node: 'pve-1', type: 'vzdump', status: 'scheduled', notes: '21:00, to pbs' },
+    ]);
+  });
+
+  it('should map node services to their systemd state', async () => {
+    const services = await client.getServiceStatus('pve-1');
+
+    expect(services).toEqual([
+      { name: 'pveproxy', status: 'active', enabled: true, description: 'PVE API Proxy Server' },
+      { name: 'corosync', status: 'failed', enabled: true, description: 'Corosync Cluster Engine' },
+      { name: 'spiceproxy', status: 'inactive', enabled: false },
+    ]);
+  });
+});
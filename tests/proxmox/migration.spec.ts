@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateMigration } from '../../lib/proxmox/migration';
+import type { MigrationFacts } from '../../lib/proxmox/migration';
+import { validateMigrationRequest } from '../../lib/types';
+
+const GiB = 1024 ** 3;
+
+const facts = (overrides: Partial<MigrationFacts> = {}): MigrationFacts => ({
+  vm: { vmid: 100, type: 'qemu', status: 'running', node: 'pve-1', memory: { used: 2 * GiB, max: 4 * GiB } },
+  options: { target: 'pve-2', withLocalDisks: false, restartTimeout: 180 },
+  targetNode: { node: 'pve-2', status: 'online', memory: { total: 64 * GiB, used: 16 * GiB, free: 48 * GiB } },
+  allowedNodes: ['pve-2', 'pve-3'],
+  localDisks: [],
+  localResources: [],
+  unavailableStorages: [],
+  targetStorages: [{ storage: 'local-lvm', node: 'pve-2', shared: false, status: 'available' }],
+  ...overrides,
+});
+
+const statusOf = (result: ReturnType<typeof evaluateMigration>, id: string) =>
+  result.checks.find((check) => check.id === id)?.status;
+
+describe('migration preflight', () => {
+  it('should allow a live migration of a VM on shared storage', () => {
+    const result = evaluateMigration(facts());
+
+    expect(result).toMatchObject({ mode: 'online', target: 'pve-2', ok: true });
+    expect(result.checks.every((check) => check.status === 'pass')).toBe(true);
+  });
+
+  it('should require copying local disks of a VM', () => {
+    const localDisks = [{ volid: 'local-lvm:vm-100-disk-0', size: 32 * GiB }];
+
+    const blocked = evaluateMigration(facts({ localDisks }));
+    expect(blocked.ok).toBe(false);
+    expect(blocked.checks.find((check) => check.id === 'local-disks')?.message).toContain('32.0 GiB');
+
+    const copied = evaluateMigration(facts({ localDisks, options: { target: 'pve-2', withLocalDisks: true, restartTimeout: 180 } }));
+    expect(statusOf(copied, 'local-disks')).toBe('warn');
+    expect(copied.ok).toBe(true);
+  });
+
+  it('should block on local ISOs, devices, storage and memory', () => {
+    expect(statusOf(evaluateMigration(facts({ localDisks: [{ volid: 'local:iso/debian.iso', cdrom: true }] })), 'local-disks')).toBe('fail');
+    expect(statusOf(evaluateMigration(facts({ localResources: ['hostpci0'] })), 'local-resources')).toBe('fail');
+    expect(statusOf(evaluateMigration(facts({ unavailableStorages: ['zfs-fast'] })), 'storage')).toBe('fail');
+    expect(statusOf(evaluateMigration(facts({ options: { target: 'pve-2', withLocalDisks: false, targetStorage: 'missing', restartTimeout: 180 } })), 'storage')).toBe('fail');
+    expect(statusOf(evaluateMigration(facts({
+      targetNode: { node: 'pve-2', status: 'online', memory: { total: 8 * GiB, used: 6 * GiB, free: 2 * GiB } },
+    })), 'memory')).toBe('fail');
+  });
+
+  it('should reject unreachable targets', () => {
+    expect(statusOf(evaluateMigration(facts({ targetNode: undefined })), 'target')).toBe('fail');
+    expect(statusOf(evaluateMigration(facts({ targetNode: { node: 'pve-2', status: 'offline' } })), 'target')).toBe('fail');
+    expect(statusOf(evaluateMigration(facts({ allowedNodes: ['pve-3'] })), 'target')).toBe('fail');
+    expect(() => validateMigrationRequest({ node: 'pve-1', target: 'pve-1' })).toThrow('already on this node');
+  });
+
+  it('should restart running containers and move stopped guests offline', () => {
+    const container = evaluateMigration(facts({ vm: { vmid: 101, type: 'lxc', status: 'running', node: 'pve-1' } }));
+    expect(container.mode).toBe('restart');
+    expect(statusOf(container, 'mode')).toBe('warn');
+
+    const stopped = evaluateMigration(facts({ vm: { vmid: 100, type: 'qemu', status: 'stopped', node: 'pve-1', memory: { max: 128 * GiB } } }));
+    expect(stopped).toMatchObject({ mode: 'offline', ok: true });
+  });
+});
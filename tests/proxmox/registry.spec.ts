@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const getServer = vi.fn();
+
+vi.mock('../../lib/services/serverRepository', () => ({
+  getServerRepository: () => ({ get: getServer }),
+}));
+
+vi.mock('../../env/index', () => ({
+  env: {
+    get: () => ({
+      ENABLE_MOCK: false,
+      PROXMOX_BASE_URL: 'https://default.test:8006',
+      PROXMOX_INSECURE_TLS: false,
+      SERVER_CACHE_TTL_MS: 2000,
+      POLL_INTERVAL_MS: 5000,
+    }),
+  },
+}));
+
+describe('proxmox client registry', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    getServer.mockReset();
+  });
+
+  it('should build one client per server and reuse it', async () => {
+    getServer.mockResolvedValue({ id: 'srv-1', host: 'pve.lab', port: 8006, username: 'root@pam!dash', token: 's3cret', insecureTLS: false });
+    const { getProxmoxClient } = await import('../../lib/proxmox/registry');
+
+    const [a, b] = await Promise.all([getProxmoxClient('srv-1'), getProxmoxClient('srv-1')]);
+
+    expect(a).toBe(b);
+    expect(getServer).toHaveBeenCalledTimes(1);
+    expect(getServer).toHaveBeenCalledWith('srv-1');
+  });
+
+  it('should reload a server after invalidation', async () => {
+    getServer.mockResolvedValue({ id: 'srv-1', host: 'pve.lab', port: 8006, token: 's3cret', username: 'root@pam!dash', insecureTLS: false });
+    const { getProxmoxClient, invalidateProxmoxClient } = await import('../../lib/proxmox/registry');
+
+    const first = await getProxmoxClient('srv-1');
+    invalidateProxmoxClient('srv-1');
+    const second = await getProxmoxClient('srv-1');
+
+    expect(second).not.toBe(first);
+    expect(getServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown servers', async () => {
+    getServer.mockResolvedValue(null);
+    const { getProxmoxClient, UnknownServerError } = await import('../../lib/proxmox/registry');
+
+    await expect(getProxmoxClient('missing')).rejects.toBeInstanceOf(UnknownServerError);
+  });
+
+  it('should read the server id from the query string or header', async () => {
+    const { getRequestServerId } = await import('../../lib/proxmox/registry');
+
+    expect(getRequestServerId(new Request('http://dash/api/proxmox/vms?serverId=srv-1'))).toBe('srv-1');
+    expect(getRequestServerId(new Request('http://dash/api/proxmox/vms', {
+      headers: { 'X-Proxmox-Server-Id': 'srv-2' },
+    }))).toBe('srv-2');
+    expect(getRequestServerId(new Request('http://dash/api/proxmox/vms'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnapshotTree } from '../../lib/proxmox/snapshots';
+import { validateSnapshotCreateRequest } from '../../lib/types';
+import type { Snapshot } from '../../lib/types';
+
+const snapshot = (name: string, parent?: string, snaptime?: number): Snapshot => ({
+  name,
+  parent,
+  snaptime,
+  vmstate: false,
+  current: name === 'current',
+});
+
+describe('snapshot tree', () => {
+  it('should nest snapshots under their parent with the current state last', () => {
+    const tree = buildSnapshotTree([
+      snapshot('current', 'base'),
+      snapshot('branch-b', 'base', 300),
+      snapshot('base', undefined, 100),
+      snapshot('branch-a', 'base', 200),
+      snapshot('child', 'branch-a', 400),
+    ]);
+
+    expect(tree.map((node) => node.name)).toEqual(['base']);
+    expect(tree[0].children.map((node) => node.name)).toEqual(['branch-a', 'branch-b', 'current']);
+    expect(tree[0].children[0].children.map((node) => node.name)).toEqual(['child']);
+  });
+
+  it('should keep snapshots with a missing parent as roots', () => {
+    const tree = buildSnapshotTree([snapshot('orphan', 'deleted', 100), snapshot('current')]);
+    expect(tree.map((node) => node.name)).toEqual(['orphan', 'current']);
+  });
+
+  it('should validate snapshot names', () => {
+    expect(validateSnapshotCreateRequest({ node: 'pve-1', name: 'pre-upgrade' })).toEqual({ node: 'pve-1', name: 'pre-upgrade', vmstate: false });
+    expect(() => validateSnapshotCreateRequest({ node: 'pve-1', name: 'current' })).toThrow();
+    expect(() => validateSnapshotCreateRequest({ node: 'pve-1', name: '1st' })).toThrow();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseUpid, isTaskSuccessful, TaskTracker, tailTaskLog, type TaskLogEvent } from '../../lib/proxmox/tasks';
+import type { ProxmoxClient } from '../../lib/proxmox/client';
+import type { TaskStatus } from '../../lib/types';
+
+const UPID = 'UPID:pve-1:0000A1B2:00C3D4E5:66F0A000:qmstart:100:root@pam:';
+
+function clientWith(getTaskStatus: ProxmoxClient['getTaskStatus']) {
+  return { getTaskStatus } as unknown as ProxmoxClient;
+}
+
+function status(partial: Partial<TaskStatus>): TaskStatus {
+  return { upid: UPID, node: 'pve-1', type: 'qmstart', status: 'running', startTime: 1, ...partial };
+}
+
+describe('parseUpid', () => {
+  it('should decode node, type, id, user and start time', () => {
+    expect(parseUpid(UPID)).toEqual({
+      upid: UPID,
+      node: 'pve-1',
+      pid: 0xa1b2,
+      pstart: 0xc3d4e5,
+      startTime: 0x66f0a000 * 1000,
+      type: 'qmstart',
+      id: '100',
+      user: 'root@pam',
+    });
+  });
+
+  it('should keep API token users intact', () => {
+    expect(parseUpid('UPID:pve-1:00000001:00000002:66F0A000:vzdump::root@pam!dash:')?.user).toBe('root@pam!dash');
+  });
+
+  it('should reject malformed ids', () => {
+    expect(parseUpid('not-a-upid')).toBeNull();
+    expect(parseUpid('UPID:pve-1:1')).toBeNull();
+  });
+});
+
+describe('isTaskSuccessful', () => {
+  it('should accept OK and WARNINGS exit statuses only once stopped', () => {
+    expect(isTaskSuccessful(status({ status: 'stopped', exitstatus: 'OK' }))).toBe(true);
+    expect(isTaskSuccessful(status({ status: 'stopped', exitstatus: 'WARNINGS: 2' }))).toBe(true);
+    expect(isTaskSuccessful(status({ status: 'stopped', exitstatus: 'VM 100 already running' }))).toBe(false);
+    expect(isTaskSuccessful(status({ status: 'running' }))).toBe(false);
+  });
+});
+
+describe('TaskTracker', () => {
+  it('should poll until the task stops', async () => {
+    const getTaskStatus = vi.fn()
+      .mockResolvedValueOnce(status({}))
+      .mockResolvedValueOnce(status({ status: 'stopped', exitstatus: 'OK' }));
+    const tracker = new TaskTracker({ pollIntervalMs: 1 });
+
+    const final = await tracker.track(clientWith(getTaskStatus), UPID);
+
+    expect(getTaskStatus).toHaveBeenCalledWith('pve-1', UPID);
+    expect(getTaskStatus).toHaveBeenCalledTimes(2);
+    expect(final.exitstatus).toBe('OK');
+    expect(tracker.get(UPID)?.status).toBe('stopped');
+  });
+
+  it('should share one polling loop per UPID', async () => {
+    const getTaskStatus = vi.fn().mockResolvedValue(status({ status: 'stopped', exitstatus: 'OK' }));
+    const tracker = new TaskTracker({ pollIntervalMs: 1 });
+    const client = clientWith(getTaskStatus);
+
+    await Promise.all([tracker.track(client, UPID), tracker.track(client, UPID)]);
+    expect(getTaskStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the same UPID on two servers apart', async () => {
+    const tracker = new TaskTracker({ pollIntervalMs: 1 });
+    const defaultServer = clientWith(vi.fn().mockResolvedValue(status({ status: 'stopped', exitstatus: 'OK' })));
+    const lab = clientWith(vi.fn().mockResolvedValue(status({ status: 'stopped', exitstatus: 'VM 100 not running' })));
+
+    await Promise.all([tracker.track(defaultServer, UPID), tracker.track(lab, UPID, 'lab')]);
+
+    expect(tracker.get(UPID)?.exitstatus).toBe('OK');
+    expect(tracker.get(UPID, 'lab')?.exitstatus).toBe('VM 100 not running');
+  });
+
+  it('should return the running status when waiting times out', async () => {
+    const getTaskStatus = vi.fn().mockResolvedValue(status({}));
+    const tracker = new TaskTracker({ pollIntervalMs: 5, maxTrackMs: 50 });
+
+    const task = await tracker.wait(clientWith(getTaskStatus), UPID, 10);
+    expect(task.status).toBe('running');
+  });
+
+  it('should give up after repeated polling errors', async () => {
+    const getTaskStatus = vi.fn().mockRejectedValue(new Error('HTTP 500'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const tracker = new TaskTracker({ pollIntervalMs: 1, maxConsecutiveErrors: 2 });
+
+    const task = await tracker.track(clientWith(getTaskStatus), UPID);
+
+    expect(task.status).toBe('running');
+    expect(tracker.getError(UPID)).toBe('HTTP 500');
+    warn.mockRestore();
+  });
+});
+
+describe('tailTaskLog', () => {
+  it('should yield only new lines and end once the task stops', async () => {
+    const getTaskStatus = vi.fn()
+      .mockResolvedValueOnce(status({}))
+      .mockResolvedValueOnce(status({ status: 'stopped', exitstatus: 'OK', endTime: 2 }));
+    const getTaskLog = vi.fn()
+      .mockResolvedValueOnce([{ n: 1, t: 'starting' }])
+      .mockResolvedValueOnce([{ n: 2, t: 'TASK OK' }]);
+    const client = { getTaskStatus, getTaskLog } as unknown as ProxmoxClient;
+
+    const events: TaskLogEvent[] = [];
+    for await (const event of tailTaskLog(client, 'pve-1', UPID, { pollIntervalMs: 1 })) {
+      events.push(event);
+    }
+
+    expect(events.map((e) => e.type)).toEqual(['log', 'task', 'log', 'task', 'end']);
+    expect(getTaskLog).toHaveBeenLastCalledWith('pve-1', UPID, 1, 500, undefined);
+  });
+});
+
+describe('getTaskTracker', () => {
+  it('should share one tracker between separately loaded module instances', async () => {
+    vi.resetModules();
+    const actionRoute = await import('../../lib/proxmox/tasks');
+    vi.resetModules();
+    const statusRoute = await import('../../lib/proxmox/tasks');
+
+    expect(statusRoute).not.toBe(actionRoute);
+    expect(statusRoute.getTaskTracker()).toBe(actionRoute.getTaskTracker());
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { diffVmConfig, toConfigDraft, toConfigUpdate } from '../../lib/proxmox/vmConfig';
+import { validateVmConfig, validateVmConfigUpdateRequest } from '../../lib/types';
+
+const config = validateVmConfig({
+  vmid: 100,
+  node: 'pve-1',
+  type: 'qemu',
+  cores: 2,
+  memory: 2048,
+  balloon: 1024,
+  disks: [],
+  nics: [],
+  bootOrder: [],
+  description: 'Web frontend',
+  tags: ['prod'],
+  onboot: true,
+  digest: 'abc123',
+});
+
+describe('guest configuration changes', () => {
+  it('should list nothing for an untouched draft', () => {
+    expect(diffVmConfig(config, toConfigDraft(config))).toEqual([]);
+  });
+
+  it('should diff edited settings and send only those', () => {
+    const draft = { ...toConfigDraft(config), memory: 4096, description: '  ', tags: ['prod', 'web'], balloon: undefined };
+
+    expect(diffVmConfig(config, draft)).toEqual([
+      { field: 'memory', label: 'Memory', from: '2048 MiB', to: '4096 MiB' },
+      { field: 'description', label: 'Description', from: 'Web frontend', to: '(none)' },
+      { field: 'tags', label: 'Tags', from: 'prod', to: 'prod, web' },
+    ]);
+    expect(toConfigUpdate(config, draft)).toEqual({ digest: 'abc123', memory: 4096, description: '', tags: ['prod', 'web'] });
+  });
+
+  it('should validate updates', () => {
+    expect(() => validateVmConfigUpdateRequest({ node: 'pve-1', digest: 'abc123' })).toThrow('At least one setting must change');
+    expect(() => validateVmConfigUpdateRequest({ node: 'pve-1', memory: 1024, balloon: 2048 })).toThrow('cannot exceed memory');
+    expect(() => validateVmConfigUpdateRequest({ node: 'pve-1', tags: ['bad tag'] })).toThrow('Tags use');
+    expect(validateVmConfigUpdateRequest({ node: 'pve-1', onboot: false })).toEqual({ node: 'pve-1', onboot: false });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZodError } from 'zod';
+import { FileServerRepository } from '../../lib/services/fileServerRepository';
+import { normaliseServerDocument } from '../../lib/services/serverMigration';
+import { isSealedSecret, openSecret } from '../../lib/services/serverSecrets';
+
+describe('normaliseServerDocument', () => {
+  it('should normalise legacy documents', () => {
+    const record = normaliseServerDocument('a', {
+      host: 'https://pve.lab:8007/',
+      username: ' root@pam!dash ',
+      tokenSecret: 's3cret',
+      insecureTLS: 'true',
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    expect(record).toEqual({
+      id: 'a',
+      host: 'pve.lab',
+      port: 8007,
+      username: 'root@pam!dash',
+      token: expect.any(String),
+      insecureTLS: true,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+    expect(isSealedSecret(record.token)).toBe(true);
+    expect(openSecret(record.token!)).toBe('s3cret');
+  });
+
+  it('should reject documents without a host', () => {
+    expect(() => normaliseServerDocument('b', { username: 'root@pam' })).toThrow(ZodError);
+  });
+});
+
+describe('FileServerRepository', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'servers-'));
+    file = path.join(dir, 'nested', 'servers.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create, update and delete servers', async () => {
+    const repository = new FileServerRepository(file);
+
+    const created = await repository.create({ host: 'pve.lab', port: '8006', username: 'root@pam', token: 't' });
+    expect(created).toMatchObject({ host: 'pve.lab', port: 8006, insecureTLS: false });
+
+    const updated = await repository.update(created.id, { name: 'Lab' });
+    expect(updated).toMatchObject({ id: created.id, name: 'Lab', port: 8006 });
+    expect(await repository.update('missing', { name: 'x' })).toBeNull();
+
+    // A fresh instance reads what was persisted
+    expect(await new FileServerRepository(file).list()).toEqual([updated]);
+
+    expect(await repository.delete(created.id)).toBe(true);
+    expect(await repository.delete(created.id)).toBe(false);
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('should not write back stale copies of changes made by another process', async () => {
+    const dashboard = new FileServerRepository(file);
+    const lab = await dashboard.create({ host: 'pve.lab', username: 'root@pam', token: 't' });
+    const prod = await dashboard.create({ host: 'pve.prod', username: 'root@pam', token: 't' });
+
+    // e.g. the secrets rotation script, running next to the dashboard
+    const rotated = await new FileServerRepository(file).update(lab.id, { name: 'Rotated' });
+    await dashboard.update(prod.id, { name: 'Production' });
+
+    const servers = await new FileServerRepository(file).list();
+    expect(servers.find((server) => server.id === lab.id)).toEqual(rotated);
+    expect(servers.find((server) => server.id === prod.id)?.name).toBe('Production');
+  });
+
+  it('should reject invalid input', async () => {
+    const repository = new FileServerRepository(file);
+
+    await expect(repository.create({ host: 'pve.lab' })).rejects.toBeInstanceOf(ZodError);
+    await expect(repository.create({ host: 'pve.lab', username: 'root@pam', port: 70000 })).rejects.toBeInstanceOf(ZodError);
+    await expect(repository.create({ host: 'pve.lab', username: 'root@pam', extra: true })).rejects.toBeInstanceOf(ZodError);
+    await expect(repository.update('x', {})).rejects.toBeInstanceOf(ZodError);
+  });
+
+  it('should migrate a legacy file and keep unrepairable entries', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify([
+      { id: '1', host: 'pve1.lab:8007', username: 'root@pam', port: '' },
+      { id: '2', username: 'root@pam' },
+    ]));
+
+    const repository = new FileServerRepository(file);
+    const report = await repository.migrate();
+
+    expect(report).toMatchObject({ migrated: 1, unchanged: 0, invalid: [{ id: '2' }] });
+    expect(await repository.list()).toMatchObject([{ id: '1', host: 'pve1.lab', port: 8007 }]);
+
+    const stored = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(stored.version).toBe(1);
+    expect(stored.invalid).toEqual([{ id: '2', username: 'root@pam' }]);
+
+    // Running it again is a no-op
+    expect(await repository.migrate()).toMatchObject({ migrated: 0, unchanged: 1 });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const OLD_KEY = Buffer.alloc(32, 1).toString('base64');
+const NEW_KEY = Buffer.alloc(32, 2).toString('hex');
+
+const testEnv: Record<string, string | undefined> = {};
+
+vi.mock('../../env/index', () => ({
+  env: { get: () => testEnv },
+}));
+
+describe('serverSecrets', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    testEnv.SECRETS_MASTER_KEY = OLD_KEY;
+    testEnv.SECRETS_PREVIOUS_KEYS = undefined;
+    testEnv.NODE_ENV = undefined;
+  });
+
+  it('should seal and open secrets with a fresh data key each time', async () => {
+    const { sealSecret, openSecret, isSealedSecret } = await import('../../lib/services/serverSecrets');
+
+    const first = sealSecret('s3cret');
+    const second = sealSecret('s3cret');
+
+    expect(isSealedSecret(first)).toBe(true);
+    expect(first).not.toContain('s3cret');
+    expect(first).not.toBe(second);
+    expect(sealSecret(first)).toBe(first);
+    expect(openSecret(first)).toBe('s3cret');
+    expect(openSecret('legacy-plaintext')).toBe('legacy-plaintext');
+  });
+
+  it('should reject tampered envelopes and unknown keys', async () => {
+    const { sealSecret, openSecret, resetSecretKeys } = await import('../../lib/services/serverSecrets');
+    const sealed = sealSecret('s3cret');
+
+    const tampered = sealed.slice(0, -2) + (sealed.endsWith('AA') ? 'AB' : 'AA');
+    expect(() => openSecret(tampered)).toThrow();
+
+    testEnv.SECRETS_MASTER_KEY = NEW_KEY;
+    resetSecretKeys();
+    expect(() => openSecret(sealed)).toThrow(/No master key available/);
+  });
+
+  it('should require a master key in production only once a secret is used', async () => {
+    const { sealSecret, openSecret } = await import('../../lib/services/serverSecrets');
+    testEnv.SECRETS_MASTER_KEY = undefined;
+    testEnv.NODE_ENV = 'production';
+
+    expect(openSecret('legacy-plaintext')).toBe('legacy-plaintext');
+    expect(() => sealSecret('s3cret')).toThrow(/SECRETS_MASTER_KEY is not set/);
+  });
+
+  it('should redact secrets and ignore echoed placeholders', async () => {
+    const { redactServerSecrets, stripRedactedSecrets, REDACTED_SECRET } = await import('../../lib/services/serverSecrets');
+
+    expect(redactServerSecrets({ host: 'pve.lab', token: 'enc:v1:x', password: undefined })).toEqual({
+      host: 'pve.lab',
+      token: REDACTED_SECRET,
+      password: undefined,
+    });
+    expect(stripRedactedSecrets({ name: 'Lab', token: REDACTED_SECRET, password: 'new' })).toEqual({
+      name: 'Lab',
+      password: 'new',
+    });
+  });
+
+  describe('rotation', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'secrets-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should re-encrypt stored servers with the new master key', async () => {
+      const file = path.join(dir, 'servers.json');
+      const { FileServerRepository } = await import('../../lib/services/fileServerRepository');
+      const secrets = await import('../../lib/services/serverSecrets');
+
+      const created = await new FileServerRepository(file).create({
+        host: 'pve.lab',
+        username: 'root@pam',
+        token: 'tok',
+        password: 'pw',
+      });
+      expect(await fs.readFile(file, 'utf8')).not.toContain('"tok"');
+
+      testEnv.SECRETS_MASTER_KEY = NEW_KEY;
+      testEnv.SECRETS_PREVIOUS_KEYS = OLD_KEY;
+      secrets.resetSecretKeys();
+
+      const repository = new FileServerRepository(file);
+      expect(await secrets.rotateServerSecrets(repository)).toEqual({ rotated: 1, unchanged: 0, failed: [] });
+      expect(await secrets.rotateServerSecrets(repository)).toEqual({ rotated: 0, unchanged: 1, failed: [] });
+
+      // The old key is no longer needed
+      testEnv.SECRETS_PREVIOUS_KEYS = undefined;
+      secrets.resetSecretKeys();
+      const [server] = await repository.list();
+      expect(server.id).toBe(created.id);
+      expect(secrets.openServerSecrets(server)).toMatchObject({ token: 'tok', password: 'pw' });
+    });
+  });
+});
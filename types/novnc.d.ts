@@ -0,0 +1,5 @@
+// noVNC exports its RFB client as the package entry; @types/novnc__novnc still
+// declares it under the former lib/rfb path
+declare module "@novnc/novnc" {
+  export { default } from "@novnc/novnc/lib/rfb";
+}